@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback } from 'react';
 import ReactFlow, {
   Background,
   Controls,
@@ -13,20 +13,13 @@ import ReactFlow, {
   ReactFlowProvider,
 } from 'reactflow';
 
-import { LoadPSDNode } from './components/LoadPSDNode';
-import { TargetTemplateNode } from './components/TargetTemplateNode';
-import { TargetSplitterNode } from './components/TargetSplitterNode';
-import { DesignInfoNode } from './components/DesignInfoNode';
-import { TemplateSplitterNode } from './components/TemplateSplitterNode';
-import { ContainerResolverNode } from './components/ContainerResolverNode';
-import { RemapperNode } from './components/RemapperNode';
-import { DesignAnalystNode } from './components/DesignAnalystNode'; 
-import { ExportPSDNode } from './components/ExportPSDNode';
-import { KnowledgeNode } from './components/KnowledgeNode'; 
-import { DesignReviewerNode } from './components/DesignReviewerNode'; 
+import { NODE_TYPES } from './components/nodeTypes';
+import { ConnectionFeedbackLine } from './components/ConnectionFeedbackLine';
 import { ProjectControls } from './components/ProjectControls';
 import { PSDNodeData } from './types';
 import { ProceduralStoreProvider } from './store/ProceduralContext';
+import { useGraphHistory } from './hooks/useGraphHistory';
+import { validateConnection } from './services/connectionRegistry';
 
 const initialNodes: Node<PSDNodeData>[] = [
   {
@@ -47,6 +40,12 @@ const initialNodes: Node<PSDNodeData>[] = [
     position: { x: 650, y: 50 },
     data: { fileName: null, template: null, validation: null, designLayers: null },
   },
+  {
+    id: 'node-template-spec-1',
+    type: 'templateSpec',
+    position: { x: 650, y: -520 }, // Alternative target: wire into the splitter instead of the PSD template
+    data: { fileName: null, template: null, validation: null, designLayers: null },
+  },
   {
     id: 'node-2',
     type: 'designInfo',
@@ -113,6 +112,12 @@ const initialNodes: Node<PSDNodeData>[] = [
     type: 'exportPsd',
     position: { x: 2300, y: 400 }, // Shifted right to accommodate reviewer flow
     data: { fileName: null, template: null, validation: null, designLayers: null },
+  },
+  {
+    id: 'node-preview-1',
+    type: 'canvasPreview',
+    position: { x: 2300, y: 800 }, // Below export: shares its template + reviewer inputs
+    data: { fileName: null, template: null, validation: null, designLayers: null },
   }
 ];
 
@@ -132,100 +137,21 @@ const initialEdges: Edge[] = [
 const App: React.FC = () => {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+  const history = useGraphHistory(nodes, edges, setNodes, setEdges);
+
+  // Drag-time check: React Flow marks the hovered handle valid/invalid from this
+  const isValidConnection = useCallback(
+    (connection: Connection) => validateConnection(connection, nodes).valid,
+    [nodes]
+  );
 
   const onConnect = useCallback(
     (params: Connection) => {
-      // 1. Validation Logic
-      // Resolve source and target nodes to check their types
-      const sourceNode = nodes.find((n) => n.id === params.source);
-      const targetNode = nodes.find((n) => n.id === params.target);
-
-      if (sourceNode && targetNode) {
-        // Target Splitter Validation Rules
-        if (targetNode.type === 'targetSplitter') {
-          // Check if connecting to the Template Input handle
-          if (params.targetHandle === 'template-input') {
-             // Constraint: Template Input expects a TargetTemplateNode
-             if (sourceNode.type !== 'targetTemplate') {
-               console.warn("Invalid Connection: Target Splitter 'Template Input' requires a Target Template source.");
-               return;
-             }
-          }
-          // Note: Target Splitter Slots can connect to DesignAnalyst OR Remapper
-        }
-        
-        // Remapper Validation Rules (Dynamic Multi-Instance)
-        if (targetNode.type === 'remapper') {
-            const handle = params.targetHandle || '';
-            
-            // Allow dynamic Target Template Slots
-            if (handle.startsWith('target-in-')) {
-                 // Remapper accepts Target Splitter OR Design Analyst (Proxy)
-                 if (sourceNode.type !== 'targetSplitter' && sourceNode.type !== 'designAnalyst') {
-                     console.warn("Remapper 'Target' input requires a Target Splitter or Design Analyst.");
-                     return;
-                 }
-            } 
-            // Allow dynamic Content Sources
-            else if (handle.startsWith('source-in-')) {
-                 // Remapper accepts Container Resolver OR Design Analyst (Proxy)
-                 if (sourceNode.type !== 'containerResolver' && sourceNode.type !== 'designAnalyst') {
-                     console.warn("Remapper 'Source' input requires a Container Resolver or Design Analyst.");
-                     return;
-                 }
-            }
-        }
-
-        // Design Analyst Validation Rules
-        if (targetNode.type === 'designAnalyst') {
-            const handle = params.targetHandle || '';
-
-            if (handle === 'knowledge-in') {
-                if (sourceNode.type !== 'knowledge') {
-                    console.warn("Design Analyst 'Knowledge' input requires a Knowledge Node source.");
-                    return;
-                }
-            } else if (handle.startsWith('source-in')) {
-                if (sourceNode.type !== 'containerResolver') {
-                    console.warn("Design Analyst 'Source' requires a Container Resolver.");
-                    return;
-                }
-            } else if (handle.startsWith('target-in')) {
-                if (sourceNode.type !== 'targetSplitter') {
-                    console.warn("Design Analyst 'Target' requires a Target Splitter.");
-                    return;
-                }
-            }
-        }
-
-        // Design Reviewer Validation Rules (NEW)
-        if (targetNode.type === 'designReviewer') {
-            const handle = params.targetHandle || '';
-
-            if (handle.startsWith('payload-in')) {
-                // Accepts output from Remapper OR Container Resolver (Direct Bridge Exception)
-                if (sourceNode.type !== 'remapper' && sourceNode.type !== 'containerResolver') {
-                    console.warn("Reviewer 'Payload Input' requires a Remapper or Container Resolver source.");
-                    return;
-                }
-            } else if (handle.startsWith('target-in')) {
-                // Accepts Target Splitter (context definition)
-                if (sourceNode.type !== 'targetSplitter') {
-                    console.warn("Reviewer 'Target Input' requires a Target Splitter.");
-                    return;
-                }
-            }
-        }
-
-        // Export Node Validation Update (PHASE 4: STRICT GATE)
-        if (targetNode.type === 'exportPsd' && params.targetHandle?.startsWith('input-')) {
-            // STRICT PRODUCTION GATE: Only accept DesignReviewer
-            if (sourceNode.type !== 'designReviewer') {
-                console.error(`[PIPELINE VIOLATION] Export Gate Locked. Input must come from 'DesignReviewer'. Attempted source: ${sourceNode.type}`);
-                alert("⛔ PIPELINE ENFORCEMENT: The Export Node strictly requires a 'Design Reviewer' connection. Direct connections from Remapper or Resolvers are prohibited in Production Mode.");
-                return;
-            }
-        }
+      // 1. Validation Logic (port types declared in the connection registry)
+      const check = validateConnection(params, nodes);
+      if (!check.valid) {
+        console.warn(`Invalid Connection: ${check.reason}`);
+        return;
       }
 
       // 2. Apply Connection
@@ -233,11 +159,7 @@ const App: React.FC = () => {
         // Logic: Ensure only one edge connects to any given target handle.
         // Intercept connection and remove any existing edge on the specific target handle.
         const targetHandle = params.targetHandle || null;
-        
-        // Exception: Export Node Assembly Input allows multiple connections
-        const isMultiInput = targetNode?.type === 'exportPsd' && targetHandle === 'assembly-input';
-
-        const cleanEdges = isMultiInput ? eds : eds.filter((edge) => {
+        const cleanEdges = eds.filter((edge) => {
           const edgeTargetHandle = edge.targetHandle || null;
           // Keep the edge if it targets a different node OR a different handle on the same node
           return edge.target !== params.target || edgeTargetHandle !== targetHandle;
@@ -249,21 +171,6 @@ const App: React.FC = () => {
     [nodes, setEdges]
   );
 
-  // Register custom node types
-  const nodeTypes = useMemo(() => ({
-    loadPsd: LoadPSDNode,
-    targetTemplate: TargetTemplateNode,
-    targetSplitter: TargetSplitterNode,
-    designInfo: DesignInfoNode,
-    templateSplitter: TemplateSplitterNode,
-    containerResolver: ContainerResolverNode,
-    remapper: RemapperNode,
-    designAnalyst: DesignAnalystNode, 
-    designReviewer: DesignReviewerNode,
-    exportPsd: ExportPSDNode,
-    knowledge: KnowledgeNode,
-  }), []);
-
   return (
     <ProceduralStoreProvider>
       <div className="w-screen h-screen bg-slate-900">
@@ -274,7 +181,9 @@ const App: React.FC = () => {
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
-            nodeTypes={nodeTypes}
+            isValidConnection={isValidConnection}
+            connectionLineComponent={ConnectionFeedbackLine}
+            nodeTypes={NODE_TYPES}
             fitView
             className="bg-slate-900"
           >
@@ -295,7 +204,7 @@ const App: React.FC = () => {
               </p>
             </div>
           </ReactFlow>
-          <ProjectControls />
+          <ProjectControls history={history} />
         </ReactFlowProvider>
       </div>
     </ProceduralStoreProvider>
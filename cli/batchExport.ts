@@ -0,0 +1,241 @@
+import { readFile, writeFile, readdir, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { createCanvas } from '@napi-rs/canvas';
+import { initializeCanvas, Psd } from 'ag-psd';
+import { ProjectExport } from '../types';
+import { parsePsdBuffer, serializePsd } from '../services/psdService';
+import { CanvasAdapter } from '../services/exportService';
+import { runPipeline } from '../services/pipelineEngine';
+import { migrateProject, ProjectMigrationError } from '../services/projectMigrationService';
+
+/**
+ * Batch Exporter CLI.
+ * Runs a saved project graph once per target template PSD in a folder and writes one PSD per target,
+ * plus a JSON summary report.
+ *
+ * Usage:
+ *   npm run batch -- --project project.json --source key-art.psd --targets ./templates --out ./export [--replay-ai]
+ *
+ * A bare --source binds every Load PSD node. Projects combining several source PSDs bind them per node:
+ *   --source node-1=background.psd --source node-logo=logo.psd
+ *
+ * Targets are retargeted with pure RemapStrategy geometry by default: persisted Analyst/Reviewer decisions
+ * hold absolute scales and offsets authored against the project's original target, so they are skipped
+ * (and listed in each target's diagnostics). --replay-ai applies them anyway, e.g. when every target
+ * shares the original layout. Analyst instances in solver mode always apply: their rules are re-solved
+ * for each target.
+ */
+
+interface TargetReport {
+  target: string;
+  status: 'success' | 'partial' | 'failed';
+  outputs: string[];
+  filledSlots: number;
+  totalSlots: number;
+  errors: string[];
+  diagnostics: string[];
+  durationMs: number;
+}
+
+const USAGE = 'Usage: npm run batch -- --project <project.json> --source <source.psd | nodeId=source.psd>... --targets <folder> --out <folder> [--replay-ai]';
+
+// ag-psd and the export service both need a canvas implementation outside the browser.
+// Layer coords are fractional after remapping, so export canvases are rounded to whole pixels.
+const nodeCanvasAdapter: CanvasAdapter = {
+  createCanvas: (width: number, height: number) => createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height))) as unknown as HTMLCanvasElement
+};
+
+// --- HELPER: File-system IO ---
+const readPsdFromDisk = async (filePath: string, skipLayerImageData = false): Promise<Psd> => {
+  const buffer = await readFile(filePath);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  return parsePsdBuffer(arrayBuffer, { skipLayerImageData });
+};
+
+const readProject = async (filePath: string): Promise<ProjectExport> => {
+  const raw = JSON.parse(await readFile(filePath, 'utf-8'));
+  try {
+    const { project, fromVersion, toVersion, changes } = migrateProject(raw);
+    if (fromVersion !== toVersion) {
+      console.log(`[Batch] Upgraded project ${fromVersion} -> ${toVersion} (${changes.length} change${changes.length === 1 ? '' : 's'})`);
+      changes.forEach(change => console.log(`          ~ [${change.version}]${change.nodeId ? ` ${change.nodeId}:` : ''} ${change.message}`));
+    }
+    return project;
+  } catch (e) {
+    if (e instanceof ProjectMigrationError) {
+      throw new Error([`Invalid project file '${filePath}': ${e.message}`, ...e.issues.map(issue => `  - ${issue}`)].join('\n'));
+    }
+    throw e;
+  }
+};
+
+interface SourceBinding {
+  nodeId: string | null; // Null binds every Load PSD node without an explicit binding
+  filePath: string;
+}
+
+const parseSourceArgs = (args: string[], project: ProjectExport): SourceBinding[] => {
+  const loadPsdIds = new Set(project.nodes.filter(n => n.type === 'loadPsd').map(n => n.id));
+  return args.map(arg => {
+    const separator = arg.indexOf('=');
+    if (separator <= 0) return { nodeId: null, filePath: arg };
+
+    const nodeId = arg.slice(0, separator);
+    if (!loadPsdIds.has(nodeId)) {
+      throw new Error(`--source '${arg}': project has no Load PSD node '${nodeId}'.`);
+    }
+    return { nodeId, filePath: arg.slice(separator + 1) };
+  });
+};
+
+interface BoundFile {
+  psd: Psd;
+  fileName: string; // Base name, compared with the file a node's template was edited from
+}
+
+/**
+ * Binds the binaries to the graph: every Load PSD node receives its bound source PSD
+ * (or the default source), every Target Template node receives the current target.
+ */
+const bindSources = (
+  project: ProjectExport,
+  sourcePsds: Map<string | null, BoundFile>,
+  target: BoundFile
+): { sources: Record<string, Psd>, sourceNames: Record<string, string> } => {
+  const sources: Record<string, Psd> = {};
+  const sourceNames: Record<string, string> = {};
+  const bind = (nodeId: string, file: BoundFile) => {
+    sources[nodeId] = file.psd;
+    sourceNames[nodeId] = file.fileName;
+  };
+  project.nodes.forEach(node => {
+    if (node.type === 'loadPsd') {
+      const file = sourcePsds.get(node.id) || sourcePsds.get(null);
+      if (file) bind(node.id, file);
+    }
+    if (node.type === 'targetTemplate') bind(node.id, target);
+  });
+  return { sources, sourceNames };
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      source: { type: 'string', multiple: true },
+      targets: { type: 'string' },
+      out: { type: 'string' },
+      'replay-ai': { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.project || !values.source?.length || !values.targets || !values.out) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  initializeCanvas((width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement);
+  const replayAi = !!values['replay-ai'];
+
+  const project = await readProject(values.project);
+  if (!project.nodes.some(n => n.type === 'targetTemplate')) {
+    throw new Error('Project has no Target Template node to bind target PSDs to.');
+  }
+
+  const sourcePsds = new Map<string | null, BoundFile>();
+  for (const binding of parseSourceArgs(values.source, project)) {
+    console.log(`[Batch] Parsing source ${binding.filePath}${binding.nodeId ? ` -> ${binding.nodeId}` : ''}...`);
+    sourcePsds.set(binding.nodeId, { psd: await readPsdFromDisk(binding.filePath), fileName: path.basename(binding.filePath) });
+  }
+
+  const targetFiles = (await readdir(values.targets))
+    .filter(name => name.toLowerCase().endsWith('.psd'))
+    .sort();
+  if (targetFiles.length === 0) {
+    throw new Error(`No .psd files found in '${values.targets}'.`);
+  }
+
+  await mkdir(values.out, { recursive: true });
+  const reports: TargetReport[] = [];
+
+  for (const fileName of targetFiles) {
+    const startedAt = Date.now();
+    const baseName = path.basename(fileName, path.extname(fileName));
+    const report: TargetReport = {
+      target: fileName,
+      status: 'failed',
+      outputs: [],
+      filledSlots: 0,
+      totalSlots: 0,
+      errors: [],
+      diagnostics: [],
+      durationMs: 0
+    };
+
+    try {
+      // Templates only contribute geometry; skip their pixels
+      const targetPsd = await readPsdFromDisk(path.join(values.targets, fileName), true);
+      const { sources, sourceNames } = bindSources(project, sourcePsds, { psd: targetPsd, fileName });
+      const result = runPipeline(project, sources, {
+        canvas: nodeCanvasAdapter,
+        sourceNames,
+        replayAiStrategies: replayAi
+      });
+
+      report.diagnostics = result.diagnostics;
+      if (result.exports.length === 0) {
+        report.errors.push('Project has no Export PSD node.');
+      }
+
+      for (const exported of result.exports) {
+        report.filledSlots += exported.filledSlots;
+        report.totalSlots += exported.totalSlots;
+        report.errors.push(...exported.errors);
+        if (!exported.psd) continue;
+
+        // Disambiguate only when a project holds several Export nodes
+        const suffix = result.exports.length > 1 ? `_${exported.nodeId}` : '';
+        const outputPath = path.join(values.out, `${baseName}${suffix}.psd`);
+        await writeFile(outputPath, new Uint8Array(serializePsd(exported.psd)));
+        report.outputs.push(outputPath);
+      }
+
+      if (report.outputs.length > 0) {
+        report.status = report.errors.length === 0 && report.filledSlots === report.totalSlots ? 'success' : 'partial';
+      }
+    } catch (e: any) {
+      report.errors.push(e.message || String(e));
+    }
+
+    report.durationMs = Date.now() - startedAt;
+    reports.push(report);
+    console.log(`[Batch] ${report.status.toUpperCase().padEnd(7)} ${fileName} (${report.filledSlots}/${report.totalSlots} slots, ${report.durationMs}ms)`);
+    report.errors.forEach(err => console.log(`          ! ${err}`));
+  }
+
+  const summary = {
+    project: values.project,
+    source: values.source,
+    replayAi,
+    timestamp: new Date().toISOString(),
+    totals: {
+      targets: reports.length,
+      success: reports.filter(r => r.status === 'success').length,
+      partial: reports.filter(r => r.status === 'partial').length,
+      failed: reports.filter(r => r.status === 'failed').length
+    },
+    targets: reports
+  };
+
+  const reportPath = path.join(values.out, 'batch-report.json');
+  await writeFile(reportPath, JSON.stringify(summary, null, 2));
+  console.log(`[Batch] ${summary.totals.success} success, ${summary.totals.partial} partial, ${summary.totals.failed} failed. Report: ${reportPath}`);
+
+  if (summary.totals.failed > 0) process.exitCode = 1;
+};
+
+main().catch(e => {
+  console.error(`[Batch] ${e.message || e}`);
+  process.exit(1);
+});
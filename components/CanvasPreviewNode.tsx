@@ -0,0 +1,292 @@
+import React, { memo, useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { Handle, Position, NodeProps, useEdges } from 'reactflow';
+import { TransformedLayer } from '../types';
+import { useProceduralStore } from '../store/ProceduralContext';
+import { getSemanticThemeObject } from '../services/psdService';
+import { resolveExportSlots } from '../services/exportService';
+import { compositeTargetCanvas } from '../services/compositorService';
+import { Eye, EyeOff, Frame, Maximize2, Sparkles } from 'lucide-react';
+
+const VIEWPORT_WIDTH = 360;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 8;
+
+// Helper: Load a data URI into a drawable image (generative drafts)
+const loadImage = (src: string): Promise<HTMLImageElement | null> => {
+    return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = src;
+    });
+};
+
+export const CanvasPreviewNode = memo(({ id }: NodeProps) => {
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 }); // Zoom relative to fit, pan in viewport px
+  const [showOutlines, setShowOutlines] = useState(true);
+  const [showGenerative, setShowGenerative] = useState(true);
+  const [previewAssets, setPreviewAssets] = useState<Map<string, HTMLImageElement>>(new Map());
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number, y: number } | null>(null);
+
+  const edges = useEdges();
+  const { psdRegistry, templateRegistry, payloadRegistry, reviewerRegistry, resolvedRegistry } = useProceduralStore();
+
+  // 1. Resolve Connected Target Template (same contract as Export)
+  const templateMetadata = useMemo(() => {
+    const edge = edges.find(e => e.target === id && e.targetHandle === 'template-input');
+    if (!edge) return null;
+    return templateRegistry[edge.source];
+  }, [edges, id, templateRegistry]);
+
+  const containers = templateMetadata?.containers || [];
+
+  // 2. Map Connections to Payloads (STRICT GATE LOGIC shared with Export)
+  const { slotConnections, validationErrors } = useMemo(
+    () => resolveExportSlots(edges, id, reviewerRegistry, payloadRegistry, resolvedRegistry),
+    [edges, id, payloadRegistry, reviewerRegistry, resolvedRegistry]
+  );
+
+  // 3. Fit-to-viewport scale (zoom is relative to this)
+  const fitScale = templateMetadata ? VIEWPORT_WIDTH / templateMetadata.canvas.width : 1;
+  const viewportHeight = templateMetadata ? Math.min(480, templateMetadata.canvas.height * fitScale) : 160;
+
+  // 4. Resolve generative drafts into images (Export uses the same previewUrl when confirmed)
+  useEffect(() => {
+    let cancelled = false;
+    const pending: Promise<void>[] = [];
+    const assets = new Map<string, HTMLImageElement>();
+
+    slotConnections.forEach(payload => {
+        if (!payload.previewUrl) return;
+        const collect = (layers: TransformedLayer[]) => {
+            layers.forEach(layer => {
+                if (layer.type === 'generative') {
+                    pending.push(loadImage(payload.previewUrl!).then(img => { if (img) assets.set(layer.id, img); }));
+                }
+                if (layer.children) collect(layer.children);
+            });
+        };
+        collect(payload.layers);
+    });
+
+    Promise.all(pending).then(() => { if (!cancelled) setPreviewAssets(assets); });
+    return () => { cancelled = true; };
+  }, [slotConnections]);
+
+  // 5. Live Composite
+  useEffect(() => {
+    const target = canvasRef.current;
+    if (!target || !templateMetadata) return;
+
+    const composite = compositeTargetCanvas(templateMetadata, slotConnections, psdRegistry, {
+        background: '#0f172a',
+        showGenerative,
+        assets: previewAssets
+    });
+
+    target.width = composite.width;
+    target.height = composite.height;
+    const ctx = target.getContext('2d');
+    if (ctx) ctx.drawImage(composite, 0, 0);
+  }, [templateMetadata, slotConnections, psdRegistry, showGenerative, previewAssets]);
+
+  // 6. Zoom / Pan Interaction (wheel zooms around the cursor)
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const rect = viewport.getBoundingClientRect();
+        const cursorX = e.clientX - rect.left;
+        const cursorY = e.clientY - rect.top;
+        setView(prev => {
+            const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev.zoom * (e.deltaY < 0 ? 1.1 : 1 / 1.1)));
+            const ratio = zoom / prev.zoom;
+            return {
+                zoom,
+                x: cursorX - (cursorX - prev.x) * ratio,
+                y: cursorY - (cursorY - prev.y) * ratio
+            };
+        });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [templateMetadata]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent) => {
+      dragRef.current = { x: e.clientX - view.x, y: e.clientY - view.y };
+      (e.target as HTMLElement).setPointerCapture(e.pointerId);
+  }, [view]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+      if (!dragRef.current) return;
+      const drag = dragRef.current;
+      setView(prev => ({ ...prev, x: e.clientX - drag.x, y: e.clientY - drag.y }));
+  }, []);
+
+  const handlePointerUp = useCallback(() => { dragRef.current = null; }, []);
+
+  const resetView = () => setView({ zoom: 1, x: 0, y: 0 });
+
+  const filledSlots = slotConnections.size;
+  const displayScale = fitScale * view.zoom;
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-cyan-500/60 overflow-hidden font-sans" style={{ width: VIEWPORT_WIDTH + 24 }}>
+
+      {/* Header Area */}
+      <div className="relative bg-slate-800/50 p-2 border-b border-slate-700">
+         <div className="flex items-center justify-between mb-2">
+             <div className="flex items-center space-x-2">
+                 <div className="p-1.5 bg-cyan-500/20 rounded-full border border-cyan-500/50">
+                     <Frame className="w-4 h-4 text-cyan-400" />
+                 </div>
+                 <div>
+                    <h3 className="text-sm font-bold text-slate-100 leading-none">Canvas Preview</h3>
+                    <span className="text-[10px] text-slate-400">Live Assembly</span>
+                 </div>
+             </div>
+             <div className="flex items-center space-x-1">
+                 <button
+                    onClick={() => setShowOutlines(v => !v)}
+                    className={`p-1 rounded border transition-colors ${showOutlines ? 'bg-cyan-900/40 border-cyan-500/50 text-cyan-300' : 'bg-slate-800 border-slate-600 text-slate-500'}`}
+                    title="Toggle container outlines"
+                 >
+                     {showOutlines ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                 </button>
+                 <button
+                    onClick={() => setShowGenerative(v => !v)}
+                    className={`p-1 rounded border transition-colors ${showGenerative ? 'bg-purple-900/40 border-purple-500/50 text-purple-300' : 'bg-slate-800 border-slate-600 text-slate-500'}`}
+                    title="Toggle generative layers"
+                 >
+                     <Sparkles className="w-3 h-3" />
+                 </button>
+                 <button
+                    onClick={resetView}
+                    className="p-1 rounded border bg-slate-800 border-slate-600 text-slate-400 hover:text-slate-200 transition-colors"
+                    title="Fit to view"
+                 >
+                     <Maximize2 className="w-3 h-3" />
+                 </button>
+             </div>
+         </div>
+
+         <div className="relative pl-4 py-1 flex items-center justify-between">
+             <Handle
+               type="target"
+               position={Position.Left}
+               id="template-input"
+               className="!w-3 !h-3 !-left-1.5 !bg-emerald-500 !border-2 !border-slate-800"
+               title="Target Template Definition"
+             />
+             <span className={`text-xs font-mono ${templateMetadata ? 'text-emerald-400' : 'text-slate-500 italic'}`}>
+                {templateMetadata ? `${templateMetadata.canvas.width}x${templateMetadata.canvas.height} px` : 'Connect Template...'}
+             </span>
+             <span className="text-[9px] font-mono text-slate-500">{Math.round(view.zoom * 100)}%</span>
+         </div>
+      </div>
+
+      {/* Slot Inputs */}
+      {containers.length > 0 && (
+          <div className="bg-slate-900 px-2 pt-2 space-y-1">
+              {containers.map(container => {
+                  const isFilled = slotConnections.has(container.name);
+                  return (
+                      <div key={container.id} className="relative flex items-center justify-between py-0.5 pl-4 pr-1">
+                          <Handle
+                            type="target"
+                            position={Position.Left}
+                            id={`input-${container.name}`}
+                            className={`!w-2.5 !h-2.5 !-left-1 !border-2 transition-colors duration-200 ${isFilled ? '!bg-cyan-500 !border-white' : '!bg-slate-700 !border-slate-500'}`}
+                            title={`Input for ${container.name}`}
+                          />
+                          <span className={`text-[10px] truncate ${isFilled ? 'text-cyan-200' : 'text-slate-500'}`}>{container.name}</span>
+                          <span className="text-[9px] text-slate-600 font-mono">{isFilled ? 'LIVE' : 'Empty'}</span>
+                      </div>
+                  );
+              })}
+          </div>
+      )}
+
+      {/* Viewport */}
+      <div className="p-3">
+          {!templateMetadata ? (
+              <div className="text-[10px] text-slate-500 text-center py-8 border border-dashed border-slate-800 rounded">
+                  Waiting for Target Template...
+              </div>
+          ) : (
+              <div
+                ref={viewportRef}
+                className="nodrag nowheel relative bg-black/60 border border-slate-700 rounded overflow-hidden cursor-grab active:cursor-grabbing"
+                style={{ width: VIEWPORT_WIDTH, height: viewportHeight }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onDoubleClick={resetView}
+              >
+                  <div
+                    className="absolute top-0 left-0 origin-top-left"
+                    style={{
+                        width: templateMetadata.canvas.width,
+                        height: templateMetadata.canvas.height,
+                        transform: `translate(${view.x}px, ${view.y}px) scale(${displayScale})`
+                    }}
+                  >
+                      <canvas ref={canvasRef} className="absolute inset-0 pointer-events-none" />
+
+                      {/* Container Outline Overlays */}
+                      {showOutlines && containers.map((container, index) => {
+                          const theme = getSemanticThemeObject(container.originalName, index);
+                          // Empty slots are tinted so gaps in the assembly stand out
+                          return (
+                          <div
+                            key={container.id}
+                            className={`absolute border-dashed pointer-events-none ${theme.border} ${slotConnections.has(container.name) ? '' : theme.bg}`}
+                            style={{
+                                left: container.bounds.x,
+                                top: container.bounds.y,
+                                width: container.bounds.w,
+                                height: container.bounds.h,
+                                borderWidth: 2 / displayScale
+                            }}
+                          >
+                              <div
+                                className="absolute top-0 left-0 px-1 bg-black/60 text-white whitespace-nowrap leading-none"
+                                style={{ fontSize: 9 / displayScale, padding: `${2 / displayScale}px ${4 / displayScale}px` }}
+                              >
+                                  {container.name}
+                              </div>
+                          </div>
+                          );
+                      })}
+                  </div>
+              </div>
+          )}
+      </div>
+
+      {/* Footer */}
+      <div className="px-3 pb-3">
+          <div className="flex justify-between text-[10px] text-slate-400 font-mono border-t border-slate-700 pt-2">
+              <span>PREVIEW STATUS</span>
+              <span className={filledSlots > 0 ? 'text-cyan-400 font-bold' : 'text-slate-500'}>
+                  {filledSlots} / {containers.length} SLOTS
+              </span>
+          </div>
+          {validationErrors.length > 0 && (
+               <div className="mt-2 p-2 bg-orange-900/30 border border-orange-800/50 rounded space-y-1">
+                   {validationErrors.map((err, i) => (
+                       <div key={i} className="text-[9px] text-orange-200 flex items-start space-x-1">
+                           <span className="font-bold text-orange-500 shrink-0">!</span>
+                           <span className="leading-tight">{err}</span>
+                       </div>
+                   ))}
+               </div>
+          )}
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ConnectionLineComponentProps, getBezierPath, useStore, ReactFlowState } from 'reactflow';
+import { validateConnection, getNodePorts, findPort } from '../services/connectionRegistry';
+
+const selectStart = (s: ReactFlowState) => s.connectionStartHandle;
+const selectEnd = (s: ReactFlowState) => s.connectionEndHandle;
+const selectGetNodes = (s: ReactFlowState) => s.getNodes;
+
+/**
+ * Drag-time connection line. Labels the dragged data type and, while hovering a handle,
+ * turns green/red with the registry's reason for rejecting the connection.
+ */
+export const ConnectionFeedbackLine = ({
+  fromX, fromY, toX, toY, fromPosition, toPosition, connectionStatus
+}: ConnectionLineComponentProps) => {
+  const start = useStore(selectStart);
+  const end = useStore(selectEnd);
+  const getNodes = useStore(selectGetNodes);
+  const nodes = getNodes();
+
+  // 1. Type being dragged (from either end of the prospective edge)
+  let label: string | null = null;
+  if (start) {
+    const startNode = nodes.find(n => n.id === start.nodeId);
+    const ports = getNodePorts(startNode?.type);
+    const port = ports ? findPort(start.type === 'source' ? ports.outputs : ports.inputs, start.handleId) : null;
+    if (port) label = port.type || port.accepts?.join(' | ') || null;
+  }
+
+  // 2. Hover verdict (start may be a target handle when dragging backwards)
+  let reason: string | undefined;
+  if (start && end) {
+    const [source, target] = start.type === 'source' ? [start, end] : [end, start];
+    const check = validateConnection(
+      { source: source.nodeId, sourceHandle: source.handleId, target: target.nodeId, targetHandle: target.handleId },
+      nodes
+    );
+    if (!check.valid) reason = check.reason;
+  }
+
+  const [path] = getBezierPath({
+    sourceX: fromX, sourceY: fromY, sourcePosition: fromPosition,
+    targetX: toX, targetY: toY, targetPosition: toPosition,
+  });
+
+  const color = connectionStatus === 'valid' ? '#34d399' : connectionStatus === 'invalid' ? '#f87171' : '#94a3b8';
+  const text = reason || label;
+
+  return (
+    <g>
+      <path d={path} fill="none" stroke={color} strokeWidth={2} strokeDasharray={connectionStatus === 'invalid' ? '6 4' : undefined} />
+      <circle cx={toX} cy={toY} r={4} fill={color} />
+      {text && (
+        <foreignObject x={toX + 10} y={toY + 8} width={260} height={48} style={{ overflow: 'visible', pointerEvents: 'none' }}>
+          <div
+            className={`inline-block text-[10px] font-mono px-1.5 py-0.5 rounded border shadow ${
+              reason ? 'bg-red-950/90 border-red-700 text-red-200' : 'bg-slate-900/90 border-slate-600 text-slate-200'
+            }`}
+          >
+            {text}
+          </div>
+        </foreignObject>
+      )}
+    </g>
+  );
+};
@@ -1,9 +1,11 @@
-import React, { memo, useMemo, useEffect, useCallback } from 'react';
+import React, { memo, useMemo, useEffect, useCallback, useState } from 'react';
 import { Handle, Position, NodeProps, useNodes, useEdges, Node, useReactFlow } from 'reactflow';
-import { PSDNodeData } from '../types';
+import { PSDNodeData, ResolverMatchRule, ResolverMatchRuleKind } from '../types';
 import { createContainerContext } from '../services/psdService';
 import { usePsdResolver, ResolverStatus } from '../hooks/usePsdResolver';
+import { buildMappingContext, findPsdSourceNodeId, describeResolverMatch, validateMatchRule } from '../services/resolverService';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { ArrowDown, ArrowUp, ListFilter, Plus, Trash2 } from 'lucide-react';
 
 interface ChannelState {
   index: number;
@@ -12,12 +14,131 @@ interface ChannelState {
   layerCount: number;
   message?: string;
   debugCode?: ResolverStatus;
+  matchLabel?: string; // Which matching step found the layer (when not an exact name match)
+  sourceNodeId?: string; // Load PSD node this channel is wired to
+  sourceFileName?: string | null;
   resolvedContext?: any;
 }
 
+const NO_RULES: ResolverMatchRule[] = [];
+
+const RULE_PLACEHOLDERS: Record<ResolverMatchRuleKind, string> = {
+  alias: 'Symbole',
+  glob: '{name}_v*',
+  regex: '^{name}( copy)?( \\d+)?$'
+};
+
+// --- HELPER: Matching Rules Editor ---
+// Rules run top to bottom after exact and case-insensitive name matching; the first hit wins.
+const MatchRulesPanel: React.FC<{
+  rules: ResolverMatchRule[];
+  onChange: (rules: ResolverMatchRule[]) => void;
+}> = ({ rules, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (index: number, patch: Partial<ResolverMatchRule>) =>
+    onChange(rules.map((rule, i) => i === index ? { ...rule, ...patch } : rule));
+
+  const move = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { id: `rule-${Date.now().toString()}`, kind: 'glob', container: '*', pattern: '' }]);
+    setIsOpen(true);
+  };
+
+  return (
+    <div className="border-b border-slate-700 bg-slate-900/40">
+      <div className="flex items-center justify-between px-2 py-1">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center space-x-1 text-[10px] text-slate-400 hover:text-slate-200">
+          <ListFilter className="w-3 h-3" />
+          <span className="uppercase tracking-wider font-medium">Matching Rules</span>
+          <span className="font-mono text-slate-500">({rules.length})</span>
+        </button>
+        <button onClick={addRule} className="text-slate-400 hover:text-emerald-300" title="Add a matching rule">
+          <Plus className="w-3 h-3" />
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="px-2 pb-2 space-y-1.5">
+          {rules.length === 0 && (
+            <p className="text-[9px] text-slate-500 italic">
+              Aliases, globs and regex patterns tried in order when no layer carries the container's name. Use {'{name}'} for the container name.
+            </p>
+          )}
+          {rules.map((rule, index) => {
+            const error = validateMatchRule(rule);
+            return (
+              <div key={rule.id} className={`nodrag p-1.5 rounded border space-y-1 ${rule.enabled === false ? 'opacity-50' : ''} ${error ? 'border-red-800/70' : 'border-slate-700'}`}>
+                <div className="flex items-center space-x-1">
+                  <span className="text-[9px] font-mono text-slate-500 w-3">{index + 1}</span>
+                  <select
+                    value={rule.kind}
+                    onChange={(e) => update(index, { kind: e.target.value as ResolverMatchRuleKind })}
+                    className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-slate-200 outline-none"
+                  >
+                    <option value="alias">alias</option>
+                    <option value="glob">glob</option>
+                    <option value="regex">regex</option>
+                  </select>
+                  <input
+                    value={rule.container}
+                    onChange={(e) => update(index, { container: e.target.value })}
+                    placeholder="*"
+                    title="Container this rule applies to ('*' for all)"
+                    className="w-20 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] font-mono text-slate-200 outline-none focus:border-emerald-500"
+                  />
+                  <button
+                    onClick={() => update(index, { caseSensitive: !rule.caseSensitive })}
+                    className={`px-1 text-[9px] font-mono rounded border ${rule.caseSensitive ? 'border-emerald-600 text-emerald-300' : 'border-slate-600 text-slate-500'}`}
+                    title={rule.caseSensitive ? 'Case-sensitive' : 'Case-insensitive'}
+                  >
+                    Aa
+                  </button>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled !== false}
+                    onChange={(e) => update(index, { enabled: e.target.checked })}
+                    title="Enabled"
+                    className="accent-emerald-500"
+                  />
+                  <div className="flex-1" />
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Try earlier">
+                    <ArrowUp className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => move(index, 1)} disabled={index === rules.length - 1} className="text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Try later">
+                    <ArrowDown className="w-3 h-3" />
+                  </button>
+                  <button onClick={() => onChange(rules.filter((_, i) => i !== index))} className="text-slate-500 hover:text-red-400" title="Remove rule">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                <input
+                  value={rule.pattern}
+                  onChange={(e) => update(index, { pattern: e.target.value })}
+                  placeholder={RULE_PLACEHOLDERS[rule.kind]}
+                  spellCheck={false}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-200 outline-none focus:border-emerald-500"
+                />
+                {error && <p className="text-[9px] text-red-300">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   // Read channel count from persistent data, default to 10 if new/undefined
   const channelCount = data.channelCount || 10;
+  const matchRules = data.matchRules || NO_RULES;
   
   const nodes = useNodes();
   const edges = useEdges();
@@ -29,10 +150,12 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
   // Use specialized hook for resolution logic
   const { resolveLayer } = usePsdResolver();
 
-  // 1. Retrieve Global Data Source (LoadPSDNode)
-  const loadPsdNode = nodes.find(n => n.type === 'loadPsd') as Node<PSDNodeData>;
-  const designLayers = loadPsdNode?.data?.designLayers || null;
-  const globalTemplate = loadPsdNode?.data?.template || null;
+  // 1. Channels resolve against the Load PSD node they are wired to (via the Template Splitter),
+  // so several source PSDs can feed the same Resolver
+  const getSourceNode = useCallback((edgeSource: string) => {
+    const sourceNodeId = findPsdSourceNodeId(edgeSource, nodes, edges);
+    return sourceNodeId ? nodes.find(n => n.id === sourceNodeId) as Node<PSDNodeData> : undefined;
+  }, [nodes, edges]);
 
   // Cleanup
   useEffect(() => {
@@ -51,18 +174,34 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
         return { index, status: 'idle', layerCount: 0 };
       }
 
-      if (!globalTemplate) {
+      const sourceNode = getSourceNode(edge.source);
+      if (!sourceNode) {
          return { 
              index, 
              status: 'error', 
              layerCount: 0, 
-             message: 'Source Data Locked', 
+             message: 'No PSD Source', 
              debugCode: 'DATA_LOCKED' 
          };
       }
 
+      const sourceTemplate = sourceNode.data?.template || null;
+      const sourceFileName = sourceNode.data?.fileName || null;
+
+      if (!sourceTemplate) {
+         return { 
+             index, 
+             status: 'error', 
+             layerCount: 0, 
+             message: 'Source Data Locked', 
+             debugCode: 'DATA_LOCKED',
+             sourceNodeId: sourceNode.id,
+             sourceFileName
+         };
+      }
+
       const containerName = edge.sourceHandle || '';
-      const containerContext = createContainerContext(globalTemplate, containerName);
+      const containerContext = createContainerContext(sourceTemplate, containerName);
       
       if (!containerContext) {
         return { 
@@ -70,18 +209,22 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
             status: 'error', 
             layerCount: 0, 
             message: 'Invalid Container Ref',
-            debugCode: 'UNKNOWN_ERROR'
+            debugCode: 'UNKNOWN_ERROR',
+            sourceNodeId: sourceNode.id,
+            sourceFileName
         };
       }
 
       // RESOLUTION LOGIC
-      const result = resolveLayer(containerContext.containerName, designLayers);
+      const result = resolveLayer(containerContext.containerName, sourceNode.data?.designLayers || null, matchRules);
 
       // Map ResolverStatus to UI Status
       let uiStatus: ChannelState['status'] = 'idle';
       
       switch (result.status) {
         case 'RESOLVED':
+        case 'ALIAS_MATCH':
+        case 'PATTERN_MATCH':
           uiStatus = 'resolved';
           break;
         case 'CASE_MISMATCH':
@@ -106,16 +249,20 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
         layerCount: childCount,
         message: result.message,
         debugCode: result.status,
+        matchLabel: result.match && result.match.rule !== 'exact' ? describeResolverMatch(result.match) : undefined,
+        sourceNodeId: sourceNode.id,
+        sourceFileName,
         // Include raw context data for registration
-        resolvedContext: result.layer && containerContext ? {
-            container: containerContext,
-            layers: result.layer.children || [],
-            status: 'resolved',
-            message: result.message
-        } : null
+        resolvedContext: buildMappingContext(containerContext, result, sourceNode.id)
       };
     });
-  }, [channelCount, edges, designLayers, globalTemplate, id, resolveLayer]);
+  }, [channelCount, edges, getSourceNode, id, resolveLayer, matchRules]);
+
+  // Only label channel sources when the Resolver actually mixes PSDs
+  const hasMultipleSources = useMemo(() => {
+    return new Set(channels.map(c => c.sourceNodeId).filter(Boolean)).size > 1;
+  }, [channels]);
+  const hasLoadPsdNode = nodes.some(n => n.type === 'loadPsd');
 
   // 3. Register Resolved Data in Store
   useEffect(() => {
@@ -144,6 +291,10 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
     );
   }, [id, setNodes]);
 
+  const setMatchRules = useCallback((rules: ResolverMatchRule[]) => {
+    setNodes((nds) => nds.map((node) => node.id === id ? { ...node, data: { ...node.data, matchRules: rules } } : node));
+  }, [id, setNodes]);
+
   return (
     // Removed overflow-hidden to allow handles to "dock" on the edges without clipping
     <div className="min-w-[320px] bg-slate-800 rounded-lg shadow-xl border border-slate-600 font-sans flex flex-col">
@@ -158,12 +309,14 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
         <span className="text-[10px] text-slate-500 font-mono">MULTI-MAPPER</span>
       </div>
 
-      {!loadPsdNode && (
+      {!hasLoadPsdNode && (
         <div className="bg-red-900/20 text-red-300 text-[10px] p-1 text-center border-b border-red-900/30">
           Waiting for PSD Source...
         </div>
       )}
 
+      <MatchRulesPanel rules={matchRules} onChange={setMatchRules} />
+
       {/* Channels List */}
       <div className="flex flex-col">
         {channels.map((channel) => (
@@ -209,6 +362,16 @@ export const ContainerResolverNode = memo(({ id, data }: NodeProps<PSDNodeData>)
                     {channel.status !== 'resolved' && (
                         <span className="text-[9px] text-slate-500 truncate">{channel.debugCode}</span>
                     )}
+                    {channel.matchLabel && (
+                        <span className="text-[9px] text-sky-400/80 font-mono truncate" title={`Matched by ${channel.matchLabel}`}>
+                          via {channel.matchLabel}
+                        </span>
+                    )}
+                    {hasMultipleSources && channel.sourceNodeId && (
+                        <span className="text-[9px] text-blue-400/80 font-mono truncate" title={channel.sourceNodeId}>
+                          {channel.sourceFileName || channel.sourceNodeId}
+                        </span>
+                    )}
                   </div>
                 )}
               </div>
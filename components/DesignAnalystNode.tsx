@@ -1,53 +1,143 @@
 import React, { memo, useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Handle, Position, NodeProps, useEdges, NodeResizer, useReactFlow, useUpdateNodeInternals, useNodes } from 'reactflow';
-import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, TemplateMetadata, ContainerDefinition, MappingContext, KnowledgeContext } from '../types';
+import { Handle, Position, NodeProps, useEdges, NodeResizer, useReactFlow, useUpdateNodeInternals } from 'reactflow';
+import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystInstanceState, ContainerContext, MappingContext, KnowledgeContext, ContainerConstraints, ContainerZone, LayoutSolverRule, LayoutSolverRuleKind, SolverCorner } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject, findLayerByPath } from '../services/psdService';
-import { GoogleGenAI, Type } from "@google/genai";
-import { Brain, BrainCircuit, Ban, ClipboardList } from 'lucide-react';
+import { getSemanticThemeObject, formatLayerPin } from '../services/psdService';
+import { compositeLayers } from '../services/compositorService';
+import { resolveAnalystTarget, augmentSourceContext, buildProxyTemplate, AnalystTarget, DEFAULT_ANALYST_STATE } from '../services/analystService';
+import { getAIProvider, AIMessage, AIPart, AIQuality, AISchema } from '../services/aiProvider';
+import { validateLayoutStrategy, collectLayerIds, StrategyValidationError } from '../services/strategyValidation';
+import { resolvePlacementArea } from '../services/remapService';
+import { solveLayout, validateSolverRule, SOLVER_RULE_KINDS } from '../services/layoutSolverService';
+import { Brain, BrainCircuit, Ban, ClipboardList, Plus, Ruler, Trash2 } from 'lucide-react';
 import { Psd } from 'ag-psd';
 
 // Define the exact union type for model keys to match PSDNodeData
 type ModelKey = 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
 
-// CONSTANT: Robust Default State for Type Safety
-const DEFAULT_INSTANCE_STATE: AnalystInstanceState = {
-    chatHistory: [],
-    layoutStrategy: null,
-    selectedModel: 'gemini-3-flash',
-    isKnowledgeMuted: false
-};
-
 interface ModelConfig {
-  apiModel: string;
+  quality: AIQuality; // Resolved to a concrete model by the active AIProvider
   label: string;
   badgeClass: string;
   headerClass: string;
-  thinkingBudget?: number;
 }
 
 const MODELS: Record<ModelKey, ModelConfig> = {
   'gemini-3-flash': {
-    apiModel: 'gemini-3-flash-preview',
+    quality: 'fast',
     label: 'FLASH',
     badgeClass: 'bg-yellow-500 text-yellow-950 border-yellow-400',
     headerClass: 'border-yellow-500/50 bg-yellow-900/20'
   },
   'gemini-3-pro': {
-    apiModel: 'gemini-3-pro-preview',
+    quality: 'pro',
     label: 'PRO',
     badgeClass: 'bg-blue-600 text-white border-blue-500',
     headerClass: 'border-blue-500/50 bg-blue-900/20'
   },
   'gemini-3-pro-thinking': {
-    apiModel: 'gemini-3-pro-preview',
+    quality: 'deep',
     label: 'DEEP THINKING',
     badgeClass: 'bg-purple-600 text-white border-purple-500',
-    headerClass: 'border-purple-500/50 bg-purple-900/20',
-    thinkingBudget: 16384
+    headerClass: 'border-purple-500/50 bg-purple-900/20'
   }
 };
 
+// --- HELPER: Solver Rules ---
+// Fresh rule of a kind with editable defaults (kind switches keep the id, target and enabled flag)
+const createSolverRule = (kind: LayoutSolverRuleKind, id: string, target = '*'): LayoutSolverRule => {
+    switch (kind) {
+        case 'corner': return { id, kind, target: target === '*' ? 'logo*' : target, corner: 'top-right', maxDistancePercent: 5 };
+        case 'min-text-height': return { id, kind, target, minPx: 12 };
+        case 'distribute': return { id, kind, target, axis: 'x' };
+        case 'avoid-overlap': return { id, kind, target, gap: 4 };
+    }
+};
+
+const NO_SOLVER_RULES: LayoutSolverRule[] = [];
+
+const SolverRulesPanel: React.FC<{
+    rules: LayoutSolverRule[];
+    onChange: (rules: LayoutSolverRule[]) => void;
+}> = ({ rules, onChange }) => {
+    const update = (index: number, next: LayoutSolverRule) => onChange(rules.map((rule, i) => i === index ? next : rule));
+    const numberInput = (value: number, onValue: (value: number) => void, title: string) => (
+        <input
+            type="number"
+            value={Number.isFinite(value) ? value : ''}
+            onChange={(e) => onValue(parseFloat(e.target.value))}
+            title={title}
+            className="w-12 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] font-mono text-slate-200 outline-none focus:border-emerald-500"
+        />
+    );
+    const selectClass = 'bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-[10px] text-slate-200 outline-none';
+
+    return (
+        <div className="nodrag nopan space-y-1.5" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+                <span className="text-[9px] text-slate-500 uppercase tracking-wider font-bold">Layout Rules ({rules.length})</span>
+                <button onClick={() => onChange([...rules, createSolverRule('avoid-overlap', `solver-${Date.now().toString()}`)])} className="text-slate-400 hover:text-emerald-300" title="Add a layout rule">
+                    <Plus className="w-3 h-3" />
+                </button>
+            </div>
+            {rules.length === 0 && (
+                <p className="text-[9px] text-slate-500 italic">
+                    Declare corner pins, minimum text heights, distribution and overlap rules. Targets match layer names ('logo*', '*headline*').
+                </p>
+            )}
+            {rules.map((rule, index) => {
+                const error = validateSolverRule(rule);
+                return (
+                    <div key={rule.id} className={`flex items-center space-x-1 p-1 rounded border ${rule.enabled === false ? 'opacity-50' : ''} ${error ? 'border-red-800/70' : 'border-slate-700'}`} title={error || undefined}>
+                        <select value={rule.kind} onChange={(e) => update(index, { ...createSolverRule(e.target.value as LayoutSolverRuleKind, rule.id, rule.target), enabled: rule.enabled })} className={selectClass}>
+                            {SOLVER_RULE_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+                        </select>
+                        <input
+                            value={rule.target}
+                            onChange={(e) => update(index, { ...rule, target: e.target.value })}
+                            placeholder="*"
+                            spellCheck={false}
+                            title="Layer name pattern"
+                            className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-200 outline-none focus:border-emerald-500"
+                        />
+                        {rule.kind === 'corner' && (
+                            <>
+                                <select value={rule.corner} onChange={(e) => update(index, { ...rule, corner: e.target.value as SolverCorner })} className={selectClass}>
+                                    {(['top-left', 'top-right', 'bottom-left', 'bottom-right'] as SolverCorner[]).map(corner => <option key={corner} value={corner}>{corner}</option>)}
+                                </select>
+                                {numberInput(rule.maxDistancePercent, (value) => update(index, { ...rule, maxDistancePercent: value }), 'Max distance from the corner (% of the container)')}
+                                <span className="text-[9px] text-slate-500">%</span>
+                            </>
+                        )}
+                        {rule.kind === 'min-text-height' && (
+                            <>
+                                {numberInput(rule.minPx, (value) => update(index, { ...rule, minPx: value }), 'Minimum rendered text height')}
+                                <span className="text-[9px] text-slate-500">px</span>
+                            </>
+                        )}
+                        {rule.kind === 'distribute' && (
+                            <select value={rule.axis} onChange={(e) => update(index, { ...rule, axis: e.target.value as 'x' | 'y' })} className={selectClass}>
+                                <option value="x">X axis</option>
+                                <option value="y">Y axis</option>
+                            </select>
+                        )}
+                        {rule.kind === 'avoid-overlap' && (
+                            <>
+                                {numberInput(rule.gap, (value) => update(index, { ...rule, gap: value }), 'Minimum gap between elements')}
+                                <span className="text-[9px] text-slate-500">px</span>
+                            </>
+                        )}
+                        <input type="checkbox" checked={rule.enabled !== false} onChange={(e) => update(index, { ...rule, enabled: e.target.checked })} title="Enabled" className="accent-emerald-500" />
+                        <button onClick={() => onChange(rules.filter((_, i) => i !== index))} className="text-slate-500 hover:text-red-400" title="Remove rule">
+                            <Trash2 className="w-3 h-3" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
 // --- Subcomponent: Strategy Card Renderer ---
 // UPDATED: Removed 'Reasoning' text display. It is now handled by the parent container as a "Design Audit".
 const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfig }> = ({ strategy, modelConfig }) => {
@@ -65,7 +155,9 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
             onMouseDown={(e) => e.stopPropagation()}
         >
              <div className="flex justify-between border-b border-slate-700 pb-2">
-                <span className={`font-bold ${modelConfig.badgeClass.includes('yellow') ? 'text-yellow-400' : 'text-blue-300'}`}>SEMANTIC RECOMPOSITION</span>
+                {strategy.solved
+                    ? <span className="font-bold text-emerald-300">RULE-BASED LAYOUT</span>
+                    : <span className={`font-bold ${modelConfig.badgeClass.includes('yellow') ? 'text-yellow-400' : 'text-blue-300'}`}>SEMANTIC RECOMPOSITION</span>}
                 <span className="text-slate-400">{strategy.anchor}</span>
              </div>
 
@@ -124,6 +216,22 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
                      <span>{strategy.safetyReport.violationCount} Boundary Warnings</span>
                  </div>
              )}
+
+             {/* Schema Repairs - Fields the validator had to default, clamp or drop */}
+             {strategy.diagnostics && strategy.diagnostics.length > 0 && (
+                 <div className="bg-amber-900/20 border border-amber-600/40 p-2 rounded space-y-1">
+                     <span className="block text-[9px] text-amber-300 font-bold uppercase tracking-wider">
+                         {strategy.diagnostics.length} Schema Repairs
+                     </span>
+                     {strategy.diagnostics.map((d, i) => (
+                         <div key={i} className="flex items-start space-x-1.5 text-[9px] font-mono leading-tight" title={d.code}>
+                             <span className="text-amber-400 shrink-0">{d.action.toUpperCase()}</span>
+                             <span className="text-slate-300 shrink-0">{d.field}</span>
+                             <span className="text-slate-500">{d.message}</span>
+                         </div>
+                     ))}
+                 </div>
+             )}
         </div>
     );
 };
@@ -145,13 +253,16 @@ interface InstanceRowProps {
     onRefine: (index: number, text: string) => void;
     onModelChange: (index: number, model: ModelKey) => void;
     onToggleMute: (index: number) => void;
+    onModeChange: (index: number, mode: 'ai' | 'solver') => void;
+    onSolverRulesChange: (index: number, rules: LayoutSolverRule[]) => void;
+    onSolve: (index: number) => void;
     isAnalyzing: boolean;
     compactMode: boolean;
     activeKnowledge?: KnowledgeContext | null; // Pass down for visual effect
 }
 
 const InstanceRow: React.FC<InstanceRowProps> = ({ 
-    nodeId, index, state, sourceData, targetData, onAnalyze, onRefine, onModelChange, onToggleMute, isAnalyzing, compactMode, activeKnowledge 
+    nodeId, index, state, sourceData, targetData, onAnalyze, onRefine, onModelChange, onToggleMute, onModeChange, onSolverRulesChange, onSolve, isAnalyzing, compactMode, activeKnowledge 
 }) => {
     const [inputText, setInputText] = useState('');
     const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -174,6 +285,7 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
 
     const activeModelConfig = MODELS[state.selectedModel];
     const isReady = !!sourceData && !!targetData;
+    const isSolver = state.mode === 'solver';
     const targetName = targetData?.name || (sourceData?.container.containerName) || 'Unknown';
     const theme = getSemanticThemeObject(targetName, index);
 
@@ -213,8 +325,22 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                 </div>
                 
                 <div className="flex items-center space-x-2">
+                    {/* Mode Toggle: model analysis or the local rule solver */}
+                    <div className="nodrag nopan flex rounded overflow-hidden border border-slate-600">
+                        {(['ai', 'solver'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                onClick={(e) => { e.stopPropagation(); onModeChange(index, mode); }}
+                                className={`px-1.5 py-0.5 text-[9px] font-mono font-bold uppercase transition-colors ${(state.mode || 'ai') === mode ? 'bg-slate-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}
+                                title={mode === 'ai' ? 'Model analysis' : 'Deterministic layout solver (offline)'}
+                            >
+                                {mode}
+                            </button>
+                        ))}
+                    </div>
+
                     {/* Semantic Override Toggle */}
-                    {activeKnowledge && (
+                    {activeKnowledge && !isSolver && (
                         <button
                             onClick={(e) => { e.stopPropagation(); onToggleMute(index); }}
                             className={`nodrag nopan p-1 rounded transition-colors border ${
@@ -229,7 +355,7 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                     )}
 
                     {/* Model Selector */}
-                    <div className="relative">
+                    {!isSolver && <div className="relative">
                         <select 
                             value={state.selectedModel}
                             onChange={(e) => onModelChange(index, e.target.value as ModelKey)}
@@ -241,7 +367,7 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                             <option value="gemini-3-pro" className="text-black bg-white">PRO</option>
                             <option value="gemini-3-pro-thinking" className="text-black bg-white">DEEP</option>
                         </select>
-                    </div>
+                    </div>}
                 </div>
             </div>
 
@@ -304,14 +430,25 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                                     <div className="flex flex-col gap-3">
                                         {/* AUDIT HEADER */}
                                         <div className="space-y-1.5">
-                                            <div className="flex items-center space-x-2 border-b border-slate-700/50 pb-1.5">
-                                                <div className="p-1 bg-purple-500/20 rounded">
-                                                    <Brain className="w-3 h-3 text-purple-300" />
+                                            {msg.strategySnapshot.solved ? (
+                                                <div className="flex items-center space-x-2 border-b border-slate-700/50 pb-1.5">
+                                                    <div className="p-1 bg-emerald-500/20 rounded">
+                                                        <Ruler className="w-3 h-3 text-emerald-300" />
+                                                    </div>
+                                                    <span className="text-[10px] font-bold text-emerald-200 uppercase tracking-widest">
+                                                        Layout Solver Report
+                                                    </span>
                                                 </div>
-                                                <span className="text-[10px] font-bold text-purple-200 uppercase tracking-widest">
-                                                    Expert Design Audit
-                                                </span>
-                                            </div>
+                                            ) : (
+                                                <div className="flex items-center space-x-2 border-b border-slate-700/50 pb-1.5">
+                                                    <div className="p-1 bg-purple-500/20 rounded">
+                                                        <Brain className="w-3 h-3 text-purple-300" />
+                                                    </div>
+                                                    <span className="text-[10px] font-bold text-purple-200 uppercase tracking-widest">
+                                                        Expert Design Audit
+                                                    </span>
+                                                </div>
+                                            )}
                                             <div className="text-slate-300 text-xs leading-relaxed whitespace-pre-wrap pl-1">
                                                 {msg.strategySnapshot.reasoning}
                                             </div>
@@ -345,6 +482,15 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                 </div>
 
                 {/* Control Footer */}
+                {isSolver ? (
+                    <div className="space-y-2 pt-2 border-t border-slate-700/30">
+                        <SolverRulesPanel rules={state.solverRules || NO_SOLVER_RULES} onChange={(rules) => onSolverRulesChange(index, rules)} />
+                        <button onClick={(e) => { e.stopPropagation(); onSolve(index); }} onMouseDown={(e) => e.stopPropagation()} disabled={!isReady} className={`nodrag nopan w-full h-8 rounded text-[10px] font-bold uppercase transition-all shadow-sm flex items-center justify-center space-x-1 ${isReady ? 'bg-emerald-700 hover:bg-emerald-600 text-white border border-emerald-500' : 'bg-slate-800 text-slate-600 cursor-not-allowed border border-slate-700'}`} title="Solve the rules and log a report (the relay re-solves on every upstream change)">
+                            <Ruler className="w-3 h-3" />
+                            <span>Solve</span>
+                        </button>
+                    </div>
+                ) : (
                 <div className="flex items-center space-x-2 pt-2 border-t border-slate-700/30">
                      <textarea value={inputText} onChange={(e) => setInputText(e.target.value)} onWheel={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()} placeholder="Refinement instructions..." disabled={!isReady || isAnalyzing} className="nodrag nopan flex-1 bg-slate-900 border border-slate-700 rounded p-2 text-xs text-slate-200 focus:outline-none focus:border-indigo-500 resize-none h-10 transition-colors" />
                      <div className="flex space-x-2">
@@ -352,6 +498,7 @@ const InstanceRow: React.FC<InstanceRowProps> = ({
                         <button onClick={handleRefineClick} onMouseDown={(e) => e.stopPropagation()} disabled={!isReady || isAnalyzing || inputText.trim().length === 0} className={`nodrag nopan h-10 px-4 rounded text-[10px] font-bold uppercase transition-all shadow-sm flex items-center justify-center ${inputText.trim().length > 0 && !isAnalyzing ? 'bg-indigo-600 hover:bg-indigo-500 text-white border border-indigo-400' : 'bg-slate-800 text-slate-600 cursor-not-allowed border border-slate-700'}`}>Refine</button>
                      </div>
                 </div>
+                )}
             </div>
         </div>
     );
@@ -366,7 +513,6 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   const draftTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const edges = useEdges();
-  const nodes = useNodes(); // Use nodes to find Source PSD
   const { setNodes } = useReactFlow();
   const updateNodeInternals = useUpdateNodeInternals();
   
@@ -418,77 +564,36 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     if (!edge) return null;
     const template = templateRegistry[edge.source];
     if (!template) return null;
-    let containerName = edge.sourceHandle;
-    if (containerName?.startsWith('slot-bounds-')) {
-        containerName = containerName.replace('slot-bounds-', '');
-    }
-    const container = template.containers.find(c => c.name === containerName);
-    return container ? { bounds: container.bounds, name: container.name } : null;
+    return resolveAnalystTarget(template, edge.sourceHandle);
   }, [edges, id, templateRegistry]);
 
   // --- Pixel Extraction Service ---
-  const extractSourcePixels = async (layers: SerializableLayer[], bounds: {x: number, y: number, w: number, h: number}): Promise<string | null> => {
-      // Find the PSD Node to get the binary data
-      const loadPsdNode = nodes.find(n => n.type === 'loadPsd');
-      if (!loadPsdNode) return null;
-      const psd = psdRegistry[loadPsdNode.id];
+  const extractSourcePixels = async (sourceNodeId: string, layers: SerializableLayer[], bounds: {x: number, y: number, w: number, h: number}): Promise<string | null> => {
+      // Binary of the Load PSD node this instance's source was resolved from
+      const psd = psdRegistry[sourceNodeId];
       if (!psd) return null;
 
-      // Create a canvas to composite the layers
-      const canvas = document.createElement('canvas');
-      canvas.width = bounds.w;
-      canvas.height = bounds.h;
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return null;
-
-      const drawLayers = (layerNodes: SerializableLayer[]) => {
-          // Iterate in reverse (painter's algorithm: bottom-up)
-          for (let i = layerNodes.length - 1; i >= 0; i--) {
-              const node = layerNodes[i];
-              if (!node.isVisible) continue;
-
-              if (node.children) {
-                  drawLayers(node.children);
-              } else {
-                  const agLayer = findLayerByPath(psd, node.id);
-                  if (agLayer && agLayer.canvas) {
-                      const dx = (agLayer.left || 0) - bounds.x;
-                      const dy = (agLayer.top || 0) - bounds.y;
-                      ctx.drawImage(agLayer.canvas, dx, dy);
-                  }
-              }
-          }
-      };
-
-      drawLayers(layers);
+      // Composite in source space with the container origin at (0,0)
+      const canvas = compositeLayers(layers, psd, {
+          width: bounds.w,
+          height: bounds.h,
+          origin: { x: bounds.x, y: bounds.y }
+      });
       return canvas.toDataURL('image/png');
   };
 
   // --- Store Synchronization Effect ---
   useEffect(() => {
-    const syntheticContainers: ContainerDefinition[] = [];
+    const targets: AnalystTarget[] = [];
     let canvasDims = { width: 0, height: 0 };
 
     for (let i = 0; i < instanceCount; i++) {
         const sourceData = getSourceData(i);
         const targetData = getTargetData(i);
-        const instanceState = analystInstances[i] || DEFAULT_INSTANCE_STATE;
+        const instanceState = analystInstances[i] || DEFAULT_ANALYST_STATE;
 
         if (sourceData) {
-            const history = instanceState.chatHistory || [];
-            const hasExplicitKeywords = history.some(msg => msg.role === 'user' && /\b(generate|recreate|nano banana)\b/i.test(msg.parts[0].text));
-            
-            const augmentedContext: MappingContext = {
-                ...sourceData,
-                aiStrategy: instanceState.layoutStrategy ? {
-                    ...instanceState.layoutStrategy,
-                    isExplicitIntent: hasExplicitKeywords
-                } : undefined,
-                previewUrl: undefined,
-                targetDimensions: targetData ? { w: targetData.bounds.w, h: targetData.bounds.h } : undefined
-            };
-            
-             registerResolved(id, `source-out-${i}`, augmentedContext);
+             registerResolved(id, `source-out-${i}`, augmentSourceContext(sourceData, instanceState, targetData));
         }
 
         if (targetData) {
@@ -499,26 +604,12 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                     if (t) canvasDims = t.canvas;
                 }
             }
-            syntheticContainers.push({
-                id: `proxy-target-${i}`,
-                name: `target-out-${i}`, 
-                originalName: targetData.name,
-                bounds: targetData.bounds,
-                normalized: {
-                    x: canvasDims.width ? targetData.bounds.x / canvasDims.width : 0,
-                    y: canvasDims.height ? targetData.bounds.y / canvasDims.height : 0,
-                    w: canvasDims.width ? targetData.bounds.w / canvasDims.width : 0,
-                    h: canvasDims.height ? targetData.bounds.h / canvasDims.height : 0,
-                }
-            });
+            targets.push({ index: i, ...targetData });
         }
     }
 
-    if (syntheticContainers.length > 0) {
-        const syntheticTemplate: TemplateMetadata = {
-            canvas: canvasDims.width > 0 ? canvasDims : { width: 1024, height: 1024 },
-            containers: syntheticContainers
-        };
+    const syntheticTemplate = buildProxyTemplate(targets, canvasDims);
+    if (syntheticTemplate) {
         registerTemplate(id, syntheticTemplate);
     }
 
@@ -538,7 +629,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     setNodes((nds) => nds.map((n) => {
         if (n.id === id) {
             const currentInstances = n.data.analystInstances || {};
-            const oldState = currentInstances[index] || DEFAULT_INSTANCE_STATE;
+            const oldState = currentInstances[index] || DEFAULT_ANALYST_STATE;
             return {
                 ...n,
                 data: {
@@ -563,40 +654,51 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       updateInstanceState(index, { isKnowledgeMuted: !currentState });
   };
 
+  // --- Solver Logic ---
+  // The relay re-solves on its own (augmentSourceContext); Solve records the result as a chat report
+  const handleModeChange = (index: number, mode: 'ai' | 'solver') => {
+      updateInstanceState(index, { mode });
+  };
+
+  const handleSolverRulesChange = (index: number, solverRules: LayoutSolverRule[]) => {
+      updateInstanceState(index, { solverRules });
+  };
+
+  const handleSolve = (index: number) => {
+      const sourceData = getSourceData(index);
+      const targetData = getTargetData(index);
+      if (!sourceData || !targetData) return;
+
+      const instanceState = analystInstances[index] || DEFAULT_ANALYST_STATE;
+      const strategy = solveLayout({
+          sourceRect: sourceData.container.bounds,
+          layers: sourceData.layers as SerializableLayer[],
+          target: targetData,
+          rules: instanceState.solverRules || []
+      });
+      const report: ChatMessage = {
+          id: Date.now().toString(),
+          role: 'model',
+          parts: [{ text: strategy.reasoning }],
+          strategySnapshot: strategy,
+          timestamp: Date.now()
+      };
+      updateInstanceState(index, { chatHistory: [...instanceState.chatHistory, report], layoutStrategy: strategy });
+  };
+
   // --- AI Logic ---
   const generateDraft = async (prompt: string, sourceReference?: string): Promise<string | null> => {
      try {
-         const apiKey = process.env.API_KEY;
-         if (!apiKey) return null;
-         const ai = new GoogleGenAI({ apiKey });
-         
-         const parts: any[] = [];
-         
+         const provider = getAIProvider();
+         if (!provider.isConfigured) return null;
+
          // Inpaint/Outpaint: Attach source reference if available for style consistency
-         if (sourceReference) {
-             const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-             parts.push({
-                 inlineData: {
-                     mimeType: 'image/png',
-                     data: base64Data
-                 }
-             });
-         }
-         
-         parts.push({ text: `Generate a draft sketch (256x256) for: ${prompt}` });
-
-         const response = await ai.models.generateContent({
-             model: 'gemini-2.5-flash-image',
-             contents: { parts },
-             config: { imageConfig: { aspectRatio: "1:1" } }
+         return await provider.synthesizeImage({
+             prompt: `Generate a draft sketch (256x256) for: ${prompt}`,
+             width: 256,
+             height: 256,
+             sourceReference
          });
-         
-         for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) { return `data:image/png;base64,${part.inlineData.data}`; }
-         }
-         return null;
      } catch (e) {
          console.error("Draft Generation Failed", e);
          return null;
@@ -620,7 +722,11 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 relX: (l.coords.x - sourceData.container.bounds.x) / sourceW,
                 relY: (l.coords.y - sourceData.container.bounds.y) / sourceH,
                 width: l.coords.w,
-                height: l.coords.h
+                height: l.coords.h,
+                // Live type: the model sees copy and point size, not just a pixel box
+                ...(l.text ? { text: l.text.content.slice(0, 120), fontSize: Math.round(l.text.fontSize), align: l.text.alignment } : {}),
+                // Pinned layers are placed against the container edges; overrides only nudge them
+                ...(l.pin ? { pin: formatLayerPin(l.pin) } : {})
             });
             if (l.children) { flat = flat.concat(flattenLayers(l.children, depth + 1)); }
         });
@@ -629,6 +735,32 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
     const layerAnalysisData = flattenLayers(sourceData.layers as SerializableLayer[]);
 
+    // Container tags and zones are hard limits: the Remapper clamps anything outside them
+    const constraints: ContainerConstraints | undefined = targetData.constraints;
+    const zones: ContainerZone[] = targetData.zones || [];
+    const constraintLines: string[] = [];
+    if (constraints) {
+        if (constraints.minScale !== undefined || constraints.maxScale !== undefined) {
+            constraintLines.push(`- SCALE LIMITS: 'suggestedScale' and every effective layer scale (suggestedScale x individualScale) must stay within [${constraints.minScale ?? 0}, ${constraints.maxScale ?? '∞'}].`);
+        }
+        if (constraints.lockAspect) {
+            constraintLines.push(`- LOCKED ASPECT: Scale uniformly only. Never distort width and height independently.`);
+        }
+        if (constraints.anchor) {
+            constraintLines.push(`- ANCHOR: Content is pinned to the ${constraints.anchor} of the container. Set 'anchor' consistently and do not offset the block away from that edge.`);
+        }
+        if (constraints.padding !== undefined) {
+            constraintLines.push(`- PADDING: Keep ${constraints.padding}px clear on every side.`);
+        }
+    }
+    const area = resolvePlacementArea(targetData.bounds, constraints, zones);
+    if (area.x !== targetData.bounds.x || area.y !== targetData.bounds.y || area.w !== targetW || area.h !== targetH) {
+        constraintLines.push(`- PLACEMENT AREA: Content must stay inside ${Math.round(area.w)}x${Math.round(area.h)} at (${Math.round(area.x - targetData.bounds.x)}, ${Math.round(area.y - targetData.bounds.y)}) relative to the container. Override offsets (0,0) start at this area's top-left corner.`);
+    }
+    zones.filter(zone => zone.kind === 'keepout').forEach(zone => {
+        constraintLines.push(`- KEEP-OUT '${zone.name}': No content may overlap ${Math.round(zone.bounds.w)}x${Math.round(zone.bounds.h)} at (${Math.round(zone.bounds.x - area.x)}, ${Math.round(zone.bounds.y - area.y)}) in override space (backdrops excepted).`);
+    });
+
     let prompt = `
         ROLE: Senior Visual Systems Lead & Expert Graphic Designer.
         GOAL: Perform "Knowledge-Anchored Semantic Recomposition" with Intuition Fallback.
@@ -637,6 +769,9 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         - Source: ${sourceData.container.containerName} (${sourceW}x${sourceH})
         - Target: ${targetData.name} (${targetW}x${targetH})
         
+        ${constraintLines.length > 0 ? `HARD CONTAINER CONSTRAINTS (declared on the template; the engine clamps violations):
+        ${constraintLines.join('\n        ')}
+        ` : ''}
         LAYER HIERARCHY (JSON):
         ${JSON.stringify(layerAnalysisData.slice(0, 40))}
 
@@ -668,6 +803,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         - ANCHOR REFERENCING: If a visual anchor influenced the decision, include 'anchorIndex' (integer) referencing the 0-based index of the provided visual anchor.
         - FALLBACK LOGIC: If a conflict exists between a textual rule and a visual anchor, prioritize the textual rule but note the conflict in the 'reasoning'.
         - Your 'overrides' must accurately map to the 'layerId' strings provided in the hierarchy.
+        - GROUP OVERRIDES: Overriding a group moves and scales its whole subtree around the group's top-left. Only override a nested layer to adjust it within its group: its offset is applied on top of the group's movement.
     `;
     
     if (knowledgeContext && knowledgeContext.rules) {
@@ -691,7 +827,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       
       if (!sourceData || !targetData) return;
       
-      const instanceState = analystInstances[index] || DEFAULT_INSTANCE_STATE;
+      const instanceState = analystInstances[index] || DEFAULT_ANALYST_STATE;
       const modelConfig = MODELS[instanceState.selectedModel as ModelKey];
       
       // Resolve Selective Injection (Per-Instance Toggle)
@@ -701,10 +837,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       setAnalyzingInstances(prev => ({ ...prev, [index]: true }));
 
       try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API_KEY missing");
-
-        const ai = new GoogleGenAI({ apiKey });
+        const provider = getAIProvider();
         // Use effectiveKnowledge (null if muted)
         const systemInstruction = generateSystemInstruction(sourceData, targetData, history.length > 1, effectiveKnowledge);
         
@@ -713,13 +846,13 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         // This gives the model "Vision" of both the Source Layers and the Reference Anchors.
         
         // 1. Extract Source Pixels for Vision
-        const sourcePixelsBase64 = await extractSourcePixels(sourceData.layers as SerializableLayer[], sourceData.container.bounds);
+        const sourcePixelsBase64 = await extractSourcePixels(sourceData.sourceNodeId, sourceData.layers as SerializableLayer[], sourceData.container.bounds);
 
-        const apiContents = history.map(msg => ({ role: msg.role, parts: [...msg.parts] }));
+        const apiContents: AIMessage[] = history.map(msg => ({ role: msg.role, parts: [...msg.parts] }));
         const lastMessage = apiContents[apiContents.length - 1];
 
         if (lastMessage.role === 'user') {
-            const newParts: any[] = [];
+            const newParts: AIPart[] = [];
             
             // A. Knowledge Anchors (Brand Context) - ONLY IF NOT MUTED
             if (effectiveKnowledge?.visualAnchors) {
@@ -750,65 +883,75 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             lastMessage.parts = newParts;
         }
 
-        const requestConfig: any = {
-            systemInstruction,
-            responseMimeType: "application/json",
-            responseSchema: {
-                type: Type.OBJECT,
-                properties: {
-                    // NEW: Reasoning First with Description to enforce audit logic
-                    reasoning: { 
-                        type: Type.STRING,
-                        description: `MANDATORY: A professional 'Design Audit' paragraph. Critique the visual hierarchy, balance, and optical weight before proposing changes. Your reasoning must explicitly state whether you found container-specific rules to follow for "${targetData.name}" or if you are applying 'Expert Intuition' because no relevant rules were found for this container.`
-                    },
-                    method: { type: Type.STRING, enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] },
-                    suggestedScale: { type: Type.NUMBER },
-                    anchor: { type: Type.STRING, enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
-                    generativePrompt: { type: Type.STRING },
-                    clearance: { type: Type.BOOLEAN, description: "Set to true when resetting from Generative back to Geometric" },
-                    knowledgeApplied: { 
-                        type: Type.BOOLEAN, 
-                        description: `Set to TRUE only if you identified and applied a rule specific to "${targetData.name}" from the knowledge base. Set to FALSE if you relied on general design intuition.` 
-                    },
-                    overrides: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                layerId: { type: Type.STRING },
-                                xOffset: { type: Type.NUMBER },
-                                yOffset: { type: Type.NUMBER },
-                                individualScale: { type: Type.NUMBER },
-                                citedRule: { type: Type.STRING, description: "Optional: Citation of the specific rule applied." },
-                                anchorIndex: { type: Type.INTEGER, description: "Optional: Index of the visual anchor referenced." }
-                            },
-                            required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                        }
-                    },
-                    safetyReport: {
-                        type: Type.OBJECT,
+        const responseSchema: AISchema = {
+            type: 'OBJECT',
+            properties: {
+                // NEW: Reasoning First with Description to enforce audit logic
+                reasoning: { 
+                    type: 'STRING',
+                    description: `MANDATORY: A professional 'Design Audit' paragraph. Critique the visual hierarchy, balance, and optical weight before proposing changes. Your reasoning must explicitly state whether you found container-specific rules to follow for "${targetData.name}" or if you are applying 'Expert Intuition' because no relevant rules were found for this container.`
+                },
+                method: { type: 'STRING', enum: ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] },
+                suggestedScale: { type: 'NUMBER' },
+                anchor: { type: 'STRING', enum: ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] },
+                generativePrompt: { type: 'STRING' },
+                clearance: { type: 'BOOLEAN', description: "Set to true when resetting from Generative back to Geometric" },
+                knowledgeApplied: { 
+                    type: 'BOOLEAN', 
+                    description: `Set to TRUE only if you identified and applied a rule specific to "${targetData.name}" from the knowledge base. Set to FALSE if you relied on general design intuition.` 
+                },
+                overrides: {
+                    type: 'ARRAY',
+                    items: {
+                        type: 'OBJECT',
                         properties: {
-                            allowedBleed: { type: Type.BOOLEAN },
-                            violationCount: { type: Type.INTEGER }
+                            layerId: { type: 'STRING' },
+                            xOffset: { type: 'NUMBER' },
+                            yOffset: { type: 'NUMBER' },
+                            individualScale: { type: 'NUMBER' },
+                            citedRule: { type: 'STRING', description: "Optional: Citation of the specific rule applied." },
+                            anchorIndex: { type: 'INTEGER', description: "Optional: Index of the visual anchor referenced." }
                         },
-                        required: ['allowedBleed', 'violationCount']
+                        required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
                     }
                 },
-                required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied']
-            }
+                safetyReport: {
+                    type: 'OBJECT',
+                    properties: {
+                        allowedBleed: { type: 'BOOLEAN' },
+                        violationCount: { type: 'INTEGER' }
+                    },
+                    required: ['allowedBleed', 'violationCount']
+                }
+            },
+            required: ['reasoning', 'method', 'suggestedScale', 'anchor', 'generativePrompt', 'clearance', 'overrides', 'safetyReport', 'knowledgeApplied']
         };
-        
-        if (modelConfig.thinkingBudget) {
-            requestConfig.thinkingConfig = { thinkingBudget: modelConfig.thinkingBudget };
-        }
 
-        const response = await ai.models.generateContent({
-            model: modelConfig.apiModel,
-            contents: apiContents,
-            config: requestConfig
+        const response = await provider.analyze<LayoutStrategy>({
+            task: 'layout',
+            messages: apiContents,
+            systemInstruction,
+            schema: responseSchema,
+            quality: modelConfig.quality,
+            geometry: {
+                source: { w: sourceData.container.bounds.w, h: sourceData.container.bounds.h },
+                target: { w: targetData.bounds.w, h: targetData.bounds.h }
+            }
         });
 
-        const json = JSON.parse(response.text || '{}');
+        // Schema gate: repair the model output against the real layer tree before anything downstream sees it
+        const fallbackScale = Math.min(
+            targetData.bounds.w / sourceData.container.bounds.w,
+            targetData.bounds.h / sourceData.container.bounds.h
+        );
+        const { strategy: json, diagnostics } = validateLayoutStrategy(
+            response.data,
+            collectLayerIds(sourceData.layers as SerializableLayer[]),
+            Number.isFinite(fallbackScale) && fallbackScale > 0 ? fallbackScale : 1
+        );
+        if (diagnostics.length > 0) {
+            console.warn(`Analyst strategy repaired (${diagnostics.length} issues):`, diagnostics);
+        }
         
         // --- PAYLOAD ENRICHMENT ---
         // 1. Source Pixel Extraction
@@ -826,7 +969,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         const newAiMessage: ChatMessage = {
             id: Date.now().toString(),
             role: 'model',
-            parts: [{ text: response.text || '' }],
+            parts: [{ text: response.text }],
             strategySnapshot: json,
             timestamp: Date.now()
         };
@@ -878,6 +1021,17 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
 
       } catch (e: any) {
           console.error("Analysis Failed:", e);
+          // Unrecoverable model output: surface it in the chat instead of failing silently
+          if (e instanceof StrategyValidationError) {
+              updateInstanceState(index, {
+                  chatHistory: [...history, {
+                      id: Date.now().toString(),
+                      role: 'model',
+                      parts: [{ text: `Strategy rejected [${e.code}]: ${e.message}` }],
+                      timestamp: Date.now()
+                  }]
+              });
+          }
       } finally {
           setAnalyzingInstances(prev => ({ ...prev, [index]: false }));
       }
@@ -949,11 +1103,12 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       </div>
       <div className="flex flex-col">
           {Array.from({ length: instanceCount }).map((_, i) => {
-              const state = analystInstances[i] || DEFAULT_INSTANCE_STATE;
+              const state = analystInstances[i] || DEFAULT_ANALYST_STATE;
               return (
                   <InstanceRow 
                       key={i} nodeId={id} index={i} state={state} sourceData={getSourceData(i)} targetData={getTargetData(i)}
                       onAnalyze={handleAnalyze} onRefine={handleRefine} onModelChange={handleModelChange} onToggleMute={handleToggleMute}
+                      onModeChange={handleModeChange} onSolverRulesChange={handleSolverRulesChange} onSolve={handleSolve}
                       isAnalyzing={!!analyzingInstances[i]} compactMode={instanceCount > 1}
                       activeKnowledge={activeKnowledge}
                   />
@@ -42,6 +42,8 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0 }) => {
              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 20 20">
                <path d="M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" />
              </svg>
+           ) : node.type === 'text' ? (
+             <span className="w-3.5 h-3.5 flex items-center justify-center text-[10px] font-serif font-bold leading-none">T</span>
            ) : (
              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -50,6 +52,12 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0 }) => {
         </div>
 
         <span className="text-xs text-slate-200 truncate">{node.name}</span>
+
+        {node.text && (
+           <span className="ml-1.5 text-[9px] font-mono text-slate-500 shrink-0" title={`${node.text.fontName} · ${node.text.boxType} text`}>
+              {Math.round(node.text.fontSize)}px
+           </span>
+        )}
         
         {!node.isVisible && (
            <svg className="w-3 h-3 ml-auto text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,11 +1,14 @@
 import React, { memo, useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Handle, Position, NodeProps, NodeResizer, useEdges, useReactFlow, useUpdateNodeInternals, useNodes } from 'reactflow';
-import { PSDNodeData, TransformedPayload, ReviewerInstanceState, ReviewerStrategy, TransformedLayer, LayerOverride, ChatMessage } from '../types';
+import { PSDNodeData, TransformedPayload, ReviewerInstanceState, ReviewerStrategy, ChatMessage, CollisionGate, CollisionReport, CollisionSeverity } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath } from '../services/psdService';
-import { GoogleGenAI, Type } from "@google/genai";
+import { compositeLayers } from '../services/compositorService';
+import { isCroppingStrategy, polishPayload } from '../services/remapService';
+import { getAIProvider, AIPart, AISchema } from '../services/aiProvider';
+import { validateReviewerStrategy, collectLayerIds } from '../services/strategyValidation';
+import { analyzeCollisions, summarizeCollisions } from '../services/collisionService';
 import { Psd } from 'ag-psd';
-import { BrainCircuit, Activity, ShieldCheck, Move, Maximize, RotateCw, CheckCircle2, ArrowRight, ScanEye } from 'lucide-react';
+import { BrainCircuit, Activity, ShieldCheck, Move, Maximize, RotateCw, CheckCircle2, ArrowRight, ScanEye, Crosshair, Lock } from 'lucide-react';
 
 const DEFAULT_REVIEWER_STATE: ReviewerInstanceState = {
     chatHistory: [],
@@ -13,121 +16,24 @@ const DEFAULT_REVIEWER_STATE: ReviewerInstanceState = {
 };
 
 // --- HELPER: Visual Compositor ---
-// Renders the current mathematical layout onto a canvas for AI Vision
+// Renders the current mathematical layout for AI Vision (shared compositor: blend modes, clipping, effects)
 const renderCurrentState = async (payload: TransformedPayload, psd: Psd): Promise<string | null> => {
     if (!payload || !psd) return null;
 
     const { w, h } = payload.metrics.target;
-    const canvas = document.createElement('canvas');
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-
-    // Fill background (Dark slate to help AI see boundaries)
-    ctx.fillStyle = '#0f172a';
-    ctx.fillRect(0, 0, w, h);
-
-    const drawLayers = (layers: TransformedLayer[]) => {
-        // Reverse painter's algorithm (bottom-up)
-        for (let i = layers.length - 1; i >= 0; i--) {
-            const layer = layers[i];
-            
-            if (layer.isVisible) {
-                // 1. Draw Image Content (if standard layer)
-                if (layer.type !== 'generative' && layer.type !== 'group') {
-                    const originalLayer = findLayerByPath(psd, layer.id);
-                    if (originalLayer && originalLayer.canvas) {
-                        try {
-                            // Draw at transformed coordinates
-                            ctx.globalAlpha = layer.opacity;
-                            ctx.drawImage(
-                                originalLayer.canvas, 
-                                layer.coords.x, 
-                                layer.coords.y, 
-                                layer.coords.w, 
-                                layer.coords.h
-                            );
-                        } catch (e) {
-                            console.warn("Failed to draw layer:", layer.name);
-                        }
-                    }
-                }
-                
-                // 2. Draw Generative Placeholder (if gen layer)
-                if (layer.type === 'generative') {
-                    ctx.fillStyle = 'rgba(192, 132, 252, 0.3)'; // Purple tint
-                    ctx.strokeStyle = 'rgba(192, 132, 252, 0.8)';
-                    ctx.lineWidth = 2;
-                    ctx.fillRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-                    ctx.strokeRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
-                }
-
-                ctx.globalAlpha = 1.0;
-
-                // Recursion
-                if (layer.children) {
-                    drawLayers(layer.children);
-                }
-            }
-        }
-    };
-
-    drawLayers(payload.layers);
+    // Layer coords live in target canvas space; the container origin maps to (0,0).
+    // The canvas is exactly the container, so FILL / 1:1 overflow is cropped just as Export will.
+    const canvas = compositeLayers(payload.layers, psd, {
+        width: w,
+        height: h,
+        origin: payload.targetBounds || { x: 0, y: 0 },
+        background: '#0f172a' // Dark slate to help AI see boundaries
+    });
 
     // Export high-quality JPEG for Vision
     return canvas.toDataURL('image/jpeg', 0.9);
 };
 
-// --- HELPER: Apply Nudges ---
-// Creates a new payload by applying CARO's overrides to the geometry
-const applyOverridesToPayload = (payload: TransformedPayload, overrides: LayerOverride[]): TransformedPayload => {
-  const deepUpdate = (layers: TransformedLayer[]): TransformedLayer[] => {
-    return layers.map(layer => {
-      const override = overrides.find(o => o.layerId === layer.id);
-      let newLayer = { ...layer };
-      
-      if (override) {
-        // Apply geometric nudges (Offsets are additive to current state)
-        const newX = layer.coords.x + override.xOffset;
-        const newY = layer.coords.y + override.yOffset;
-        
-        // Scale is multiplicative
-        const scaleMult = override.individualScale || 1;
-        
-        newLayer.coords = {
-            ...layer.coords,
-            x: newX,
-            y: newY,
-            w: layer.coords.w * scaleMult,
-            h: layer.coords.h * scaleMult
-        };
-        
-        newLayer.transform = {
-            ...layer.transform,
-            scaleX: layer.transform.scaleX * scaleMult,
-            scaleY: layer.transform.scaleY * scaleMult,
-            offsetX: newX,
-            offsetY: newY,
-            rotation: (layer.transform.rotation || 0) + (override.rotation || 0)
-        };
-      }
-      
-      if (layer.children) {
-        newLayer.children = deepUpdate(layer.children);
-      }
-      
-      return newLayer;
-    });
-  };
-
-  return {
-    ...payload,
-    layers: deepUpdate(payload.layers),
-    isPolished: true
-  };
-};
-
 // --- Subcomponent: Nudge Matrix ---
 const NudgeMatrix: React.FC<{ strategy: ReviewerStrategy | null }> = ({ strategy }) => {
     if (!strategy) return null;
@@ -139,6 +45,14 @@ const NudgeMatrix: React.FC<{ strategy: ReviewerStrategy | null }> = ({ strategy
                 <span className="text-[8px] font-bold text-emerald-400 uppercase tracking-widest">Aesthetic Deltas</span>
                 <span className="text-[8px] text-emerald-600 font-mono">{overrides.length} Layers Polished</span>
             </div>
+            {strategy.diagnostics && strategy.diagnostics.length > 0 && (
+                <div
+                    className="text-[8px] text-amber-400 font-mono pb-1"
+                    title={strategy.diagnostics.map(d => `${d.action.toUpperCase()} ${d.field}: ${d.message}`).join('\n')}
+                >
+                    {strategy.diagnostics.length} schema repairs applied
+                </div>
+            )}
             <div className="grid grid-cols-4 gap-1 text-center">
                 <div className="flex flex-col bg-emerald-950/20 p-1 rounded">
                     <span className="text-[7px] text-emerald-600 uppercase">Pos</span>
@@ -161,15 +75,77 @@ const NudgeMatrix: React.FC<{ strategy: ReviewerStrategy | null }> = ({ strategy
     );
 };
 
+// --- Subcomponent: Collision Report ---
+const SEVERITY_STYLES: Record<CollisionSeverity, string> = {
+    error: 'text-red-300 border-red-500/40 bg-red-900/20',
+    warning: 'text-amber-300 border-amber-500/40 bg-amber-900/20',
+    info: 'text-slate-400 border-slate-600/40 bg-slate-800/40'
+};
+
+const GATE_LABELS: Record<CollisionGate, string> = {
+    off: 'Advisory',
+    warning: 'Block ≥ Warning',
+    error: 'Block Errors'
+};
+
+const CollisionReportPanel: React.FC<{
+    report: CollisionReport;
+    onGateChange: (gate: CollisionGate) => void;
+}> = ({ report, onGateChange }) => (
+    <div className="bg-slate-950/80 border border-emerald-500/20 rounded p-2 space-y-1">
+        <div className="flex justify-between items-center border-b border-emerald-900/50 pb-1">
+            <span className="text-[8px] font-bold text-emerald-400 uppercase tracking-widest flex items-center gap-1">
+                <Crosshair className="w-2.5 h-2.5" /> Collision Report
+            </span>
+            <div className="flex items-center gap-1">
+                {report.blocking && (
+                    <span className="text-[7px] font-bold text-red-300 bg-red-900/40 border border-red-500/40 px-1 rounded flex items-center gap-0.5" title="Export rejects this slot until the issues are fixed or the gate is relaxed">
+                        <Lock className="w-2 h-2" /> EXPORT BLOCKED
+                    </span>
+                )}
+                <select
+                    value={report.gate}
+                    onChange={(e) => onGateChange(e.target.value as CollisionGate)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="nodrag nopan bg-slate-900 border border-slate-700 rounded px-1 py-0 text-[8px] font-mono text-emerald-300 outline-none cursor-pointer"
+                    title="Lowest severity that blocks export"
+                >
+                    {(Object.keys(GATE_LABELS) as CollisionGate[]).map(gate => (
+                        <option key={gate} value={gate}>{GATE_LABELS[gate]}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+        <div className="flex justify-between text-[8px] font-mono">
+            <span className={report.counts.error > 0 ? 'text-red-400' : report.counts.warning > 0 ? 'text-amber-400' : 'text-emerald-500'}>
+                {summarizeCollisions(report).toUpperCase()}
+            </span>
+            {!report.pixelChecked && <span className="text-slate-600" title="Pixel data unavailable: overlaps are judged by bounding boxes">BOX-ONLY</span>}
+        </div>
+        {report.issues.length > 0 && (
+            <div className="nowheel max-h-24 overflow-y-auto custom-scrollbar space-y-0.5 cursor-auto" onMouseDown={e => e.stopPropagation()}>
+                {report.issues.map((issue, i) => (
+                    <div key={i} className={`text-[8px] leading-tight px-1 py-0.5 rounded border ${SEVERITY_STYLES[issue.severity]}`}>
+                        <span className="font-bold uppercase mr-1">{issue.kind}</span>
+                        {issue.message}
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+);
+
 // --- Subcomponent: Instance Row ---
 const ReviewerInstanceRow: React.FC<{
     index: number;
     nodeId: string;
     state: ReviewerInstanceState;
     incomingPayload: TransformedPayload | null;
+    psd: Psd | undefined;
     onReview: (index: number) => void;
+    onGateChange: (index: number, gate: CollisionGate) => void;
     isProcessing: boolean;
-}> = ({ index, nodeId, state, incomingPayload, onReview, isProcessing }) => {
+}> = ({ index, nodeId, state, incomingPayload, psd, onReview, onGateChange, isProcessing }) => {
     const isReady = !!incomingPayload;
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const { registerReviewerPayload } = useProceduralStore();
@@ -190,21 +166,24 @@ const ReviewerInstanceRow: React.FC<{
         }
     }, [state.chatHistory]);
 
+    // With a strategy this calculates the NEW geometry; otherwise passes through unpolished
+    const polishedPayload = useMemo(
+        () => incomingPayload ? polishPayload(incomingPayload, state.reviewerStrategy) : null,
+        [incomingPayload, state.reviewerStrategy]
+    );
+
+    // Deterministic collision audit of the polished geometry (its gate is enforced by Export)
+    const collisionReport = useMemo(
+        () => polishedPayload ? analyzeCollisions(polishedPayload, psd, { gate: state.collisionGate }) : null,
+        [polishedPayload, psd, state.collisionGate]
+    );
+
     // Apply Overrides Effect (State -> Store)
     useEffect(() => {
-        if (!incomingPayload) return;
-
-        // If we have a strategy, calculate the NEW geometry
-        if (state.reviewerStrategy) {
-            const finalPayload = applyOverridesToPayload(incomingPayload, state.reviewerStrategy.overrides);
-            registerReviewerPayload(nodeId, `polished-out-${index}`, finalPayload);
-        } else {
-            // Pass-through if no audit performed yet
-            const cleanPayload = { ...incomingPayload, isPolished: false };
-            registerReviewerPayload(nodeId, `polished-out-${index}`, cleanPayload);
-        }
+        if (!polishedPayload) return;
+        registerReviewerPayload(nodeId, `polished-out-${index}`, { ...polishedPayload, collisionReport: collisionReport || undefined });
 
-    }, [incomingPayload, state.reviewerStrategy, nodeId, index, registerReviewerPayload]);
+    }, [polishedPayload, collisionReport, nodeId, index, registerReviewerPayload]);
 
 
     return (
@@ -256,6 +235,10 @@ const ReviewerInstanceRow: React.FC<{
                 )}
             </div>
 
+            {collisionReport && (
+                <CollisionReportPanel report={collisionReport} onGateChange={(gate) => onGateChange(index, gate)} />
+            )}
+
             {/* Metrics & Output */}
             <div className="flex items-end justify-between space-x-4">
                 <div className="flex-1">
@@ -324,11 +307,15 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
           if (!visualBase64) throw new Error("Failed to composite visual state.");
 
           // 2. Prepare AI Request
-          const apiKey = process.env.API_KEY;
-          if (!apiKey) throw new Error("API Key missing");
-          const ai = new GoogleGenAI({ apiKey });
+          const provider = getAIProvider();
+
+          // 3. Deterministic findings ground the visual audit (same analyzer Export gates on)
+          const collisions = analyzeCollisions(payload, psd).issues.filter(issue => issue.severity !== 'info');
+          const collisionLines = collisions.length > 0
+              ? collisions.slice(0, 20).map(issue => `- [${issue.severity.toUpperCase()}] ${issue.kind} (${issue.layerIds.join(', ')}): ${issue.message}`).join('\n')
+              : '- None detected.';
 
-          // 3. Simplify Layer Hierarchy for Tokens
+          // 4. Simplify Layer Hierarchy for Tokens
           const simplifiedLayers = payload.layers.map(l => ({
               id: l.id,
               name: l.name,
@@ -346,13 +333,17 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             CONTEXT:
             - Target Container: ${payload.targetContainer}
             - Current Scale Factor: ${payload.scaleFactor}
+            - Remap Strategy: ${payload.strategy || 'UNIFORM_FIT'}${isCroppingStrategy(payload.strategy) ? ' (content is intentionally cropped to the container; do not treat overflow as a defect)' : ''}
             
             INPUT:
             1. An image of the current procedural layout (Rendered).
             2. A JSON list of layers corresponding to that image.
+            3. A deterministic geometry report (measured, not guessed):
+${collisionLines}
             
             YOUR JOB:
             Identify aesthetic collisions (e.g., text overlapping objects, awkward tangents, visual imbalance) that purely mathematical resizing missed.
+            Resolve every ERROR in the geometry report first; it is re-run on your result and can block export.
             Provide precise 'nudges' (offsets, scale adjustments) to achieve Optical Equilibrium.
             
             RULES:
@@ -360,6 +351,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             - DO NOT delete layers.
             - ONLY apply offsets (xOffset, yOffset) and micro-scaling (individualScale).
             - 'individualScale' is a multiplier (e.g. 0.95 = shrink 5%).
+            - Nudging a group moves and scales all of its children with it; do not repeat the nudge on the children.
             
             OUTPUT JSON:
             {
@@ -370,59 +362,58 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
             }
           `;
 
-          const parts: any[] = [
+          const parts: AIPart[] = [
               { text: prompt },
               { text: `LAYER HIERARCHY:\n${JSON.stringify(simplifiedLayers.slice(0, 50))}` }, // Limit context
               { inlineData: { mimeType: 'image/jpeg', data: visualBase64.split(',')[1] } }
           ];
 
-          // 4. Call Gemini
-          const response = await ai.models.generateContent({
-              model: 'gemini-3-flash-preview',
-              contents: { parts },
-              config: {
-                  responseMimeType: "application/json",
-                  responseSchema: {
-                      type: Type.OBJECT,
-                      properties: {
-                          CARO_Audit: { type: Type.STRING },
-                          overrides: {
-                              type: Type.ARRAY,
-                              items: {
-                                  type: Type.OBJECT,
-                                  properties: {
-                                      layerId: { type: Type.STRING },
-                                      xOffset: { type: Type.NUMBER },
-                                      yOffset: { type: Type.NUMBER },
-                                      individualScale: { type: Type.NUMBER },
-                                      rotation: { type: Type.NUMBER }
-                                  },
-                                  required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                              }
-                          }
-                      },
-                      required: ['CARO_Audit', 'overrides']
+          // 5. Call AI Provider
+          const responseSchema: AISchema = {
+              type: 'OBJECT',
+              properties: {
+                  CARO_Audit: { type: 'STRING' },
+                  overrides: {
+                      type: 'ARRAY',
+                      items: {
+                          type: 'OBJECT',
+                          properties: {
+                              layerId: { type: 'STRING' },
+                              xOffset: { type: 'NUMBER' },
+                              yOffset: { type: 'NUMBER' },
+                              individualScale: { type: 'NUMBER' },
+                              rotation: { type: 'NUMBER' }
+                          },
+                          required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
+                      }
                   }
-              }
+              },
+              required: ['CARO_Audit', 'overrides']
+          };
+
+          const response = await provider.analyze<ReviewerStrategy>({
+              task: 'review',
+              messages: [{ role: 'user', parts }],
+              schema: responseSchema,
+              geometry: { source: payload.metrics.source, target: payload.metrics.target }
           });
 
-          // 5. Process Response
-          const result = JSON.parse(response.text || '{}');
-          
-          const newStrategy: ReviewerStrategy = {
-              CARO_Audit: result.CARO_Audit,
-              overrides: result.overrides
-          };
+          // 6. Process Response
+          // Schema gate: nudges may only target layers that exist in this payload
+          const { strategy: newStrategy, diagnostics } = validateReviewerStrategy(response.data, collectLayerIds(payload.layers));
+          if (diagnostics.length > 0) {
+              console.warn(`CARO strategy repaired (${diagnostics.length} issues):`, diagnostics);
+          }
 
           const newLog: ChatMessage = {
               id: Date.now().toString(),
               role: 'model',
-              parts: [{ text: result.CARO_Audit }],
-              strategySnapshot: { ...payload.metrics, overrides: result.overrides } as any, // Mock strategy for UI compatibility
+              parts: [{ text: newStrategy.CARO_Audit }],
+              strategySnapshot: { ...payload.metrics, overrides: newStrategy.overrides } as any, // Mock strategy for UI compatibility
               timestamp: Date.now()
           };
 
-          // 6. Update Node Data
+          // 7. Update Node Data
           setNodes(nds => nds.map(n => {
               if (n.id === id) {
                   const currentInstances = n.data.reviewerInstances || {};
@@ -452,6 +443,18 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
       }
   };
 
+  const handleGateChange = useCallback((index: number, gate: CollisionGate) => {
+      setNodes(nds => nds.map(n => {
+          if (n.id !== id) return n;
+          const currentInstances = n.data.reviewerInstances || {};
+          const oldState = currentInstances[index] || DEFAULT_REVIEWER_STATE;
+          return {
+              ...n,
+              data: { ...n.data, reviewerInstances: { ...currentInstances, [index]: { ...oldState, collisionGate: gate } } }
+          };
+      }));
+  }, [id, setNodes]);
+
   const addInstance = () => {
       setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, instanceCount: instanceCount + 1 } } : n));
   };
@@ -483,7 +486,9 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 nodeId={id}
                 state={reviewerInstances[i] || { chatHistory: [], reviewerStrategy: null }}
                 incomingPayload={getIncomingPayload(i)}
+                psd={psdRegistry[getIncomingPayload(i)?.sourceNodeId || '']}
                 onReview={handleReview}
+                onGateChange={handleGateChange}
                 isProcessing={!!processingState[i]}
               />
           ))}
@@ -1,27 +1,10 @@
 import React, { memo, useState, useMemo } from 'react';
 import { Handle, Position, NodeProps, useEdges } from 'reactflow';
-import { TransformedLayer, TransformedPayload, MappingContext } from '../types';
+import { TransformedLayer } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath, writePsdFile } from '../services/psdService';
-import { Layer, Psd } from 'ag-psd';
-import { GoogleGenAI } from "@google/genai";
-
-// Helper: Calculate closest supported aspect ratio for Nano Banana
-const getClosestAspectRatio = (width: number, height: number): string => {
-    const ratio = width / height;
-    const targets = {
-        "1:1": 1,
-        "3:4": 0.75,
-        "4:3": 1.333,
-        "9:16": 0.5625,
-        "16:9": 1.777
-    };
-    
-    // Find closest aspect ratio key
-    return Object.keys(targets).reduce((prev, curr) => 
-        Math.abs(targets[curr as keyof typeof targets] - ratio) < Math.abs(targets[prev as keyof typeof targets] - ratio) ? curr : prev
-    );
-};
+import { writePsdFile } from '../services/psdService';
+import { resolveExportSlots, assembleTargetPsd } from '../services/exportService';
+import { getAIProvider } from '../services/aiProvider';
 
 // Helper: Convert Base64 Data URI to HTMLCanvasElement
 const base64ToCanvas = (base64: string, width: number, height: number): Promise<HTMLCanvasElement | null> => {
@@ -61,42 +44,7 @@ const base64ToCanvas = (base64: string, width: number, height: number): Promise<
     });
 };
 
-// Helper: Create a transformed version of a standard layer canvas (Rotation/Scale baking)
-const applyTransformToCanvas = (
-    sourceCanvas: HTMLCanvasElement | HTMLImageElement,
-    width: number,
-    height: number,
-    transform: { scaleX: number, scaleY: number, rotation?: number }
-): HTMLCanvasElement => {
-    // Create canvas based on target AABB dimensions
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return canvas;
-
-    // Center of new bounds
-    const cx = width / 2;
-    const cy = height / 2;
-
-    ctx.save();
-    ctx.translate(cx, cy);
-    if (transform.rotation) {
-        ctx.rotate((transform.rotation * Math.PI) / 180);
-    }
-    
-    // Draw centered. We assume 'width' and 'height' passed here are the destination dimensions
-    // and the source should be scaled to fit? 
-    // Actually, in our pipeline, 'transform.scaleX' was already applied to calculate 'width' and 'height' in the coordinates.
-    // But 'sourceCanvas' is the original raw pixels.
-    // So we draw sourceCanvas at -w/2, -h/2 with size w, h.
-    ctx.drawImage(sourceCanvas, -width / 2, -height / 2, width, height);
-
-    ctx.restore();
-    return canvas;
-};
-
-// Helper: Generate Image using GenAI SDK
+// Helper: Generate Image using the active AI Provider
 const generateLayerImage = async (
     prompt: string, 
     width: number, 
@@ -104,49 +52,9 @@ const generateLayerImage = async (
     sourceReference?: string
 ): Promise<HTMLCanvasElement | null> => {
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
-        
-        // Construct Multi-Modal Request Parts
-        const parts: any[] = [];
-        
-        if (sourceReference) {
-            const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-            
-            parts.push({
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: base64Data
-                }
-            });
-        }
-        
-        parts.push({ text: prompt });
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: getClosestAspectRatio(width, height) as any
-                }
-            }
-        });
-        
-        let base64Data = null;
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                base64Data = part.inlineData.data;
-                break;
-            }
-        }
-        
-        if (!base64Data) throw new Error("No image data returned from API");
-        return base64ToCanvas(`data:image/png;base64,${base64Data}`, width, height);
+        const dataUrl = await getAIProvider().synthesizeImage({ prompt, width, height, sourceReference });
+        if (!dataUrl) throw new Error("No image data returned from provider");
+        return base64ToCanvas(dataUrl, width, height);
 
     } catch (e) {
         console.error("Generative Fill Failed:", e);
@@ -174,53 +82,10 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
   const containers = templateMetadata?.containers || [];
 
   // 2. Map Connections to Payloads (STRICT GATE LOGIC)
-  const { slotConnections, validationErrors } = useMemo(() => {
-    const map = new Map<string, TransformedPayload>();
-    const errors: string[] = [];
-    
-    edges.forEach(edge => {
-      if (edge.target !== id) return;
-      if (!edge.targetHandle?.startsWith('input-')) return;
-
-      const slotName = edge.targetHandle.replace('input-', '');
-      
-      // PHASE 4: PRIORITY LOOKUP (Reviewer -> Error)
-      
-      // A. Check Reviewer Registry (Absolute Source of Truth)
-      const reviewerData = reviewerRegistry[edge.source];
-      let payload = reviewerData ? reviewerData[edge.sourceHandle || ''] : undefined;
-
-      // B. Fallback / Gate Check
-      if (!payload) {
-          // If connection exists but no reviewer data, check if it came from a legacy source (Remapper/Resolver)
-          // If found in legacy registries but NOT reviewer, it means the user bypassed the gate.
-          const isRemapper = !!payloadRegistry[edge.source]?.[edge.sourceHandle || ''];
-          const isResolver = !!resolvedRegistry[edge.source]?.[edge.sourceHandle || ''];
-
-          if (isRemapper || isResolver) {
-               errors.push(`Slot '${slotName}': PROCEDURAL_GATE_LOCKED. Content must be polished by Design Reviewer.`);
-               // Create dummy payload to render error state
-               payload = {
-                 status: 'error',
-                 sourceNodeId: edge.source,
-                 sourceContainer: 'Unknown',
-                 targetContainer: slotName,
-                 layers: [],
-                 scaleFactor: 1,
-                 metrics: { source: {w:0,h:0}, target: {w:0,h:0} }
-               };
-          }
-      }
-
-      if (payload) {
-         if (payload.status !== 'error') {
-            map.set(slotName, payload);
-         }
-      }
-    });
-
-    return { slotConnections: map, validationErrors: errors };
-  }, [edges, id, payloadRegistry, reviewerRegistry, resolvedRegistry]);
+  const { slotConnections, validationErrors } = useMemo(
+    () => resolveExportSlots(edges, id, reviewerRegistry, payloadRegistry, resolvedRegistry),
+    [edges, id, payloadRegistry, reviewerRegistry, resolvedRegistry]
+  );
 
   // 3. Status Calculation
   const totalSlots = containers.length;
@@ -237,14 +102,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
     setExportStatus('Analyzing procedural graph...');
 
     try {
-      // A. Initialize New PSD Structure
-      const newPsd: Psd = {
-        width: templateMetadata.canvas.width,
-        height: templateMetadata.canvas.height,
-        children: [],
-      };
-
-      // B. Synthesis Phase: Pre-generate or Reuse AI assets
+      // A. Synthesis Phase: Pre-generate or Reuse AI assets
       const generatedAssets = new Map<string, HTMLCanvasElement>();
       const generationTasks: Promise<void>[] = [];
 
@@ -303,112 +161,12 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
           await Promise.all(generationTasks);
       }
 
-      // C. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
+      // B. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
       setExportStatus('Assembling PSD structure...');
 
-      const reconstructHierarchy = (
-        transformedLayers: TransformedLayer[], 
-        sourcePsd: Psd | undefined,
-        assets: Map<string, HTMLCanvasElement>
-      ): Layer[] => {
-        const resultLayers: Layer[] = [];
+      const newPsd = assembleTargetPsd(templateMetadata, slotConnections, psdRegistry, generatedAssets);
 
-        for (const metaLayer of transformedLayers) {
-            let newLayer: Layer | undefined;
-
-            // BRANCH 1: Generative Layer (Synthetic)
-            if (metaLayer.type === 'generative') {
-                const asset = assets.get(metaLayer.id);
-                if (asset) {
-                    newLayer = {
-                        name: metaLayer.name,
-                        top: metaLayer.coords.y,
-                        left: metaLayer.coords.x,
-                        bottom: metaLayer.coords.y + metaLayer.coords.h,
-                        right: metaLayer.coords.x + metaLayer.coords.w,
-                        hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
-                        canvas: asset // Inject synthetic pixel data
-                    };
-                }
-            } 
-            // BRANCH 2: Standard Layer (Clone + Raster Transform)
-            else if (sourcePsd) {
-                const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
-                
-                if (originalLayer) {
-                    // Check if CARO applied overrides requiring raster bake (Rotation)
-                    const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
-                    
-                    let bakedCanvas = originalLayer.canvas;
-
-                    // If rotation exists, we must re-rasterize the original canvas into a transformed state
-                    if (originalLayer.canvas && (hasRotation || metaLayer.transform.scaleX !== 1)) {
-                         bakedCanvas = applyTransformToCanvas(
-                             originalLayer.canvas as HTMLCanvasElement, 
-                             metaLayer.coords.w, 
-                             metaLayer.coords.h, 
-                             metaLayer.transform
-                         );
-                    }
-
-                    newLayer = {
-                        ...originalLayer, // Copy metadata
-                        top: metaLayer.coords.y,
-                        left: metaLayer.coords.x,
-                        bottom: metaLayer.coords.y + metaLayer.coords.h,
-                        right: metaLayer.coords.x + metaLayer.coords.w,
-                        hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
-                        children: undefined,
-                        canvas: bakedCanvas
-                    };
-                    
-                    if (metaLayer.type === 'group' && metaLayer.children) {
-                        newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd, assets);
-                        newLayer.opened = true;
-                    }
-                }
-            }
-
-            if (newLayer) {
-                resultLayers.push(newLayer);
-            }
-        }
-        return resultLayers;
-      };
-
-      const finalChildren: Layer[] = [];
-
-      for (const container of containers) {
-          const payload = slotConnections.get(container.name);
-          
-          if (payload) {
-              const sourcePsd = psdRegistry[payload.sourceNodeId];
-              
-              const reconstructedContent = reconstructHierarchy(
-                  payload.layers, 
-                  sourcePsd, 
-                  generatedAssets
-              );
-              
-              const containerGroup: Layer = {
-                  name: container.originalName,
-                  children: reconstructedContent,
-                  opened: true,
-                  top: container.bounds.y,
-                  left: container.bounds.x,
-                  bottom: container.bounds.y + container.bounds.h,
-                  right: container.bounds.x + container.bounds.w,
-              };
-
-              finalChildren.push(containerGroup);
-          }
-      }
-
-      newPsd.children = finalChildren;
-
-      // D. Write to File
+      // C. Write to File
       setExportStatus('Finalizing binary...');
       await writePsdFile(newPsd, `PROCEDURAL_EXPORT_${Date.now()}.psd`);
       setExportStatus('Done');
@@ -466,6 +224,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                   const isGen = payload?.requiresGeneration || payload?.previewUrl; 
                   const isConfirmed = payload?.isConfirmed;
                   const isPolished = payload?.isPolished;
+                  const isCollisionBlocked = !!payload?.collisionReport?.blocking;
 
                   return (
                       <div 
@@ -507,6 +266,11 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                                           UNPOLISHED
                                       </span>
                                   ) : null}
+                                  {isCollisionBlocked && (
+                                      <span className="text-[8px] bg-red-500/20 text-red-300 px-1 rounded border border-red-500/30 leading-none" title="Design Reviewer collision gate">
+                                          COLLISIONS
+                                      </span>
+                                  )}
                               </div>
                           </div>
                           
@@ -4,7 +4,7 @@ import { useProceduralStore } from '../store/ProceduralContext';
 import { PSDNodeData, VisualAnchor, KnowledgeContext } from '../types';
 import { BookOpen, Image as ImageIcon, FileText, Trash2, UploadCloud, BrainCircuit, Loader2, CheckCircle2, AlertCircle, X, Layers, RefreshCw } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { GoogleGenAI } from "@google/genai";
+import { getAIProvider } from '../services/aiProvider';
 
 // Initialize PDF Worker from CDN to handle parsing off the main thread
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
@@ -243,12 +243,14 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         let finalRules = "";
 
         if (rawText.trim().length > 0) {
-            const apiKey = process.env.API_KEY;
-            if (apiKey) {
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
-                    model: 'gemini-3-flash-preview',
-                    contents: `
+            const provider = getAIProvider();
+            if (provider.isConfigured) {
+                const response = await provider.analyze({
+                    task: 'distill',
+                    systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines.",
+                    messages: [{
+                        role: 'user',
+                        parts: [{ text: `
                         SOURCE MATERIAL:
                         ${rawText.substring(0, 25000)} // Truncate to be safe
                         
@@ -258,10 +260,8 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                         e.g., 'Primary titles must have 24px top padding', 'Use a 12-column grid'.
                         
                         Format as plain text.
-                    `,
-                    config: {
-                        systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines."
-                    }
+                    ` }]
+                    }]
                 });
                 finalRules = response.text || "No rules generated.";
             } else {
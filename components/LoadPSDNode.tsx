@@ -3,6 +3,7 @@ import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
 import { parsePsdFile, extractTemplateMetadata, mapLayersToContainers, getCleanLayerTree, getSemanticTheme } from '../services/psdService';
 import { PSDNodeData, TemplateMetadata } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { TemplateEditor } from './TemplateEditor';
 
 // Sub-component for visualizing the template structure
 const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata }) => {
@@ -60,11 +61,12 @@ const TemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata })
 export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { setNodes } = useReactFlow();
   
   // Connect to Procedural Store
-  const { psdRegistry, registerPsd, registerTemplate, unregisterNode, triggerGlobalRefresh } = useProceduralStore();
+  const { psdRegistry, registerPsd, registerTemplate, registerSourceFile, unregisterNode, triggerGlobalRefresh } = useProceduralStore();
 
   // Determine State
   const isDataLoaded = !!data.template;
@@ -102,6 +104,7 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
       // REGISTER WITH STORE
       registerPsd(id, parsedPsd);
       registerTemplate(id, templateData);
+      registerSourceFile(id, file);
       
       // Trigger global refresh to notify downstream logic of new binary availability
       triggerGlobalRefresh();
@@ -116,6 +119,7 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
                 ...node.data,
                 fileName: file.name,
                 template: templateData,
+                templateEdited: false,
                 validation: validationReport,
                 designLayers: designLayers, // This reference update helps downstream hooks re-run
                 error: null,
@@ -149,7 +153,24 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
     } finally {
       setIsLoading(false);
     }
-  }, [id, setNodes, registerPsd, registerTemplate, triggerGlobalRefresh]);
+  }, [id, setNodes, registerPsd, registerTemplate, registerSourceFile, triggerGlobalRefresh]);
+
+  // Editor output replaces the PSD's !!TEMPLATE layout; design layers are re-validated against it
+  const handleEditorSave = useCallback((template: TemplateMetadata) => {
+    const psd = psdRegistry[id];
+    registerTemplate(id, template);
+    triggerGlobalRefresh();
+    setNodes((nodes) => nodes.map((node) => node.id === id ? {
+      ...node,
+      data: {
+        ...node.data,
+        template,
+        templateEdited: true,
+        validation: psd ? mapLayersToContainers(psd, template) : node.data.validation
+      }
+    } : node));
+    setIsEditing(false);
+  }, [id, psdRegistry, registerTemplate, triggerGlobalRefresh, setNodes]);
 
   const handleBoxClick = () => {
     fileInputRef.current?.click();
@@ -266,7 +287,14 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
               </div>
             )}
             
-            <div className="flex justify-end mt-2">
+            <div className="flex justify-end items-center space-x-2 mt-2">
+                {data.templateEdited && <span className="mr-auto text-[9px] font-mono text-amber-400" title="Layout edited in the Template Editor">EDITED</span>}
+                <button 
+                onClick={() => setIsEditing(true)}
+                className="py-1 px-3 bg-blue-800 hover:bg-blue-700 text-[10px] text-blue-100 rounded transition-colors uppercase font-medium tracking-wide"
+                >
+                Edit Layout
+                </button>
                 <button 
                 onClick={handleBoxClick}
                 className="py-1 px-3 bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-300 rounded transition-colors uppercase font-medium tracking-wide"
@@ -291,6 +319,10 @@ export const LoadPSDNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
         )}
       </div>
 
+      {isEditing && data.template && (
+        <TemplateEditor template={data.template} title={data.fileName || 'source'} onSave={handleEditorSave} onClose={() => setIsEditing(false)} />
+      )}
+
       {/* Output Handle - Centered Right */}
       <Handle
         type="source"
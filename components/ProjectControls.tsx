@@ -1,120 +1,178 @@
-import React, { useRef } from 'react';
-import { useReactFlow } from 'reactflow';
-import { ProjectExport } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { GraphHistory } from '../hooks/useGraphHistory';
+import { useProjectPersistence } from '../hooks/useProjectPersistence';
+import { useAutosave } from '../hooks/useAutosave';
+import { isAutosaveAvailable, listSessions, loadSession, SessionSummary } from '../services/autosaveService';
+import { SessionBrowser, RestoreSessionPrompt } from './SessionBrowser';
+import { packProject, unpackProject, isProjectPackage } from '../services/projectPackageService';
+import { Undo2, Redo2, History } from 'lucide-react';
 
-export const ProjectControls = () => {
-    const { toObject, setNodes, setEdges, setViewport } = useReactFlow();
+export const ProjectControls: React.FC<{ history?: GraphHistory }> = ({ history }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const onSave = () => {
-        const flow = toObject();
-        
-        // PERSISTENCE LOGIC:
-        // 1. Strip transient "AI Ghost" images (large base64 previews) from Remapper nodes to keep JSON lightweight.
-        // 2. PRESERVE "KnowledgeContext" in Knowledge nodes (contains distilled rules + optimized visual anchors).
-        //    This ensures the "Project Brain" is portable.
-        
-        const sanitizedNodes = flow.nodes.map(node => {
-            // Rule 1: Sanitize Remapper Payloads (Transient AI drafts)
-            if (node.data && node.data.transformedPayload) {
-                return {
-                    ...node,
-                    data: {
-                        ...node.data,
-                        transformedPayload: {
-                            ...node.data.transformedPayload,
-                            previewUrl: undefined, // Remove generated preview blob/base64
-                        }
-                    }
-                };
-            }
-            
-            // Rule 2: Explicitly preserve Knowledge Context (Implicit behavior, documented for clarity)
-            // node.data.knowledgeContext is NOT stripped, preserving visualAnchors (512px optimized) and rules.
+    const { sourceFileRegistry } = useProceduralStore();
+    const { buildProjectExport, collectSourceFiles, rehydrateBinaries, applyProject } = useProjectPersistence(history);
+    const [isBusy, setIsBusy] = useState(false);
 
-            return node;
-        });
-        
-        const projectData: ProjectExport = {
-            version: '1.0.0',
-            timestamp: Date.now(),
-            nodes: sanitizedNodes,
-            edges: flow.edges,
-            viewport: flow.viewport
-        };
-        
-        const jsonString = JSON.stringify(projectData, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
+    const downloadBlob = (blob: Blob, fileName: string) => {
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
         link.href = url;
-        link.download = `PSD_PROJECT_${Date.now()}.json`;
+        link.download = fileName;
         link.click();
         URL.revokeObjectURL(url);
     };
 
-    const onLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const onSaveJson = () => {
+        const jsonString = JSON.stringify(buildProjectExport(false), null, 2);
+        downloadBlob(new Blob([jsonString], { type: 'application/json' }), `PSD_PROJECT_${Date.now()}.json`);
+    };
+
+    const onSavePackage = async () => {
+        setIsBusy(true);
+        try {
+            const project = buildProjectExport(true);
+            const packaged = await packProject(project, await collectSourceFiles(project, sourceFileRegistry));
+            downloadBlob(new Blob([packaged as BlobPart], { type: 'application/zip' }), `PSD_PROJECT_${Date.now()}.zip`);
+        } catch (err) {
+            console.error("Failed to package project", err);
+            alert("Package Failed: Could not bundle the project binaries.");
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    // --- AUTOSAVE & CRASH RECOVERY ---
+    const autosave = useAutosave(buildProjectExport, sourceFileRegistry);
+    const [isSessionBrowserOpen, setIsSessionBrowserOpen] = useState(false);
+    const [recoverableSession, setRecoverableSession] = useState<SessionSummary | null>(null);
+
+    // Offer the newest autosave from a previous page load once on startup
+    useEffect(() => {
+        if (!isAutosaveAvailable()) return;
+        listSessions()
+            .then(sessions => setRecoverableSession(sessions.find(s => s.id !== autosave.sessionId) || null))
+            .catch(err => console.warn("Autosave storage unavailable", err));
+    }, [autosave.sessionId]);
+
+    const restoreSession = async (sessionId: string) => {
+        setRecoverableSession(null);
+        setIsBusy(true);
+        try {
+            const session = await loadSession(sessionId);
+            if (!session) {
+                alert("Restore Failed: The autosave no longer exists.");
+                return;
+            }
+            const project = applyProject(session.project);
+            if (!project) return;
+            const binaries = await Promise.all(session.files.map(async file => ({
+                nodeId: file.nodeId,
+                fileName: file.fileName,
+                data: new Uint8Array(await file.blob.arrayBuffer())
+            })));
+            rehydrateBinaries(project, binaries);
+        } catch (err: any) {
+            console.error("Failed to restore session", err);
+            alert(`Restore Failed: ${err.message || 'Could not read the autosave.'}`);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const onLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        // Reset input so same file can be loaded again if needed
+        e.target.value = '';
         if (!file) return;
-        
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            try {
-                const result = event.target?.result;
-                if (typeof result === 'string') {
-                    const rawData = JSON.parse(result);
-                    
-                    // VALIDATION LOGIC
-                    const isValidSchema = 
-                        rawData && 
-                        Array.isArray(rawData.nodes) && 
-                        Array.isArray(rawData.edges) && 
-                        rawData.viewport && 
-                        typeof rawData.viewport.x === 'number';
-
-                    if (!isValidSchema) {
-                        console.error("Schema Mismatch: Missing core React Flow properties.");
-                        alert("Invalid Project File: The file structure does not match the expected schema.");
-                        return;
-                    }
 
-                    // Strict Type Cast after validation
-                    const project = rawData as ProjectExport;
+        setIsBusy(true);
+        try {
+            const bytes = new Uint8Array(await file.arrayBuffer());
 
-                    // Apply React Flow State
-                    // This triggers the re-hydration effects in individual nodes (e.g., KnowledgeNode)
-                    setNodes(project.nodes);
-                    setEdges(project.edges);
-                    setViewport(project.viewport);
+            // 1. Packaged project (zip container)
+            if (isProjectPackage(bytes)) {
+                const { project: packaged, binaries } = await unpackProject(bytes);
+                const project = applyProject(packaged);
+                if (project) rehydrateBinaries(project, binaries);
+                return;
+            }
 
-                    if (project.version !== '1.0.0') {
-                        console.warn(`Version mismatch: Loading project version ${project.version} into runtime 1.0.0`);
-                    }
-                }
+            // 2. Plain JSON project
+            let rawData: any;
+            try {
+                rawData = JSON.parse(new TextDecoder().decode(bytes));
             } catch (err) {
                 console.error("Failed to parse project file", err);
                 alert("Corrupt File: Could not parse JSON data.");
+                return;
             }
-        };
-        reader.readAsText(file);
-        // Reset input so same file can be loaded again if needed
-        e.target.value = '';
+
+            applyProject(rawData);
+        } catch (err: any) {
+            console.error("Failed to load project", err);
+            alert(`Load Failed: ${err.message || 'Could not read project file.'}`);
+        } finally {
+            setIsBusy(false);
+        }
     };
 
     return (
+        <>
         <div className="fixed top-4 right-4 z-50 flex space-x-2">
+            {isAutosaveAvailable() && (
+                <button
+                    onClick={() => setIsSessionBrowserOpen(open => !open)}
+                    className={`bg-slate-800 hover:bg-slate-700 border px-2 py-1.5 rounded shadow-lg transition-colors flex items-center space-x-1.5 ${autosave.error ? 'border-red-500/60 text-red-300' : 'border-slate-600 text-slate-400'}`}
+                    title={autosave.error
+                        ? `Autosave failed: ${autosave.error}`
+                        : autosave.lastSavedAt ? `Autosaved at ${new Date(autosave.lastSavedAt).toLocaleTimeString()} · Browse sessions` : 'Browse autosaved sessions'}
+                >
+                    <History className="w-4 h-4" />
+                    {autosave.lastSavedAt && <span className="text-[9px] font-mono">{new Date(autosave.lastSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>}
+                </button>
+            )}
+            {history && (
+                <div className="flex">
+                    <button
+                        onClick={history.undo}
+                        disabled={!history.canUndo}
+                        className="bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-slate-600 px-2 py-1.5 rounded-l shadow-lg transition-colors"
+                        title="Undo (Ctrl+Z)"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                    </button>
+                    <button
+                        onClick={history.redo}
+                        disabled={!history.canRedo}
+                        className="bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 border border-l-0 border-slate-600 px-2 py-1.5 rounded-r shadow-lg transition-colors"
+                        title="Redo (Ctrl+Shift+Z)"
+                    >
+                        <Redo2 className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
             <input 
                 type="file" 
                 ref={fileInputRef} 
                 className="hidden" 
-                accept=".json" 
+                accept=".json,.zip" 
                 onChange={onLoad} 
             />
             <button 
-                onClick={onSave}
-                className="bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-600 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
-                title="Save Layout & Metadata"
+                onClick={onSaveJson}
+                disabled={isBusy}
+                className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-400 border border-slate-600 px-2 py-1.5 rounded text-[10px] font-bold uppercase tracking-wider shadow-lg transition-colors"
+                title="Save Layout & Metadata only (PSD binaries must be re-uploaded)"
+            >
+                JSON
+            </button>
+            <button 
+                onClick={onSavePackage}
+                disabled={isBusy}
+                className="bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 border border-slate-600 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
+                title="Save Project Package (layout + PSD binaries, knowledge anchors, confirmed generations)"
             >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
@@ -123,8 +181,9 @@ export const ProjectControls = () => {
             </button>
             <button 
                 onClick={() => fileInputRef.current?.click()}
-                className="bg-indigo-600 hover:bg-indigo-500 text-white border border-indigo-500 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
-                title="Load Project JSON"
+                disabled={isBusy}
+                className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white border border-indigo-500 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
+                title="Load Project Package (.zip) or JSON"
             >
                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
@@ -132,5 +191,22 @@ export const ProjectControls = () => {
                 <span>Load Project</span>
             </button>
         </div>
+        {isSessionBrowserOpen && (
+            <SessionBrowser
+                currentSessionId={autosave.sessionId}
+                lastSavedAt={autosave.lastSavedAt}
+                onRestore={restoreSession}
+                onClose={() => setIsSessionBrowserOpen(false)}
+            />
+        )}
+        {recoverableSession && !isSessionBrowserOpen && (
+            <RestoreSessionPrompt
+                session={recoverableSession}
+                onRestore={() => restoreSession(recoverableSession.id)}
+                onBrowse={() => { setRecoverableSession(null); setIsSessionBrowserOpen(true); }}
+                onDismiss={() => setRecoverableSession(null)}
+            />
+        )}
+        </>
     );
 };
\ No newline at end of file
@@ -1,9 +1,11 @@
 import React, { memo, useMemo, useEffect, useCallback, useState, useRef } from 'react';
-import { Handle, Position, NodeProps, useEdges, useReactFlow, useNodes } from 'reactflow';
-import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, MAX_BOUNDARY_VIOLATION_PERCENT, LayoutStrategy } from '../types';
+import { Handle, Position, NodeProps, useEdges, useReactFlow } from 'reactflow';
+import { PSDNodeData, ConfirmedGeneration, SerializableLayer, TransformedPayload, TransformedLayer, MappingContext, LayoutStrategy, RemapStrategy, ContainerConstraints, ContainerZone, LayerPin, LayerPinX, LayerPinY, NineSliceInsets } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { GoogleGenAI } from "@google/genai";
-import { Check, Sparkles, Info, Layers, Box, Cpu, BookOpen, Link as LinkIcon } from 'lucide-react';
+import { computeRemapGeometry, computeLayerPlacements, isCroppingStrategy, resolveTargetContainer, buildRemapPayload, resolveLayerPin, resolveNineSlice, DEFAULT_REMAP_STRATEGY, LayerDelta } from '../services/remapService';
+import { getAIProvider } from '../services/aiProvider';
+import { describeContainerConstraints, parseLayerPin, formatLayerPin, parseLayerNineSlice, formatLayerNineSlice } from '../services/psdService';
+import { Check, Sparkles, Info, Layers, Box, Cpu, BookOpen, Link as LinkIcon, Pin, RotateCcw, Grid3x3 } from 'lucide-react';
 
 interface InstanceData {
   index: number;
@@ -22,11 +24,23 @@ interface InstanceData {
     ready: boolean;
     name?: string;
     bounds?: { x: number, y: number, w: number, h: number };
+    constraints?: ContainerConstraints;
+    zones?: ContainerZone[];
   };
   payload: TransformedPayload | null;
+  pins?: Record<string, LayerPin>; // UI layer pins of this instance
+  nineSlices?: Record<string, NineSliceInsets>; // UI nine-slice insets of this instance
   strategyUsed?: boolean;
+  remapStrategy: RemapStrategy;
 }
 
+const REMAP_STRATEGY_LABELS: Record<RemapStrategy, string> = {
+    UNIFORM_FIT: 'FIT',
+    UNIFORM_FILL: 'FILL',
+    STRETCH: 'STRETCH',
+    NONE: '1:1'
+};
+
 // --- SUB-COMPONENT: Generative Preview Overlay ---
 interface OverlayProps {
     previewUrl?: string | null;
@@ -164,71 +178,47 @@ const GenerativePreviewOverlay = ({
 interface OverrideMetric {
     layerId: string;
     name: string;
-    geomX: number;
-    geomY: number;
-    finalX: number;
-    finalY: number;
-    deltaX: number;
-    deltaY: number;
-    scale: number;
+    local: LayerDelta; // Own override, relative to the parent group's placement
+    world: LayerDelta; // Total displacement from the geometric projection (ancestors included)
+    nestedCount: number; // Descendants carried along by this override
     citedRule?: string; // New: Textual rule attribution
     anchorIndex?: number; // New: Visual anchor reference
 }
 
+const countDescendants = (layer: SerializableLayer): number =>
+    (layer.children || []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+
 const calculateOverrideMetrics = (
     sourceLayers: SerializableLayer[],
     sourceRect: { x: number, y: number, w: number, h: number },
     targetRect: { x: number, y: number, w: number, h: number },
-    strategy: LayoutStrategy
+    strategy: LayoutStrategy,
+    mode: RemapStrategy,
+    constraints?: ContainerConstraints,
+    zones?: ContainerZone[],
+    pins?: Record<string, LayerPin>
 ): OverrideMetric[] => {
     const metrics: OverrideMetric[] = [];
     if (!strategy.overrides || strategy.overrides.length === 0) return metrics;
 
-    // 1. Calculate Geometric Baseline
-    const ratioX = targetRect.w / sourceRect.w;
-    const ratioY = targetRect.h / sourceRect.h;
-    let globalScale = Math.min(ratioX, ratioY);
-    let anchorX = targetRect.x;
-    let anchorY = targetRect.y;
-
-    if (strategy) {
-        globalScale = strategy.suggestedScale;
-        const scaledW = sourceRect.w * globalScale;
-        const scaledH = sourceRect.h * globalScale;
-        anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-        if (strategy.anchor === 'TOP') anchorY = targetRect.y;
-        else if (strategy.anchor === 'BOTTOM') anchorY = targetRect.y + (targetRect.h - scaledH);
-        else anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-    }
+    // 1. Hierarchical placement (container tags included, mirroring buildRemapPayload)
+    const geometry = computeRemapGeometry(sourceRect, targetRect, mode, strategy, constraints, zones);
+    const placements = computeLayerPlacements(sourceLayers, sourceRect, geometry, strategy.overrides, constraints, isCroppingStrategy(mode), pins);
 
-    // 2. Recursive Traversal
+    // 2. Recursive Traversal (tree order, so groups precede their overridden children)
     const traverse = (layers: SerializableLayer[]) => {
         layers.forEach(layer => {
-            const override = strategy.overrides?.find(o => o.layerId === layer.id);
-            
-            if (override) {
-                // Geometric Position
-                const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
-                const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
-                const geomX = anchorX + (relX * (sourceRect.w * globalScale));
-                const geomY = anchorY + (relY * (sourceRect.h * globalScale));
-
-                // Semantic Position
-                const finalX = targetRect.x + override.xOffset;
-                const finalY = targetRect.y + override.yOffset;
+            const placement = placements.get(layer.id);
 
+            if (placement?.local && placement.override) {
                 metrics.push({
                     layerId: layer.id,
                     name: layer.name,
-                    geomX,
-                    geomY,
-                    finalX,
-                    finalY,
-                    deltaX: finalX - geomX,
-                    deltaY: finalY - geomY,
-                    scale: override.individualScale,
-                    citedRule: override.citedRule,
-                    anchorIndex: override.anchorIndex
+                    local: placement.local,
+                    world: placement.world,
+                    nestedCount: countDescendants(layer),
+                    citedRule: placement.override.citedRule,
+                    anchorIndex: placement.override.anchorIndex
                 });
             }
 
@@ -240,17 +230,39 @@ const calculateOverrideMetrics = (
     return metrics;
 };
 
+// --- HELPER: Delta Readout ---
+const DeltaRow = ({ label, delta }: { label: string, delta: LayerDelta }) => (
+    <div className="flex justify-between items-center mt-1">
+        <span className="text-[8px] text-slate-500">{label}</span>
+        <div className="flex gap-2">
+            <span className={`text-[8px] font-mono ${Math.abs(delta.dx) > 1 ? 'text-white' : 'text-slate-600'}`}>
+                ΔX {delta.dx > 0 ? '+' : ''}{Math.round(delta.dx)}
+            </span>
+            <span className={`text-[8px] font-mono ${Math.abs(delta.dy) > 1 ? 'text-white' : 'text-slate-600'}`}>
+                ΔY {delta.dy > 0 ? '+' : ''}{Math.round(delta.dy)}
+            </span>
+            <span className={`text-[8px] font-mono ${Math.abs(delta.scale - 1) > 0.005 ? 'text-pink-300' : 'text-slate-600'}`}>
+                {delta.scale.toFixed(2)}x
+            </span>
+        </div>
+    </div>
+);
+
 const OverrideInspector = ({ 
-    sourceLayers, sourceBounds, targetBounds, strategy 
+    sourceLayers, sourceBounds, targetBounds, strategy, mode, constraints, zones, pins 
 }: { 
     sourceLayers: SerializableLayer[], 
     sourceBounds: { x: number, y: number, w: number, h: number }, 
     targetBounds: { x: number, y: number, w: number, h: number }, 
-    strategy: LayoutStrategy 
+    strategy: LayoutStrategy,
+    mode: RemapStrategy,
+    constraints?: ContainerConstraints,
+    zones?: ContainerZone[],
+    pins?: Record<string, LayerPin>
 }) => {
     const metrics = useMemo(
-        () => calculateOverrideMetrics(sourceLayers, sourceBounds, targetBounds, strategy),
-        [sourceLayers, sourceBounds, targetBounds, strategy]
+        () => calculateOverrideMetrics(sourceLayers, sourceBounds, targetBounds, strategy, mode, constraints, zones, pins),
+        [sourceLayers, sourceBounds, targetBounds, strategy, mode, constraints, zones, pins]
     );
 
     if (metrics.length === 0) return null;
@@ -270,21 +282,14 @@ const OverrideInspector = ({
                             <span className="text-[9px] text-slate-300 font-medium truncate max-w-[120px]" title={m.name}>
                                 {m.name}
                             </span>
-                            <span className="text-[8px] text-pink-400 font-mono">
-                                Scale: {m.scale.toFixed(2)}x
-                            </span>
-                        </div>
-                        <div className="flex justify-between items-center mt-1">
-                            <span className="text-[8px] text-slate-500">Visual Delta</span>
-                            <div className="flex gap-2">
-                                <span className={`text-[8px] font-mono ${Math.abs(m.deltaX) > 1 ? 'text-white' : 'text-slate-600'}`}>
-                                    ΔX {m.deltaX > 0 ? '+' : ''}{Math.round(m.deltaX)}
-                                </span>
-                                <span className={`text-[8px] font-mono ${Math.abs(m.deltaY) > 1 ? 'text-white' : 'text-slate-600'}`}>
-                                    ΔY {m.deltaY > 0 ? '+' : ''}{Math.round(m.deltaY)}
+                            {m.nestedCount > 0 && (
+                                <span className="text-[8px] text-pink-400 font-mono" title="Nested layers follow this group's transform">
+                                    +{m.nestedCount} nested
                                 </span>
-                            </div>
+                            )}
                         </div>
+                        <DeltaRow label="Local Delta" delta={m.local} />
+                        <DeltaRow label="World Delta" delta={m.world} />
                         
                         {/* New: Attribution UI */}
                         {(m.citedRule || m.anchorIndex !== undefined) && (
@@ -314,6 +319,148 @@ const OverrideInspector = ({
     );
 };
 
+// --- SUB-COMPONENT: Layer Pins ---
+// UI pins win over `[pin=...]` name tags; resetting a row falls back to the tag
+const PIN_X_OPTIONS: LayerPinX[] = ['left', 'center', 'right', 'stretch'];
+const PIN_Y_OPTIONS: LayerPinY[] = ['top', 'center', 'bottom', 'stretch'];
+
+const LayerPinsPanel = ({ layers, pins, onChange }: {
+    layers: SerializableLayer[],
+    pins: Record<string, LayerPin>,
+    onChange: (pins: Record<string, LayerPin>) => void
+}) => {
+    const rows = useMemo(() => {
+        const flat: { layer: SerializableLayer, depth: number }[] = [];
+        const walk = (nodes: SerializableLayer[], depth: number) => nodes.forEach(layer => {
+            flat.push({ layer, depth });
+            if (layer.children) walk(layer.children, depth + 1);
+        });
+        walk(layers, 0);
+        return flat;
+    }, [layers]);
+
+    const setPin = (layer: SerializableLayer, patch: Partial<LayerPin>) => {
+        const current = resolveLayerPin(layer, pins) || {};
+        const next: LayerPin = { ...current, ...patch };
+        (Object.keys(next) as (keyof LayerPin)[]).forEach(key => { if (!next[key]) delete next[key]; });
+        onChange({ ...pins, [layer.id]: next });
+    };
+
+    const resetPin = (layerId: string) => {
+        const next = { ...pins };
+        delete next[layerId];
+        onChange(next);
+    };
+
+    const selectClass = 'bg-slate-900 border border-slate-600 rounded px-0.5 py-0 text-[8px] font-mono text-slate-200 outline-none';
+
+    return (
+        <div className="nodrag nopan nowheel bg-sky-900/10 border border-sky-500/30 rounded p-2 space-y-1 max-h-56 overflow-y-auto custom-scrollbar" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between pb-1 border-b border-sky-500/20">
+                <span className="text-[9px] text-sky-300 font-bold uppercase tracking-wider flex items-center gap-1">
+                    <Pin className="w-3 h-3" /> Layer Pins
+                </span>
+                <span className="text-[8px] text-slate-500">X / Y / fixed size</span>
+            </div>
+            {rows.map(({ layer, depth }) => {
+                const pin = resolveLayerPin(layer, pins);
+                const isCustom = layer.id in pins;
+                const tagWarning = parseLayerPin(layer.name).warnings[0];
+                return (
+                    <div key={layer.id} className="flex items-center gap-1" style={{ paddingLeft: depth * 8 }}>
+                        <span className={`text-[9px] truncate flex-1 min-w-0 ${pin ? 'text-sky-200' : 'text-slate-400'}`} title={tagWarning || (pin ? formatLayerPin(pin) : layer.name)}>
+                            {tagWarning && <span className="text-amber-400 mr-0.5">!</span>}
+                            {layer.name}
+                        </span>
+                        <select value={pin?.x || ''} onChange={(e) => setPin(layer, { x: (e.target.value || undefined) as LayerPinX })} className={selectClass} title="Horizontal pin">
+                            <option value="">—</option>
+                            {PIN_X_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                        <select value={pin?.y || ''} onChange={(e) => setPin(layer, { y: (e.target.value || undefined) as LayerPinY })} className={selectClass} title="Vertical pin">
+                            <option value="">—</option>
+                            {PIN_Y_OPTIONS.map(option => <option key={option} value={option}>{option}</option>)}
+                        </select>
+                        <input type="checkbox" checked={!!pin?.fixedSize} onChange={(e) => setPin(layer, { fixedSize: e.target.checked })} title="Fixed size (keep source pixels)" className="accent-sky-500" />
+                        <button onClick={() => resetPin(layer.id)} disabled={!isCustom} className="text-slate-500 hover:text-sky-300 disabled:opacity-20" title="Reset to the layer's name tag">
+                            <RotateCcw className="w-2.5 h-2.5" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// --- SUB-COMPONENT: Nine-Slice Insets ---
+// Pixel layers only; UI insets win over `[slice=...]` name tags and all-zero insets switch slicing off
+const NINE_SLICE_SIDES: (keyof NineSliceInsets)[] = ['top', 'right', 'bottom', 'left'];
+
+const NineSlicePanel = ({ layers, nineSlices, onChange }: {
+    layers: SerializableLayer[],
+    nineSlices: Record<string, NineSliceInsets>,
+    onChange: (nineSlices: Record<string, NineSliceInsets>) => void
+}) => {
+    const rows = useMemo(() => {
+        const flat: { layer: SerializableLayer, depth: number }[] = [];
+        const walk = (nodes: SerializableLayer[], depth: number) => nodes.forEach(layer => {
+            if (layer.type === 'layer') flat.push({ layer, depth });
+            if (layer.children) walk(layer.children, depth + 1);
+        });
+        walk(layers, 0);
+        return flat;
+    }, [layers]);
+
+    const setInset = (layer: SerializableLayer, side: keyof NineSliceInsets, value: number) => {
+        const current = resolveNineSlice(layer, nineSlices) || { top: 0, right: 0, bottom: 0, left: 0 };
+        onChange({ ...nineSlices, [layer.id]: { ...current, [side]: Math.max(0, Number.isFinite(value) ? value : 0) } });
+    };
+
+    const resetInsets = (layerId: string) => {
+        const next = { ...nineSlices };
+        delete next[layerId];
+        onChange(next);
+    };
+
+    return (
+        <div className="nodrag nopan nowheel bg-teal-900/10 border border-teal-500/30 rounded p-2 space-y-1 max-h-56 overflow-y-auto custom-scrollbar" onMouseDown={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between pb-1 border-b border-teal-500/20">
+                <span className="text-[9px] text-teal-300 font-bold uppercase tracking-wider flex items-center gap-1">
+                    <Grid3x3 className="w-3 h-3" /> Nine-Slice
+                </span>
+                <span className="text-[8px] text-slate-500">T / R / B / L (source px)</span>
+            </div>
+            {rows.length === 0 && <div className="text-[9px] text-slate-500 italic">No pixel layers in this source.</div>}
+            {rows.map(({ layer, depth }) => {
+                const insets = resolveNineSlice(layer, nineSlices);
+                const isCustom = layer.id in nineSlices;
+                const tagWarning = parseLayerNineSlice(layer.name).warnings[0];
+                return (
+                    <div key={layer.id} className="flex items-center gap-1" style={{ paddingLeft: depth * 8 }}>
+                        <span className={`text-[9px] truncate flex-1 min-w-0 ${insets ? 'text-teal-200' : 'text-slate-400'}`} title={tagWarning || (insets ? formatLayerNineSlice(insets) : layer.name)}>
+                            {tagWarning && <span className="text-amber-400 mr-0.5">!</span>}
+                            {layer.name}
+                        </span>
+                        {NINE_SLICE_SIDES.map(side => (
+                            <input
+                                key={side}
+                                type="number"
+                                min={0}
+                                value={insets?.[side] ?? 0}
+                                onChange={(e) => setInset(layer, side, parseFloat(e.target.value))}
+                                className="w-8 bg-slate-900 border border-slate-600 rounded px-0.5 py-0 text-[8px] font-mono text-slate-200 outline-none"
+                                title={`${side} inset`}
+                            />
+                        ))}
+                        <button onClick={() => resetInsets(layer.id)} disabled={!isCustom} className="text-slate-500 hover:text-teal-300 disabled:opacity-20" title="Reset to the layer's name tag">
+                            <RotateCcw className="w-2.5 h-2.5" />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
 // --- HELPER: Process Breakdown Audit ---
 const getLayerAudit = (layers: TransformedLayer[]) => {
   let pixel = 0;
@@ -346,6 +493,9 @@ const RemapperInstanceRow = memo(({
     instance, 
     confirmations, 
     toggleInstanceGeneration, 
+    setInstanceStrategy,
+    setInstancePins,
+    setInstanceNineSlices,
     handleConfirmGeneration, 
     handleImageLoad, 
     isGeneratingPreview, 
@@ -357,6 +507,9 @@ const RemapperInstanceRow = memo(({
     instance: InstanceData, 
     confirmations: Record<number, string>, 
     toggleInstanceGeneration: (idx: number) => void, 
+    setInstanceStrategy: (idx: number, strategy: RemapStrategy) => void, 
+    setInstancePins: (idx: number, pins: Record<string, LayerPin>) => void, 
+    setInstanceNineSlices: (idx: number, nineSlices: Record<string, NineSliceInsets>) => void, 
     handleConfirmGeneration: (idx: number, prompt: string, url?: string) => void, 
     handleImageLoad: (idx: number) => void, 
     isGeneratingPreview: Record<number, boolean>, 
@@ -366,6 +519,8 @@ const RemapperInstanceRow = memo(({
     localSetting: boolean 
 }) => {
     const [isInspectorOpen, setInspectorOpen] = useState(false);
+    const [isPinsOpen, setPinsOpen] = useState(false);
+    const [isSlicesOpen, setSlicesOpen] = useState(false);
 
     const hasPreview = !!instance.payload?.previewUrl;
     const isAwaiting = instance.payload?.status === 'awaiting_confirmation';
@@ -392,6 +547,20 @@ const RemapperInstanceRow = memo(({
 
     const hasOverrides = instance.source.aiStrategy?.overrides && instance.source.aiStrategy.overrides.length > 0;
 
+    // Pinned layers (UI pins and name tags) anywhere in the source tree
+    const pinnedCount = useMemo(() => {
+        const count = (layers: SerializableLayer[]): number =>
+            layers.reduce((sum, layer) => sum + (resolveLayerPin(layer, instance.pins) ? 1 : 0) + count(layer.children || []), 0);
+        return count(instance.source.layers || []);
+    }, [instance.source.layers, instance.pins]);
+
+    // Nine-sliced pixel layers (UI insets and name tags)
+    const slicedCount = useMemo(() => {
+        const count = (layers: SerializableLayer[]): number =>
+            layers.reduce((sum, layer) => sum + (resolveNineSlice(layer, instance.nineSlices) ? 1 : 0) + count(layer.children || []), 0);
+        return count(instance.source.layers || []);
+    }, [instance.source.layers, instance.nineSlices]);
+
     // Process Breakdown Stats (Audit)
     const audit = useMemo(() => {
         if (!instance.payload?.layers) return null;
@@ -443,7 +612,41 @@ const RemapperInstanceRow = memo(({
               <div className="relative flex items-center justify-between group">
                  <div className="flex flex-col w-full">
                      <div className="flex items-center justify-between mb-0.5">
-                        <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1">Target Slot</label>
+                        <div className="flex items-center space-x-1.5">
+                            <label className="text-[9px] uppercase text-slate-500 font-bold tracking-wider ml-1">Target Slot</label>
+                            <select
+                               value={instance.remapStrategy}
+                               onChange={(e) => setInstanceStrategy(instance.index, e.target.value as RemapStrategy)}
+                               onClick={(e) => e.stopPropagation()}
+                               onMouseDown={(e) => e.stopPropagation()}
+                               className="nodrag nopan appearance-none text-[8px] px-1.5 py-0.5 rounded font-mono font-bold cursor-pointer outline-none border bg-slate-900 border-slate-600 text-indigo-300 hover:border-indigo-500 transition-colors"
+                               title="Remap Strategy for this instance"
+                            >
+                                {(Object.keys(REMAP_STRATEGY_LABELS) as RemapStrategy[]).map(mode => (
+                                    <option key={mode} value={mode} className="text-black bg-white">{REMAP_STRATEGY_LABELS[mode]}</option>
+                                ))}
+                            </select>
+                            {instance.source.ready && (
+                                <button
+                                   onClick={(e) => { e.stopPropagation(); setPinsOpen(!isPinsOpen); }}
+                                   className={`nodrag nopan flex items-center gap-0.5 p-0.5 rounded transition-colors ${isPinsOpen || pinnedCount > 0 ? 'text-sky-300 bg-sky-500/10' : 'text-slate-600 hover:text-slate-400'}`}
+                                   title="Pin layers to container edges"
+                                >
+                                    <Pin className="w-3 h-3" />
+                                    {pinnedCount > 0 && <span className="text-[8px] font-mono">{pinnedCount}</span>}
+                                </button>
+                            )}
+                            {instance.source.ready && (
+                                <button
+                                   onClick={(e) => { e.stopPropagation(); setSlicesOpen(!isSlicesOpen); }}
+                                   className={`nodrag nopan flex items-center gap-0.5 p-0.5 rounded transition-colors ${isSlicesOpen || slicedCount > 0 ? 'text-teal-300 bg-teal-500/10' : 'text-slate-600 hover:text-slate-400'}`}
+                                   title="Nine-slice insets (stretch edges, keep corners)"
+                                >
+                                    <Grid3x3 className="w-3 h-3" />
+                                    {slicedCount > 0 && <span className="text-[8px] font-mono">{slicedCount}</span>}
+                                </button>
+                            )}
+                        </div>
                         {instance.target.ready && <span className="text-[8px] text-emerald-400 font-mono">LINKED</span>}
                      </div>
 
@@ -465,11 +668,31 @@ const RemapperInstanceRow = memo(({
                            title={`Target for Instance ${instance.index}`}
                          />
                         {instance.target.ready ? instance.target.name : 'Connect Target...'}
+                        {instance.target.ready && (instance.target.constraints || instance.target.zones) && (
+                            <div className="flex flex-wrap gap-1 mt-1" title="Container tags and zones (hard limits)">
+                                {describeContainerConstraints(instance.target.constraints).map(tag => (
+                                    <span key={tag} className="text-[8px] font-mono not-italic px-1 rounded border border-amber-500/40 bg-amber-900/20 text-amber-300">{tag}</span>
+                                ))}
+                                {instance.target.zones?.map(zone => (
+                                    <span key={`${zone.container}-${zone.name}`} className={`text-[8px] font-mono not-italic px-1 rounded border ${zone.kind === 'safe' ? 'border-sky-500/40 bg-sky-900/20 text-sky-300' : 'border-red-500/40 bg-red-900/20 text-red-300'}`}>
+                                        {zone.kind === 'safe' ? 'safe' : 'keep-out'}: {zone.name}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
                      </div>
                  </div>
               </div>
            </div>
 
+           {isPinsOpen && instance.source.layers && (
+               <LayerPinsPanel layers={instance.source.layers} pins={instance.pins || {}} onChange={(pins) => setInstancePins(instance.index, pins)} />
+           )}
+
+           {isSlicesOpen && instance.source.layers && (
+               <NineSlicePanel layers={instance.source.layers} nineSlices={instance.nineSlices || {}} onChange={(nineSlices) => setInstanceNineSlices(instance.index, nineSlices)} />
+           )}
+
            <div className="relative mt-2 pt-3 border-t border-slate-700/50 flex flex-col space-y-2">
               {instance.payload ? (
                   <div className="flex flex-col w-full pr-4">
@@ -499,7 +722,9 @@ const RemapperInstanceRow = memo(({
                           </div>
                           <span className="text-[10px] text-slate-400 font-mono">
                               {audit ? `${audit.total} Nodes • ` : ''}
-                              {instance.payload.scaleFactor.toFixed(2)}x Scale
+                              {instance.remapStrategy === 'STRETCH' && instance.payload.metrics.scale
+                                  ? `${instance.payload.metrics.scale.x.toFixed(2)}x × ${instance.payload.metrics.scale.y.toFixed(2)}x Scale`
+                                  : `${instance.payload.scaleFactor.toFixed(2)}x Scale`}
                           </span>
                       </div>
                       
@@ -545,6 +770,10 @@ const RemapperInstanceRow = memo(({
                               sourceBounds={instance.source.originalBounds}
                               targetBounds={instance.target.bounds}
                               strategy={instance.source.aiStrategy}
+                              mode={instance.remapStrategy}
+                              constraints={instance.target.constraints}
+                              zones={instance.target.zones}
+                              pins={instance.pins}
                           />
                       )}
                       
@@ -616,13 +845,14 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
   const { setNodes } = useReactFlow();
   const edges = useEdges();
-  const nodes = useNodes();
   
   // Consume data from Store
   const { templateRegistry, resolvedRegistry, payloadRegistry, registerPayload, updatePayload, unregisterNode } = useProceduralStore();
 
   // GLOBAL GATE: Master Switch from Node Data
   const globalGenerationAllowed = (data as any).remapperConfig?.generationAllowed ?? true;
+  // Node-level default geometry mode (instances may override)
+  const defaultRemapStrategy: RemapStrategy = data.remapperConfig?.strategy || DEFAULT_REMAP_STRATEGY;
 
   useEffect(() => {
     return () => unregisterNode(id);
@@ -715,11 +945,97 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
       }));
   }, [id, setNodes]);
 
+  // 2B. INSTANCE STRATEGY ACTION (ATOMIC)
+  // Persists the geometry mode for a single instance
+  const setInstanceStrategy = useCallback((index: number, strategy: RemapStrategy) => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentSettings = n.data.instanceSettings || {};
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      instanceSettings: {
+                          ...currentSettings,
+                          [index]: {
+                              ...(currentSettings[index] || {}),
+                              strategy
+                          }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // 2C. INSTANCE PINS ACTION (ATOMIC)
+  const setInstancePins = useCallback((index: number, pins: Record<string, LayerPin>) => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentSettings = n.data.instanceSettings || {};
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      instanceSettings: {
+                          ...currentSettings,
+                          [index]: {
+                              ...(currentSettings[index] || {}),
+                              pins
+                          }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // 2D. INSTANCE NINE-SLICE ACTION (ATOMIC)
+  const setInstanceNineSlices = useCallback((index: number, nineSlices: Record<string, NineSliceInsets>) => {
+      setNodes((nds) => nds.map((n) => {
+          if (n.id === id) {
+              const currentSettings = n.data.instanceSettings || {};
+              return {
+                  ...n,
+                  data: {
+                      ...n.data,
+                      instanceSettings: {
+                          ...currentSettings,
+                          [index]: {
+                              ...(currentSettings[index] || {}),
+                              nineSlices
+                          }
+                      }
+                  }
+              };
+          }
+          return n;
+      }));
+  }, [id, setNodes]);
+
+  // Persists (or clears) a confirmed generative fill in node data so packaged projects can restore it
+  const persistConfirmedGeneration = useCallback((index: number, generation: ConfirmedGeneration | null) => {
+      setNodes(nds => nds.map(n => {
+          if (n.id !== id) return n;
+          const current: Record<number, ConfirmedGeneration> = { ...(n.data.confirmedGenerations || {}) };
+          if (generation) {
+              current[index] = generation;
+          } else {
+              if (!current[index]) return n;
+              delete current[index];
+          }
+          return { ...n, data: { ...n.data, confirmedGenerations: current } };
+      }));
+  }, [id, setNodes]);
+
   // 3. CONFIRM ACTION
   const handleConfirmGeneration = useCallback((index: number, prompt: string, confirmedUrl?: string) => {
       if (!confirmedUrl) return;
 
       setConfirmations(prev => ({ ...prev, [index]: prompt }));
+      persistConfirmedGeneration(index, { prompt, imageUrl: confirmedUrl });
       
       updatePayload(id, `result-out-${index}`, {
           previewUrl: confirmedUrl,
@@ -728,7 +1044,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
           sourceReference: confirmedUrl,
           generationId: Date.now()
       });
-  }, [id, updatePayload]);
+  }, [id, updatePayload, persistConfirmedGeneration]);
 
   const handleImageLoad = useCallback((index: number) => {
       isTransitioningRef.current[index] = false;
@@ -737,8 +1053,6 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   // Compute Data for ALL Instances
   const instances: InstanceData[] = useMemo(() => {
     const result: InstanceData[] = [];
-    const loadPsdNode = nodes.find(n => n.type === 'loadPsd');
-
     for (let i = 0; i < instanceCount; i++) {
         const sourceHandleId = `source-in-${i}`;
         const targetHandleId = `target-in-${i}`;
@@ -750,6 +1064,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
 
         // 1. Resolve Source
         let sourceData: any = { ready: false };
+        let sourceContext: MappingContext | null = null;
         const sourceEdge = edges.find(e => e.target === id && e.targetHandle === sourceHandleId);
         
         if (sourceEdge && sourceEdge.sourceHandle) {
@@ -757,11 +1072,11 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
              if (resolvedData) {
                  const context = resolvedData[sourceEdge.sourceHandle];
                  if (context) {
-                    const binarySourceId = loadPsdNode ? loadPsdNode.id : sourceEdge.source;
+                    sourceContext = context;
                     sourceData = {
                         ready: true,
                         name: context.container.containerName,
-                        nodeId: binarySourceId,
+                        nodeId: context.sourceNodeId, // Load PSD node holding the binary (tracked by the Resolver)
                         sourceNodeId: sourceEdge.source,
                         handleId: sourceEdge.sourceHandle,
                         layers: context.layers,
@@ -781,28 +1096,15 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         if (targetEdge && targetEdge.sourceHandle) {
              const template = templateRegistry[targetEdge.source];
              if (template) {
-                 const handle = targetEdge.sourceHandle;
-                 let containerDefinition;
-                 containerDefinition = template.containers.find(c => c.name === handle);
-                 if (!containerDefinition && handle.startsWith('slot-bounds-')) {
-                     const clean = handle.replace('slot-bounds-', '');
-                     containerDefinition = template.containers.find(c => c.name === clean);
-                 }
-                 if (!containerDefinition) {
-                     const indexMatch = handle.match(/^target-out-(\d+)$/);
-                     if (indexMatch && template.containers[parseInt(indexMatch[1], 10)]) {
-                         containerDefinition = template.containers[parseInt(indexMatch[1], 10)];
-                     }
-                 }
-                 if (!containerDefinition && template.containers.length === 1) {
-                     containerDefinition = template.containers[0];
-                 }
+                 const containerDefinition = resolveTargetContainer(template, targetEdge.sourceHandle);
 
                  if (containerDefinition) {
                      targetData = {
                          ready: true,
                          name: containerDefinition.originalName || containerDefinition.name,
-                         bounds: containerDefinition.bounds
+                         bounds: containerDefinition.bounds,
+                         constraints: containerDefinition.constraints,
+                         zones: containerDefinition.zones
                      };
                  }
              }
@@ -811,131 +1113,25 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         // 3. Compute Payload
         let payload: TransformedPayload | null = null;
         let strategyUsed = false;
+        const remapStrategy: RemapStrategy = localSettings?.strategy || defaultRemapStrategy;
 
-        if (sourceData.ready && targetData.ready) {
-            const sourceRect = sourceData.originalBounds;
-            const targetRect = targetData.bounds;
-            
-            const ratioX = targetRect.w / sourceRect.w;
-            const ratioY = targetRect.h / sourceRect.h;
-            let scale = Math.min(ratioX, ratioY);
-            let anchorX = targetRect.x;
-            let anchorY = targetRect.y;
-
-            const strategy = sourceData.aiStrategy;
-            
-            if (strategy) {
-                scale = strategy.suggestedScale;
-                strategyUsed = true;
-                const scaledW = sourceRect.w * scale;
-                const scaledH = sourceRect.h * scale;
-                anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-                if (strategy.anchor === 'TOP') anchorY = targetRect.y;
-                else if (strategy.anchor === 'BOTTOM') anchorY = targetRect.y + (targetRect.h - scaledH);
-                else anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-            } else {
-                const scaledW = sourceRect.w * scale;
-                const scaledH = sourceRect.h * scale;
-                anchorX = targetRect.x + (targetRect.w - scaledW) / 2;
-                anchorY = targetRect.y + (targetRect.h - scaledH) / 2;
-            }
-
-            const transformLayers = (layers: SerializableLayer[], parentDeltaX = 0, parentDeltaY = 0): TransformedLayer[] => {
-              return layers.map(layer => {
-                const relX = (layer.coords.x - sourceRect.x) / sourceRect.w;
-                const relY = (layer.coords.y - sourceRect.y) / sourceRect.h;
-                const geomX = anchorX + (relX * (sourceRect.w * scale));
-                const geomY = anchorY + (relY * (sourceRect.h * scale));
-                let finalX = geomX + parentDeltaX;
-                let finalY = geomY + parentDeltaY;
-                let layerScaleX = scale;
-                let layerScaleY = scale;
-                const override = strategy?.overrides?.find(o => o.layerId === layer.id);
-                
-                if (override) {
-                   finalX = targetRect.x + override.xOffset;
-                   finalY = targetRect.y + override.yOffset;
-                   layerScaleX *= override.individualScale;
-                   layerScaleY *= override.individualScale;
-                }
-
-                const bleedY = targetRect.h * MAX_BOUNDARY_VIOLATION_PERCENT;
-                const minY = targetRect.y - bleedY;
-                const maxY = targetRect.y + targetRect.h + bleedY;
-                finalY = Math.max(minY, Math.min(finalY, maxY));
-                const newW = layer.coords.w * layerScaleX;
-                const newH = layer.coords.h * layerScaleY;
-
-                return {
-                  ...layer,
-                  coords: { x: finalX, y: finalY, w: newW, h: newH },
-                  transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: finalX, offsetY: finalY },
-                  children: layer.children ? transformLayers(layer.children, parentDeltaX, parentDeltaY) : undefined
-                };
-              });
-            };
-
-            const transformedLayers = transformLayers(sourceData.layers as SerializableLayer[]);
-
-            let requiresGeneration = false;
-            let status: TransformedPayload['status'] = 'success';
-            let generativePromptUsed = null;
-            
-            const currentPrompt = sourceData.aiStrategy?.generativePrompt;
-            const confirmedPrompt = confirmations[i];
-            const isConfirmed = !!currentPrompt && currentPrompt === confirmedPrompt;
-
-            if (currentPrompt) {
-                const scaleThreshold = 2.0;
-                const isExplicit = sourceData.aiStrategy!.isExplicitIntent;
-                const isHighStretch = scale > scaleThreshold;
-                
-                if (isConfirmed) {
-                    requiresGeneration = true;
-                    generativePromptUsed = currentPrompt;
-                    status = 'success';
-                } else if (isExplicit || isHighStretch) {
-                    status = 'awaiting_confirmation';
-                }
-            }
-
-            if (requiresGeneration && generativePromptUsed) {
-                const genLayer: TransformedLayer = {
-                    id: `gen-layer-${sourceData.name || 'unknown'}`,
-                    name: `✨ AI Gen: ${generativePromptUsed.substring(0, 20)}...`,
-                    type: 'generative',
-                    isVisible: true,
-                    opacity: 1,
-                    coords: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h },
-                    transform: { scaleX: 1, scaleY: 1, offsetX: targetRect.x, offsetY: targetRect.y },
-                    generativePrompt: generativePromptUsed
-                };
-                transformedLayers.unshift(genLayer);
-            }
-            
+        if (sourceContext && targetData.ready) {
             // FETCH STATE FROM STORE (Single Source of Truth for existing preview)
             const storePayload = payloadRegistry[id]?.[`result-out-${i}`];
 
-            payload = {
-              status: status,
-              sourceNodeId: sourceData.nodeId,
-              sourceContainer: sourceData.name,
-              targetContainer: targetData.name,
-              layers: transformedLayers,
-              scaleFactor: scale,
-              metrics: { source: { w: sourceRect.w, h: sourceRect.h }, target: { w: targetRect.w, h: targetRect.h } },
-              requiresGeneration: requiresGeneration,
-              // Use store payload's preview if available, otherwise source data's
-              previewUrl: storePayload?.previewUrl || sourceData.previewUrl,
-              isConfirmed: isConfirmed,
-              isTransient: !isConfirmed, 
-              sourceReference: sourceData.aiStrategy?.sourceReference,
-              // METADATA PRESERVATION from Store
-              generationId: storePayload?.generationId,
-              isSynthesizing: storePayload?.isSynthesizing,
-              // PROPAGATE GATE STATE (Crucial for Store logic to act on)
-              generationAllowed: effectiveAllowed 
-            };
+            const remapped = buildRemapPayload({
+                sourceNodeId: sourceData.nodeId,
+                source: sourceContext,
+                target: { name: targetData.name, bounds: targetData.bounds, constraints: targetData.constraints, zones: targetData.zones },
+                mode: remapStrategy,
+                generationAllowed: effectiveAllowed,
+                confirmedPrompt: confirmations[i],
+                previous: storePayload,
+                pins: localSettings?.pins,
+                nineSlices: localSettings?.nineSlices
+            });
+            payload = remapped.payload;
+            strategyUsed = remapped.strategyUsed;
         }
 
         result.push({
@@ -943,12 +1139,15 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
             source: sourceData,
             target: targetData,
             payload,
-            strategyUsed
+            strategyUsed,
+            remapStrategy,
+            pins: localSettings?.pins,
+            nineSlices: localSettings?.nineSlices
         });
     }
 
     return result;
-  }, [instanceCount, edges, id, resolvedRegistry, templateRegistry, nodes, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings]);
+  }, [instanceCount, edges, id, resolvedRegistry, templateRegistry, confirmations, payloadRegistry, globalGenerationAllowed, instanceSettings, defaultRemapStrategy]);
 
   // Sync Payloads to Store
   useEffect(() => {
@@ -993,6 +1192,39 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
     });
   }, [instances, displayPreviews, payloadRegistry, id]);
 
+  // CONFIRMATION RE-HYDRATION (Project Packages)
+  // Restores persisted confirmations once per entry: the prompt lock first (so the synthesis effect below
+  // does not treat the prompt as new), then the image as soon as the instance payload is registered.
+  const hydratedPromptsRef = useRef<Record<number, ConfirmedGeneration>>({});
+  const hydratedImagesRef = useRef<Record<number, ConfirmedGeneration>>({});
+  useEffect(() => {
+    const persisted = data.confirmedGenerations || {};
+    Object.entries(persisted).forEach(([key, generation]) => {
+        const idx = Number(key);
+        if (!generation.imageUrl) return; // Image not bundled (plain JSON save)
+
+        if (hydratedPromptsRef.current[idx] !== generation) {
+            hydratedPromptsRef.current[idx] = generation;
+            lastPromptsRef.current[idx] = generation.prompt;
+            setConfirmations(prev => prev[idx] === generation.prompt ? prev : { ...prev, [idx]: generation.prompt });
+        }
+
+        const storePayload = payloadRegistry[id]?.[`result-out-${idx}`];
+        if (storePayload && hydratedImagesRef.current[idx] !== generation) {
+            hydratedImagesRef.current[idx] = generation;
+            if (storePayload.previewUrl !== generation.imageUrl) {
+                updatePayload(id, `result-out-${idx}`, {
+                    previewUrl: generation.imageUrl,
+                    isConfirmed: true,
+                    isTransient: false,
+                    sourceReference: generation.imageUrl,
+                    generationId: Date.now()
+                });
+            }
+        }
+    });
+  }, [data.confirmedGenerations, payloadRegistry, id, updatePayload]);
+
   // LAZY SYNTHESIS & MULTI-MODAL GROUNDING & AUTOMATED RESET
   useEffect(() => {
     instances.forEach(instance => {
@@ -1023,6 +1255,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         if (strategy?.method === 'GEOMETRIC') {
              if (hasPreview || storePayload?.isConfirmed) {
                  updatePayload(id, `result-out-${idx}`, { previewUrl: undefined, isConfirmed: false, isTransient: false });
+                 persistConfirmedGeneration(idx, null);
              }
              return;
         }
@@ -1034,6 +1267,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         if (isRefinementDetected && storePayload?.isConfirmed) {
              console.log(`[Remapper] Refinement detected for #${idx}. Revoking confirmation.`);
              updatePayload(id, `result-out-${idx}`, { isConfirmed: false });
+             persistConfirmedGeneration(idx, null);
         }
 
         if (promptChanged || needsInitialPreview) {
@@ -1050,34 +1284,12 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                  updatePayload(id, `result-out-${idx}`, { isSynthesizing: true });
 
                  try {
-                     const apiKey = process.env.API_KEY;
-                     if (!apiKey) return;
-                     const ai = new GoogleGenAI({ apiKey });
-                     const parts: any[] = [];
-                     
-                     if (sourceRef) {
-                         const base64Data = sourceRef.includes('base64,') ? sourceRef.split('base64,')[1] : sourceRef;
-                         parts.push({ inlineData: { mimeType: 'image/png', data: base64Data } });
-                     }
-                     parts.push({ text: prompt });
+                     const provider = getAIProvider();
+                     if (!provider.isConfigured) return;
 
-                     const response = await ai.models.generateContent({
-                        model: 'gemini-2.5-flash-image',
-                        contents: { parts },
-                        config: { imageConfig: { aspectRatio: "1:1" } }
-                     });
-                     
-                     let base64Data = null;
-                     for (const part of response.candidates?.[0]?.content?.parts || []) {
-                        if (part.inlineData) {
-                            base64Data = part.inlineData.data;
-                            break;
-                        }
-                     }
+                     const url = await provider.synthesizeImage({ prompt, sourceReference: sourceRef });
                      
-                     if (base64Data) {
-                         const url = `data:image/png;base64,${base64Data}`;
-                         
+                     if (url) {
                          const previousUrl = previousBlobsRef.current[idx];
                          if (previousUrl && previousUrl !== url && previousUrl.startsWith('blob:')) {
                              setTimeout(() => URL.revokeObjectURL(previousUrl), 2000);
@@ -1103,7 +1315,7 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
              generateDraft();
         }
     });
-  }, [instances, isGeneratingPreview, id, updatePayload, payloadRegistry, confirmations]);
+  }, [instances, isGeneratingPreview, id, updatePayload, payloadRegistry, confirmations, persistConfirmedGeneration]);
 
 
   const addInstance = useCallback(() => {
@@ -1143,6 +1355,9 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                 instance={instance}
                 confirmations={confirmations}
                 toggleInstanceGeneration={toggleInstanceGeneration}
+                setInstanceStrategy={setInstanceStrategy}
+                setInstancePins={setInstancePins}
+                setInstanceNineSlices={setInstanceNineSlices}
                 handleConfirmGeneration={handleConfirmGeneration}
                 handleImageLoad={handleImageLoad}
                 isGeneratingPreview={isGeneratingPreview}
@@ -0,0 +1,161 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw, Trash2, X, FileImage } from 'lucide-react';
+import { listSessions, deleteSession, SessionSummary } from '../services/autosaveService';
+
+// --- HELPER: Time Formatting ---
+const formatRelative = (timestamp: number): string => {
+    const seconds = Math.round((Date.now() - timestamp) / 1000);
+    if (seconds < 60) return 'just now';
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    return `${Math.round(hours / 24)} d ago`;
+};
+
+const SessionFiles: React.FC<{ fileNames: string[] }> = ({ fileNames }) => (
+    <div className="flex flex-wrap gap-1 mt-1">
+        {fileNames.length === 0 ? (
+            <span className="text-[10px] text-slate-500 italic">No PSDs loaded</span>
+        ) : fileNames.map(name => (
+            <span key={name} className="flex items-center space-x-1 text-[10px] font-mono text-slate-300 bg-slate-900/60 border border-slate-700 px-1.5 py-0.5 rounded max-w-[180px]">
+                <FileImage className="w-3 h-3 text-blue-400 shrink-0" />
+                <span className="truncate">{name}</span>
+            </span>
+        ))}
+    </div>
+);
+
+/**
+ * Startup prompt offering to restore the most recent autosave from a previous page load.
+ */
+export const RestoreSessionPrompt: React.FC<{
+    session: SessionSummary;
+    onRestore: () => void;
+    onBrowse: () => void;
+    onDismiss: () => void;
+}> = ({ session, onRestore, onBrowse, onDismiss }) => (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[420px] bg-slate-800 border border-indigo-500/60 rounded-lg shadow-2xl p-3 font-sans">
+        <div className="flex items-start justify-between">
+            <div className="flex items-center space-x-2">
+                <History className="w-4 h-4 text-indigo-400" />
+                <span className="text-sm font-semibold text-slate-100">Restore last session?</span>
+            </div>
+            <button onClick={onDismiss} className="text-slate-500 hover:text-slate-300" title="Dismiss">
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+        <p className="text-[11px] text-slate-400 mt-1">
+            Autosaved {formatRelative(session.savedAt)} ({new Date(session.savedAt).toLocaleString()}) · {session.nodeCount} nodes
+        </p>
+        <SessionFiles fileNames={session.fileNames} />
+        <div className="flex justify-end space-x-2 mt-3">
+            <button onClick={onBrowse} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-200 px-2 py-1">
+                All Sessions
+            </button>
+            <button onClick={onRestore} className="bg-indigo-600 hover:bg-indigo-500 text-white text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded">
+                Restore
+            </button>
+        </div>
+    </div>
+);
+
+/**
+ * Lists recent autosaves (newest first) with timestamps and loaded PSD file names.
+ */
+export const SessionBrowser: React.FC<{
+    currentSessionId: string;
+    lastSavedAt: number | null;
+    onRestore: (sessionId: string) => Promise<void>;
+    onClose: () => void;
+}> = ({ currentSessionId, lastSavedAt, onRestore, onClose }) => {
+    const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    const refresh = useCallback(() => {
+        listSessions()
+            .then(setSessions)
+            .catch(err => setError(err?.message || 'Autosave storage unavailable'));
+    }, []);
+
+    // Re-list whenever this session autosaves while the browser is open
+    useEffect(() => { refresh(); }, [refresh, lastSavedAt]);
+
+    const handleRestore = async (sessionId: string) => {
+        setRestoringId(sessionId);
+        try {
+            await onRestore(sessionId);
+            onClose();
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const handleDelete = async (sessionId: string) => {
+        await deleteSession(sessionId);
+        refresh();
+    };
+
+    return (
+        <div className="fixed top-16 right-4 z-50 w-[440px] max-h-[70vh] flex flex-col bg-slate-800 border border-slate-600 rounded-lg shadow-2xl font-sans">
+            <div className="bg-slate-900 p-2 border-b border-slate-700 flex items-center justify-between rounded-t-lg">
+                <div className="flex items-center space-x-2">
+                    <History className="w-4 h-4 text-indigo-400" />
+                    <span className="text-sm font-semibold text-slate-200">Autosaved Sessions</span>
+                </div>
+                <button onClick={onClose} className="text-slate-500 hover:text-slate-300" title="Close">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="overflow-y-auto custom-scrollbar">
+                {error && <div className="p-3 text-[11px] text-red-300">{error}</div>}
+                {!error && sessions === null && <div className="p-3 text-[11px] text-slate-500">Loading...</div>}
+                {!error && sessions?.length === 0 && (
+                    <div className="p-3 text-[11px] text-slate-500 italic">No autosaves yet. Sessions are saved every few seconds once the graph changes.</div>
+                )}
+                {sessions?.map(session => {
+                    const isCurrent = session.id === currentSessionId;
+                    return (
+                        <div key={session.id} className="p-3 border-b border-slate-700/60 hover:bg-slate-700/30">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center space-x-2 min-w-0">
+                                    <span className="text-xs font-semibold text-slate-200 truncate">{new Date(session.savedAt).toLocaleString()}</span>
+                                    <span className="text-[10px] text-slate-500 whitespace-nowrap">{formatRelative(session.savedAt)}</span>
+                                    {isCurrent && (
+                                        <span className="text-[9px] px-1.5 py-0.5 rounded border border-emerald-800 bg-emerald-900/40 text-emerald-300">CURRENT</span>
+                                    )}
+                                </div>
+                                {!isCurrent && (
+                                    <div className="flex items-center space-x-1 shrink-0">
+                                        <button
+                                            onClick={() => handleRestore(session.id)}
+                                            disabled={!!restoringId}
+                                            className="flex items-center space-x-1 text-[10px] font-bold uppercase tracking-wider bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-2 py-0.5 rounded"
+                                        >
+                                            <RotateCcw className="w-3 h-3" />
+                                            <span>{restoringId === session.id ? 'Restoring' : 'Restore'}</span>
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(session.id)}
+                                            disabled={!!restoringId}
+                                            className="text-slate-500 hover:text-red-400 disabled:opacity-50 p-1"
+                                            title="Delete autosave"
+                                        >
+                                            <Trash2 className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                            <div className="text-[10px] text-slate-500 mt-0.5">
+                                Started {new Date(session.createdAt).toLocaleTimeString()} · {session.nodeCount} nodes
+                            </div>
+                            <SessionFiles fileNames={session.fileNames} />
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
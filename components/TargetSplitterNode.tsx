@@ -2,7 +2,7 @@ import React, { memo, useMemo, useEffect } from 'react';
 import { Handle, Position, NodeProps, useEdges, useNodes, Node } from 'reactflow';
 import { PSDNodeData } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { getSemanticThemeObject } from '../services/psdService';
+import { getSemanticThemeObject, describeContainerConstraints } from '../services/psdService';
 
 export const TargetSplitterNode = memo(({ id }: NodeProps) => {
   const edges = useEdges();
@@ -130,6 +130,11 @@ export const TargetSplitterNode = memo(({ id }: NodeProps) => {
                           <span className="text-[9px] text-slate-600 font-mono">
                              {Math.round(container.normalized.w * 100)}% x {Math.round(container.normalized.h * 100)}%
                           </span>
+                          {container.constraints && (
+                            <span className="text-[8px] text-amber-400/80 font-mono truncate" title="Container tags (hard limits)">
+                              [{describeContainerConstraints(container.constraints).join(', ')}]
+                            </span>
+                          )}
                        </div>
 
                        {/* Output Handle for Bounds (Coords Out) */}
@@ -3,8 +3,9 @@ import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
 import { parsePsdFile, extractTemplateMetadata, getSemanticTheme } from '../services/psdService';
 import { PSDNodeData, TemplateMetadata } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
+import { TemplateEditor } from './TemplateEditor';
 
-const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata }) => {
+export const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metadata }) => {
   const { canvas, containers } = metadata;
   const aspectRatio = canvas.height / canvas.width;
   // w-56 is 224px
@@ -37,6 +38,19 @@ const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metad
               <div className="text-[8px] font-mono truncate px-0.5 bg-black/40 rounded">{container.name}</div>
             </div>
           ))}
+          {/* Safe / keep-out zones (drawn once, by the container that declares them) */}
+          {containers.flatMap(container => (container.zones || []).filter(zone => zone.container === container.name)).map(zone => (
+            <div
+              key={`${zone.container}-${zone.name}`}
+              className={`absolute pointer-events-none border ${zone.kind === 'safe' ? 'border-sky-400/70' : 'border-red-500/70 bg-red-500/15'}`}
+              style={{
+                top: `${(zone.bounds.y / canvas.height) * 100}%`,
+                left: `${(zone.bounds.x / canvas.width) * 100}%`,
+                width: `${(zone.bounds.w / canvas.width) * 100}%`,
+                height: `${(zone.bounds.h / canvas.height) * 100}%`,
+              }}
+            />
+          ))}
         </div>
       </div>
     </div>
@@ -46,11 +60,12 @@ const TargetTemplatePreview: React.FC<{ metadata: TemplateMetadata }> = ({ metad
 export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
   const [isLoading, setIsLoading] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { setNodes } = useReactFlow();
 
   // Connect to store
-  const { psdRegistry, registerPsd, registerTemplate, unregisterNode } = useProceduralStore();
+  const { psdRegistry, registerPsd, registerTemplate, registerSourceFile, unregisterNode } = useProceduralStore();
 
   // Determine State
   const isDataLoaded = !!data.template;
@@ -84,6 +99,7 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
       // REGISTER WITH STORE
       registerPsd(id, parsedPsd);
       registerTemplate(id, templateData);
+      registerSourceFile(id, file);
 
       setNodes((nodes) =>
         nodes.map((node) => {
@@ -94,6 +110,7 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
                 ...node.data,
                 fileName: file.name,
                 template: templateData,
+                templateEdited: false,
                 validation: null, // Not applicable for target
                 designLayers: null, // Not applicable for target
                 error: null,
@@ -127,7 +144,17 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
     } finally {
       setIsLoading(false);
     }
-  }, [id, setNodes, registerPsd, registerTemplate]);
+  }, [id, setNodes, registerPsd, registerTemplate, registerSourceFile]);
+
+  // Editor output replaces the PSD's !!TEMPLATE layout (the binary itself is untouched)
+  const handleEditorSave = useCallback((template: TemplateMetadata) => {
+    registerTemplate(id, template);
+    setNodes((nodes) => nodes.map((node) => node.id === id ? {
+      ...node,
+      data: { ...node.data, template, templateEdited: true }
+    } : node));
+    setIsEditing(false);
+  }, [id, registerTemplate, setNodes]);
 
   const handleBoxClick = () => fileInputRef.current?.click();
   const isConnectable = isDataLoaded && hasBinary;
@@ -211,7 +238,14 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
               
               {data.template && <TargetTemplatePreview metadata={data.template} />}
               
-              <div className="flex justify-end mt-2">
+              <div className="flex justify-end items-center space-x-2 mt-2">
+                {data.templateEdited && <span className="mr-auto text-[9px] font-mono text-amber-400" title="Layout edited in the Template Editor">EDITED</span>}
+                <button 
+                  onClick={() => setIsEditing(true)} 
+                  className="py-1 px-3 bg-emerald-800 hover:bg-emerald-700 text-[10px] text-emerald-100 rounded transition-colors uppercase font-medium tracking-wide"
+                >
+                  Edit Layout
+                </button>
                 <button 
                   onClick={handleBoxClick} 
                   className="py-1 px-3 bg-slate-700 hover:bg-slate-600 text-[10px] text-slate-300 rounded transition-colors uppercase font-medium tracking-wide"
@@ -236,6 +270,10 @@ export const TargetTemplateNode = memo(({ data, id }: NodeProps<PSDNodeData>) =>
         )}
       </div>
 
+      {isEditing && data.template && (
+        <TemplateEditor template={data.template} title={data.fileName || 'target'} onSave={handleEditorSave} onClose={() => setIsEditing(false)} />
+      )}
+
       {/* Output Handle - Centered Right */}
       <Handle
         type="source"
@@ -0,0 +1,366 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ContainerDefinition, TemplateMetadata } from '../types';
+import { getSemanticTheme, writePsdFile } from '../services/psdService';
+import {
+  addContainer,
+  deleteContainer,
+  renameContainer,
+  updateContainerBounds,
+  validateContainerName,
+  buildTemplatePsd,
+  MIN_CONTAINER_SIZE
+} from '../services/templateEditorService';
+import { Download, MousePointer2, Square, Trash2, X } from 'lucide-react';
+
+type Rect = { x: number, y: number, w: number, h: number };
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+// Pointer gesture in template pixels
+type Gesture =
+  | { mode: 'draw'; start: { x: number, y: number } }
+  | { mode: 'move'; name: string; start: { x: number, y: number }; origin: Rect }
+  | { mode: 'resize'; name: string; corner: Corner; origin: Rect };
+
+const STAGE_MAX_WIDTH = 880;
+const STAGE_MAX_HEIGHT = 600;
+
+// --- HELPER: Gesture Geometry ---
+const rectFromPoints = (a: { x: number, y: number }, b: { x: number, y: number }): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  w: Math.abs(b.x - a.x),
+  h: Math.abs(b.y - a.y)
+});
+
+// The corner opposite the dragged one stays fixed
+const resizeFromCorner = (origin: Rect, corner: Corner, point: { x: number, y: number }): Rect => {
+  const fixed = {
+    x: corner === 'nw' || corner === 'sw' ? origin.x + origin.w : origin.x,
+    y: corner === 'nw' || corner === 'ne' ? origin.y + origin.h : origin.y
+  };
+  return rectFromPoints(fixed, point);
+};
+
+const gestureRect = (gesture: Gesture, point: { x: number, y: number }): Rect => {
+  if (gesture.mode === 'draw') return rectFromPoints(gesture.start, point);
+  if (gesture.mode === 'move') {
+    return { ...gesture.origin, x: gesture.origin.x + point.x - gesture.start.x, y: gesture.origin.y + point.y - gesture.start.y };
+  }
+  return resizeFromCorner(gesture.origin, gesture.corner, point);
+};
+
+const CORNERS: { corner: Corner; className: string }[] = [
+  { corner: 'nw', className: '-left-1 -top-1 cursor-nwse-resize' },
+  { corner: 'ne', className: '-right-1 -top-1 cursor-nesw-resize' },
+  { corner: 'sw', className: '-left-1 -bottom-1 cursor-nesw-resize' },
+  { corner: 'se', className: '-right-1 -bottom-1 cursor-nwse-resize' }
+];
+
+// Commits on blur/Enter so intermediate keystrokes are not clamped
+const NumberField: React.FC<{ label: string; value: number; onCommit: (value: number) => void }> = ({ label, value, onCommit }) => {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+
+  const commit = () => {
+    const num = Number(text);
+    if (text.trim() !== '' && Number.isFinite(num) && num !== value) onCommit(num);
+    else setText(String(value));
+  };
+
+  return (
+    <label className="flex items-center space-x-1">
+      <span className="text-[9px] text-slate-500 font-mono w-3">{label}</span>
+      <input
+        type="number"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+        className="w-full bg-slate-900 border border-slate-600 rounded px-1.5 py-0.5 text-[11px] font-mono text-slate-200 outline-none focus:border-emerald-500"
+      />
+    </label>
+  );
+};
+
+/**
+ * Full-screen editor for a template's container rectangles at the canvas' real dimensions.
+ * Drag on empty canvas to draw, drag a container to move it, drag its corners to resize.
+ * Nested containers, constraint tags and zones are preserved; zones are shown read-only.
+ */
+export const TemplateEditor: React.FC<{
+  template: TemplateMetadata;
+  title: string;
+  onSave: (template: TemplateMetadata) => void;
+  onClose: () => void;
+}> = ({ template, title, onSave, onClose }) => {
+  const [draft, setDraft] = useState<TemplateMetadata>(template);
+  const [selected, setSelected] = useState<string | null>(template.containers[0]?.name ?? null);
+  const [tool, setTool] = useState<'select' | 'draw'>('select');
+  const [gesture, setGesture] = useState<Gesture | null>(null);
+  const [pointer, setPointer] = useState<{ x: number, y: number } | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  const { canvas } = draft;
+  const scale = Math.min(STAGE_MAX_WIDTH / canvas.width, STAGE_MAX_HEIGHT / canvas.height);
+  const selectedContainer = draft.containers.find(c => c.name === selected) || null;
+  const isDirty = draft !== template;
+
+  useEffect(() => {
+    setNameDraft(selectedContainer?.name ?? '');
+    setNameError(null);
+  }, [selectedContainer?.name]);
+
+  // 1. Pointer -> template pixels
+  const toTemplatePoint = useCallback((event: React.PointerEvent): { x: number, y: number } => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max(0, (event.clientX - rect.left) / scale), canvas.width),
+      y: Math.min(Math.max(0, (event.clientY - rect.top) / scale), canvas.height)
+    };
+  }, [scale, canvas.width, canvas.height]);
+
+  const beginGesture = (event: React.PointerEvent, next: Gesture) => {
+    event.stopPropagation();
+    stageRef.current?.setPointerCapture(event.pointerId);
+    setGesture(next);
+    setPointer(toTemplatePoint(event));
+  };
+
+  // 2. Commit the gesture through the editor service (clamped, whole pixels)
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (!gesture) return;
+    const point = toTemplatePoint(event);
+    const rect = gestureRect(gesture, point);
+    if (gesture.mode === 'draw') {
+      if (rect.w >= MIN_CONTAINER_SIZE && rect.h >= MIN_CONTAINER_SIZE) {
+        const next = addContainer(draft, rect);
+        setDraft(next);
+        setSelected(next.containers[next.containers.length - 1].name);
+        setTool('select');
+      }
+    } else if (rect.x !== gesture.origin.x || rect.y !== gesture.origin.y || rect.w !== gesture.origin.w || rect.h !== gesture.origin.h) {
+      setDraft(updateContainerBounds(draft, gesture.name, rect));
+    }
+    setGesture(null);
+    setPointer(null);
+  };
+
+  const handleDelete = useCallback(() => {
+    if (!selected) return;
+    setDraft(current => deleteContainer(current, selected));
+    setSelected(null);
+  }, [selected]);
+
+  const commitRename = () => {
+    if (!selectedContainer || nameDraft.trim() === selectedContainer.name) return;
+    const error = validateContainerName(draft, nameDraft, selectedContainer.name);
+    setNameError(error);
+    if (error) return;
+    setDraft(renameContainer(draft, selectedContainer.name, nameDraft));
+    setSelected(nameDraft.trim());
+  };
+
+  const commitBounds = (patch: Partial<Rect>) => {
+    if (!selectedContainer) return;
+    setDraft(updateContainerBounds(draft, selectedContainer.name, { ...selectedContainer.bounds, ...patch }));
+  };
+
+  // Keyboard focus stays inside the editor: the 'nokey' root keeps React Flow from deleting nodes
+  useEffect(() => {
+    rootRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    event.stopPropagation(); // React events bubble through the portal into the owning node
+    if ((event.target as HTMLElement).tagName === 'INPUT') return;
+    if (event.key === 'Delete' || event.key === 'Backspace') handleDelete();
+    if (event.key === 'Escape') onClose();
+  };
+
+  // 3. Live rect for the container being moved/resized (or the one being drawn)
+  const liveRect = gesture && pointer ? gestureRect(gesture, pointer) : null;
+  const boundsOf = (container: ContainerDefinition): Rect =>
+    liveRect && gesture && gesture.mode !== 'draw' && gesture.name === container.name ? liveRect : container.bounds;
+
+  const ownZones = useMemo(
+    () => draft.containers.flatMap(c => (c.zones || []).filter(zone => zone.container === c.name)),
+    [draft]
+  );
+
+  const px = (value: number) => `${value * scale}px`;
+
+  return createPortal(
+    <div
+      ref={rootRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      className="nokey fixed inset-0 z-50 bg-black/70 flex items-center justify-center font-sans outline-none"
+    >
+      <div className="bg-slate-800 border border-slate-600 rounded-lg shadow-2xl flex flex-col max-w-[95vw] max-h-[95vh]">
+        {/* Header */}
+        <div className="p-2 border-b border-slate-700 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <span className="text-sm font-semibold text-slate-100">Template Editor</span>
+            <span className="text-[10px] font-mono text-slate-400">{title} · {canvas.width} x {canvas.height}</span>
+          </div>
+          <div className="flex items-center space-x-1">
+            <button
+              onClick={() => setTool('select')}
+              className={`p-1 rounded ${tool === 'select' ? 'bg-emerald-700 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              title="Select, move and resize"
+            >
+              <MousePointer2 className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => setTool('draw')}
+              className={`p-1 rounded ${tool === 'draw' ? 'bg-emerald-700 text-white' : 'text-slate-400 hover:bg-slate-700'}`}
+              title="Draw a new container"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-1 ml-3 text-slate-500 hover:text-slate-300" title="Close without saving">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex min-h-0">
+          {/* Stage */}
+          <div className="p-4 overflow-auto">
+            <div
+              ref={stageRef}
+              className={`relative bg-black/40 border border-slate-700 select-none ${tool === 'draw' ? 'cursor-crosshair' : 'cursor-default'}`}
+              style={{ width: px(canvas.width), height: px(canvas.height) }}
+              onPointerDown={(e) => {
+                if (tool === 'draw') beginGesture(e, { mode: 'draw', start: toTemplatePoint(e) });
+                else setSelected(null);
+              }}
+              onPointerMove={(e) => gesture && setPointer(toTemplatePoint(e))}
+              onPointerUp={handlePointerUp}
+            >
+              {draft.containers.map((container, index) => {
+                const rect = boundsOf(container);
+                const isSelected = container.name === selected;
+                return (
+                  <div
+                    key={container.id}
+                    className={`absolute border flex items-start ${getSemanticTheme(container.originalName, index)} ${isSelected ? 'border-solid ring-1 ring-white/80 z-10' : 'border-dashed opacity-80'} ${tool === 'select' ? 'cursor-move' : ''}`}
+                    style={{ left: px(rect.x), top: px(rect.y), width: px(rect.w), height: px(rect.h) }}
+                    onPointerDown={(e) => {
+                      if (tool !== 'select') return;
+                      setSelected(container.name);
+                      beginGesture(e, { mode: 'move', name: container.name, start: toTemplatePoint(e), origin: container.bounds });
+                    }}
+                  >
+                    <span className="text-[10px] font-mono px-1 bg-black/50 rounded-br truncate pointer-events-none">{container.name}</span>
+                    {isSelected && tool === 'select' && CORNERS.map(({ corner, className }) => (
+                      <div
+                        key={corner}
+                        className={`absolute w-2 h-2 bg-white border border-slate-900 ${className}`}
+                        onPointerDown={(e) => beginGesture(e, { mode: 'resize', name: container.name, corner, origin: container.bounds })}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+              {ownZones.map(zone => (
+                <div
+                  key={`${zone.container}-${zone.name}`}
+                  className={`absolute pointer-events-none border ${zone.kind === 'safe' ? 'border-sky-400/70' : 'border-red-500/70 bg-red-500/15'}`}
+                  style={{ left: px(zone.bounds.x), top: px(zone.bounds.y), width: px(zone.bounds.w), height: px(zone.bounds.h) }}
+                />
+              ))}
+              {liveRect && gesture?.mode === 'draw' && (
+                <div
+                  className="absolute border border-emerald-400 bg-emerald-400/10 pointer-events-none"
+                  style={{ left: px(liveRect.x), top: px(liveRect.y), width: px(liveRect.w), height: px(liveRect.h) }}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Inspector */}
+          <div className="w-60 border-l border-slate-700 p-3 flex flex-col space-y-3 overflow-y-auto custom-scrollbar">
+            <div>
+              <span className="text-[10px] uppercase text-slate-400 font-semibold tracking-wider">Containers</span>
+              <div className="mt-1 space-y-0.5">
+                {draft.containers.map(container => (
+                  <button
+                    key={container.id}
+                    onClick={() => setSelected(container.name)}
+                    className={`w-full text-left text-[11px] font-mono px-1.5 py-0.5 rounded truncate ${container.name === selected ? 'bg-emerald-800/60 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+                    style={{ paddingLeft: container.parentName ? 18 : undefined }}
+                  >
+                    {container.name}
+                  </button>
+                ))}
+                {draft.containers.length === 0 && (
+                  <span className="text-[10px] text-slate-500 italic">Use the draw tool to add a container.</span>
+                )}
+              </div>
+            </div>
+
+            {selectedContainer && (
+              <div className="space-y-2 border-t border-slate-700 pt-3">
+                <input
+                  value={nameDraft}
+                  onChange={(e) => setNameDraft(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); }}
+                  className={`w-full bg-slate-900 border rounded px-2 py-1 text-[11px] font-mono text-slate-100 outline-none ${nameError ? 'border-red-500' : 'border-slate-600 focus:border-emerald-500'}`}
+                />
+                {nameError && <p className="text-[10px] text-red-300">{nameError}</p>}
+                <div className="grid grid-cols-2 gap-1.5">
+                  <NumberField label="X" value={selectedContainer.bounds.x} onCommit={(x) => commitBounds({ x })} />
+                  <NumberField label="Y" value={selectedContainer.bounds.y} onCommit={(y) => commitBounds({ y })} />
+                  <NumberField label="W" value={selectedContainer.bounds.w} onCommit={(w) => commitBounds({ w })} />
+                  <NumberField label="H" value={selectedContainer.bounds.h} onCommit={(h) => commitBounds({ h })} />
+                </div>
+                {selectedContainer.parentName && (
+                  <p className="text-[10px] text-slate-500">Nested in <span className="font-mono">{selectedContainer.parentName}</span></p>
+                )}
+                <button
+                  onClick={handleDelete}
+                  className="w-full flex items-center justify-center space-x-1 py-1 bg-red-900/40 hover:bg-red-800/60 border border-red-800 text-red-200 rounded text-[10px] font-bold uppercase tracking-wider"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  <span>Delete</span>
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="p-2 border-t border-slate-700 flex items-center justify-between">
+          <button
+            onClick={() => writePsdFile(buildTemplatePsd(draft), `${title.replace(/\.psd$/i, '').replace(/\s+/g, '_')}_TEMPLATE.psd`)}
+            disabled={draft.containers.length === 0}
+            className="flex items-center space-x-1 text-[10px] font-bold uppercase tracking-wider text-slate-300 hover:text-white px-2 py-1 rounded border border-slate-600 hover:border-slate-400 disabled:opacity-40"
+            title="Download a PSD containing this layout as a !!TEMPLATE group"
+          >
+            <Download className="w-3 h-3" />
+            <span>Export Template PSD</span>
+          </button>
+          <div className="flex space-x-2">
+            <button onClick={onClose} className="text-[10px] font-bold uppercase tracking-wider text-slate-400 hover:text-slate-200 px-2 py-1">
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              disabled={!isDirty || draft.containers.length === 0}
+              className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 text-white text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded"
+            >
+              Save Layout
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
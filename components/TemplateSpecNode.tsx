@@ -0,0 +1,219 @@
+import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
+import { Handle, Position, NodeProps, useReactFlow } from 'reactflow';
+import { PSDNodeData, TemplateMetadata, TemplateSpecSource } from '../types';
+import { useProceduralStore } from '../store/ProceduralContext';
+import { TargetTemplatePreview } from './TargetTemplateNode';
+import { TemplateEditor } from './TemplateEditor';
+import { parseTemplateSpec, buildTemplateFromSpec, serializeTemplateSpec, templateToSpec, TemplateSpecError, TemplateSpecFormat } from '../services/templateSpecService';
+import { TEMPLATE_PRESETS, findTemplatePreset } from '../services/templatePresets';
+import { FileCode2, PenSquare, Play } from 'lucide-react';
+
+const DEFAULT_PRESET_ID = 'iab-medium-rectangle';
+
+// --- HELPER: Compile Result ---
+type CompileResult =
+  | { ok: true; template: TemplateMetadata; name?: string }
+  | { ok: false; message: string; issues: string[] };
+
+const compileSpec = (source: string, format: TemplateSpecFormat): CompileResult => {
+  try {
+    const spec = parseTemplateSpec(source, format);
+    return { ok: true, template: buildTemplateFromSpec(spec), name: spec.name };
+  } catch (err) {
+    if (err instanceof TemplateSpecError) return { ok: false, message: err.message, issues: err.issues };
+    return { ok: false, message: (err as Error)?.message || 'Failed to compile template spec', issues: [] };
+  }
+};
+
+/**
+ * Target template from a JSON/YAML description instead of a PSD.
+ * Broadcasts its compiled TemplateMetadata on 'target-metadata-out', like the Target Template node.
+ */
+export const TemplateSpecNode = memo(({ data, id }: NodeProps<PSDNodeData>) => {
+  const { setNodes } = useReactFlow();
+  const { templateRegistry, registerTemplate, unregisterNode } = useProceduralStore();
+
+  const initial = useMemo<TemplateSpecSource>(() => {
+    if (data.templateSpec) return data.templateSpec;
+    const preset = findTemplatePreset(DEFAULT_PRESET_ID)!;
+    return { format: 'yaml', source: serializeTemplateSpec(preset.spec, 'yaml'), presetId: preset.id };
+  }, []);
+
+  const [format, setFormat] = useState<TemplateSpecFormat>(initial.format);
+  const [draft, setDraft] = useState(initial.source);
+  const [presetId, setPresetId] = useState<string | null>(initial.presetId ?? null);
+  const [error, setError] = useState<{ message: string; issues: string[] } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const isApplied = !!data.template && data.templateSpec?.source === draft && data.templateSpec?.format === format;
+
+  // Re-broadcast the persisted template (project load / autosave restore)
+  useEffect(() => {
+    if (data.template && templateRegistry[id] !== data.template) {
+      registerTemplate(id, data.template);
+    }
+  }, [id, data.template, templateRegistry, registerTemplate]);
+
+  useEffect(() => {
+    return () => unregisterNode(id);
+  }, [id, unregisterNode]);
+
+  const apply = useCallback((source: string, specFormat: TemplateSpecFormat, specPresetId: string | null) => {
+    const result = compileSpec(source, specFormat);
+    if (result.ok === false) {
+      setError({ message: result.message, issues: result.issues });
+      return;
+    }
+    setError(null);
+    registerTemplate(id, result.template);
+    setNodes((nodes) => nodes.map((node) => node.id === id ? {
+      ...node,
+      data: {
+        ...node.data,
+        fileName: result.name || null,
+        template: result.template,
+        templateSpec: { format: specFormat, source, presetId: specPresetId },
+        error: null
+      }
+    } : node));
+  }, [id, registerTemplate, setNodes]);
+
+  // A fresh node starts out broadcasting its default preset
+  useEffect(() => {
+    if (!data.template && !data.templateSpec) apply(initial.source, initial.format, initial.presetId ?? null);
+  }, []);
+
+  const handlePresetChange = (nextPresetId: string) => {
+    const preset = findTemplatePreset(nextPresetId);
+    if (!preset) return;
+    const source = serializeTemplateSpec(preset.spec, format);
+    setPresetId(preset.id);
+    setDraft(source);
+    apply(source, format, preset.id);
+  };
+
+  // Editor output is written back as a pixel spec, so the text stays the source of truth
+  const handleEditorSave = (template: TemplateMetadata) => {
+    const source = serializeTemplateSpec(templateToSpec(template, data.fileName || undefined), format);
+    setDraft(source);
+    setPresetId(null);
+    apply(source, format, null);
+    setIsEditing(false);
+  };
+
+  // Converts the current text; invalid text keeps its content and reports why
+  const handleFormatChange = (nextFormat: TemplateSpecFormat) => {
+    if (nextFormat === format) return;
+    try {
+      setDraft(serializeTemplateSpec(parseTemplateSpec(draft, format), nextFormat));
+      setFormat(nextFormat);
+      setError(null);
+    } catch (err) {
+      const specError = err instanceof TemplateSpecError ? err : new TemplateSpecError((err as Error).message);
+      setError({ message: `Fix the spec before converting: ${specError.message}`, issues: specError.issues });
+    }
+  };
+
+  const categories = useMemo(() => {
+    const grouped: Record<string, typeof TEMPLATE_PRESETS> = {};
+    TEMPLATE_PRESETS.forEach(preset => {
+      grouped[preset.category] = [...(grouped[preset.category] || []), preset];
+    });
+    return Object.entries(grouped);
+  }, []);
+
+  return (
+    <div className="w-80 rounded-lg shadow-xl border font-sans relative bg-slate-800 border-slate-600">
+      <div className="p-2 border-b flex items-center justify-between rounded-t-lg bg-teal-900 border-teal-800">
+        <div className="flex items-center space-x-2">
+          <FileCode2 className="w-4 h-4 text-teal-300" />
+          <span className="text-sm font-semibold text-teal-100">Template Spec</span>
+        </div>
+        <div className="flex rounded overflow-hidden border border-teal-700">
+          {(['yaml', 'json'] as TemplateSpecFormat[]).map(option => (
+            <button
+              key={option}
+              onClick={() => handleFormatChange(option)}
+              className={`px-2 py-0.5 text-[9px] font-bold uppercase tracking-wider transition-colors ${format === option ? 'bg-teal-600 text-white' : 'bg-slate-900 text-teal-300 hover:bg-slate-700'}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-3 space-y-2">
+        <select
+          value={presetId || ''}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className="nodrag w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-teal-500"
+          title="Start from a preset size"
+        >
+          <option value="" disabled>Choose a preset...</option>
+          {categories.map(([category, presets]) => (
+            <optgroup key={category} label={category}>
+              {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+            </optgroup>
+          ))}
+        </select>
+
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          spellCheck={false}
+          className="nodrag nowheel w-full h-56 bg-slate-950 border border-slate-700 rounded p-2 text-[10px] font-mono text-slate-200 outline-none focus:border-teal-500 resize-y custom-scrollbar"
+        />
+
+        <div className="flex items-center justify-between">
+          <span className={`text-[9px] font-mono ${isApplied ? 'text-emerald-400' : 'text-amber-400'}`}>
+            {isApplied ? `APPLIED · ${data.template!.containers.length} containers` : 'UNAPPLIED CHANGES'}
+          </span>
+          <button
+            onClick={() => setIsEditing(true)}
+            disabled={!data.template}
+            className="ml-auto mr-2 flex items-center space-x-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded transition-colors"
+            title="Draw and edit containers visually"
+          >
+            <PenSquare className="w-3 h-3" />
+            <span>Edit</span>
+          </button>
+          <button
+            onClick={() => apply(draft, format, presetId)}
+            className="flex items-center space-x-1 bg-teal-600 hover:bg-teal-500 text-white text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded transition-colors"
+          >
+            <Play className="w-3 h-3" />
+            <span>Apply</span>
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-2 bg-red-900/30 border border-red-800 rounded text-[10px] text-red-200">
+            <span className="font-bold block mb-1">{error.message}</span>
+            {error.issues.length > 0 && (
+              <ul className="list-disc pl-4 space-y-0.5 font-mono">
+                {error.issues.slice(0, 6).map((issue, i) => <li key={i}>{issue}</li>)}
+                {error.issues.length > 6 && <li className="italic">...and {error.issues.length - 6} more</li>}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {data.template && <TargetTemplatePreview metadata={data.template} />}
+      </div>
+
+      {isEditing && data.template && (
+        <TemplateEditor template={data.template} title={data.fileName || 'template spec'} onSave={handleEditorSave} onClose={() => setIsEditing(false)} />
+      )}
+
+      <Handle
+        type="source"
+        position={Position.Right}
+        id="target-metadata-out"
+        isConnectable={!!data.template}
+        title="Output: Target Template Metadata"
+        className={`!w-3 !h-3 !border-2 transition-colors duration-300 ${data.template ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`}
+        style={{ right: -6, top: '50%', transform: 'translateY(-50%)' }}
+      />
+    </div>
+  );
+});
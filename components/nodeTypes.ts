@@ -0,0 +1,34 @@
+import { NodeTypes } from 'reactflow';
+import { LoadPSDNode } from './LoadPSDNode';
+import { TargetTemplateNode } from './TargetTemplateNode';
+import { TemplateSpecNode } from './TemplateSpecNode';
+import { TargetSplitterNode } from './TargetSplitterNode';
+import { DesignInfoNode } from './DesignInfoNode';
+import { TemplateSplitterNode } from './TemplateSplitterNode';
+import { ContainerResolverNode } from './ContainerResolverNode';
+import { RemapperNode } from './RemapperNode';
+import { DesignAnalystNode } from './DesignAnalystNode';
+import { ExportPSDNode } from './ExportPSDNode';
+import { CanvasPreviewNode } from './CanvasPreviewNode';
+import { KnowledgeNode } from './KnowledgeNode';
+import { DesignReviewerNode } from './DesignReviewerNode';
+
+/**
+ * Custom node components by React Flow type. Each type's handle data types are declared in
+ * services/connectionRegistry.ts, which drives connection validation.
+ */
+export const NODE_TYPES: NodeTypes = {
+  loadPsd: LoadPSDNode,
+  targetTemplate: TargetTemplateNode,
+  templateSpec: TemplateSpecNode,
+  targetSplitter: TargetSplitterNode,
+  designInfo: DesignInfoNode,
+  templateSplitter: TemplateSplitterNode,
+  containerResolver: ContainerResolverNode,
+  remapper: RemapperNode,
+  designAnalyst: DesignAnalystNode,
+  designReviewer: DesignReviewerNode,
+  exportPsd: ExportPSDNode,
+  canvasPreview: CanvasPreviewNode,
+  knowledge: KnowledgeNode,
+};
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ProjectExport } from '../types';
+import { isAutosaveAvailable, saveSession, SessionFile } from '../services/autosaveService';
+
+export const AUTOSAVE_INTERVAL_MS = 15000;
+
+export interface AutosaveState {
+  sessionId: string;
+  lastSavedAt: number | null;
+  error: string | null;
+  saveNow: () => Promise<void>;
+}
+
+// Only user-meaningful state counts as a change (React Flow measurement/selection fields are ignored)
+const autosaveSignature = (project: ProjectExport, files: Record<string, Blob>): string =>
+  JSON.stringify({
+    nodes: project.nodes.map(n => ({ id: n.id, type: n.type, position: n.position, data: n.data })),
+    edges: project.edges.map(e => [e.source, e.sourceHandle, e.target, e.targetHandle]),
+    files: Object.keys(files).sort()
+  });
+
+/**
+ * Periodically autosaves the graph and PSD source files of this page session to IndexedDB.
+ * Nothing is written until the graph differs from its initial state, so untouched page loads
+ * do not crowd the session list. Also flushes when the tab is hidden or closed (best effort).
+ *
+ * @param buildProjectExport Snapshot builder from useProjectPersistence.
+ * @param sourceFileRegistry Original PSD files per node (ProceduralStore).
+ */
+export const useAutosave = (
+  buildProjectExport: (includeGenerations: boolean) => ProjectExport,
+  sourceFileRegistry: Record<string, Blob>
+): AutosaveState => {
+  const sessionRef = useRef({ id: `session-${Date.now()}`, createdAt: Date.now() });
+  const baselineRef = useRef<string | null>(null);
+  const lastSignatureRef = useRef<string | null>(null);
+  const savedFilesRef = useRef<Record<string, Blob>>({});
+  const isSavingRef = useRef(false);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Latest inputs for the interval callback without re-arming the timer on every render
+  const buildRef = useRef(buildProjectExport);
+  const filesRef = useRef(sourceFileRegistry);
+  buildRef.current = buildProjectExport;
+  filesRef.current = sourceFileRegistry;
+
+  const saveNow = useCallback(async () => {
+    if (!isAutosaveAvailable() || isSavingRef.current) return;
+
+    const project = buildRef.current(true);
+    const files = filesRef.current;
+    const signature = autosaveSignature(project, files);
+    if (signature === baselineRef.current || signature === lastSignatureRef.current) return;
+
+    const liveNodeIds = new Set<string>(project.nodes.map(n => n.id).filter(nodeId => !!files[nodeId]));
+    const changedFiles: SessionFile[] = [];
+    liveNodeIds.forEach(nodeId => {
+      const blob = files[nodeId];
+      if (savedFilesRef.current[nodeId] === blob) return;
+      const node = project.nodes.find(n => n.id === nodeId);
+      changedFiles.push({ nodeId, fileName: node?.data.fileName || (blob instanceof File ? blob.name : `${nodeId}.psd`), blob });
+    });
+
+    isSavingRef.current = true;
+    try {
+      await saveSession(
+        {
+          ...sessionRef.current,
+          fileNames: project.nodes.map(n => n.data.fileName).filter((name): name is string => !!name)
+        },
+        project,
+        changedFiles,
+        liveNodeIds
+      );
+      lastSignatureRef.current = signature;
+      savedFilesRef.current = Object.fromEntries([...liveNodeIds].map(nodeId => [nodeId, files[nodeId]]));
+      setLastSavedAt(Date.now());
+      setError(null);
+    } catch (err: any) {
+      console.error("Autosave failed", err);
+      setError(err?.message || 'Autosave failed');
+    } finally {
+      isSavingRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAutosaveAvailable()) return;
+
+    // Capture the pristine graph as baseline before the first interval tick
+    baselineRef.current = autosaveSignature(buildRef.current(true), filesRef.current);
+
+    const timer = setInterval(saveNow, AUTOSAVE_INTERVAL_MS);
+    const handleHidden = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+    document.addEventListener('visibilitychange', handleHidden);
+    window.addEventListener('pagehide', saveNow);
+
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleHidden);
+      window.removeEventListener('pagehide', saveNow);
+    };
+  }, [saveNow]);
+
+  return { sessionId: sessionRef.current.id, lastSavedAt, error, saveNow };
+};
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import { Edge, Node } from 'reactflow';
+import { PSDNodeData } from '../types';
+
+/**
+ * Node data fields that carry user decisions or paid AI work.
+ * Everything else (binary-derived metadata, positions, selection) is either re-derivable or too noisy to track.
+ */
+const TRACKED_DATA_KEYS = ['analystInstances', 'reviewerInstances', 'instanceSettings', 'remapperConfig', 'instanceCount'] as const;
+
+type TrackedKey = typeof TRACKED_DATA_KEYS[number];
+type TrackedData = Partial<Pick<PSDNodeData, TrackedKey>>;
+
+interface GraphSnapshot {
+  nodeData: Record<string, TrackedData>;
+  edges: Edge[];
+  edgeSignature: string; // Sorted connection list (selection / styling changes are not history events)
+}
+
+// Rapid successive writes (streaming chat, multi-step toggles) collapse into one history entry
+const COALESCE_MS = 400;
+const MAX_HISTORY = 100;
+
+// --- HELPER: Snapshot Capture ---
+const captureSnapshot = (nodes: Node<PSDNodeData>[], edges: Edge[]): GraphSnapshot => {
+  const nodeData: Record<string, TrackedData> = {};
+  nodes.forEach(node => {
+    nodeData[node.id] = Object.fromEntries(
+      TRACKED_DATA_KEYS.filter(key => node.data?.[key] !== undefined).map(key => [key, node.data[key]])
+    ) as TrackedData;
+  });
+
+  const edgeSignature = edges
+    .map(e => `${e.source}:${e.sourceHandle || ''}>${e.target}:${e.targetHandle || ''}`)
+    .sort()
+    .join('|');
+
+  return { nodeData, edges, edgeSignature };
+};
+
+/**
+ * Node data is updated immutably via setNodes, so reference equality per tracked field detects real edits
+ * without serializing large payloads (chat history, base64 references) on every drag frame.
+ * Nodes present in only one snapshot are ignored: node creation/deletion itself is not undoable.
+ */
+const isSameSnapshot = (a: GraphSnapshot, b: GraphSnapshot): boolean => {
+  if (a.edgeSignature !== b.edgeSignature) return false;
+  return Object.keys(a.nodeData).every(nodeId => {
+    const other = b.nodeData[nodeId];
+    return !other || TRACKED_DATA_KEYS.every(key => a.nodeData[nodeId][key] === other[key]);
+  });
+};
+
+export interface GraphHistory {
+  undo: () => void;
+  redo: () => void;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo/redo stack over React Flow state.
+ * Tracks the AI/decision fields of every node's data plus edge additions/removals, and restores them
+ * through `setNodes`/`setEdges`. Downstream payloads follow automatically: nodes re-register their
+ * registry outputs from the restored data (Analyst strategy → Remapper → Reviewer → Export).
+ *
+ * Shortcuts: Ctrl/Cmd+Z (undo), Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y (redo). Ignored while typing in inputs,
+ * so chat boxes keep their native text undo.
+ */
+export const useGraphHistory = (
+  nodes: Node<PSDNodeData>[],
+  edges: Edge[],
+  setNodes: Dispatch<SetStateAction<Node<PSDNodeData>[]>>,
+  setEdges: Dispatch<SetStateAction<Edge[]>>
+): GraphHistory => {
+  const pastRef = useRef<GraphSnapshot[]>([]);
+  const futureRef = useRef<GraphSnapshot[]>([]);
+  const presentRef = useRef<GraphSnapshot | null>(null);
+  const pendingRef = useRef<GraphSnapshot | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [, setVersion] = useState(0); // Re-render for canUndo/canRedo
+
+  const bump = () => setVersion(v => v + 1);
+
+  // Commits the latest observed state as a new history entry (if it differs from the present)
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (!pending) return;
+
+    const present = presentRef.current;
+    if (!present) {
+      presentRef.current = pending;
+      return;
+    }
+    if (isSameSnapshot(pending, present)) return;
+
+    pastRef.current = [...pastRef.current, present].slice(-MAX_HISTORY);
+    futureRef.current = [];
+    presentRef.current = pending;
+    bump();
+  }, []);
+
+  // 1. Observe graph changes
+  useEffect(() => {
+    const snapshot = captureSnapshot(nodes, edges);
+    if (!presentRef.current) {
+      presentRef.current = snapshot;
+      return;
+    }
+    if (isSameSnapshot(snapshot, presentRef.current)) {
+      pendingRef.current = null; // Restored or no-op change
+      return;
+    }
+    pendingRef.current = snapshot;
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, COALESCE_MS);
+  }, [nodes, edges, flush]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+
+  // 2. Restore a snapshot onto the live graph
+  const applySnapshot = useCallback((snapshot: GraphSnapshot) => {
+    presentRef.current = snapshot;
+    setNodes(nds => nds.map(node => {
+      const tracked = snapshot.nodeData[node.id];
+      if (!tracked) return node; // Node created after the snapshot: leave as is
+      const data = { ...node.data, ...Object.fromEntries(TRACKED_DATA_KEYS.map(key => [key, tracked[key]])) };
+      return { ...node, data };
+    }));
+    setEdges(() => {
+      // Edges to nodes deleted since the snapshot cannot be revived
+      const liveIds = new Set(nodes.map(n => n.id));
+      return snapshot.edges.filter(e => liveIds.has(e.source) && liveIds.has(e.target));
+    });
+    bump();
+  }, [nodes, setNodes, setEdges]);
+
+  const undo = useCallback(() => {
+    flush();
+    const previous = pastRef.current[pastRef.current.length - 1];
+    if (!previous || !presentRef.current) return;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [presentRef.current, ...futureRef.current];
+    applySnapshot(previous);
+  }, [flush, applySnapshot]);
+
+  const redo = useCallback(() => {
+    flush();
+    const next = futureRef.current[0];
+    if (!next || !presentRef.current) return;
+    futureRef.current = futureRef.current.slice(1);
+    pastRef.current = [...pastRef.current, presentRef.current];
+    applySnapshot(next);
+  }, [flush, applySnapshot]);
+
+  // Drops all history (e.g. after loading a different project)
+  const clear = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    pastRef.current = [];
+    futureRef.current = [];
+    pendingRef.current = null;
+    presentRef.current = null;
+    bump();
+  }, []);
+
+  // 3. Keyboard Shortcuts
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    undo,
+    redo,
+    clear,
+    canUndo: pastRef.current.length > 0 || (!!pendingRef.current && !!presentRef.current),
+    canRedo: futureRef.current.length > 0
+  };
+};
@@ -0,0 +1,131 @@
+import { useCallback } from 'react';
+import { useReactFlow } from 'reactflow';
+import { ProjectExport } from '../types';
+import { useProceduralStore } from '../store/ProceduralContext';
+import { GraphHistory } from './useGraphHistory';
+import { PackageSourceFile } from '../services/projectPackageService';
+import { parsePsdBuffer, extractTemplateMetadata } from '../services/psdService';
+import { migrateProject, MigrationResult, ProjectMigrationError, CURRENT_PROJECT_VERSION } from '../services/projectMigrationService';
+
+export interface RestoredBinary {
+  nodeId: string;
+  fileName: string;
+  data: Uint8Array;
+}
+
+/**
+ * Shared save/restore plumbing for every persistence surface (JSON, project packages, autosave sessions).
+ * Snapshots the live graph, applies loaded projects through the migration pipeline and re-registers PSD
+ * binaries so nodes come back hydrated.
+ */
+export const useProjectPersistence = (history?: GraphHistory) => {
+  const { toObject, setNodes, setEdges, setViewport } = useReactFlow();
+  const { registerPsd, registerTemplate, registerSourceFile, triggerGlobalRefresh } = useProceduralStore();
+
+  // --- HELPER: Project Snapshot ---
+  // Plain JSON saves drop heavy binary payloads; packages and autosaves keep confirmed generations.
+  const buildProjectExport = useCallback((includeGenerations: boolean): ProjectExport => {
+    const flow = toObject();
+
+    // PERSISTENCE LOGIC:
+    // 1. Strip transient "AI Ghost" payload mirrors from Remapper nodes (the store recomputes them).
+    // 2. PRESERVE "KnowledgeContext" in Knowledge nodes (contains distilled rules + optimized visual anchors).
+    //    This ensures the "Project Brain" is portable.
+    // 3. Confirmed generations only travel inside packages/autosaves (JSON saves fall back to re-confirmation).
+
+    const sanitizedNodes = flow.nodes.map(node => {
+      let data = node.data;
+
+      // Rule 1: Sanitize Remapper Payloads (Transient AI drafts)
+      if (data && data.transformedPayload !== undefined) {
+        const { transformedPayload: _, ...rest } = data;
+        data = rest;
+      }
+
+      // Rule 2: Explicitly preserve Knowledge Context (Implicit behavior, documented for clarity)
+      // node.data.knowledgeContext is NOT stripped, preserving visualAnchors (512px optimized) and rules.
+
+      // Rule 3: Confirmed generative images
+      if (data && data.confirmedGenerations && !includeGenerations) {
+        const { confirmedGenerations: _, ...rest } = data;
+        data = rest;
+      }
+
+      return data === node.data ? node : { ...node, data };
+    });
+
+    return {
+      version: CURRENT_PROJECT_VERSION,
+      timestamp: Date.now(),
+      nodes: sanitizedNodes,
+      edges: flow.edges,
+      viewport: flow.viewport
+    };
+  }, [toObject]);
+
+  // Collects original PSD bytes for every node that still has its source file registered
+  const collectSourceFiles = useCallback(async (project: ProjectExport, sourceFileRegistry: Record<string, Blob>): Promise<Record<string, PackageSourceFile>> => {
+    const sourceFiles: Record<string, PackageSourceFile> = {};
+    for (const node of project.nodes) {
+      const file = sourceFileRegistry[node.id];
+      if (!file) continue;
+      sourceFiles[node.id] = {
+        fileName: node.data.fileName || (file instanceof File ? file.name : `${node.id}.psd`),
+        data: new Uint8Array(await file.arrayBuffer())
+      };
+    }
+    return sourceFiles;
+  }, []);
+
+  // Re-registers PSD binaries so nodes come back hydrated (no "Missing Binary Data" re-upload)
+  const rehydrateBinaries = useCallback((project: ProjectExport, binaries: RestoredBinary[]) => {
+    binaries.forEach(binary => {
+      const node = project.nodes.find(n => n.id === binary.nodeId);
+      if (!node) return;
+      try {
+        const buffer = binary.data.buffer.slice(binary.data.byteOffset, binary.data.byteOffset + binary.data.byteLength) as ArrayBuffer;
+        // Targets only contribute geometry, mirroring TargetTemplateNode
+        const psd = parsePsdBuffer(buffer, { skipLayerImageData: node.type === 'targetTemplate', skipThumbnail: true });
+        registerPsd(node.id, psd);
+        registerTemplate(node.id, node.data.template || extractTemplateMetadata(psd));
+        registerSourceFile(node.id, new File([binary.data as BlobPart], binary.fileName));
+      } catch (err) {
+        console.error(`Failed to re-hydrate binary for node ${node.id}`, err);
+      }
+    });
+    if (binaries.length > 0) triggerGlobalRefresh();
+  }, [registerPsd, registerTemplate, registerSourceFile, triggerGlobalRefresh]);
+
+  // Upgrades older files step by step and validates them before touching the graph
+  const applyProject = useCallback((raw: unknown): ProjectExport | null => {
+    let migration: MigrationResult;
+    try {
+      migration = migrateProject(raw);
+    } catch (err) {
+      if (!(err instanceof ProjectMigrationError)) throw err;
+      console.error("Schema Mismatch:", err.message, err.issues);
+      const details = err.issues.slice(0, 8).map(issue => `• ${issue}`).join('\n');
+      alert(`Invalid Project File: ${err.message}${details ? `\n\n${details}` : ''}`);
+      return null;
+    }
+
+    const { project, fromVersion, toVersion, changes } = migration;
+
+    // Apply React Flow State
+    // This triggers the re-hydration effects in individual nodes (e.g., KnowledgeNode)
+    setNodes(project.nodes);
+    setEdges(project.edges);
+    setViewport(project.viewport);
+    // Undo must not cross into the previous project's graph
+    history?.clear();
+
+    if (fromVersion !== toVersion) {
+      const summary = changes.map(change => `• [${change.version}]${change.nodeId ? ` ${change.nodeId}:` : ''} ${change.message}`);
+      console.info(`Project upgraded from ${fromVersion} to ${toVersion}`, changes);
+      alert(`Project upgraded from ${fromVersion} to ${toVersion}.${summary.length > 0 ? `\n\n${summary.join('\n')}` : ''}`);
+    }
+    return project;
+  }, [setNodes, setEdges, setViewport, history]);
+
+  return { buildProjectExport, collectSourceFiles, rehydrateBinaries, applyProject };
+};
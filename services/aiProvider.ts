@@ -0,0 +1,95 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockAIProvider } from './mockAIProvider';
+
+// --- Provider-neutral request vocabulary ---
+
+/**
+ * A single content part. Text or inline (base64) image data, shared by chat history and vision inputs.
+ */
+export type AIPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface AIMessage {
+  role: 'user' | 'model';
+  parts: AIPart[];
+}
+
+export type AISchemaType = 'OBJECT' | 'ARRAY' | 'STRING' | 'NUMBER' | 'INTEGER' | 'BOOLEAN';
+
+/**
+ * Response schema for structured output (OpenAPI subset).
+ */
+export interface AISchema {
+  type: AISchemaType;
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, AISchema>;
+  items?: AISchema;
+  required?: string[];
+}
+
+/**
+ * Which pipeline stage is asking. Providers may use it to pick models;
+ * offline providers use it to pick the canned response.
+ */
+export type AnalysisTask = 'layout' | 'review' | 'distill';
+
+/**
+ * Requested reasoning depth. Mapped to concrete model IDs by each provider.
+ */
+export type AIQuality = 'fast' | 'pro' | 'deep';
+
+export interface StructuredAnalysisRequest {
+  task: AnalysisTask;
+  messages: AIMessage[];
+  systemInstruction?: string;
+  schema?: AISchema; // When set, the response is JSON and parsed into 'data'
+  quality?: AIQuality;
+  geometry?: { source: { w: number, h: number }, target: { w: number, h: number } }; // Container sizes being reconciled
+}
+
+export interface StructuredAnalysisResult<T = any> {
+  text: string; // Raw model output (kept for chat history / audit)
+  data: T | null; // Parsed JSON when a schema was requested
+}
+
+export interface ImageSynthesisRequest {
+  prompt: string;
+  width?: number; // Desired output size (used to pick the closest supported aspect ratio)
+  height?: number;
+  sourceReference?: string; // Data URI or raw base64 PNG used for style consistency (inpaint/outpaint)
+}
+
+/**
+ * Pluggable AI backend used by the Analyst, Reviewer, Remapper, Export and Knowledge nodes.
+ */
+export interface AIProvider {
+  id: string;
+  label: string;
+  isConfigured: boolean; // False when credentials are missing (calls will reject)
+  analyze: <T = any>(request: StructuredAnalysisRequest) => Promise<StructuredAnalysisResult<T>>;
+  synthesizeImage: (request: ImageSynthesisRequest) => Promise<string | null>; // PNG data URI
+}
+
+// --- Provider Selection ---
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Returns the active AI provider.
+ * Defaults to Gemini; set `AI_PROVIDER=mock` in the environment for the deterministic offline provider.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = process.env.AI_PROVIDER === 'mock' ? createMockAIProvider() : createGeminiProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Replaces the active provider (CLI, scripted runs).
+ */
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
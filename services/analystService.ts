@@ -0,0 +1,98 @@
+import { AnalystInstanceState, ContainerConstraints, ContainerDefinition, ContainerZone, MappingContext, SerializableLayer, TemplateMetadata } from '../types';
+import { solveLayout } from './layoutSolverService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export interface ResolvedAnalystTarget {
+  name: string;
+  bounds: Rect;
+  constraints?: ContainerConstraints;
+  zones?: ContainerZone[];
+}
+
+export interface AnalystTarget extends ResolvedAnalystTarget {
+  index: number;
+}
+
+/**
+ * State of an Analyst instance that has not been used yet (also the fill for fields older projects lack).
+ */
+export const DEFAULT_ANALYST_STATE: AnalystInstanceState = {
+  chatHistory: [],
+  layoutStrategy: null,
+  selectedModel: 'gemini-3-flash',
+  isKnowledgeMuted: false
+};
+
+/**
+ * Resolves the target container bound to an Analyst 'target-in' handle (Target Splitter slot).
+ */
+export const resolveAnalystTarget = (template: TemplateMetadata, handle: string | null | undefined): ResolvedAnalystTarget | null => {
+  let containerName = handle;
+  if (containerName?.startsWith('slot-bounds-')) {
+    containerName = containerName.replace('slot-bounds-', '');
+  }
+  const container = template.containers.find(c => c.name === containerName);
+  return container ? { bounds: container.bounds, name: container.name, constraints: container.constraints, zones: container.zones } : null;
+};
+
+/**
+ * Builds the MappingContext relayed on an Analyst 'source-out' handle.
+ * Attaches the instance's LayoutStrategy (flagging explicit generation intent from the chat history)
+ * and the dimensions of the paired target slot. Solver instances re-solve their rules against the
+ * current source and target, so their strategy never goes stale.
+ */
+export const augmentSourceContext = (
+  source: MappingContext,
+  instanceState: AnalystInstanceState,
+  target: { bounds: Rect; constraints?: ContainerConstraints; zones?: ContainerZone[] } | null
+): MappingContext => {
+  const history = instanceState.chatHistory || [];
+  const hasExplicitKeywords = history.some(msg => msg.role === 'user' && /\b(generate|recreate|nano banana)\b/i.test(msg.parts[0].text));
+
+  const strategy = instanceState.mode === 'solver'
+    ? (target ? solveLayout({ sourceRect: source.container.bounds, layers: source.layers as SerializableLayer[], target, rules: instanceState.solverRules || [] }) : null)
+    : instanceState.layoutStrategy;
+
+  return {
+    ...source,
+    aiStrategy: strategy ? {
+      ...strategy,
+      isExplicitIntent: hasExplicitKeywords
+    } : undefined,
+    previewUrl: undefined,
+    targetDimensions: target ? { w: target.bounds.w, h: target.bounds.h } : undefined
+  };
+};
+
+/**
+ * Builds the synthetic template the Analyst broadcasts so downstream Remappers can address
+ * its relayed targets through indexed 'target-out-N' handles. Container constraints and zones travel along.
+ * Returns null when no instance has a target connected.
+ */
+export const buildProxyTemplate = (
+  targets: AnalystTarget[],
+  canvasDims: { width: number, height: number }
+): TemplateMetadata | null => {
+  if (targets.length === 0) return null;
+
+  const containers: ContainerDefinition[] = targets.map(target => ({
+    id: `proxy-target-${target.index}`,
+    name: `target-out-${target.index}`,
+    originalName: target.name,
+    bounds: target.bounds,
+    ...(target.constraints ? { constraints: target.constraints } : {}),
+    ...(target.zones ? { zones: target.zones } : {}),
+    normalized: {
+      x: canvasDims.width ? target.bounds.x / canvasDims.width : 0,
+      y: canvasDims.height ? target.bounds.y / canvasDims.height : 0,
+      w: canvasDims.width ? target.bounds.w / canvasDims.width : 0,
+      h: canvasDims.height ? target.bounds.h / canvasDims.height : 0,
+    }
+  }));
+
+  return {
+    canvas: canvasDims.width > 0 ? canvasDims : { width: 1024, height: 1024 },
+    containers
+  };
+};
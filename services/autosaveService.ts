@@ -0,0 +1,190 @@
+import { ProjectExport } from '../types';
+
+/**
+ * Autosave Sessions (IndexedDB).
+ * Each page load is one session. The graph snapshot (including chat histories, analyst/reviewer decisions
+ * and confirmed generations) is rewritten on every autosave; PSD source files are stored once per node as
+ * Blobs and only rewritten when the node's file changes. Parsed PSDs and the derived registries
+ * (templates, resolved contexts, payloads) are rebuilt from these on restore.
+ *
+ * Stores:
+ *   sessions  SessionRecord keyed by session ID
+ *   files     SessionFileRecord keyed by `${sessionId}/${nodeId}` (indexed by sessionId)
+ */
+
+const DB_NAME = 'psd-procedural-autosave';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const FILE_STORE = 'files';
+
+// Oldest sessions (and their binaries) are pruned beyond this count
+export const MAX_AUTOSAVE_SESSIONS = 8;
+
+export interface SessionSummary {
+  id: string;
+  createdAt: number;
+  savedAt: number;
+  fileNames: string[]; // PSDs loaded in the session (source + targets)
+  nodeCount: number;
+}
+
+interface SessionRecord extends SessionSummary {
+  project: ProjectExport;
+}
+
+interface SessionFileRecord {
+  key: string;
+  sessionId: string;
+  nodeId: string;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface SessionFile {
+  nodeId: string;
+  fileName: string;
+  blob: Blob;
+}
+
+export interface RestoredSession {
+  summary: SessionSummary;
+  project: ProjectExport;
+  files: SessionFile[];
+}
+
+export const isAutosaveAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+// --- HELPER: IndexedDB Promises ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FILE_STORE)) {
+          db.createObjectStore(FILE_STORE, { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later retry (e.g. private mode toggled)
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Autosave transaction aborted.'));
+  });
+
+const fileKey = (sessionId: string, nodeId: string) => `${sessionId}/${nodeId}`;
+
+const toSummary = ({ project: _, ...summary }: SessionRecord): SessionSummary => summary;
+
+const deleteSessionInTransaction = (tx: IDBTransaction, sessionId: string) => {
+  tx.objectStore(SESSION_STORE).delete(sessionId);
+  const cursorRequest = tx.objectStore(FILE_STORE).index('sessionId').openCursor(IDBKeyRange.only(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+};
+
+/**
+ * Writes one autosave of a session.
+ *
+ * @param summary Session metadata (ID, creation time, file names).
+ * @param project Graph snapshot to store.
+ * @param changedFiles Source files that are new or replaced since the previous autosave of this session.
+ * @param liveNodeIds Node IDs still present in the graph; binaries of removed nodes are dropped.
+ */
+export const saveSession = async (
+  summary: Omit<SessionSummary, 'savedAt' | 'nodeCount'>,
+  project: ProjectExport,
+  changedFiles: SessionFile[],
+  liveNodeIds: Set<string>
+): Promise<void> => {
+  const db = await openDatabase();
+
+  const tx = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  const record: SessionRecord = { ...summary, savedAt: Date.now(), nodeCount: project.nodes.length, project };
+  tx.objectStore(SESSION_STORE).put(record);
+
+  const files = tx.objectStore(FILE_STORE);
+  changedFiles.forEach(file => {
+    const fileRecord: SessionFileRecord = { key: fileKey(summary.id, file.nodeId), sessionId: summary.id, ...file };
+    files.put(fileRecord);
+  });
+
+  const cursorRequest = files.index('sessionId').openCursor(IDBKeyRange.only(summary.id));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (!liveNodeIds.has((cursor.value as SessionFileRecord).nodeId)) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+
+  // Prune beyond the retention limit (never the session being written)
+  const sessions = await listSessions();
+  const stale = sessions.slice(MAX_AUTOSAVE_SESSIONS).filter(s => s.id !== summary.id);
+  if (stale.length > 0) {
+    const pruneTx = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+    stale.forEach(s => deleteSessionInTransaction(pruneTx, s.id));
+    await transactionDone(pruneTx);
+  }
+};
+
+/**
+ * Lists stored sessions, most recently saved first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const records = await requestToPromise(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll() as IDBRequest<SessionRecord[]>);
+  return records.map(toSummary).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Loads a session's graph snapshot and PSD source files.
+ * @returns null when the session no longer exists.
+ */
+export const loadSession = async (sessionId: string): Promise<RestoredSession | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, FILE_STORE]);
+  const [record, fileRecords] = await Promise.all([
+    requestToPromise(tx.objectStore(SESSION_STORE).get(sessionId) as IDBRequest<SessionRecord | undefined>),
+    requestToPromise(tx.objectStore(FILE_STORE).index('sessionId').getAll(IDBKeyRange.only(sessionId)) as IDBRequest<SessionFileRecord[]>)
+  ]);
+  if (!record) return null;
+
+  return {
+    summary: toSummary(record),
+    project: record.project,
+    files: fileRecords.map(({ nodeId, fileName, blob }) => ({ nodeId, fileName, blob }))
+  };
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSION_STORE, FILE_STORE], 'readwrite');
+  deleteSessionInTransaction(tx, sessionId);
+  await transactionDone(tx);
+};
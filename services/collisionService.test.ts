@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { Psd } from 'ag-psd';
+import { TransformedLayer, TransformedPayload } from '../types';
+import { analyzeCollisions, summarizeCollisions } from './collisionService';
+import { CanvasAdapter } from './exportService';
+
+const nodeCanvasAdapter: CanvasAdapter = {
+  createCanvas: (width: number, height: number) => createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height))) as unknown as HTMLCanvasElement
+};
+
+// Opaque layer pixels, optionally with a transparent hole (layer-local rect)
+const pixels = (w: number, h: number, hole?: { x: number, y: number, w: number, h: number }): HTMLCanvasElement => {
+  const canvas = createCanvas(w, h);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, w, h);
+  if (hole) ctx.clearRect(hole.x, hole.y, hole.w, hole.h);
+  return canvas as unknown as HTMLCanvasElement;
+};
+
+const IDENTITY = { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 };
+
+const layer = (id: string, x: number, y: number, w: number, h: number, extra: Partial<TransformedLayer> = {}): TransformedLayer => ({
+  id,
+  name: id,
+  type: 'layer',
+  isVisible: true,
+  opacity: 1,
+  coords: { x, y, w, h },
+  transform: IDENTITY,
+  ...extra
+});
+
+const text = (id: string, x: number, y: number, w: number, h: number, fontSize: number): TransformedLayer =>
+  layer(id, x, y, w, h, { type: 'text', text: { content: id, fontName: 'ArialMT', fontSize, alignment: 'left', boxType: 'point' } });
+
+const payload = (layers: TransformedLayer[], strategy: TransformedPayload['strategy'] = 'UNIFORM_FIT'): TransformedPayload => ({
+  status: 'success',
+  sourceNodeId: 'load',
+  sourceContainer: 'HERO',
+  targetContainer: 'HERO',
+  layers,
+  scaleFactor: 1,
+  metrics: { source: { w: 200, h: 100 }, target: { w: 200, h: 100 } },
+  strategy,
+  targetBounds: { x: 0, y: 0, w: 200, h: 100 }
+});
+
+describe('analyzeCollisions', () => {
+  it('reports box overlaps, tangents, bleed and tiny elements, most severe first', () => {
+    const report = analyzeCollisions(payload([
+      layer('photo', 10, 10, 60, 40),
+      text('title', 50, 20, 60, 20, 14),
+      layer('badge', 70, 60, 20, 20),
+      layer('logo', 90, 60, 20, 20),
+      layer('sticker', 180, 80, 40, 40),
+      text('legal', 120, 10, 40, 6, 6),
+      layer('rule', 10, 90, 100, 2)
+    ]));
+
+    expect(report.issues.map(issue => [issue.kind, issue.severity, issue.layerIds.join('+')])).toEqual([
+      ['bleed', 'error', 'sticker'],
+      ['tiny', 'error', 'legal'],
+      ['bbox-overlap', 'warning', 'photo+title'],
+      ['tangent', 'warning', 'badge+logo'],
+      ['tiny', 'warning', 'rule']
+    ]);
+    expect(report.counts).toEqual({ info: 0, warning: 3, error: 2 });
+    expect(report.pixelChecked).toBe(false);
+    expect(summarizeCollisions(report)).toBe('2 errors, 3 warnings');
+  });
+
+  it('skips backdrops, hidden layers and cropping bleed', () => {
+    const report = analyzeCollisions(payload([
+      layer('background', 0, 0, 200, 100),
+      layer('button', 20, 20, 80, 40),
+      layer('hidden', 25, 25, 100, 50, { isVisible: false }),
+      layer('overflow', 150, 50, 100, 100)
+    ], 'UNIFORM_FILL'));
+
+    expect(report.issues).toEqual([]);
+    expect(summarizeCollisions(report)).toBe('clean');
+  });
+
+  it('blocks export only at or above the gate severity', () => {
+    const layers = [layer('a', 10, 10, 40, 40), layer('b', 50, 10, 40, 40)]; // Tangent warning
+
+    expect(analyzeCollisions(payload(layers)).blocking).toBe(false);
+    expect(analyzeCollisions(payload(layers), undefined, { gate: 'error' }).blocking).toBe(false);
+    expect(analyzeCollisions(payload(layers), undefined, { gate: 'warning' })).toMatchObject({ gate: 'warning', blocking: true });
+  });
+
+  describe('text nested inside an image', () => {
+    // IDs are PSD index paths: '0' is the button, '1' the label on top of it
+    const nested = payload([layer('0', 20, 20, 80, 40, { name: 'button' }), { ...text('1', 30, 30, 40, 16, 12), name: 'label' }]);
+    const psd = (button: HTMLCanvasElement): Psd => ({ width: 200, height: 100, children: [{ name: 'button', canvas: button }, { name: 'label', canvas: pixels(40, 16) }] });
+
+    it('reports a box overlap without pixel data', () => {
+      expect(analyzeCollisions(nested).issues.map(issue => [issue.kind, issue.severity])).toEqual([['bbox-overlap', 'warning']]);
+    });
+
+    it('reports a pixel overlap error when the text covers opaque pixels', () => {
+      const report = analyzeCollisions(nested, psd(pixels(80, 40)), { adapter: nodeCanvasAdapter });
+
+      expect(report.pixelChecked).toBe(true);
+      expect(report.issues).toEqual([{
+        kind: 'pixel-overlap',
+        severity: 'error',
+        layerIds: ['0', '1'],
+        layerNames: ['button', 'label'],
+        rect: { x: 30, y: 30, w: 40, h: 16 },
+        message: "'button' and 'label' overlap by 640px² of visible pixels."
+      }]);
+    });
+
+    it('only notes the boxes when the text sits in a transparent cut-out', () => {
+      const report = analyzeCollisions(nested, psd(pixels(80, 40, { x: 5, y: 5, w: 70, h: 30 })), { adapter: nodeCanvasAdapter });
+
+      expect(report.issues.map(issue => [issue.kind, issue.severity, issue.message])).toEqual([
+        ['bbox-overlap', 'info', "'button' and 'label' bounding boxes overlap, but their pixels stay clear."]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Layer, Psd } from 'ag-psd';
+import {
+  BACKDROP_COVERAGE_RATIO,
+  MAX_BOUNDARY_VIOLATION_PERCENT,
+  CollisionGate,
+  CollisionIssue,
+  CollisionReport,
+  CollisionSeverity,
+  COLLISION_SEVERITY_RANK,
+  TransformedLayer,
+  TransformedPayload,
+  isBlockingSeverity
+} from '../types';
+import { findLayerByPath } from './psdService';
+import { CanvasAdapter, browserCanvasAdapter } from './exportService';
+import { drawLayerPixels } from './compositorService';
+import { isCroppingStrategy } from './remapService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export interface CollisionOptions {
+  gate?: CollisionGate; // Default 'off'
+  adapter?: CanvasAdapter; // Needed for alpha-mask checks outside the browser
+  minTextPx?: number; // Rendered font size below which text is unreadable
+  minElementPx?: number; // Smallest visible side of a pixel layer
+  tangentTolerance?: number; // Edges closer than this (px) without overlapping "kiss"
+}
+
+export const COLLISION_DEFAULTS = {
+  minTextPx: 9,
+  minElementPx: 4,
+  tangentTolerance: 1,
+  minOverlapArea: 4, // px²; smaller pixel intersections are anti-aliasing noise
+  alphaThreshold: 32, // 0-255; fainter pixels don't count as content
+  maxSampleSize: 96 // Longest side of the alpha sampling grid
+};
+
+interface Leaf {
+  layer: TransformedLayer;
+  agLayer: Layer | null;
+  rect: Rect; // Axis-aligned bounds in canvas space (rotation widens the box)
+  clipGroup: string; // Layers in one clipping group are masked by their base, so never collide with it
+  isText: boolean;
+  isBackdrop: boolean;
+}
+
+// --- HELPER: Geometry ---
+const boundsOf = (layer: TransformedLayer): Rect => {
+  const { x, y, w, h } = layer.coords;
+  const rotation = layer.transform.rotation;
+  if (!rotation) return { x, y, w, h };
+  const radians = (rotation * Math.PI) / 180;
+  const rw = Math.abs(w * Math.cos(radians)) + Math.abs(h * Math.sin(radians));
+  const rh = Math.abs(w * Math.sin(radians)) + Math.abs(h * Math.cos(radians));
+  return { x: x + (w - rw) / 2, y: y + (h - rh) / 2, w: rw, h: rh };
+};
+
+const intersect = (a: Rect, b: Rect): Rect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return { x, y, w: Math.min(a.x + a.w, b.x + b.w) - x, h: Math.min(a.y + a.h, b.y + b.h) - y };
+};
+
+// Visible pixel/text leaves in stacking order, tagged with their clipping group
+const collectLeaves = (layers: TransformedLayer[], psd: Psd | undefined, area: Rect | undefined): Leaf[] => {
+  const leaves: Leaf[] = [];
+  const walk = (stack: TransformedLayer[]) => {
+    let base = '';
+    stack.forEach(layer => {
+      const agLayer = psd && layer.type !== 'generative' ? findLayerByPath(psd, layer.id) : null;
+      if (!agLayer?.clipping || !base) base = layer.id;
+      if (!layer.isVisible) return;
+      if (layer.type === 'group') {
+        if (layer.children) walk(layer.children);
+        return;
+      }
+      if (layer.type === 'generative') return; // Fills are backgrounds by definition
+      const rect = boundsOf(layer);
+      if (rect.w <= 0 || rect.h <= 0) return;
+      leaves.push({
+        layer,
+        agLayer,
+        rect,
+        clipGroup: base,
+        isText: layer.type === 'text',
+        isBackdrop: !!area && rect.w * rect.h >= area.w * area.h * BACKDROP_COVERAGE_RATIO
+      });
+    });
+  };
+  walk(layers);
+  return leaves;
+};
+
+/**
+ * Counts the canvas-space area where both layers have opaque pixels, sampled on a grid of at most
+ * `maxSampleSize` cells per side over the box intersection. Returns null without pixel data.
+ */
+const measurePixelOverlap = (a: Leaf, b: Leaf, region: Rect, adapter: CanvasAdapter): number | null => {
+  const imageA = a.agLayer?.canvas as HTMLCanvasElement | undefined;
+  const imageB = b.agLayer?.canvas as HTMLCanvasElement | undefined;
+  if (!imageA || !imageB) return null;
+
+  const sample = Math.min(1, COLLISION_DEFAULTS.maxSampleSize / Math.max(region.w, region.h));
+  const gridW = Math.max(1, Math.ceil(region.w * sample));
+  const gridH = Math.max(1, Math.ceil(region.h * sample));
+
+  const alphaOf = (leaf: Leaf, image: HTMLCanvasElement): Uint8ClampedArray | null => {
+    const canvas = adapter.createCanvas(gridW, gridH);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.scale(sample, sample);
+    ctx.translate(-region.x, -region.y);
+    drawLayerPixels(ctx, image, leaf.layer);
+    return ctx.getImageData(0, 0, gridW, gridH).data;
+  };
+
+  const alphaA = alphaOf(a, imageA);
+  const alphaB = alphaOf(b, imageB);
+  if (!alphaA || !alphaB) return null;
+
+  let cells = 0;
+  for (let i = 3; i < alphaA.length; i += 4) {
+    if (alphaA[i] > COLLISION_DEFAULTS.alphaThreshold && alphaB[i] > COLLISION_DEFAULTS.alphaThreshold) cells++;
+  }
+  return cells / (sample * sample);
+};
+
+const label = (leaf: Leaf) => `'${leaf.layer.name}'`;
+
+/**
+ * Deterministic geometric audit of a remapped payload (the Reviewer's counterpart to CARO's visual pass).
+ * Reports, per visible pixel/text layer:
+ * - overlaps between layers whose boxes cross, nested boxes included (text on a button that is not a
+ *   backdrop is checked like any other pair). With the source PSD the alpha masks decide: touching pixels
+ *   are a 'pixel-overlap' (error when text is involved), clear ones only an informational 'bbox-overlap';
+ * - tangents: edges kissing within `tangentTolerance` px;
+ * - bleed beyond MAX_BOUNDARY_VIOLATION_PERCENT of the container (skipped for cropping strategies);
+ * - tiny elements: text under `minTextPx`, pixel layers thinner than `minElementPx`.
+ * Backdrops (BACKDROP_COVERAGE_RATIO of the container) are exempt from overlap and tangent checks.
+ *
+ * @param psd The binary source PSD (alpha masks and clipping); omit for a box-only report.
+ */
+export const analyzeCollisions = (payload: TransformedPayload, psd?: Psd, options: CollisionOptions = {}): CollisionReport => {
+  const gate = options.gate || 'off';
+  const adapter = options.adapter || browserCanvasAdapter;
+  const minTextPx = options.minTextPx ?? COLLISION_DEFAULTS.minTextPx;
+  const minElementPx = options.minElementPx ?? COLLISION_DEFAULTS.minElementPx;
+  const tolerance = options.tangentTolerance ?? COLLISION_DEFAULTS.tangentTolerance;
+  const area = payload.targetBounds;
+
+  const leaves = collectLeaves(payload.layers, psd, area);
+  const issues: CollisionIssue[] = [];
+  const report = (issue: CollisionIssue) => issues.push(issue);
+  let pixelChecked = !!psd;
+
+  // 1. Pairwise overlaps and tangents
+  leaves.forEach((a, i) => {
+    if (a.isBackdrop) return;
+    leaves.slice(i + 1).forEach(b => {
+      if (b.isBackdrop || a.clipGroup === b.clipGroup) return;
+      const layerIds = [a.layer.id, b.layer.id];
+      const layerNames = [a.layer.name, b.layer.name];
+      const involvesText = a.isText || b.isText;
+      const overlap = intersect(a.rect, b.rect);
+
+      if (overlap.w > 0 && overlap.h > 0) {
+        const pixels = psd ? measurePixelOverlap(a, b, overlap, adapter) : null;
+        if (pixels === null) pixelChecked = false;
+
+        if (pixels !== null && pixels >= COLLISION_DEFAULTS.minOverlapArea) {
+          report({
+            kind: 'pixel-overlap', severity: involvesText ? 'error' : 'warning', layerIds, layerNames, rect: overlap,
+            message: `${label(a)} and ${label(b)} overlap by ${Math.round(pixels)}px² of visible pixels.`
+          });
+        } else {
+          report({
+            kind: 'bbox-overlap', severity: pixels === null && involvesText ? 'warning' : 'info', layerIds, layerNames, rect: overlap,
+            message: pixels === null
+              ? `${label(a)} and ${label(b)} bounding boxes overlap by ${Math.round(overlap.w)}×${Math.round(overlap.h)}px.`
+              : `${label(a)} and ${label(b)} bounding boxes overlap, but their pixels stay clear.`
+          });
+        }
+        return;
+      }
+
+      // Separated on one axis by at most the tolerance while sharing extent on the other
+      const gapX = Math.max(b.rect.x - (a.rect.x + a.rect.w), a.rect.x - (b.rect.x + b.rect.w));
+      const gapY = Math.max(b.rect.y - (a.rect.y + a.rect.h), a.rect.y - (b.rect.y + b.rect.h));
+      const kissX = gapX >= 0 && gapX <= tolerance && gapY < 0;
+      const kissY = gapY >= 0 && gapY <= tolerance && gapX < 0;
+      if (kissX || kissY) {
+        report({
+          kind: 'tangent', severity: 'warning', layerIds, layerNames,
+          message: `${label(a)} and ${label(b)} edges touch (${Math.max(0, Math.round((kissX ? gapX : gapY) * 10) / 10)}px apart).`
+        });
+      }
+    });
+  });
+
+  leaves.forEach(leaf => {
+    const { layer, rect } = leaf;
+
+    // 2. Bleed past the container (crop modes overflow on purpose)
+    if (area && !isCroppingStrategy(payload.strategy)) {
+      const overflowX = Math.max(area.x - rect.x, rect.x + rect.w - (area.x + area.w), 0);
+      const overflowY = Math.max(area.y - rect.y, rect.y + rect.h - (area.y + area.h), 0);
+      const limitX = area.w * MAX_BOUNDARY_VIOLATION_PERCENT;
+      const limitY = area.h * MAX_BOUNDARY_VIOLATION_PERCENT;
+      if (overflowX > limitX || overflowY > limitY) {
+        report({
+          kind: 'bleed', severity: 'error', layerIds: [layer.id], layerNames: [layer.name], rect,
+          message: `${label(leaf)} bleeds ${Math.round(Math.max(overflowX, overflowY))}px outside the container (limit ${Math.round(overflowX > limitX ? limitX : limitY)}px).`
+        });
+      }
+    }
+
+    // 3. Unreadable / vanishing elements
+    if (leaf.isText && layer.text && layer.text.fontSize < minTextPx) {
+      report({
+        kind: 'tiny', severity: 'error', layerIds: [layer.id], layerNames: [layer.name], rect,
+        message: `${label(leaf)} renders at ${Math.round(layer.text.fontSize * 10) / 10}px (minimum ${minTextPx}px).`
+      });
+    } else if (!leaf.isText && Math.min(rect.w, rect.h) < minElementPx) {
+      report({
+        kind: 'tiny', severity: 'warning', layerIds: [layer.id], layerNames: [layer.name], rect,
+        message: `${label(leaf)} is only ${Math.round(rect.w)}×${Math.round(rect.h)}px.`
+      });
+    }
+  });
+
+  issues.sort((a, b) => COLLISION_SEVERITY_RANK[b.severity] - COLLISION_SEVERITY_RANK[a.severity]);
+  const counts: Record<CollisionSeverity, number> = { info: 0, warning: 0, error: 0 };
+  issues.forEach(issue => counts[issue.severity]++);
+
+  return {
+    issues,
+    counts,
+    gate,
+    blocking: issues.some(issue => isBlockingSeverity(issue.severity, gate)),
+    pixelChecked
+  };
+};
+
+/**
+ * One-line summary for status rows, exports and prompts: `2 errors, 1 warning` / `clean`.
+ */
+export const summarizeCollisions = (report: CollisionReport): string => {
+  const parts = (['error', 'warning', 'info'] as CollisionSeverity[])
+    .filter(severity => report.counts[severity] > 0)
+    .map(severity => `${report.counts[severity]} ${severity}${report.counts[severity] === 1 ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'clean';
+};
@@ -0,0 +1,337 @@
+import { BlendMode, Color, Layer, LayerEffectShadow, LayerEffectsInfo, LayerEffectStroke, Psd } from 'ag-psd';
+import { SerializableLayer, TemplateMetadata, TransformedLayer, TransformedPayload } from '../types';
+import { findLayerByPath } from './psdService';
+import { CanvasAdapter, browserCanvasAdapter, drawNineSlice } from './exportService';
+import { isCroppingStrategy } from './remapService';
+
+type Ctx = CanvasRenderingContext2D;
+type PreviewLayer = SerializableLayer | TransformedLayer;
+
+/**
+ * Photoshop blend modes → Canvas 2D composite operations.
+ * Modes without a canvas equivalent (dissolve, linear burn, vivid light, ...) fall back to source-over.
+ */
+const BLEND_MODE_MAP: Partial<Record<BlendMode, GlobalCompositeOperation>> = {
+  'normal': 'source-over',
+  'pass through': 'source-over',
+  'darken': 'darken',
+  'multiply': 'multiply',
+  'color burn': 'color-burn',
+  'lighten': 'lighten',
+  'screen': 'screen',
+  'color dodge': 'color-dodge',
+  'linear dodge': 'lighter',
+  'overlay': 'overlay',
+  'soft light': 'soft-light',
+  'hard light': 'hard-light',
+  'difference': 'difference',
+  'exclusion': 'exclusion',
+  'hue': 'hue',
+  'saturation': 'saturation',
+  'color': 'color',
+  'luminosity': 'luminosity'
+};
+
+export const toCompositeOperation = (mode?: BlendMode): GlobalCompositeOperation =>
+  (mode && BLEND_MODE_MAP[mode]) || 'source-over';
+
+export interface CompositeOptions {
+  width: number;
+  height: number;
+  origin?: { x: number; y: number }; // Document-space point drawn at canvas (0,0)
+  background?: string; // Solid fill under all layers (transparent when omitted)
+  adapter?: CanvasAdapter;
+  assets?: Map<string, CanvasImageSource>; // Synthesized pixels for generative layers, keyed by layer ID
+  showGenerative?: boolean; // Default true; false skips generative layers entirely
+}
+
+// --- HELPER: Color Conversion ---
+const toCssColor = (color: Color | undefined, alpha = 1): string => {
+  const c = color as { r?: number, g?: number, b?: number, fr?: number, fg?: number, fb?: number } | undefined;
+  if (c && c.r !== undefined && c.g !== undefined && c.b !== undefined) {
+    return `rgba(${Math.round(c.r)}, ${Math.round(c.g)}, ${Math.round(c.b)}, ${alpha})`;
+  }
+  if (c && c.fr !== undefined && c.fg !== undefined && c.fb !== undefined) {
+    return `rgba(${Math.round(c.fr * 255)}, ${Math.round(c.fg * 255)}, ${Math.round(c.fb * 255)}, ${alpha})`;
+  }
+  return `rgba(0, 0, 0, ${alpha})`;
+};
+
+const isEnabled = (effect?: { enabled?: boolean, present?: boolean }): boolean =>
+  !!effect && effect.enabled !== false && effect.present !== false;
+
+/**
+ * Draws raw layer pixels at the layer's coords, rotated about its center (CARO rotation).
+ * Remapped nine-slice layers are rebuilt slice by slice, exactly like the Export bake.
+ */
+export const drawLayerPixels = (ctx: Ctx, image: HTMLCanvasElement, layer: PreviewLayer) => {
+  const { x, y, w, h } = layer.coords;
+  const transform = 'transform' in layer ? layer.transform : undefined;
+  const draw = (dx: number, dy: number) => {
+    if (transform && layer.nineSlice) {
+      drawNineSlice(ctx, image, layer.nineSlice, Math.min(transform.scaleX, transform.scaleY), dx, dy, w, h);
+    } else {
+      ctx.drawImage(image, dx, dy, w, h);
+    }
+  };
+  if (transform?.rotation) {
+    ctx.save();
+    ctx.translate(x + w / 2, y + h / 2);
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+    draw(-w / 2, -h / 2);
+    ctx.restore();
+  } else {
+    draw(x, y);
+  }
+};
+
+/**
+ * Compositor for AI vision images and canvas previews.
+ * Approximates Photoshop's layer model on a 2D canvas: blend modes, clipping groups,
+ * isolated groups with group opacity, fill opacity, and drop shadow / stroke / color overlay effects.
+ *
+ * Layers are drawn at their metadata `coords` (source space for resolved contexts, target space for
+ * remapped payloads), so the same routine serves the Analyst and the Reviewer.
+ * Children follow ag-psd order: index 0 is the bottom of the stack.
+ *
+ * @param layers Layer tree to draw (`TransformedLayer` rotation is honored).
+ * @param psd The binary PSD holding the pixel data (looked up by deterministic layer path).
+ * @param options Output size, document origin and canvas factory.
+ */
+export const compositeLayers = (layers: PreviewLayer[], psd: Psd, options: CompositeOptions): HTMLCanvasElement => {
+  const adapter = options.adapter || browserCanvasAdapter;
+  const origin = options.origin || { x: 0, y: 0 };
+  const width = Math.max(1, Math.round(options.width));
+  const height = Math.max(1, Math.round(options.height));
+
+  const createSurface = (): { canvas: HTMLCanvasElement, ctx: Ctx | null } => {
+    const canvas = adapter.createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (ctx) ctx.translate(-origin.x, -origin.y);
+    return { canvas, ctx };
+  };
+
+  const drawSurface = (target: Ctx, surface: HTMLCanvasElement, opacity: number, mode: GlobalCompositeOperation) => {
+    target.save();
+    target.setTransform(1, 0, 0, 1, 0, 0);
+    target.globalAlpha = opacity;
+    target.globalCompositeOperation = mode;
+    target.drawImage(surface, 0, 0);
+    target.restore();
+  };
+
+  // Solid silhouette of the layer pixels (used by shadows, strokes and overlays)
+  const createSilhouette = (layer: PreviewLayer, image: HTMLCanvasElement, color: string): HTMLCanvasElement => {
+    const { canvas, ctx } = createSurface();
+    if (!ctx) return canvas;
+    drawLayerPixels(ctx, image, layer);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(origin.x, origin.y, width, height);
+    return canvas;
+  };
+
+  const effectScale = (layer: PreviewLayer, effects: LayerEffectsInfo) =>
+    ('transform' in layer ? Math.min(layer.transform.scaleX, layer.transform.scaleY) : 1) * (effects.scale ?? 1);
+
+  const drawDropShadow = (ctx: Ctx, layer: PreviewLayer, image: HTMLCanvasElement, shadow: LayerEffectShadow, scale: number) => {
+    // Photoshop's angle is the light direction; the shadow falls the opposite way
+    const radians = ((shadow.angle ?? 120) * Math.PI) / 180;
+    const distance = (shadow.distance?.value ?? 0) * scale;
+    const silhouette = createSilhouette(layer, image, toCssColor(shadow.color));
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = shadow.opacity ?? 0.75;
+    ctx.globalCompositeOperation = toCompositeOperation(shadow.blendMode ?? 'multiply');
+    ctx.filter = `blur(${Math.max(0, (shadow.size?.value ?? 0) * scale / 2)}px)`;
+    ctx.drawImage(silhouette, -Math.cos(radians) * distance, Math.sin(radians) * distance);
+    ctx.restore();
+  };
+
+  // Approximates the stroke by stamping the silhouette around a ring (outside/center positions)
+  const drawStroke = (ctx: Ctx, layer: PreviewLayer, image: HTMLCanvasElement, stroke: LayerEffectStroke, scale: number) => {
+    const size = (stroke.size?.value ?? 3) * scale * (stroke.position === 'center' ? 0.5 : 1);
+    if (size <= 0 || stroke.position === 'inside') return;
+    const silhouette = createSilhouette(layer, image, toCssColor(stroke.color));
+    const steps = 16;
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.globalAlpha = stroke.opacity ?? 1;
+    for (let i = 0; i < steps; i++) {
+      const angle = (i / steps) * Math.PI * 2;
+      ctx.drawImage(silhouette, Math.cos(angle) * size, Math.sin(angle) * size);
+    }
+    ctx.restore();
+  };
+
+  /**
+   * Renders a single (non-group) layer onto its own surface: effects under the pixels, then the
+   * pixels at fill opacity, then color overlay. Returns null when the layer has nothing to draw.
+   */
+  const renderLeaf = (layer: PreviewLayer, agLayer: Layer | null): HTMLCanvasElement | null => {
+    const { canvas, ctx } = createSurface();
+    if (!ctx) return null;
+
+    if (layer.type === 'generative') {
+      const asset = options.assets?.get(layer.id);
+      if (asset) {
+        ctx.drawImage(asset, layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
+        return canvas;
+      }
+      // Synthesis has not run yet: show the reserved area
+      ctx.fillStyle = 'rgba(192, 132, 252, 0.3)';
+      ctx.strokeStyle = 'rgba(192, 132, 252, 0.8)';
+      ctx.lineWidth = 2;
+      ctx.fillRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
+      ctx.strokeRect(layer.coords.x, layer.coords.y, layer.coords.w, layer.coords.h);
+      return canvas;
+    }
+
+    const image = agLayer?.canvas;
+    if (!image) return null;
+
+    const effects = agLayer.effects && !agLayer.effects.disabled ? agLayer.effects : undefined;
+    const scale = effects ? effectScale(layer, effects) : 1;
+
+    effects?.dropShadow?.filter(isEnabled).forEach(shadow => drawDropShadow(ctx, layer, image, shadow, scale));
+    effects?.stroke?.filter(isEnabled).forEach(stroke => drawStroke(ctx, layer, image, stroke, scale));
+
+    ctx.save();
+    ctx.globalAlpha = agLayer.fillOpacity ?? 1;
+    const overlay = effects?.solidFill?.find(isEnabled);
+    if (overlay) {
+      // Color overlay replaces the pixel color while keeping its alpha
+      const tinted = createSilhouette(layer, image, toCssColor(overlay.color, overlay.opacity ?? 1));
+      drawLayerPixels(ctx, image, layer);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalCompositeOperation = toCompositeOperation(overlay.blendMode);
+      ctx.drawImage(tinted, 0, 0);
+    } else {
+      drawLayerPixels(ctx, image, layer);
+    }
+    ctx.restore();
+
+    return canvas;
+  };
+
+  const renderLayer = (layer: PreviewLayer): HTMLCanvasElement | null => {
+    const agLayer = layer.type === 'generative' ? null : findLayerByPath(psd, layer.id);
+    if (layer.type === 'group' && layer.children) {
+      const { canvas, ctx } = createSurface();
+      if (!ctx) return null;
+      drawStack(ctx, layer.children);
+      return canvas;
+    }
+    return renderLeaf(layer, agLayer);
+  };
+
+  /**
+   * Draws a sibling stack bottom-up. A layer flagged `clipping` is masked by the nearest
+   * non-clipping layer below it (its clipping base); the base's blend mode and opacity
+   * then apply to the whole clipping group, as in Photoshop.
+   */
+  const drawStack = (ctx: Ctx, stack: PreviewLayer[]) => {
+    let index = 0;
+    while (index < stack.length) {
+      const base = stack[index];
+      const baseAgLayer = base.type === 'generative' ? null : findLayerByPath(psd, base.id);
+      index++;
+
+      // Collect the clipping group riding on this base
+      const clipped: { layer: PreviewLayer, agLayer: Layer | null }[] = [];
+      while (index < stack.length) {
+        const candidate = stack[index];
+        const candidateAgLayer = candidate.type === 'generative' ? null : findLayerByPath(psd, candidate.id);
+        if (!candidateAgLayer?.clipping) break;
+        clipped.push({ layer: candidate, agLayer: candidateAgLayer });
+        index++;
+      }
+
+      if (!base.isVisible) continue;
+      if (base.type === 'generative' && options.showGenerative === false) continue;
+
+      const baseMode = baseAgLayer?.blendMode;
+      // Pass-through groups at full opacity blend their children straight into the parent
+      if (base.type === 'group' && base.children && (!baseMode || baseMode === 'pass through') && base.opacity >= 1 && clipped.length === 0) {
+        drawStack(ctx, base.children);
+        continue;
+      }
+
+      const surface = renderLayer(base);
+      if (!surface) continue;
+
+      const surfaceCtx = surface.getContext('2d');
+      if (surfaceCtx) {
+        clipped.forEach(({ layer, agLayer }) => {
+          if (!layer.isVisible) return;
+          const content = renderLayer(layer);
+          if (!content) return;
+          // Mask the clipped content with the base alpha, then blend it onto the base
+          const masked = createSurface();
+          if (!masked.ctx) return;
+          drawSurface(masked.ctx, content, 1, 'source-over');
+          drawSurface(masked.ctx, surface, 1, 'destination-in');
+          drawSurface(surfaceCtx, masked.canvas, layer.opacity, toCompositeOperation(agLayer?.blendMode));
+        });
+      }
+
+      drawSurface(ctx, surface, base.opacity, toCompositeOperation(baseMode));
+    }
+  };
+
+  const { canvas, ctx } = createSurface();
+  if (!ctx) return canvas;
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(origin.x, origin.y, width, height);
+  }
+  drawStack(ctx, layers);
+
+  return canvas;
+};
+
+/**
+ * Renders the assembled target canvas exactly as Export would lay it out:
+ * one composite per filled container, in template order, cropped to the slot for FILL / 1:1 remaps.
+ *
+ * @param template The target template (canvas size + container slots).
+ * @param slotConnections Polished payloads keyed by container name (see `resolveExportSlots`).
+ * @param psdRegistry Binary source PSDs keyed by node ID (resolved via payload.sourceNodeId).
+ */
+export const compositeTargetCanvas = (
+  template: TemplateMetadata,
+  slotConnections: Map<string, TransformedPayload>,
+  psdRegistry: Record<string, Psd>,
+  options: Omit<CompositeOptions, 'width' | 'height' | 'origin'> = {}
+): HTMLCanvasElement => {
+  const adapter = options.adapter || browserCanvasAdapter;
+  const { width, height } = template.canvas;
+  const canvas = adapter.createCanvas(Math.max(1, width), Math.max(1, height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  for (const container of template.containers) {
+    const payload = slotConnections.get(container.name);
+    const psd = payload ? psdRegistry[payload.sourceNodeId] : undefined;
+    if (!payload || !psd) continue;
+
+    const slot = compositeLayers(payload.layers, psd, { ...options, width, height, background: undefined });
+    ctx.save();
+    if (isCroppingStrategy(payload.strategy)) {
+      const { x, y, w, h } = container.bounds;
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+    }
+    ctx.drawImage(slot, 0, 0);
+    ctx.restore();
+  }
+
+  return canvas;
+};
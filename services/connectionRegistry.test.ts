@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { validateConnection } from './connectionRegistry';
+
+// One node per registered type, ID = type
+const NODES = [
+  'loadPsd', 'designInfo', 'templateSplitter', 'targetTemplate', 'targetSplitter', 'containerResolver',
+  'designAnalyst', 'remapper', 'designReviewer', 'exportPsd', 'canvasPreview', 'knowledge'
+].map(type => ({ id: type, type }));
+
+const connect = (source: string, sourceHandle: string | null, target: string, targetHandle: string | null) =>
+  validateConnection({ source, sourceHandle, target, targetHandle }, NODES);
+
+describe('validateConnection', () => {
+  it.each([
+    ['loadPsd', 'psd-output', 'designInfo', 'node-1'],
+    ['loadPsd', 'psd-output', 'templateSplitter', 'input'],
+    ['loadPsd', null, 'templateSplitter', null],
+    ['targetTemplate', 'target-metadata-out', 'targetSplitter', 'template-input'],
+    ['targetTemplate', 'target-metadata-out', 'exportPsd', 'template-input'],
+    ['targetTemplate', 'target-metadata-out', 'canvasPreview', 'template-input'],
+    ['templateSplitter', 'HERO', 'containerResolver', 'target-0'],
+    ['containerResolver', 'source-0', 'designAnalyst', 'source-in-0'],
+    ['containerResolver', 'source-0', 'remapper', 'source-in-0'],
+    ['containerResolver', 'source-0', 'designReviewer', 'payload-in-0'],
+    ['targetSplitter', 'slot-bounds-HERO', 'designAnalyst', 'target-in-0'],
+    ['targetSplitter', 'slot-bounds-HERO', 'remapper', 'target-in-0'],
+    ['targetSplitter', 'slot-bounds-HERO', 'designReviewer', 'target-in-0'],
+    ['knowledge', 'knowledge-out', 'designAnalyst', 'knowledge-in'],
+    ['designAnalyst', 'source-out-0', 'remapper', 'source-in-1'],
+    ['designAnalyst', 'target-out-0', 'remapper', 'target-in-1'],
+    ['remapper', 'result-out-0', 'designReviewer', 'payload-in-0'],
+    ['remapper', 'result-out-0', 'targetSplitter', 'HERO'],
+    ['designReviewer', 'polished-out-0', 'exportPsd', 'input-HERO'],
+    ['designReviewer', 'polished-out-0', 'canvasPreview', 'input-HERO']
+  ])('accepts %s.%s -> %s.%s', (source, sourceHandle, target, targetHandle) => {
+    expect(connect(source, sourceHandle, target, targetHandle)).toMatchObject({ valid: true });
+  });
+
+  it.each([
+    // Production gate: only reviewer sign-off reaches the export
+    ['remapper', 'result-out-0', 'exportPsd', 'input-HERO', "Export PSD 'Slot Input' expects PolishedPayload, got TransformedPayload."],
+    ['containerResolver', 'source-0', 'canvasPreview', 'input-HERO', "Canvas Preview 'Slot Input' expects PolishedPayload, got MappingContext."],
+    ['loadPsd', 'psd-output', 'targetSplitter', 'template-input', "Target Splitter 'Template Input' expects TemplateMetadata, got PsdDocument."],
+    ['targetSplitter', 'slot-bounds-HERO', 'remapper', 'source-in-0', "Remapper 'Source' expects MappingContext, got TargetSlot."],
+    ['knowledge', 'knowledge-out', 'remapper', 'source-in-0', "Remapper 'Source' expects MappingContext, got KnowledgeContext."],
+    ['remapper', 'result-out-0', 'designAnalyst', 'knowledge-in', "Design Analyst 'Knowledge' expects KnowledgeContext, got TransformedPayload."],
+    // Wildcard ports need a suffix
+    ['remapper', 'result-out-', 'designReviewer', 'payload-in-0', "Remapper has no output 'result-out-'."],
+    ['designReviewer', 'polished-out-0', 'exportPsd', 'input-', "Export PSD has no input 'input-'."],
+    ['exportPsd', null, 'designInfo', 'node-1', "Export PSD has no output 'default'."],
+    ['loadPsd', 'psd-output', 'designAnalyst', null, "Design Analyst has no input 'default'."],
+    ['loadPsd', 'psd-output', 'knowledge', 'knowledge-in', "Knowledge has no input 'knowledge-in'."],
+    ['remapper', 'result-out-0', 'remapper', 'source-in-0', 'A node cannot connect to itself.'],
+    ['loadPsd', 'psd-output', 'missing', 'input', 'Unknown node.']
+  ])('rejects %s.%s -> %s.%s', (source, sourceHandle, target, targetHandle, reason) => {
+    expect(connect(source, sourceHandle, target, targetHandle)).toMatchObject({ valid: false, reason });
+  });
+
+  it('rejects node types without declared ports', () => {
+    expect(validateConnection(
+      { source: 'loadPsd', sourceHandle: 'psd-output', target: 'mystery', targetHandle: 'input' },
+      [...NODES, { id: 'mystery', type: 'notARealNode' }]
+    )).toEqual({ valid: false, reason: "Node type 'notARealNode' declares no ports." });
+  });
+
+  it('reports the carried and accepted types', () => {
+    expect(connect('remapper', 'result-out-0', 'designReviewer', 'payload-in-0')).toEqual({
+      valid: true,
+      sourceType: 'TransformedPayload',
+      acceptedTypes: ['TransformedPayload', 'MappingContext']
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Connection Rule Registry.
+ * Every node type declares the data type carried by each of its handles. A connection is valid when the
+ * source handle's type is among the types accepted by the target handle, so wiring rules follow from the
+ * declarations instead of per-node-pair checks in the canvas.
+ *
+ * To add a node type: register its component in components/nodeTypes.ts and declare its ports here
+ * (or call `registerNodePorts` from the module that defines the node).
+ */
+
+export type HandleDataType =
+  | 'PsdDocument'        // Parsed source PSD (Load PSD)
+  | 'TemplateMetadata'   // Target canvas + container list (Target Template)
+  | 'SourceContainer'    // One source container of the split template
+  | 'TargetSlot'         // Bounds of one target container (Target Splitter / Analyst relay)
+  | 'MappingContext'     // Resolved source layers for one slot (Resolver / Analyst relay)
+  | 'TransformedPayload' // Remapped layers for one slot (Remapper)
+  | 'PolishedPayload'    // Reviewer-approved payload, the only export-ready form
+  | 'KnowledgeContext';  // Project brand rules and visual anchors
+
+export interface PortDefinition {
+  /**
+   * Handle ID pattern. A trailing '*' matches any non-empty suffix (e.g. 'source-in-*');
+   * a lone '*' matches any ID, used for handles named after dynamic container names.
+   * Ports are matched in declaration order, so specific IDs must precede wildcards.
+   */
+  handle: string;
+  label: string;
+  type?: HandleDataType;       // Output ports: carried type
+  accepts?: HandleDataType[];  // Input ports: accepted types
+}
+
+export interface NodePortDefinition {
+  label: string;
+  inputs: PortDefinition[];
+  outputs: PortDefinition[];
+}
+
+export interface ConnectionCheck {
+  valid: boolean;
+  reason?: string;
+  sourceType?: HandleDataType;
+  acceptedTypes?: HandleDataType[];
+}
+
+// Minimal shapes so the registry stays usable outside React Flow (headless engine, CLI)
+interface ConnectionLike {
+  source: string | null;
+  target: string | null;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+interface NodeLike {
+  id: string;
+  type?: string;
+}
+
+const NODE_PORT_REGISTRY: Record<string, NodePortDefinition> = {
+  loadPsd: {
+    label: 'Load PSD',
+    inputs: [],
+    outputs: [{ handle: 'psd-output', label: 'PSD', type: 'PsdDocument' }]
+  },
+  designInfo: {
+    label: 'Design Info',
+    inputs: [{ handle: '*', label: 'PSD', accepts: ['PsdDocument'] }],
+    outputs: []
+  },
+  templateSplitter: {
+    label: 'Template Splitter',
+    inputs: [{ handle: 'input', label: 'PSD', accepts: ['PsdDocument'] }],
+    outputs: [{ handle: '*', label: 'Source Container', type: 'SourceContainer' }]
+  },
+  targetTemplate: {
+    label: 'Target Template',
+    inputs: [],
+    outputs: [{ handle: 'target-metadata-out', label: 'Template Metadata', type: 'TemplateMetadata' }]
+  },
+  templateSpec: {
+    label: 'Template Spec',
+    inputs: [],
+    outputs: [{ handle: 'target-metadata-out', label: 'Template Metadata', type: 'TemplateMetadata' }]
+  },
+  targetSplitter: {
+    label: 'Target Splitter',
+    inputs: [
+      { handle: 'template-input', label: 'Template Input', accepts: ['TemplateMetadata'] },
+      // Per-container assembly slots only mark a slot as filled
+      { handle: '*', label: 'Slot Assembly', accepts: ['TransformedPayload', 'MappingContext'] }
+    ],
+    outputs: [{ handle: 'slot-bounds-*', label: 'Slot Bounds', type: 'TargetSlot' }]
+  },
+  containerResolver: {
+    label: 'Container Resolver',
+    inputs: [{ handle: 'target-*', label: 'Source Container', accepts: ['SourceContainer'] }],
+    outputs: [{ handle: 'source-*', label: 'Mapping Context', type: 'MappingContext' }]
+  },
+  designAnalyst: {
+    label: 'Design Analyst',
+    inputs: [
+      { handle: 'knowledge-in', label: 'Knowledge', accepts: ['KnowledgeContext'] },
+      { handle: 'source-in-*', label: 'Source Context', accepts: ['MappingContext'] },
+      { handle: 'target-in-*', label: 'Target Definition', accepts: ['TargetSlot'] }
+    ],
+    outputs: [
+      { handle: 'source-out-*', label: 'Source Relay', type: 'MappingContext' },
+      { handle: 'target-out-*', label: 'Target Relay', type: 'TargetSlot' }
+    ]
+  },
+  remapper: {
+    label: 'Remapper',
+    inputs: [
+      { handle: 'source-in-*', label: 'Source', accepts: ['MappingContext'] },
+      { handle: 'target-in-*', label: 'Target', accepts: ['TargetSlot'] }
+    ],
+    outputs: [{ handle: 'result-out-*', label: 'Transformed Payload', type: 'TransformedPayload' }]
+  },
+  designReviewer: {
+    label: 'Design Reviewer',
+    inputs: [
+      // Direct Bridge Exception: resolver output may skip the Remapper
+      { handle: 'payload-in-*', label: 'Payload Input', accepts: ['TransformedPayload', 'MappingContext'] },
+      { handle: 'target-in-*', label: 'Target Input', accepts: ['TargetSlot'] }
+    ],
+    outputs: [{ handle: 'polished-out-*', label: 'Polished Payload', type: 'PolishedPayload' }]
+  },
+  exportPsd: {
+    label: 'Export PSD',
+    inputs: [
+      { handle: 'template-input', label: 'Template Input', accepts: ['TemplateMetadata'] },
+      // STRICT PRODUCTION GATE: only reviewer sign-off reaches the export
+      { handle: 'input-*', label: 'Slot Input', accepts: ['PolishedPayload'] }
+    ],
+    outputs: []
+  },
+  canvasPreview: {
+    label: 'Canvas Preview',
+    inputs: [
+      { handle: 'template-input', label: 'Template Input', accepts: ['TemplateMetadata'] },
+      { handle: 'input-*', label: 'Slot Input', accepts: ['PolishedPayload'] }
+    ],
+    outputs: []
+  },
+  knowledge: {
+    label: 'Knowledge',
+    inputs: [],
+    outputs: [{ handle: 'knowledge-out', label: 'Knowledge Context', type: 'KnowledgeContext' }]
+  }
+};
+
+/**
+ * Declares (or replaces) the ports of a node type.
+ */
+export const registerNodePorts = (nodeType: string, definition: NodePortDefinition) => {
+  NODE_PORT_REGISTRY[nodeType] = definition;
+};
+
+export const getNodePorts = (nodeType: string | undefined): NodePortDefinition | null =>
+  (nodeType && NODE_PORT_REGISTRY[nodeType]) || null;
+
+// --- HELPER: Handle Matching ---
+const matchesHandle = (pattern: string, handleId: string): boolean => {
+  if (pattern === '*') return handleId.length > 0;
+  if (pattern.endsWith('*')) {
+    const prefix = pattern.slice(0, -1);
+    return handleId.length > prefix.length && handleId.startsWith(prefix);
+  }
+  return pattern === handleId;
+};
+
+/**
+ * Resolves the port a handle ID belongs to. Edges created without a handle ID (React Flow's default
+ * handle) resolve only when the node has exactly one port on that side.
+ */
+export const findPort = (ports: PortDefinition[], handleId: string | null | undefined): PortDefinition | null => {
+  if (!handleId) return ports.length === 1 ? ports[0] : null;
+  return ports.find(port => matchesHandle(port.handle, handleId)) || null;
+};
+
+/**
+ * Checks a prospective connection against the port declarations of both node types.
+ *
+ * @returns `valid` plus a human-readable `reason` when rejected.
+ */
+export const validateConnection = (connection: ConnectionLike, nodes: NodeLike[]): ConnectionCheck => {
+  const sourceNode = nodes.find(n => n.id === connection.source);
+  const targetNode = nodes.find(n => n.id === connection.target);
+  if (!sourceNode || !targetNode) return { valid: false, reason: 'Unknown node.' };
+  if (sourceNode.id === targetNode.id) return { valid: false, reason: 'A node cannot connect to itself.' };
+
+  const sourcePorts = getNodePorts(sourceNode.type);
+  const targetPorts = getNodePorts(targetNode.type);
+  if (!sourcePorts) return { valid: false, reason: `Node type '${sourceNode.type}' declares no ports.` };
+  if (!targetPorts) return { valid: false, reason: `Node type '${targetNode.type}' declares no ports.` };
+
+  const output = findPort(sourcePorts.outputs, connection.sourceHandle);
+  if (!output?.type) {
+    return { valid: false, reason: `${sourcePorts.label} has no output '${connection.sourceHandle ?? 'default'}'.` };
+  }
+  const input = findPort(targetPorts.inputs, connection.targetHandle);
+  if (!input?.accepts) {
+    return { valid: false, reason: `${targetPorts.label} has no input '${connection.targetHandle ?? 'default'}'.`, sourceType: output.type };
+  }
+
+  if (!input.accepts.includes(output.type)) {
+    return {
+      valid: false,
+      reason: `${targetPorts.label} '${input.label}' expects ${input.accepts.join(' or ')}, got ${output.type}.`,
+      sourceType: output.type,
+      acceptedTypes: input.accepts
+    };
+  }
+  return { valid: true, sourceType: output.type, acceptedTypes: input.accepts };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { NineSliceInsets } from '../types';
+import { drawNineSlice, fitInsets, sliceAxis } from './exportService';
+
+const insets = (top: number, right = top, bottom = top, left = right): NineSliceInsets => ({ top, right, bottom, left });
+
+// Records drawImage calls as [sx, sy, sw, sh, dx, dy, dw, dh]
+const recordingContext = () => {
+  const calls: number[][] = [];
+  const ctx = { drawImage: (_image: unknown, ...args: number[]) => { calls.push(args); } } as unknown as CanvasRenderingContext2D;
+  return { ctx, calls };
+};
+
+const image = (width: number, height: number) => ({ width, height }) as HTMLCanvasElement;
+
+describe('fitInsets', () => {
+  it('shrinks overlapping insets per axis and keeps the rest', () => {
+    expect(fitInsets({ top: 20, right: 20, bottom: 5, left: 30 }, 40, 30)).toEqual({ top: 20, right: 16, bottom: 5, left: 24 });
+    expect(fitInsets(insets(10), 30, 30)).toEqual(insets(10));
+  });
+});
+
+describe('sliceAxis', () => {
+  it('keeps corners at the corner scale and stretches the span between them', () => {
+    expect(sliceAxis(5, 30, 10, 10, 3, 1)).toBe(5);
+    expect(sliceAxis(15, 30, 10, 10, 3, 1)).toBe(45);
+    expect(sliceAxis(25, 30, 10, 10, 3, 1)).toBe(85);
+  });
+
+  it('scales the corners down when the target is smaller than the insets', () => {
+    // 15px target for 20px of insets: corners at 0.75, nothing left for the span
+    expect(sliceAxis(10, 30, 10, 10, 0.5, 1)).toBe(7.5);
+    expect(sliceAxis(20, 30, 10, 10, 0.5, 1)).toBe(7.5);
+    expect(sliceAxis(30, 30, 10, 10, 0.5, 1)).toBe(15);
+  });
+
+  it('scales the whole axis uniformly without insets', () => {
+    expect(sliceAxis(15, 30, 0, 0, 2, 1)).toBe(30);
+    expect(sliceAxis(30, 30, 0, 0, 2, 1)).toBe(60);
+  });
+});
+
+describe('drawNineSlice', () => {
+  it('draws nine patches with fixed corners', () => {
+    const { ctx, calls } = recordingContext();
+    drawNineSlice(ctx, image(30, 30), insets(10), 1, 5, 0, 90, 60);
+
+    expect(calls).toHaveLength(9);
+    expect(calls[0]).toEqual([0, 0, 10, 10, 5, 0, 10, 10]);
+    expect(calls[4]).toEqual([10, 10, 10, 10, 15, 10, 70, 40]);
+    expect(calls[8]).toEqual([20, 20, 10, 10, 85, 50, 10, 10]);
+  });
+
+  it('fits insets larger than the image and skips collapsed patches', () => {
+    const { ctx, calls } = recordingContext();
+    // Insets fit to 15px each; a 20px target shrinks the corners to 10px and leaves no middle
+    drawNineSlice(ctx, image(30, 30), insets(20), 1, 0, 0, 20, 20);
+
+    expect(calls).toEqual([
+      [0, 0, 15, 15, 0, 0, 10, 10],
+      [15, 0, 15, 15, 10, 0, 10, 10],
+      [0, 15, 15, 15, 0, 10, 10, 10],
+      [15, 15, 15, 15, 10, 10, 10, 10]
+    ]);
+  });
+
+  it('draws the image once with zero insets', () => {
+    const { ctx, calls } = recordingContext();
+    drawNineSlice(ctx, image(30, 20), insets(0), 1, 0, 0, 60, 40);
+
+    expect(calls).toEqual([[0, 0, 30, 20, 0, 0, 60, 40]]);
+  });
+});
@@ -0,0 +1,562 @@
+import { KeyDescriptorItem, Layer, LayerMaskData, LayerTextData, LayerVectorMask, Psd, TextStyle } from 'ag-psd';
+import type { Edge } from 'reactflow';
+import { TemplateMetadata, TransformedLayer, TransformedPayload, MappingContext, NineSliceInsets, isBlockingSeverity } from '../types';
+import { findLayerByPath, extractTextData, getTextTransformScale } from './psdService';
+import { isCroppingStrategy } from './remapService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+/**
+ * Canvas factory used by the assembly phase.
+ * The browser default uses the DOM; headless runs (Node) inject a canvas implementation instead.
+ */
+export interface CanvasAdapter {
+  createCanvas: (width: number, height: number) => HTMLCanvasElement;
+}
+
+export const browserCanvasAdapter: CanvasAdapter = {
+  createCanvas: (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+};
+
+// --- HELPER: Nine-Slice ---
+/**
+ * Shrinks overlapping insets proportionally (per axis) so the corners never cross.
+ */
+export const fitInsets = (insets: NineSliceInsets, w: number, h: number): NineSliceInsets => {
+  const fitX = insets.left + insets.right > w ? w / (insets.left + insets.right) : 1;
+  const fitY = insets.top + insets.bottom > h ? h / (insets.top + insets.bottom) : 1;
+  return { top: insets.top * fitY, right: insets.right * fitX, bottom: insets.bottom * fitY, left: insets.left * fitX };
+};
+
+/**
+ * Nine-slice mapping along one axis in layer-local offsets: source `u` (0..size) -> target (0..size * scale).
+ * The insets keep `cornerScale` (less when the target is too small for them); the span between them
+ * absorbs the rest of the stretch. Offsets outside the layer extend the nearest corner.
+ */
+export const sliceAxis = (u: number, size: number, startInset: number, endInset: number, scale: number, cornerScale: number): number => {
+  const target = size * scale;
+  const insets = startInset + endInset;
+  const corner = insets > 0 ? Math.min(cornerScale, target / insets) : cornerScale;
+  if (u <= startInset) return u * corner;
+  if (u >= size - endInset) return target - (size - u) * corner;
+  const middle = size - insets;
+  return startInset * corner + (u - startInset) * (middle > 0 ? (target - insets * corner) / middle : 0);
+};
+
+/**
+ * Draws `image` into the destination rect as a nine-slice: corners at `cornerScale`, edges stretched
+ * along one axis, the center along both. Inner seams snap to whole pixels so the slices don't bleed.
+ * Shared by Export (raster bake) and the preview / reviewer compositor.
+ *
+ * @param insets Source-pixel insets (see `NineSliceInsets`).
+ * @param cornerScale Scale of the corners, usually min(scaleX, scaleY) so uniform scaling is unchanged.
+ */
+export const drawNineSlice = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLCanvasElement | HTMLImageElement,
+  insets: NineSliceInsets,
+  cornerScale: number,
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number
+) => {
+  const sw = image.width;
+  const sh = image.height;
+  if (sw <= 0 || sh <= 0 || dw <= 0 || dh <= 0) return;
+  const fitted = fitInsets(insets, sw, sh);
+
+  const axis = (size: number, start: number, end: number, origin: number, target: number) => {
+    const source = [0, start, size - end, size];
+    const mapped = source.map(u => sliceAxis(u, size, start, end, target / size, cornerScale));
+    const snapped = mapped.map((t, i) => (i === 0 || i === 3 ? origin + t : Math.round(origin + t)));
+    return { source, snapped };
+  };
+  const x = axis(sw, fitted.left, fitted.right, dx, dw);
+  const y = axis(sh, fitted.top, fitted.bottom, dy, dh);
+
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      const srcW = x.source[col + 1] - x.source[col];
+      const srcH = y.source[row + 1] - y.source[row];
+      const dstW = x.snapped[col + 1] - x.snapped[col];
+      const dstH = y.snapped[row + 1] - y.snapped[row];
+      if (srcW <= 0 || srcH <= 0 || dstW <= 0 || dstH <= 0) continue;
+      ctx.drawImage(image, x.source[col], y.source[row], srcW, srcH, x.snapped[col], y.snapped[row], dstW, dstH);
+    }
+  }
+};
+
+/**
+ * Creates a transformed version of a standard layer canvas (Rotation/Scale baking).
+ * 'transform.scaleX/Y' are already reflected in 'width' and 'height' (layer coords), so the original
+ * raw pixels are drawn centered at the destination size (nine-sliced when insets are given).
+ */
+export const applyTransformToCanvas = (
+  sourceCanvas: HTMLCanvasElement | HTMLImageElement,
+  width: number,
+  height: number,
+  transform: { scaleX: number, scaleY: number, rotation?: number },
+  adapter: CanvasAdapter = browserCanvasAdapter,
+  nineSlice?: NineSliceInsets
+): HTMLCanvasElement => {
+  // Create canvas based on target AABB dimensions
+  const canvas = adapter.createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  if (transform.rotation) {
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+  }
+  if (nineSlice) {
+    drawNineSlice(ctx, sourceCanvas, nineSlice, Math.min(transform.scaleX, transform.scaleY), -width / 2, -height / 2, width, height);
+  } else {
+    ctx.drawImage(sourceCanvas, -width / 2, -height / 2, width, height);
+  }
+  ctx.restore();
+  return canvas;
+};
+
+/**
+ * Builds a rectangular layer mask that crops a container group to its bounds.
+ * Used for FILL / 1:1 remaps where content intentionally overflows the slot.
+ */
+export const createContainerMask = (bounds: Rect, adapter: CanvasAdapter = browserCanvasAdapter): LayerMaskData => {
+  const canvas = adapter.createCanvas(Math.max(1, Math.round(bounds.w)), Math.max(1, Math.round(bounds.h)));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return {
+    top: bounds.y,
+    left: bounds.x,
+    bottom: bounds.y + canvas.height,
+    right: bounds.x + canvas.width,
+    defaultColor: 0, // Everything outside the rect is hidden
+    canvas
+  };
+};
+
+type PointMapper = (x: number, y: number) => [number, number];
+
+/**
+ * Builds the source → target point mapping applied to a layer's pixels: scale about the layer center
+ * (piecewise per slice for nine-slice layers), rotate (CARO), then move to the remapped center.
+ * Masks and vector paths reuse it so they stay aligned with the re-rasterized pixels.
+ *
+ * @param original The source layer (document-space bounds before remapping).
+ * @param metaLayer The transformed layer (target coords + scale/rotation).
+ */
+export const createLayerPointMapper = (original: Layer, metaLayer: TransformedLayer): PointMapper => {
+  const left = original.left ?? 0;
+  const top = original.top ?? 0;
+  const sourceCenterX = left + ((original.right ?? left) - left) / 2;
+  const sourceCenterY = top + ((original.bottom ?? top) - top) / 2;
+  const targetCenterX = metaLayer.coords.x + metaLayer.coords.w / 2;
+  const targetCenterY = metaLayer.coords.y + metaLayer.coords.h / 2;
+  const { scaleX, scaleY } = metaLayer.transform;
+  const radians = ((metaLayer.transform.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const slice = metaLayer.nineSlice;
+  if (slice) {
+    const width = (original.right ?? left) - left;
+    const height = (original.bottom ?? top) - top;
+    const insets = fitInsets(slice, width, height);
+    const cornerScale = Math.min(scaleX, scaleY);
+    return (x, y) => {
+      const dx = sliceAxis(x - left, width, insets.left, insets.right, scaleX, cornerScale) - (width * scaleX) / 2;
+      const dy = sliceAxis(y - top, height, insets.top, insets.bottom, scaleY, cornerScale) - (height * scaleY) / 2;
+      return [targetCenterX + dx * cos - dy * sin, targetCenterY + dx * sin + dy * cos];
+    };
+  }
+
+  return (x, y) => {
+    const dx = (x - sourceCenterX) * scaleX;
+    const dy = (y - sourceCenterY) * scaleY;
+    return [targetCenterX + dx * cos - dy * sin, targetCenterY + dx * sin + dy * cos];
+  };
+};
+
+/**
+ * Moves (and re-rasterizes when scaled/rotated) a raster layer mask with its layer.
+ * The mask rect follows the same center-pivot mapping as the pixels; rotation is baked into the
+ * mask canvas exactly like `applyTransformToCanvas` bakes it into the layer.
+ *
+ * @param nineSlice The layer's nine-slice insets re-measured from the mask edges (see `offsetNineSlice`).
+ */
+export const transformLayerMask = (
+  mask: LayerMaskData,
+  mapPoint: PointMapper,
+  transform: TransformedLayer['transform'],
+  adapter: CanvasAdapter = browserCanvasAdapter,
+  nineSlice?: NineSliceInsets
+): LayerMaskData => {
+  if (mask.left === undefined || mask.top === undefined || mask.right === undefined || mask.bottom === undefined) {
+    return mask; // Empty mask (defaultColor only): nothing positional to move
+  }
+
+  let width = (mask.right - mask.left) * transform.scaleX;
+  let height = (mask.bottom - mask.top) * transform.scaleY;
+  let [centerX, centerY] = mapPoint((mask.left + mask.right) / 2, (mask.top + mask.bottom) / 2);
+  if (nineSlice) {
+    // Piecewise mapping: the rect comes from the mapped corners (diagonal un-rotated into layer axes)
+    const [x0, y0] = mapPoint(mask.left, mask.top);
+    const [x1, y1] = mapPoint(mask.right, mask.bottom);
+    const radians = ((transform.rotation || 0) * Math.PI) / 180;
+    width = (x1 - x0) * Math.cos(radians) + (y1 - y0) * Math.sin(radians);
+    height = (y1 - y0) * Math.cos(radians) - (x1 - x0) * Math.sin(radians);
+    centerX = (x0 + x1) / 2;
+    centerY = (y0 + y1) / 2;
+  }
+  const needsBake = transform.scaleX !== 1 || transform.scaleY !== 1 || !!transform.rotation;
+
+  return {
+    ...mask,
+    top: centerY - height / 2,
+    left: centerX - width / 2,
+    bottom: centerY + height / 2,
+    right: centerX + width / 2,
+    canvas: mask.canvas && needsBake
+      ? applyTransformToCanvas(mask.canvas, Math.max(1, Math.round(width)), Math.max(1, Math.round(height)), transform, adapter, nineSlice)
+      : mask.canvas
+  };
+};
+
+/**
+ * Re-measures a layer's nine-slice insets from the edges of its mask, so the mask's slices line up
+ * with the layer's (a mask reaching past the layer has wider insets; one inside it, narrower).
+ */
+export const offsetNineSlice = (insets: NineSliceInsets, layer: Layer, mask: LayerMaskData): NineSliceInsets => ({
+  top: Math.max(0, insets.top + (layer.top ?? 0) - (mask.top ?? 0)),
+  right: Math.max(0, insets.right + (mask.right ?? 0) - (layer.right ?? 0)),
+  bottom: Math.max(0, insets.bottom + (mask.bottom ?? 0) - (layer.bottom ?? 0)),
+  left: Math.max(0, insets.left + (layer.left ?? 0) - (mask.left ?? 0))
+});
+
+/**
+ * Maps every bezier knot (in-control, anchor, out-control) of a vector mask / shape path.
+ * Points are document pixels in ag-psd, so the mapped paths are written relative to the target canvas.
+ */
+export const transformVectorMask = (vectorMask: LayerVectorMask, mapPoint: PointMapper): LayerVectorMask => ({
+  ...vectorMask,
+  paths: vectorMask.paths.map(path => ({
+    ...path,
+    knots: path.knots.map(knot => {
+      const points: number[] = [];
+      for (let i = 0; i + 1 < knot.points.length; i += 2) {
+        points.push(...mapPoint(knot.points[i], knot.points[i + 1]));
+      }
+      return { ...knot, points };
+    })
+  }))
+});
+
+/**
+ * Updates live-shape origination data (rectangles, ellipses, rounded rects) to the mapped geometry.
+ * The shape is flagged as invalidated so Photoshop re-derives its live properties from the mapped path.
+ */
+export const transformVectorOrigination = (
+  origination: { keyDescriptorList: KeyDescriptorItem[] },
+  mapPoint: PointMapper,
+  transform: TransformedLayer['transform']
+): { keyDescriptorList: KeyDescriptorItem[] } => ({
+  keyDescriptorList: origination.keyDescriptorList.map(item => {
+    const next: KeyDescriptorItem = { ...item, keyShapeInvalidated: true };
+
+    if (item.keyOriginBoxCorners) {
+      next.keyOriginBoxCorners = item.keyOriginBoxCorners.map(corner => {
+        const [x, y] = mapPoint(corner.x, corner.y);
+        return { x, y };
+      });
+    }
+
+    const bbox = item.keyOriginShapeBoundingBox;
+    if (bbox) {
+      // Axis-aligned bounds of the mapped corners (rotation widens the box)
+      const corners = [
+        mapPoint(bbox.left.value, bbox.top.value), mapPoint(bbox.right.value, bbox.top.value),
+        mapPoint(bbox.right.value, bbox.bottom.value), mapPoint(bbox.left.value, bbox.bottom.value)
+      ];
+      const xs = corners.map(c => c[0]);
+      const ys = corners.map(c => c[1]);
+      next.keyOriginShapeBoundingBox = {
+        top: { ...bbox.top, value: Math.min(...ys) },
+        left: { ...bbox.left, value: Math.min(...xs) },
+        bottom: { ...bbox.bottom, value: Math.max(...ys) },
+        right: { ...bbox.right, value: Math.max(...xs) }
+      };
+    }
+
+    const radii = item.keyOriginRRectRadii;
+    if (radii) {
+      const radiusScale = Math.min(transform.scaleX, transform.scaleY);
+      next.keyOriginRRectRadii = {
+        topRight: { ...radii.topRight, value: radii.topRight.value * radiusScale },
+        topLeft: { ...radii.topLeft, value: radii.topLeft.value * radiusScale },
+        bottomLeft: { ...radii.bottomLeft, value: radii.bottomLeft.value * radiusScale },
+        bottomRight: { ...radii.bottomRight, value: radii.bottomRight.value * radiusScale }
+      };
+    }
+
+    return next;
+  })
+});
+
+/**
+ * Rewrites a source text layer's type data for its remapped geometry, keeping it live and editable.
+ * The transform is reset to translation (+ rotation) and every size (style runs, leading, paragraph box)
+ * is rescaled, so Photoshop re-flows the text at the new point size instead of stretching pixels.
+ *
+ * @param original The source layer (its `text` block carries the full style runs).
+ * @param metaLayer The transformed layer; `metaLayer.text` holds the target type metrics.
+ */
+export const buildLiveTextData = (original: Layer, metaLayer: TransformedLayer): LayerTextData | undefined => {
+  const sourceText = original.text;
+  const targetText = metaLayer.text;
+  if (!sourceText || !targetText) return sourceText;
+
+  const sourceMetrics = extractTextData(sourceText);
+  // Ratio between old and new rendered size, and the factor converting untransformed sizes to it
+  const ratio = sourceMetrics.fontSize > 0 ? targetText.fontSize / sourceMetrics.fontSize : 1;
+  const sizeFactor = ratio * getTextTransformScale(sourceText);
+
+  const scaleStyle = (style: TextStyle): TextStyle => ({
+    ...style,
+    fontSize: style.fontSize !== undefined ? style.fontSize * sizeFactor : undefined,
+    leading: style.leading !== undefined ? style.leading * sizeFactor : undefined
+  });
+
+  // Keep the text origin at the same relative spot inside the layer bounds
+  const t = sourceText.transform || [1, 0, 0, 1, original.left ?? 0, original.top ?? 0];
+  const originX = metaLayer.coords.x + (t[4] - (original.left ?? 0)) * ratio;
+  const originY = metaLayer.coords.y + (t[5] - (original.top ?? 0)) * ratio;
+
+  // Reviewer rotation stays a live transform instead of being baked into glyph pixels
+  const radians = ((metaLayer.transform.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const liveText: LayerTextData = {
+    ...sourceText,
+    text: targetText.content,
+    transform: [cos, sin, -sin, cos, originX, originY],
+    style: scaleStyle(sourceText.style || {}),
+    styleRuns: sourceText.styleRuns?.map(run => ({ ...run, style: scaleStyle(run.style) }))
+  };
+
+  if (targetText.boxType === 'box' && targetText.box && sourceText.boxBounds) {
+    const [left, top] = sourceText.boxBounds;
+    liveText.boxBounds = [left * sizeFactor, top * sizeFactor, left * sizeFactor + targetText.box.w, top * sizeFactor + targetText.box.h];
+  }
+
+  return liveText;
+};
+
+/**
+ * Maps the edges connected to an Export node's 'input-<slot>' handles to their payloads.
+ *
+ * STRICT GATE: only Design Reviewer output is accepted. Connections sourced from the Remapper or
+ * Resolver registries bypass the gate and are reported as PROCEDURAL_GATE_LOCKED errors.
+ * COLLISION GATE: a reviewed payload whose collision report is blocking (issues at or above the
+ * reviewer's gate severity) stays connected for previews but is reported as COLLISION_GATE_LOCKED.
+ */
+export const resolveExportSlots = (
+  edges: Edge[],
+  exportNodeId: string,
+  reviewerRegistry: Record<string, Record<string, TransformedPayload>>,
+  payloadRegistry: Record<string, Record<string, TransformedPayload>>,
+  resolvedRegistry: Record<string, Record<string, MappingContext>>
+): { slotConnections: Map<string, TransformedPayload>, validationErrors: string[] } => {
+  const slotConnections = new Map<string, TransformedPayload>();
+  const validationErrors: string[] = [];
+
+  edges.forEach(edge => {
+    if (edge.target !== exportNodeId) return;
+    if (!edge.targetHandle?.startsWith('input-')) return;
+
+    const slotName = edge.targetHandle.replace('input-', '');
+    const handle = edge.sourceHandle || '';
+
+    // A. Reviewer Registry (Absolute Source of Truth)
+    const payload = reviewerRegistry[edge.source]?.[handle];
+
+    if (payload) {
+      if (payload.status !== 'error') slotConnections.set(slotName, payload);
+      const collisions = payload.collisionReport;
+      if (collisions?.blocking) {
+        const blocking = collisions.issues.filter(issue => isBlockingSeverity(issue.severity, collisions.gate));
+        validationErrors.push(
+          `Slot '${slotName}': COLLISION_GATE_LOCKED. ${blocking.length} issue(s) at or above '${collisions.gate}' (${blocking[0].message})`
+        );
+      }
+      return;
+    }
+
+    // B. Gate Check: content found in legacy registries but NOT the reviewer means the gate was bypassed
+    const isRemapper = !!payloadRegistry[edge.source]?.[handle];
+    const isResolver = !!resolvedRegistry[edge.source]?.[handle];
+    if (isRemapper || isResolver) {
+      validationErrors.push(`Slot '${slotName}': PROCEDURAL_GATE_LOCKED. Content must be polished by Design Reviewer.`);
+    }
+  });
+
+  return { slotConnections, validationErrors };
+};
+
+/**
+ * Rebuilds an ag-psd layer hierarchy from transformed layer metadata.
+ * Standard layers are cloned from the source PSD (re-rasterized when scaled/rotated);
+ * text layers additionally get live type data rescaled to their new size, and masks / vector paths
+ * are mapped with the same transform as the pixels;
+ * generative layers are only emitted when a synthesized asset exists for them.
+ */
+export const reconstructHierarchy = (
+  transformedLayers: TransformedLayer[],
+  sourcePsd: Psd | undefined,
+  assets: Map<string, HTMLCanvasElement>,
+  adapter: CanvasAdapter = browserCanvasAdapter
+): Layer[] => {
+  const resultLayers: Layer[] = [];
+
+  for (const metaLayer of transformedLayers) {
+    let newLayer: Layer | undefined;
+
+    // BRANCH 1: Generative Layer (Synthetic)
+    if (metaLayer.type === 'generative') {
+      const asset = assets.get(metaLayer.id);
+      if (asset) {
+        newLayer = {
+          name: metaLayer.name,
+          top: metaLayer.coords.y,
+          left: metaLayer.coords.x,
+          bottom: metaLayer.coords.y + metaLayer.coords.h,
+          right: metaLayer.coords.x + metaLayer.coords.w,
+          hidden: !metaLayer.isVisible,
+          opacity: metaLayer.opacity,
+          canvas: asset // Inject synthetic pixel data
+        };
+      }
+    }
+    // BRANCH 2: Standard Layer (Clone + Raster Transform)
+    else if (sourcePsd) {
+      const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
+
+      if (originalLayer) {
+        // Check if CARO applied overrides requiring raster bake (Rotation)
+        const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
+        // Non-uniform (STRETCH) remaps may leave one axis at 1:1, so both axes are checked
+        const hasScale = metaLayer.transform.scaleX !== 1 || metaLayer.transform.scaleY !== 1;
+
+        let bakedCanvas = originalLayer.canvas;
+        if (originalLayer.canvas && (hasRotation || hasScale)) {
+          bakedCanvas = applyTransformToCanvas(
+            originalLayer.canvas as HTMLCanvasElement,
+            metaLayer.coords.w,
+            metaLayer.coords.h,
+            metaLayer.transform,
+            adapter,
+            metaLayer.nineSlice // Corners keep their shape; edges and center take the stretch
+          );
+        }
+
+        newLayer = {
+          ...originalLayer, // Copy metadata
+          top: metaLayer.coords.y,
+          left: metaLayer.coords.x,
+          bottom: metaLayer.coords.y + metaLayer.coords.h,
+          right: metaLayer.coords.x + metaLayer.coords.w,
+          hidden: !metaLayer.isVisible,
+          opacity: metaLayer.opacity,
+          children: undefined,
+          canvas: bakedCanvas // Text layers keep the baked pixels as a preview until Photoshop re-renders
+        };
+
+        if (metaLayer.type === 'text' && originalLayer.text) {
+          newLayer.text = buildLiveTextData(originalLayer, metaLayer);
+        }
+
+        // Non-destructive data follows the pixels (same scale/offset/rotation)
+        const mapPoint = createLayerPointMapper(originalLayer, metaLayer);
+        const maskSlice = (mask: LayerMaskData) => metaLayer.nineSlice && offsetNineSlice(metaLayer.nineSlice, originalLayer, mask);
+        if (originalLayer.mask) {
+          newLayer.mask = transformLayerMask(originalLayer.mask, mapPoint, metaLayer.transform, adapter, maskSlice(originalLayer.mask));
+        }
+        if (originalLayer.realMask) {
+          newLayer.realMask = transformLayerMask(originalLayer.realMask, mapPoint, metaLayer.transform, adapter, maskSlice(originalLayer.realMask));
+        }
+        if (originalLayer.vectorMask) {
+          newLayer.vectorMask = transformVectorMask(originalLayer.vectorMask, mapPoint);
+        }
+        if (originalLayer.vectorOrigination) {
+          newLayer.vectorOrigination = transformVectorOrigination(originalLayer.vectorOrigination, mapPoint, metaLayer.transform);
+        }
+
+        if (metaLayer.type === 'group' && metaLayer.children) {
+          newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd, assets, adapter);
+          newLayer.opened = true;
+        }
+      }
+    }
+
+    if (newLayer) {
+      resultLayers.push(newLayer);
+    }
+  }
+  return resultLayers;
+};
+
+/**
+ * Assembles the final target PSD: one group per filled template container, in template order.
+ *
+ * @param template The target template (canvas size + container slots).
+ * @param slotConnections Polished payloads keyed by container name.
+ * @param psdRegistry Binary source PSDs keyed by node ID (resolved via payload.sourceNodeId).
+ * @param assets Synthesized generative layer canvases keyed by layer ID.
+ */
+export const assembleTargetPsd = (
+  template: TemplateMetadata,
+  slotConnections: Map<string, TransformedPayload>,
+  psdRegistry: Record<string, Psd>,
+  assets: Map<string, HTMLCanvasElement>,
+  adapter: CanvasAdapter = browserCanvasAdapter
+): Psd => {
+  const children: Layer[] = [];
+
+  for (const container of template.containers) {
+    const payload = slotConnections.get(container.name);
+    if (!payload) continue;
+
+    const containerGroup: Layer = {
+      name: container.originalName,
+      children: reconstructHierarchy(payload.layers, psdRegistry[payload.sourceNodeId], assets, adapter),
+      opened: true,
+      top: container.bounds.y,
+      left: container.bounds.x,
+      bottom: container.bounds.y + container.bounds.h,
+      right: container.bounds.x + container.bounds.w,
+    };
+
+    // Crop overflow for strategies that intentionally exceed the slot (FILL / 1:1)
+    if (isCroppingStrategy(payload.strategy)) {
+      containerGroup.mask = createContainerMask(container.bounds, adapter);
+    }
+
+    children.push(containerGroup);
+  }
+
+  return {
+    width: template.canvas.width,
+    height: template.canvas.height,
+    children
+  };
+};
@@ -0,0 +1,108 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AIProvider, AIQuality, AnalysisTask, ImageSynthesisRequest, StructuredAnalysisRequest, StructuredAnalysisResult } from './aiProvider';
+import { parseModelJson } from './strategyValidation';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+const ANALYSIS_MODELS: Record<AIQuality, { model: string, thinkingBudget?: number }> = {
+  fast: { model: 'gemini-3-flash-preview' },
+  pro: { model: 'gemini-3-pro-preview' },
+  deep: { model: 'gemini-3-pro-preview', thinkingBudget: 16384 }
+};
+
+// Stage defaults when the caller does not request a specific depth
+const DEFAULT_QUALITY: Record<AnalysisTask, AIQuality> = {
+  layout: 'fast',
+  review: 'fast',
+  distill: 'fast'
+};
+
+// Helper: Strip a data URI prefix, returning raw base64
+const toBase64Data = (dataOrUri: string): string =>
+  dataOrUri.includes('base64,') ? dataOrUri.split('base64,')[1] : dataOrUri;
+
+// Helper: Calculate closest supported aspect ratio for Nano Banana
+const getClosestAspectRatio = (width: number, height: number): string => {
+  const ratio = width / height;
+  const targets = {
+    "1:1": 1,
+    "3:4": 0.75,
+    "4:3": 1.333,
+    "9:16": 0.5625,
+    "16:9": 1.777
+  };
+
+  // Find closest aspect ratio key
+  return Object.keys(targets).reduce((prev, curr) =>
+    Math.abs(targets[curr as keyof typeof targets] - ratio) < Math.abs(targets[prev as keyof typeof targets] - ratio) ? curr : prev
+  );
+};
+
+/**
+ * Gemini implementation of the AIProvider (Google GenAI SDK).
+ * @param apiKey Defaults to the build-time `API_KEY`.
+ */
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): AIProvider => {
+  const getClient = () => {
+    if (!apiKey) throw new Error("API_KEY missing");
+    return new GoogleGenAI({ apiKey });
+  };
+
+  const analyze = async <T = any>(request: StructuredAnalysisRequest): Promise<StructuredAnalysisResult<T>> => {
+    const ai = getClient();
+    const { model, thinkingBudget } = ANALYSIS_MODELS[request.quality || DEFAULT_QUALITY[request.task]];
+
+    const config: any = {};
+    if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+    if (request.schema) {
+      config.responseMimeType = "application/json";
+      config.responseSchema = request.schema; // AISchemaType values match the SDK 'Type' enum
+    }
+    if (thinkingBudget) config.thinkingConfig = { thinkingBudget };
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: request.messages,
+      config
+    });
+
+    const text = response.text || '';
+    return {
+      text,
+      data: request.schema ? parseModelJson(text) as T : null
+    };
+  };
+
+  const synthesizeImage = async (request: ImageSynthesisRequest): Promise<string | null> => {
+    const ai = getClient();
+    const parts: any[] = [];
+
+    if (request.sourceReference) {
+      parts.push({ inlineData: { mimeType: 'image/png', data: toBase64Data(request.sourceReference) } });
+    }
+    parts.push({ text: request.prompt });
+
+    const aspectRatio = request.width && request.height ? getClosestAspectRatio(request.width, request.height) : "1:1";
+
+    const response = await ai.models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: { imageConfig: { aspectRatio } }
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+    return null;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    isConfigured: !!apiKey,
+    analyze,
+    synthesizeImage
+  };
+};
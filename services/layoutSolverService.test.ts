@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutSolverRule, SerializableLayer } from '../types';
+import { describeSolverRule, solveLayout, validateSolverRule } from './layoutSolverService';
+
+const layer = (id: string, x: number, y: number, w: number, h: number, extra: Partial<SerializableLayer> = {}): SerializableLayer =>
+  ({ id, name: id, type: 'layer', isVisible: true, opacity: 1, coords: { x, y, w, h }, ...extra });
+
+const caption = layer('caption', 50, 40, 30, 4, {
+  type: 'text',
+  text: { content: 'caption', fontName: 'ArialMT', fontSize: 4, alignment: 'left', boxType: 'point' }
+});
+
+// Source 100x50 into target 200x100: base scale 2
+const input = (rules: LayoutSolverRule[]) => ({
+  sourceRect: { x: 0, y: 0, w: 100, h: 50 },
+  layers: [layer('card-a', 0, 0, 40, 40), layer('card-b', 20, 0, 40, 40), layer('logo', 80, 30, 10, 10), caption],
+  target: { bounds: { x: 0, y: 0, w: 200, h: 100 } },
+  rules
+});
+
+const RULES: LayoutSolverRule[] = [
+  { id: 'r1', kind: 'avoid-overlap', target: 'card-*', gap: 4 },
+  { id: 'r2', kind: 'corner', target: 'logo', corner: 'top-left', maxDistancePercent: 10 },
+  { id: 'r3', kind: 'min-text-height', target: 'cap*', minPx: 12 }
+];
+
+describe('solveLayout', () => {
+  it('solves rules in phases into contentRect-relative overrides', () => {
+    // Enlarged text grows around its centre: (100, 80, 60x8) at 1.5x -> (85, 78)
+    const strategy = solveLayout(input(RULES));
+
+    expect(strategy).toMatchObject({ method: 'GEOMETRIC', suggestedScale: 2, solved: true });
+    expect(strategy.overrides).toEqual([
+      { layerId: 'card-b', xOffset: 84, yOffset: 0, individualScale: 1, citedRule: 'avoid overlap +4px (card-*)' },
+      { layerId: 'logo', xOffset: 20, yOffset: 10, individualScale: 1, citedRule: 'corner top-left <=10% (logo)' },
+      { layerId: 'caption', xOffset: 85, yOffset: 78, individualScale: 1.5, citedRule: 'text >=12px (cap*)' }
+    ]);
+  });
+
+  it('is deterministic', () => {
+    expect(solveLayout(input(RULES))).toEqual(solveLayout(input(RULES)));
+  });
+
+  it('skips disabled and invalid rules and explains why', () => {
+    const strategy = solveLayout(input([
+      { id: 'r1', kind: 'distribute', target: '*', axis: 'x', enabled: false },
+      { id: 'r2', kind: 'min-text-height', target: 'caption', minPx: 0 }
+    ]));
+
+    expect(strategy.overrides).toEqual([]);
+    expect(strategy.reasoning).toContain('Skipped text >=0px (caption): Minimum text height must be positive.');
+    expect(strategy.reasoning).not.toContain('distribute');
+  });
+});
+
+describe('validateSolverRule', () => {
+  it('checks the parameters of each rule kind', () => {
+    expect(validateSolverRule({ id: 'a', kind: 'corner', target: 'logo', corner: 'top-right', maxDistancePercent: 60 })).toBe('Corner distance must be between 0 and 50%.');
+    expect(validateSolverRule({ id: 'b', kind: 'avoid-overlap', target: '*', gap: -1 })).toBe('Gap cannot be negative.');
+    expect(validateSolverRule({ id: 'c', kind: 'distribute', target: ' ', axis: 'y' })).toBe('Target pattern cannot be empty.');
+    expect(validateSolverRule({ id: 'd', kind: 'distribute', target: 'icon*', axis: 'y' })).toBeNull();
+  });
+
+  it('labels rules for citations', () => {
+    expect(describeSolverRule({ id: 'd', kind: 'distribute', target: 'icon*', axis: 'y' })).toBe('distribute Y (icon*)');
+  });
+});
@@ -0,0 +1,385 @@
+import {
+  BACKDROP_COVERAGE_RATIO,
+  ContainerConstraints,
+  ContainerZone,
+  LayerOverride,
+  LayoutSolverRule,
+  LayoutSolverRuleKind,
+  LayoutStrategy,
+  SerializableLayer
+} from '../types';
+import { computeRemapGeometry, computeLayerPlacements } from './remapService';
+import { STRATEGY_LIMITS } from './strategyValidation';
+
+/**
+ * Layout Solver.
+ * Computes per-layer LayerOverrides from declared rules instead of asking a model, so the same
+ * source, target and rules always yield the same GEOMETRIC LayoutStrategy (offline, headless, CI).
+ *
+ * Rules run in phases regardless of their list position (declared order within a phase):
+ *   1. min-text-height  scale text up until it renders at least `minPx` tall
+ *   2. distribute       space the matched elements evenly along an axis
+ *   3. corner           keep the matched elements within N% of a corner
+ *   4. avoid-overlap    push overlapping elements apart, corner-pinned elements move last
+ *
+ * Positions are solved in target space on top of the plain UNIFORM_FIT projection and converted to
+ * contentRect-relative overrides last, so nested overrides compose exactly like AI overrides.
+ */
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export interface LayoutSolverInput {
+  sourceRect: Rect;
+  layers: SerializableLayer[];
+  target: { bounds: Rect; constraints?: ContainerConstraints; zones?: ContainerZone[] };
+  rules: LayoutSolverRule[];
+}
+
+export const SOLVER_RULE_KINDS: LayoutSolverRuleKind[] = ['min-text-height', 'distribute', 'corner', 'avoid-overlap'];
+
+// Overlap resolution gives up after this many sweeps over all pairs
+const MAX_OVERLAP_PASSES = 12;
+
+/**
+ * Returns why a rule cannot be solved (null when it can).
+ */
+export const validateSolverRule = (rule: LayoutSolverRule): string | null => {
+  if (!rule.target.trim()) return 'Target pattern cannot be empty.';
+  switch (rule.kind) {
+    case 'corner':
+      return rule.maxDistancePercent >= 0 && rule.maxDistancePercent <= 50 ? null : 'Corner distance must be between 0 and 50%.';
+    case 'min-text-height':
+      return rule.minPx > 0 ? null : 'Minimum text height must be positive.';
+    case 'avoid-overlap':
+      return rule.gap >= 0 ? null : 'Gap cannot be negative.';
+    default:
+      return null;
+  }
+};
+
+/**
+ * Short label used as the cited rule on solver overrides and in the UI.
+ */
+export const describeSolverRule = (rule: LayoutSolverRule): string => {
+  switch (rule.kind) {
+    case 'corner': return `corner ${rule.corner} <=${rule.maxDistancePercent}% (${rule.target})`;
+    case 'min-text-height': return `text >=${rule.minPx}px (${rule.target})`;
+    case 'distribute': return `distribute ${rule.axis.toUpperCase()} (${rule.target})`;
+    case 'avoid-overlap': return `avoid overlap +${rule.gap}px (${rule.target})`;
+  }
+};
+
+// --- HELPER: Layer Matching ---
+const compileTargetPattern = (pattern: string): RegExp => {
+  const source = pattern.trim().split('').map(char => {
+    if (char === '*') return '.*';
+    if (char === '?') return '.';
+    return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+interface SolverLayer {
+  layer: SerializableLayer;
+  parentId: string | null;
+  ancestors: Set<string>;
+  order: number; // Pre-order index (tie-breaker)
+}
+
+const flattenLayers = (layers: SerializableLayer[]): SolverLayer[] => {
+  const flat: SolverLayer[] = [];
+  const walk = (children: SerializableLayer[], parentId: string | null, ancestors: Set<string>) => {
+    children.forEach(layer => {
+      flat.push({ layer, parentId, ancestors, order: flat.length });
+      if (layer.children) walk(layer.children, layer.id, new Set([...ancestors, layer.id]));
+    });
+  };
+  walk(layers, null, new Set());
+  return flat;
+};
+
+// --- HELPER: Geometry ---
+const overlapsWithGap = (a: Rect, b: Rect, gap: number): boolean =>
+  a.x < b.x + b.w + gap && a.x + a.w + gap > b.x && a.y < b.y + b.h + gap && a.y + a.h + gap > b.y;
+
+const fitsInside = (rect: Rect, area: Rect): boolean =>
+  rect.x >= area.x - 0.01 && rect.y >= area.y - 0.01 &&
+  rect.x + rect.w <= area.x + area.w + 0.01 && rect.y + rect.h <= area.y + area.h + 0.01;
+
+// Shift that brings a rect inside the area (oversized rects align to the start edge)
+const shiftInside = (rect: Rect, area: Rect): { dx: number, dy: number } => ({
+  dx: rect.w > area.w ? area.x - rect.x : Math.min(Math.max(rect.x, area.x), area.x + area.w - rect.w) - rect.x,
+  dy: rect.h > area.h ? area.y - rect.y : Math.min(Math.max(rect.y, area.y), area.y + area.h - rect.h) - rect.y
+});
+
+/**
+ * Solves the rules for one source/target pair.
+ * Disabled and invalid rules are skipped and listed in the reasoning, never thrown.
+ */
+export const solveLayout = (input: LayoutSolverInput): LayoutStrategy => {
+  const { sourceRect, layers, target } = input;
+  const geometry = computeRemapGeometry(sourceRect, target.bounds, 'UNIFORM_FIT', undefined, target.constraints, target.zones);
+  const area = geometry.contentRect;
+  const baseScale = geometry.scaleX;
+  const placements = computeLayerPlacements(layers, sourceRect, geometry, [], target.constraints);
+  const flat = flattenLayers(layers);
+  const byId = new Map(flat.map(entry => [entry.layer.id, entry]));
+
+  // Desired world rect and scale of every layer; a layer's edits carry its descendants along
+  const rects = new Map<string, Rect>();
+  const scales = new Map<string, number>();
+  flat.forEach(({ layer }) => {
+    rects.set(layer.id, { ...placements.get(layer.id)!.rect });
+    scales.set(layer.id, placements.get(layer.id)!.scaleX);
+  });
+  const touched = new Map<string, string[]>(); // layerId -> cited rules
+  const pinned = new Set<string>();
+  const notes: string[] = [];
+
+  const subtree = (layerId: string) => flat.filter(entry => entry.layer.id === layerId || entry.ancestors.has(layerId));
+
+  // Visible footprint of a layer and its descendants (a group's own rect goes stale once a child is edited)
+  const extentOf = (layerId: string): Rect => {
+    const members = subtree(layerId).filter(entry => entry.layer.isVisible && entry.layer.type !== 'group').map(entry => rects.get(entry.layer.id)!);
+    if (members.length === 0) return rects.get(layerId)!;
+    const x = Math.min(...members.map(r => r.x));
+    const y = Math.min(...members.map(r => r.y));
+    return { x, y, w: Math.max(...members.map(r => r.x + r.w)) - x, h: Math.max(...members.map(r => r.y + r.h)) - y };
+  };
+
+  const touch = (layerId: string, rule: LayoutSolverRule) => {
+    const cited = touched.get(layerId) || [];
+    const label = describeSolverRule(rule);
+    if (!cited.includes(label)) cited.push(label);
+    touched.set(layerId, cited);
+  };
+
+  const moveLayer = (layerId: string, dx: number, dy: number, rule: LayoutSolverRule) => {
+    if (Math.abs(dx) < 0.01 && Math.abs(dy) < 0.01) return;
+    subtree(layerId).forEach(({ layer }) => {
+      const rect = rects.get(layer.id)!;
+      rects.set(layer.id, { ...rect, x: rect.x + dx, y: rect.y + dy });
+    });
+    touch(layerId, rule);
+  };
+
+  // Scales a subtree around the layer's center (the override pivot is its top-left, so the position moves too)
+  const scaleLayer = (layerId: string, factor: number, rule: LayoutSolverRule) => {
+    const pivotRect = extentOf(layerId);
+    const pivot = { x: pivotRect.x + pivotRect.w / 2, y: pivotRect.y + pivotRect.h / 2 };
+    subtree(layerId).forEach(({ layer }) => {
+      const rect = rects.get(layer.id)!;
+      rects.set(layer.id, {
+        x: pivot.x + (rect.x - pivot.x) * factor,
+        y: pivot.y + (rect.y - pivot.y) * factor,
+        w: rect.w * factor,
+        h: rect.h * factor
+      });
+      scales.set(layer.id, scales.get(layer.id)! * factor);
+    });
+    touch(layerId, rule);
+  };
+
+  const keepInside = (layerId: string, rule: LayoutSolverRule) => {
+    const { dx, dy } = shiftInside(extentOf(layerId), area);
+    moveLayer(layerId, dx, dy, rule);
+  };
+
+  // Visible matches; `outermost` drops matches nested inside another match (a group moves as one element)
+  const matchLayers = (pattern: string, outermost: boolean): SolverLayer[] => {
+    const regex = compileTargetPattern(pattern);
+    const matches = flat.filter(entry => entry.layer.isVisible && regex.test(entry.layer.name));
+    if (!outermost) return matches;
+    const ids = new Set(matches.map(entry => entry.layer.id));
+    return matches.filter(entry => ![...entry.ancestors].some(id => ids.has(id)));
+  };
+
+  // Judged in source space: a full-bleed background stays one whatever the target's aspect ratio
+  const isBackdrop = (layerId: string) => {
+    const { w, h } = byId.get(layerId)!.layer.coords;
+    return w * h >= sourceRect.w * sourceRect.h * BACKDROP_COVERAGE_RATIO;
+  };
+
+  const active = input.rules.filter(rule => {
+    if (rule.enabled === false) return false;
+    const problem = validateSolverRule(rule);
+    if (problem) notes.push(`Skipped ${describeSolverRule(rule)}: ${problem}`);
+    return !problem;
+  });
+  const phase = <K extends LayoutSolverRuleKind>(kind: K) =>
+    active.filter((rule): rule is Extract<LayoutSolverRule, { kind: K }> => rule.kind === kind);
+
+  // 1. Legibility: scale text until its font (or box, for rasterized text) reaches minPx
+  phase('min-text-height').forEach(rule => {
+    let grown = 0;
+    matchLayers(rule.target, false).filter(entry => entry.layer.type === 'text').forEach(({ layer }) => {
+      const sourceHeight = layer.text?.fontSize || layer.coords.h;
+      const rendered = sourceHeight * scales.get(layer.id)!;
+      if (rendered >= rule.minPx) return;
+
+      const rect = rects.get(layer.id)!;
+      const fitCap = Math.min(area.w / rect.w, area.h / rect.h);
+      const layerCap = STRATEGY_LIMITS.maxLayerScale / (scales.get(layer.id)! / baseScale);
+      const factor = Math.min(rule.minPx / rendered, fitCap, layerCap);
+      if (factor < rule.minPx / rendered) {
+        notes.push(`'${layer.name}' capped at ${(rendered * factor).toFixed(1)}px (needs ${rule.minPx}px) to stay inside the container.`);
+      }
+      if (factor <= 1) return;
+      scaleLayer(layer.id, factor, rule);
+      keepInside(layer.id, rule);
+      grown++;
+    });
+    notes.push(`${describeSolverRule(rule)}: ${grown} text layer${grown === 1 ? '' : 's'} enlarged.`);
+  });
+
+  // 2. Distribution: equal gaps along the axis (edge to edge when the elements exceed it)
+  phase('distribute').forEach(rule => {
+    const horizontal = rule.axis === 'x';
+    const elements = matchLayers(rule.target, true)
+      .filter(entry => !isBackdrop(entry.layer.id))
+      .map(entry => ({ id: entry.layer.id, order: entry.order, rect: extentOf(entry.layer.id) }))
+      .sort((a, b) => {
+        const centerA = horizontal ? a.rect.x + a.rect.w / 2 : a.rect.y + a.rect.h / 2;
+        const centerB = horizontal ? b.rect.x + b.rect.w / 2 : b.rect.y + b.rect.h / 2;
+        return centerA - centerB || a.order - b.order;
+      });
+    if (elements.length < 2) {
+      notes.push(`${describeSolverRule(rule)}: needs at least 2 elements, found ${elements.length}.`);
+      return;
+    }
+
+    const start = horizontal ? area.x : area.y;
+    const extent = horizontal ? area.w : area.h;
+    const total = elements.reduce((sum, el) => sum + (horizontal ? el.rect.w : el.rect.h), 0);
+    const fits = total <= extent;
+    const gap = fits ? (extent - total) / (elements.length + 1) : (extent - total) / (elements.length - 1);
+    let cursor = fits ? start + gap : start;
+    elements.forEach(el => {
+      const current = horizontal ? el.rect.x : el.rect.y;
+      moveLayer(el.id, horizontal ? cursor - current : 0, horizontal ? 0 : cursor - current, rule);
+      cursor += (horizontal ? el.rect.w : el.rect.h) + gap;
+    });
+    notes.push(`${describeSolverRule(rule)}: ${elements.length} elements, ${fits ? `${gap.toFixed(1)}px gaps` : 'overlapping (exceeds the axis)'}.`);
+  });
+
+  // 3. Corner pins: distance to the corner edges clamped to [0, N% of the placement area]
+  phase('corner').forEach(rule => {
+    const elements = matchLayers(rule.target, true);
+    const maxX = area.w * rule.maxDistancePercent / 100;
+    const maxY = area.h * rule.maxDistancePercent / 100;
+    elements.forEach(({ layer }) => {
+      const rect = extentOf(layer.id);
+      const right = rule.corner.endsWith('right');
+      const bottom = rule.corner.startsWith('bottom');
+      const distX = right ? area.x + area.w - (rect.x + rect.w) : rect.x - area.x;
+      const distY = bottom ? area.y + area.h - (rect.y + rect.h) : rect.y - area.y;
+      const clampedX = Math.min(Math.max(distX, 0), maxX);
+      const clampedY = Math.min(Math.max(distY, 0), maxY);
+      moveLayer(layer.id, right ? distX - clampedX : clampedX - distX, bottom ? distY - clampedY : clampedY - distY, rule);
+      pinned.add(layer.id);
+    });
+    notes.push(`${describeSolverRule(rule)}: ${elements.length} element${elements.length === 1 ? '' : 's'} pinned.`);
+  });
+
+  // 4. Overlaps: move the later (or unpinned) element along the shortest axis that keeps it inside the area
+  let unresolved = 0;
+  phase('avoid-overlap').forEach(rule => {
+    const elements = matchLayers(rule.target, true).filter(entry => !isBackdrop(entry.layer.id));
+    const countOverlaps = (id: string, rect: Rect) =>
+      elements.filter(other => other.layer.id !== id && !other.ancestors.has(id) && !byId.get(id)!.ancestors.has(other.layer.id)
+        && overlapsWithGap(rect, extentOf(other.layer.id), rule.gap)).length;
+
+    const separate = (moverId: string, otherId: string): boolean => {
+      const mover = extentOf(moverId);
+      const other = extentOf(otherId);
+      const best = [
+        { dx: other.x - rule.gap - (mover.x + mover.w), dy: 0 },
+        { dx: other.x + other.w + rule.gap - mover.x, dy: 0 },
+        { dx: 0, dy: other.y - rule.gap - (mover.y + mover.h) },
+        { dx: 0, dy: other.y + other.h + rule.gap - mover.y }
+      ]
+        .map(move => ({ ...move, rect: { ...mover, x: mover.x + move.dx, y: mover.y + move.dy } }))
+        .filter(move => fitsInside(move.rect, area))
+        .map(move => ({ ...move, conflicts: countOverlaps(moverId, move.rect) }))
+        .sort((a, b) => a.conflicts - b.conflicts || (Math.abs(a.dx) + Math.abs(a.dy)) - (Math.abs(b.dx) + Math.abs(b.dy)))[0];
+      if (!best) return false;
+      moveLayer(moverId, best.dx, best.dy, rule);
+      return true;
+    };
+
+    let remaining = 0;
+    for (let pass = 0; pass < MAX_OVERLAP_PASSES; pass++) {
+      remaining = 0;
+      let moved = false;
+      for (let i = 0; i < elements.length; i++) {
+        for (let j = i + 1; j < elements.length; j++) {
+          const a = elements[i].layer.id;
+          const b = elements[j].layer.id;
+          if (elements[j].ancestors.has(a) || elements[i].ancestors.has(b)) continue;
+          if (!overlapsWithGap(extentOf(a), extentOf(b), rule.gap)) continue;
+          const order = pinned.has(b) && !pinned.has(a) ? [a, b] : [b, a];
+          if (separate(order[0], order[1]) || (!pinned.has(order[1]) && separate(order[1], order[0]))) moved = true;
+          else remaining++;
+        }
+      }
+      if (!moved) break;
+    }
+    unresolved += remaining;
+    notes.push(`${describeSolverRule(rule)}: ${remaining === 0 ? `${elements.length} elements clear` : `${remaining} overlap${remaining === 1 ? '' : 's'} left (no room)`}.`);
+  });
+
+  // --- Overrides ---
+  // Ancestors' overrides displace nested ones, so offsets are corrected against real placements until they land
+  const overrides: LayerOverride[] = flat
+    .filter(({ layer }) => touched.has(layer.id))
+    .map(({ layer, parentId }) => {
+      const parentScale = parentId ? scales.get(parentId)! : baseScale;
+      const rect = rects.get(layer.id)!;
+      return {
+        layerId: layer.id,
+        xOffset: rect.x - area.x,
+        yOffset: rect.y - area.y,
+        individualScale: scales.get(layer.id)! / parentScale,
+        citedRule: touched.get(layer.id)!.join('; ')
+      };
+    });
+
+  for (let pass = 0; pass < flat.length && overrides.length > 0; pass++) {
+    const placed = computeLayerPlacements(layers, sourceRect, geometry, overrides, target.constraints);
+    let corrected = false;
+    overrides.forEach(override => {
+      const actual = placed.get(override.layerId)!.rect;
+      const desired = rects.get(override.layerId)!;
+      if (Math.abs(desired.x - actual.x) > 0.01 || Math.abs(desired.y - actual.y) > 0.01) {
+        override.xOffset += desired.x - actual.x;
+        override.yOffset += desired.y - actual.y;
+        corrected = true;
+      }
+    });
+    if (!corrected) break;
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const enabledCount = input.rules.filter(rule => rule.enabled !== false).length;
+
+  return {
+    method: 'GEOMETRIC',
+    suggestedScale: baseScale,
+    anchor: 'CENTER',
+    generativePrompt: '',
+    reasoning: [
+      `Layout solver: ${enabledCount} rule${enabledCount === 1 ? '' : 's'}, ${overrides.length} layer override${overrides.length === 1 ? '' : 's'} at base scale ${baseScale.toFixed(3)}x.`,
+      ...notes
+    ].join('\n'),
+    overrides: overrides.map(override => ({
+      ...override,
+      xOffset: round(override.xOffset),
+      yOffset: round(override.yOffset),
+      individualScale: Math.round(override.individualScale * 10000) / 10000
+    })),
+    safetyReport: { allowedBleed: false, violationCount: unresolved },
+    clearance: false,
+    knowledgeApplied: false,
+    solved: true
+  };
+};
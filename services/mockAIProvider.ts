@@ -0,0 +1,84 @@
+import type { AIProvider, AIPart, ImageSynthesisRequest, StructuredAnalysisRequest, StructuredAnalysisResult } from './aiProvider';
+import { LayoutStrategy, ReviewerStrategy } from '../types';
+
+// 8x8 purple checker PNG: recognizable placeholder for synthesized layers (scaled to cover on export)
+const PLACEHOLDER_PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAIAAABLbSncAAAAHElEQVR42mM40PIHjnI1bsIRAxUlkDnIiqgoAQDta3XBFZZPLwAAAABJRU5ErkJggg==';
+
+const MOCK_RULES = [
+  '1. [MOCK] Keep primary titles within the top third of the container.',
+  '2. [MOCK] Maintain at least 24px padding between content and container edges.',
+  '3. [MOCK] Logos scale uniformly and never exceed 30% of the container width.'
+].join('\n');
+
+// Same intent keywords the Analyst uses to flag explicit generation requests
+const GENERATION_INTENT = /\b(generate|recreate|nano banana)\b/i;
+
+const getLastUserText = (request: StructuredAnalysisRequest): string => {
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+  if (!lastUser) return '';
+  return lastUser.parts
+    .filter((p): p is Extract<AIPart, { text: string }> => 'text' in p)
+    .map(p => p.text)
+    .join(' ');
+};
+
+/**
+ * Canned Analyst output: a plain UNIFORM_FIT scale for the given geometry.
+ * A generation keyword in a refinement message switches to HYBRID so the
+ * confirmation gate → synthesis → export path can be exercised offline.
+ * (The Analyst's opening "Generate grid layout." request never counts as intent.)
+ */
+const mockLayoutStrategy = (request: StructuredAnalysisRequest): LayoutStrategy => {
+  const geometry = request.geometry;
+  const suggestedScale = geometry
+    ? Math.min(geometry.target.w / geometry.source.w, geometry.target.h / geometry.source.h)
+    : 1;
+  const isRefinement = request.messages.filter(m => m.role === 'user').length > 1;
+  const wantsGeneration = isRefinement && GENERATION_INTENT.test(getLastUserText(request));
+
+  return {
+    reasoning: '[MOCK] Offline provider: uniform fit to the target container, centered. No knowledge rules consulted.',
+    method: wantsGeneration ? 'HYBRID' : 'GEOMETRIC',
+    suggestedScale: Number(suggestedScale.toFixed(4)),
+    anchor: 'CENTER',
+    generativePrompt: wantsGeneration ? 'Extend the source artwork background to fill the target container' : '',
+    clearance: false,
+    knowledgeApplied: false,
+    overrides: [],
+    safetyReport: { allowedBleed: false, violationCount: 0 }
+  };
+};
+
+const mockReviewerStrategy = (): ReviewerStrategy => ({
+  CARO_Audit: '[MOCK] Offline provider: no optical collisions detected. Layout accepted as-is.',
+  overrides: []
+});
+
+/**
+ * Deterministic offline AIProvider.
+ * Returns canned LayoutStrategy / ReviewerStrategy JSON and a placeholder image, with no network access,
+ * so the analyst → remapper → reviewer → export flow can be developed and tested locally.
+ */
+export const createMockAIProvider = (): AIProvider => {
+  const analyze = async <T = any>(request: StructuredAnalysisRequest): Promise<StructuredAnalysisResult<T>> => {
+    if (request.task === 'distill') {
+      return { text: MOCK_RULES, data: null };
+    }
+
+    const data = request.task === 'layout' ? mockLayoutStrategy(request) : mockReviewerStrategy();
+    return {
+      text: JSON.stringify(data),
+      data: data as T
+    };
+  };
+
+  const synthesizeImage = async (_request: ImageSynthesisRequest): Promise<string | null> => PLACEHOLDER_PNG;
+
+  return {
+    id: 'mock',
+    label: 'Mock (Offline)',
+    isConfigured: true,
+    analyze,
+    synthesizeImage
+  };
+};
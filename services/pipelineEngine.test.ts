@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { createCanvas } from '@napi-rs/canvas';
+import { Layer, Psd } from 'ag-psd';
+import type { Edge, Node } from 'reactflow';
+import { ProjectExport, TemplateMetadata } from '../types';
+import { CanvasAdapter } from './exportService';
+import { runPipeline, sortNodesTopologically } from './pipelineEngine';
+
+const nodeCanvasAdapter: CanvasAdapter = {
+  createCanvas: (width: number, height: number) => createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height))) as unknown as HTMLCanvasElement
+};
+
+const node = (id: string, type: string, data: Record<string, unknown> = {}): Node => ({ id, type, position: { x: 0, y: 0 }, data });
+
+const edge = (source: string, sourceHandle: string | null, target: string, targetHandle: string | null): Edge =>
+  ({ id: `${source}-${sourceHandle}-${target}-${targetHandle}`, source, sourceHandle, target, targetHandle });
+
+const rectLayer = (name: string, x: number, y: number, w: number, h: number): Layer =>
+  ({ name, left: x, top: y, right: x + w, bottom: y + h });
+
+describe('sortNodesTopologically', () => {
+  it('runs every node after its upstream dependencies', () => {
+    const nodes = [node('export', 'exportPsd'), node('remap', 'remapper'), node('load', 'loadPsd')];
+    const edges = [edge('load', null, 'remap', 'source-in-0'), edge('remap', 'result-out-0', 'export', 'input-A')];
+
+    expect(sortNodesTopologically(nodes, edges).map(n => n.id)).toEqual(['load', 'remap', 'export']);
+  });
+
+  it('keeps the project node order between independent nodes', () => {
+    const nodes = [node('c', 'loadPsd'), node('a', 'loadPsd'), node('b', 'remapper')];
+    const edges = [edge('c', null, 'b', 'source-in-0')];
+
+    expect(sortNodesTopologically(nodes, edges).map(n => n.id)).toEqual(['c', 'a', 'b']);
+  });
+
+  it('ignores edges to nodes that are not in the graph', () => {
+    const nodes = [node('a', 'loadPsd')];
+
+    expect(sortNodesTopologically(nodes, [edge('ghost', null, 'a', null)]).map(n => n.id)).toEqual(['a']);
+  });
+
+  it('names the nodes caught in a cycle', () => {
+    const nodes = [node('load', 'loadPsd'), node('a', 'remapper'), node('b', 'designReviewer')];
+    const edges = [edge('load', null, 'a', null), edge('a', null, 'b', null), edge('b', null, 'a', null)];
+
+    expect(() => sortNodesTopologically(nodes, edges)).toThrow('Pipeline graph contains a cycle involving: a, b');
+  });
+});
+
+describe('runPipeline', () => {
+  // Source: one 100x50 LOGO container holding a 50x20 mark; target: the same container at 200x100
+  const sourcePsd: Psd = {
+    width: 200,
+    height: 100,
+    children: [
+      { name: '!!TEMPLATE', children: [rectLayer('!!LOGO', 0, 0, 100, 50)] },
+      { name: 'LOGO', children: [rectLayer('mark', 10, 10, 50, 20)] }
+    ]
+  };
+
+  const targetTemplate: TemplateMetadata = {
+    canvas: { width: 400, height: 400 },
+    containers: [{ id: 'container-0-LOGO', name: 'LOGO', originalName: '!!LOGO', bounds: { x: 0, y: 0, w: 200, h: 100 }, normalized: { x: 0, y: 0, w: 0.5, h: 0.25 } }]
+  };
+
+  const project = (exportInput: Edge): ProjectExport => ({
+    version: '1.2.0',
+    timestamp: 0,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    nodes: [
+      node('export', 'exportPsd'),
+      node('review', 'designReviewer'),
+      node('remap', 'remapper'),
+      node('resolve', 'containerResolver', { channelCount: 1 }),
+      node('split', 'templateSplitter'),
+      node('load', 'loadPsd'),
+      node('target', 'targetTemplate', { template: targetTemplate }),
+      node('targets', 'targetSplitter')
+    ],
+    edges: [
+      edge('load', null, 'split', null),
+      edge('split', 'LOGO', 'resolve', 'target-0'),
+      edge('target', 'target-metadata-out', 'targets', 'template-input'),
+      edge('resolve', 'source-0', 'remap', 'source-in-0'),
+      edge('targets', 'LOGO', 'remap', 'target-in-0'),
+      edge('remap', 'result-out-0', 'review', 'payload-in-0'),
+      edge('target', 'target-metadata-out', 'export', 'template-input'),
+      exportInput
+    ]
+  } as ProjectExport);
+
+  it('remaps the fixture graph into a known payload and exports it', () => {
+    const result = runPipeline(project(edge('review', 'polished-out-0', 'export', 'input-LOGO')), { load: sourcePsd }, { canvas: nodeCanvasAdapter });
+
+    expect(result.diagnostics).toEqual([]);
+    const payload = result.registries.reviewerRegistry.review['polished-out-0'];
+    expect(payload).toMatchObject({
+      status: 'success',
+      sourceNodeId: 'load',
+      sourceContainer: 'LOGO',
+      scaleFactor: 2,
+      strategy: 'UNIFORM_FIT',
+      isPolished: true,
+      targetBounds: { x: 0, y: 0, w: 200, h: 100 },
+      metrics: { scale: { x: 2, y: 2 } }
+    });
+    expect(payload.layers.map(layer => [layer.name, layer.coords])).toEqual([['mark', { x: 20, y: 20, w: 100, h: 40 }]]);
+
+    expect(result.exports).toHaveLength(1);
+    const [exported] = result.exports;
+    expect(exported).toMatchObject({ nodeId: 'export', filledSlots: 1, totalSlots: 1, errors: [] });
+    expect(exported.psd).toMatchObject({ width: 400, height: 400 });
+    const mark = exported.psd.children[0].children[0];
+    expect([mark.name, mark.left, mark.top, mark.right, mark.bottom]).toEqual(['mark', 20, 20, 120, 60]);
+  });
+
+  it('refuses to export slots that skipped the Design Reviewer', () => {
+    const result = runPipeline(project(edge('remap', 'result-out-0', 'export', 'input-LOGO')), { load: sourcePsd }, { canvas: nodeCanvasAdapter });
+
+    expect(result.exports[0].psd).toBeNull();
+    expect(result.exports[0].errors[0]).toContain('PROCEDURAL_GATE_LOCKED');
+  });
+
+  it('reports unbound sources and unsupported nodes as diagnostics', () => {
+    const graph = project(edge('review', 'polished-out-0', 'export', 'input-LOGO'));
+    graph.nodes.push(node('mystery', 'notARealNode'));
+    const result = runPipeline(graph, {}, { canvas: nodeCanvasAdapter });
+
+    expect(result.diagnostics).toContain("Load PSD 'load': no source binary supplied.");
+    expect(result.diagnostics).toContain("Node 'mystery': unsupported type 'notARealNode' skipped.");
+    expect(result.exports[0].psd).toBeNull();
+  });
+
+  it('replays persisted Reviewer overrides unless told to retarget geometrically', () => {
+    const graph = project(edge('review', 'polished-out-0', 'export', 'input-LOGO'));
+    const reviewerInstances = { 0: { chatHistory: [], reviewerStrategy: { CARO_Audit: '', overrides: [{ layerId: '1.0', xOffset: 0, yOffset: 0, individualScale: 0.5 }] } } };
+    graph.nodes = graph.nodes.map(n => n.id === 'review' ? node('review', 'designReviewer', { reviewerInstances }) : n);
+
+    const replayed = runPipeline(graph, { load: sourcePsd }, { canvas: nodeCanvasAdapter });
+    const geometric = runPipeline(graph, { load: sourcePsd }, { canvas: nodeCanvasAdapter, replayAiStrategies: false });
+
+    expect(replayed.diagnostics).toEqual([]);
+    expect(replayed.registries.reviewerRegistry.review['polished-out-0'].layers[0].coords.w).toBe(50);
+    expect(geometric.diagnostics).toEqual(["Reviewer 'review' instance 0: persisted CARO overrides skipped (geometric retargeting)."]);
+    expect(geometric.registries.reviewerRegistry.review['polished-out-0'].layers[0].coords.w).toBe(100);
+  });
+
+  it('applies an edited template only to the file it was edited from', () => {
+    const graph = project(edge('review', 'polished-out-0', 'export', 'input-LOGO'));
+    graph.nodes = graph.nodes.map(n => n.id === 'target'
+      ? node('target', 'targetTemplate', { fileName: 'banner.psd', template: targetTemplate, templateEdited: true })
+      : n);
+    // The binary's own !!TEMPLATE keeps LOGO at the source size
+    const targetPsd: Psd = { width: 400, height: 400, children: [{ name: '!!TEMPLATE', children: [rectLayer('!!LOGO', 0, 0, 100, 50)] }] };
+    const run = (fileName: string) => runPipeline(graph, { load: sourcePsd, target: targetPsd }, {
+      canvas: nodeCanvasAdapter,
+      sourceNames: { load: 'source.psd', target: fileName }
+    });
+
+    const sameName = run('banner.psd');
+    const otherFile = run('skyscraper.psd');
+
+    expect(sameName.registries.reviewerRegistry.review['polished-out-0'].scaleFactor).toBe(2);
+    expect(sameName.diagnostics).toEqual(["Target Template 'target': edited template applied to 'banner.psd' by file name only (contents are not compared)."]);
+    expect(otherFile.registries.reviewerRegistry.review['polished-out-0'].scaleFactor).toBe(1);
+    expect(otherFile.diagnostics).toEqual(["Target Template 'target': edited template belongs to 'banner.psd'; using the !!TEMPLATE of 'skyscraper.psd'."]);
+  });
+
+  it('re-solves solver-mode Analyst instances even when AI replay is off', () => {
+    const graph = project(edge('review', 'polished-out-0', 'export', 'input-LOGO'));
+    const analystInstances = {
+      0: { chatHistory: [], layoutStrategy: null, selectedModel: 'gemini-3-flash', isKnowledgeMuted: false, mode: 'solver',
+        solverRules: [{ id: 'r1', kind: 'corner', target: 'mark', corner: 'top-left', maxDistancePercent: 0 }] },
+      1: { chatHistory: [], layoutStrategy: { method: 'GEOMETRIC', suggestedScale: 1, anchor: 'TOP' }, selectedModel: 'gemini-3-flash', isKnowledgeMuted: false }
+    };
+    graph.nodes.push(node('analyst', 'designAnalyst', { instanceCount: 2, analystInstances }));
+    graph.edges = graph.edges
+      .filter(e => e.target !== 'remap')
+      .concat(
+        [0, 1].flatMap(i => [edge('resolve', 'source-0', 'analyst', `source-in-${i}`), edge('targets', 'LOGO', 'analyst', `target-in-${i}`)]),
+        [edge('analyst', 'source-out-0', 'remap', 'source-in-0'), edge('analyst', 'target-out-0', 'remap', 'target-in-0')]
+      );
+
+    const result = runPipeline(graph, { load: sourcePsd }, { canvas: nodeCanvasAdapter, replayAiStrategies: false });
+
+    expect(result.diagnostics).toEqual(["Analyst 'analyst' instance 1: persisted AI strategy skipped (geometric retargeting)."]);
+    // The corner rule pulls the mark from (20, 20) into the top-left corner
+    expect(result.registries.reviewerRegistry.review['polished-out-0'].layers[0].coords).toEqual({ x: 0, y: 0, w: 100, h: 40 });
+  });
+});
@@ -0,0 +1,406 @@
+import { Psd } from 'ag-psd';
+import type { Node, Edge } from 'reactflow';
+import {
+  MappingContext,
+  PSDNodeData,
+  ProjectExport,
+  SerializableLayer,
+  TemplateMetadata,
+  TransformedPayload
+} from '../types';
+import { extractTemplateMetadata, getCleanLayerTree, createContainerContext } from './psdService';
+import { resolveLayer, buildMappingContext, findPsdSourceNodeId } from './resolverService';
+import { resolveTargetContainer, buildRemapPayload, polishPayload, DEFAULT_REMAP_STRATEGY } from './remapService';
+import { resolveAnalystTarget, augmentSourceContext, buildProxyTemplate, AnalystTarget, DEFAULT_ANALYST_STATE } from './analystService';
+import { compileTemplateSpec, TemplateSpecError } from './templateSpecService';
+import { resolveExportSlots, assembleTargetPsd, CanvasAdapter, browserCanvasAdapter } from './exportService';
+import { analyzeCollisions } from './collisionService';
+
+/**
+ * In-memory mirror of the ProceduralStore registries, filled node by node during a headless run.
+ */
+export interface PipelineRegistries {
+  psdRegistry: Record<string, Psd>;
+  templateRegistry: Record<string, TemplateMetadata>;
+  designLayerRegistry: Record<string, SerializableLayer[]>;
+  resolvedRegistry: Record<string, Record<string, MappingContext>>;
+  payloadRegistry: Record<string, Record<string, TransformedPayload>>;
+  reviewerRegistry: Record<string, Record<string, TransformedPayload>>;
+}
+
+export interface PipelineExport {
+  nodeId: string;
+  psd: Psd | null; // Null when the export gate is not satisfied
+  filledSlots: number;
+  totalSlots: number;
+  errors: string[];
+}
+
+export interface PipelineResult {
+  exports: PipelineExport[];
+  registries: PipelineRegistries;
+  diagnostics: string[]; // Non-fatal issues (missing binaries, unknown node types...)
+}
+
+export interface PipelineOptions {
+  canvas?: CanvasAdapter; // Required outside the browser (Node canvas implementation)
+  assets?: Map<string, HTMLCanvasElement>; // Pre-synthesized generative layer canvases keyed by layer ID
+  sourceNames?: Record<string, string>; // File name of each bound binary (keeps Template Editor edits on their own file)
+  replayAiStrategies?: boolean; // Apply persisted Analyst/Reviewer decisions (default true, as in the node UI). Disable when retargeting to new templates
+}
+
+type PipelineNode = Node<PSDNodeData>;
+
+interface ExecutionContext {
+  nodes: PipelineNode[];
+  edges: Edge[];
+  registries: PipelineRegistries;
+  diagnostics: string[];
+  exports: PipelineExport[];
+  sources: Record<string, Psd>;
+  options: Required<PipelineOptions>;
+}
+
+// --- HELPER: Topological Order ---
+/**
+ * Orders graph nodes so every node executes after all of its upstream dependencies (Kahn's algorithm).
+ * Ties keep the project's node order for deterministic runs.
+ * @throws Error if the graph contains a cycle.
+ */
+export const sortNodesTopologically = <T extends Node>(nodes: T[], edges: Edge[]): T[] => {
+  const inDegree = new Map<string, number>();
+  const downstream = new Map<string, string[]>();
+  nodes.forEach(n => {
+    inDegree.set(n.id, 0);
+    downstream.set(n.id, []);
+  });
+
+  edges.forEach(edge => {
+    if (!inDegree.has(edge.source) || !inDegree.has(edge.target)) return;
+    downstream.get(edge.source)!.push(edge.target);
+    inDegree.set(edge.target, inDegree.get(edge.target)! + 1);
+  });
+
+  const queue = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const ordered: T[] = [];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    ordered.push(byId.get(nodeId)!);
+    for (const next of downstream.get(nodeId)!) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) queue.push(next);
+    }
+  }
+
+  if (ordered.length !== nodes.length) {
+    const blocked = nodes.filter(n => !ordered.includes(n)).map(n => n.id);
+    throw new Error(`Pipeline graph contains a cycle involving: ${blocked.join(', ')}`);
+  }
+
+  return ordered;
+};
+
+const findInputEdge = (ctx: ExecutionContext, nodeId: string, targetHandle: string): Edge | undefined =>
+  ctx.edges.find(e => e.target === nodeId && e.targetHandle === targetHandle);
+
+const setHandle = <V>(registry: Record<string, Record<string, V>>, nodeId: string, handleId: string, value: V) => {
+  registry[nodeId] = { ...(registry[nodeId] || {}), [handleId]: value };
+};
+
+/**
+ * Template of a bound binary. A layout saved in the Template Editor belongs to the file it was edited
+ * from (`fileName`); any other bound file (batch targets, a swapped source) keeps its own !!TEMPLATE.
+ * Only the base name is persisted, so a different file with the same name still receives the edit;
+ * such matches are listed in the diagnostics.
+ */
+const resolveBoundTemplate = (node: PipelineNode, psd: Psd, ctx: ExecutionContext, label: string): TemplateMetadata => {
+  if (!node.data.templateEdited || !node.data.template) return extractTemplateMetadata(psd);
+  const boundName = ctx.options.sourceNames[node.id];
+  if (!boundName) return node.data.template;
+  if (boundName === node.data.fileName) {
+    ctx.diagnostics.push(
+      `${label} '${node.id}': edited template applied to '${boundName}' by file name only (contents are not compared).`
+    );
+    return node.data.template;
+  }
+  ctx.diagnostics.push(
+    `${label} '${node.id}': edited template belongs to '${node.data.fileName || 'an unknown file'}'; using the !!TEMPLATE of '${boundName}'.`
+  );
+  return extractTemplateMetadata(psd);
+};
+
+// --- NODE EXECUTORS ---
+// Each executor mirrors the store side-effects of its React node, reading persisted node data only.
+
+const executeLoadPsd = (node: PipelineNode, ctx: ExecutionContext) => {
+  const psd = ctx.sources[node.id];
+  if (!psd) {
+    ctx.diagnostics.push(`Load PSD '${node.id}': no source binary supplied.`);
+    return;
+  }
+  ctx.registries.psdRegistry[node.id] = psd;
+  ctx.registries.templateRegistry[node.id] = resolveBoundTemplate(node, psd, ctx, 'Load PSD');
+  ctx.registries.designLayerRegistry[node.id] = psd.children ? getCleanLayerTree(psd.children) : [];
+};
+
+const executeTargetTemplate = (node: PipelineNode, ctx: ExecutionContext) => {
+  const psd = ctx.sources[node.id];
+  if (psd) {
+    ctx.registries.psdRegistry[node.id] = psd;
+    ctx.registries.templateRegistry[node.id] = resolveBoundTemplate(node, psd, ctx, 'Target Template');
+    return;
+  }
+  // Target templates only contribute geometry, so the persisted metadata is sufficient
+  if (node.data.template) {
+    ctx.registries.templateRegistry[node.id] = node.data.template;
+    return;
+  }
+  ctx.diagnostics.push(`Target Template '${node.id}': no template binary or persisted metadata.`);
+};
+
+const executeTemplateSpec = (node: PipelineNode, ctx: ExecutionContext) => {
+  // Recompile from the source text so spec edits made outside the UI still apply
+  if (node.data.templateSpec) {
+    try {
+      ctx.registries.templateRegistry[node.id] = compileTemplateSpec(node.data.templateSpec.source, node.data.templateSpec.format);
+      return;
+    } catch (err) {
+      const issues = err instanceof TemplateSpecError && err.issues.length > 0 ? ` (${err.issues.join('; ')})` : '';
+      ctx.diagnostics.push(`Template Spec '${node.id}': ${(err as Error).message}${issues}`);
+    }
+  }
+  if (node.data.template) {
+    ctx.registries.templateRegistry[node.id] = node.data.template;
+    return;
+  }
+  if (!node.data.templateSpec) ctx.diagnostics.push(`Template Spec '${node.id}': no spec or persisted metadata.`);
+};
+
+const executeTargetSplitter = (node: PipelineNode, ctx: ExecutionContext) => {
+  const edge = findInputEdge(ctx, node.id, 'template-input');
+  const template = edge ? ctx.registries.templateRegistry[edge.source] : undefined;
+  if (template) ctx.registries.templateRegistry[node.id] = template;
+};
+
+const executeContainerResolver = (node: PipelineNode, ctx: ExecutionContext) => {
+  const channelCount = node.data.channelCount || 10;
+  for (let i = 0; i < channelCount; i++) {
+    const edge = findInputEdge(ctx, node.id, `target-${i}`);
+    if (!edge) continue;
+
+    // Each channel resolves against the Load PSD node it is wired to, matching the Resolver node
+    const sourceNodeId = findPsdSourceNodeId(edge.source, ctx.nodes, ctx.edges);
+    const sourceTemplate = sourceNodeId ? ctx.registries.templateRegistry[sourceNodeId] : undefined;
+    if (!sourceNodeId || !sourceTemplate) {
+      ctx.diagnostics.push(`Resolver '${node.id}' channel ${i}: no source PSD connected.`);
+      continue;
+    }
+
+    const containerContext = createContainerContext(sourceTemplate, edge.sourceHandle || '');
+    if (!containerContext) continue;
+
+    const result = resolveLayer(containerContext.containerName, ctx.registries.designLayerRegistry[sourceNodeId] || null, node.data.matchRules);
+    const mappingContext = buildMappingContext(containerContext, result, sourceNodeId);
+    if (mappingContext) {
+      setHandle(ctx.registries.resolvedRegistry, node.id, `source-${i}`, mappingContext);
+    } else {
+      ctx.diagnostics.push(`Resolver '${node.id}' channel ${i}: ${result.message}`);
+    }
+  }
+};
+
+const executeDesignAnalyst = (node: PipelineNode, ctx: ExecutionContext) => {
+  const instanceCount = node.data.instanceCount || 1;
+  const analystInstances = node.data.analystInstances || {};
+  const targets: AnalystTarget[] = [];
+  let canvasDims = { width: 0, height: 0 };
+
+  for (let i = 0; i < instanceCount; i++) {
+    const sourceEdge = findInputEdge(ctx, node.id, `source-in-${i}`);
+    const source = sourceEdge?.sourceHandle
+      ? ctx.registries.resolvedRegistry[sourceEdge.source]?.[sourceEdge.sourceHandle]
+      : undefined;
+
+    const targetEdge = findInputEdge(ctx, node.id, `target-in-${i}`);
+    const targetTemplate = targetEdge ? ctx.registries.templateRegistry[targetEdge.source] : undefined;
+    const target = targetTemplate ? resolveAnalystTarget(targetTemplate, targetEdge!.sourceHandle) : null;
+
+    // Relay the persisted LayoutStrategy; headless runs never call the model.
+    // Solver instances are re-solved against the current target, so they also apply when AI replay is off
+    if (source) {
+      const saved = analystInstances[i];
+      const replay = !!saved && (ctx.options.replayAiStrategies || saved.mode === 'solver');
+      if (saved?.layoutStrategy && !replay) {
+        ctx.diagnostics.push(`Analyst '${node.id}' instance ${i}: persisted AI strategy skipped (geometric retargeting).`);
+      }
+      const instanceState = replay ? saved : DEFAULT_ANALYST_STATE;
+      setHandle(ctx.registries.resolvedRegistry, node.id, `source-out-${i}`, augmentSourceContext(source, instanceState, target));
+    }
+
+    if (target) {
+      if (canvasDims.width === 0) canvasDims = targetTemplate!.canvas;
+      targets.push({ index: i, ...target });
+    }
+  }
+
+  const proxyTemplate = buildProxyTemplate(targets, canvasDims);
+  if (proxyTemplate) ctx.registries.templateRegistry[node.id] = proxyTemplate;
+};
+
+const executeRemapper = (node: PipelineNode, ctx: ExecutionContext) => {
+  const instanceCount = node.data.instanceCount || 1;
+  const instanceSettings = node.data.instanceSettings || {};
+  const globalGenerationAllowed = node.data.remapperConfig?.generationAllowed ?? true;
+  const defaultRemapStrategy = node.data.remapperConfig?.strategy || DEFAULT_REMAP_STRATEGY;
+
+  for (let i = 0; i < instanceCount; i++) {
+    const sourceEdge = findInputEdge(ctx, node.id, `source-in-${i}`);
+    const source = sourceEdge?.sourceHandle
+      ? ctx.registries.resolvedRegistry[sourceEdge.source]?.[sourceEdge.sourceHandle]
+      : undefined;
+
+    const targetEdge = findInputEdge(ctx, node.id, `target-in-${i}`);
+    const targetTemplate = targetEdge ? ctx.registries.templateRegistry[targetEdge.source] : undefined;
+    const container = targetTemplate && targetEdge?.sourceHandle
+      ? resolveTargetContainer(targetTemplate, targetEdge.sourceHandle)
+      : null;
+
+    if (!source || !container) continue;
+
+    const localSettings = instanceSettings[i];
+    const { payload } = buildRemapPayload({
+      sourceNodeId: source.sourceNodeId,
+      source,
+      target: { name: container.originalName || container.name, bounds: container.bounds, constraints: container.constraints, zones: container.zones },
+      mode: localSettings?.strategy || defaultRemapStrategy,
+      generationAllowed: globalGenerationAllowed && (localSettings?.generationAllowed ?? true),
+      pins: localSettings?.pins,
+      nineSlices: localSettings?.nineSlices
+      // No confirmations: generative fills are interactive-only, so prompts stay unconfirmed
+    });
+
+    setHandle(ctx.registries.payloadRegistry, node.id, `result-out-${i}`, payload);
+  }
+};
+
+const executeDesignReviewer = (node: PipelineNode, ctx: ExecutionContext) => {
+  const instanceCount = node.data.instanceCount || 1;
+  const reviewerInstances = node.data.reviewerInstances || {};
+
+  for (let i = 0; i < instanceCount; i++) {
+    const edge = findInputEdge(ctx, node.id, `payload-in-${i}`);
+    const incoming = edge?.sourceHandle
+      ? ctx.registries.payloadRegistry[edge.source]?.[edge.sourceHandle]
+      : undefined;
+    if (!incoming) continue;
+
+    // Apply the persisted CARO audit; the reviewer registry always marks output as polished
+    const savedStrategy = reviewerInstances[i]?.reviewerStrategy || null;
+    if (savedStrategy && !ctx.options.replayAiStrategies) {
+      ctx.diagnostics.push(`Reviewer '${node.id}' instance ${i}: persisted CARO overrides skipped (geometric retargeting).`);
+    }
+    const reviewerStrategy = ctx.options.replayAiStrategies ? savedStrategy : null;
+    const polished = polishPayload(incoming, reviewerStrategy);
+    // Deterministic collision audit always runs; its gate decides whether Export accepts the slot
+    const collisionReport = analyzeCollisions(polished, ctx.registries.psdRegistry[polished.sourceNodeId], {
+      gate: reviewerInstances[i]?.collisionGate,
+      adapter: ctx.options.canvas
+    });
+    setHandle(ctx.registries.reviewerRegistry, node.id, `polished-out-${i}`, { ...polished, isPolished: true, collisionReport });
+  }
+};
+
+const executeExportPsd = (node: PipelineNode, ctx: ExecutionContext) => {
+  const edge = findInputEdge(ctx, node.id, 'template-input');
+  const template = edge ? ctx.registries.templateRegistry[edge.source] : undefined;
+  if (!template) {
+    ctx.exports.push({ nodeId: node.id, psd: null, filledSlots: 0, totalSlots: 0, errors: ['No target template connected.'] });
+    return;
+  }
+
+  const { registries } = ctx;
+  const { slotConnections, validationErrors } = resolveExportSlots(
+    ctx.edges, node.id, registries.reviewerRegistry, registries.payloadRegistry, registries.resolvedRegistry
+  );
+
+  const errors = [...validationErrors];
+  if (slotConnections.size === 0) errors.push('No polished content connected.');
+
+  ctx.exports.push({
+    nodeId: node.id,
+    psd: errors.length === 0
+      ? assembleTargetPsd(template, slotConnections, registries.psdRegistry, ctx.options.assets, ctx.options.canvas)
+      : null,
+    filledSlots: slotConnections.size,
+    totalSlots: template.containers.length,
+    errors
+  });
+};
+
+const EXECUTORS: Record<string, (node: PipelineNode, ctx: ExecutionContext) => void> = {
+  loadPsd: executeLoadPsd,
+  targetTemplate: executeTargetTemplate,
+  templateSpec: executeTemplateSpec,
+  targetSplitter: executeTargetSplitter,
+  containerResolver: executeContainerResolver,
+  designAnalyst: executeDesignAnalyst,
+  remapper: executeRemapper,
+  designReviewer: executeDesignReviewer,
+  exportPsd: executeExportPsd,
+};
+
+// UI-only / passive nodes: they read upstream node data but never write to the registries
+const PASSIVE_NODE_TYPES = new Set(['designInfo', 'templateSplitter', 'knowledge', 'canvasPreview']);
+
+/**
+ * Headless Pipeline Engine.
+ * Executes a saved project graph (ProjectExport) without React, in topological order, using the same
+ * service functions as the node UI. AI stages are replayed from persisted node state
+ * (Analyst LayoutStrategy, Reviewer overrides) instead of calling the model.
+ *
+ * @param project The saved project graph.
+ * @param sources Parsed binary PSDs keyed by the ID of the Load PSD / Target Template node they feed.
+ * @param options Canvas implementation and pre-synthesized assets.
+ * @returns One entry per Export PSD node, plus the final registry state and diagnostics.
+ */
+export const runPipeline = (
+  project: ProjectExport,
+  sources: Record<string, Psd>,
+  options: PipelineOptions = {}
+): PipelineResult => {
+  const ctx: ExecutionContext = {
+    nodes: project.nodes,
+    edges: project.edges,
+    registries: {
+      psdRegistry: {},
+      templateRegistry: {},
+      designLayerRegistry: {},
+      resolvedRegistry: {},
+      payloadRegistry: {},
+      reviewerRegistry: {}
+    },
+    diagnostics: [],
+    exports: [],
+    sources,
+    options: {
+      canvas: options.canvas || browserCanvasAdapter,
+      assets: options.assets || new Map(),
+      sourceNames: options.sourceNames || {},
+      replayAiStrategies: options.replayAiStrategies ?? true
+    }
+  };
+
+  for (const node of sortNodesTopologically(project.nodes, project.edges)) {
+    const executor = node.type ? EXECUTORS[node.type] : undefined;
+    if (executor) {
+      executor(node, ctx);
+    } else if (!node.type || !PASSIVE_NODE_TYPES.has(node.type)) {
+      ctx.diagnostics.push(`Node '${node.id}': unsupported type '${node.type}' skipped.`);
+    }
+  }
+
+  return { exports: ctx.exports, registries: ctx.registries, diagnostics: ctx.diagnostics };
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_PROJECT_VERSION, migrateProject, ProjectMigrationError } from './projectMigrationService';
+
+const node = (id: string, type: string, data: Record<string, unknown> = {}) => ({ id, type, position: { x: 0, y: 0 }, data });
+
+const project = (nodes: ReturnType<typeof node>[], version?: string) => ({
+  ...(version ? { version } : {}),
+  timestamp: 0,
+  viewport: { x: 0, y: 0, zoom: 1 },
+  nodes,
+  edges: []
+});
+
+const migrationError = (raw: unknown): ProjectMigrationError => {
+  try {
+    migrateProject(raw);
+  } catch (err) {
+    if (err instanceof ProjectMigrationError) return err;
+    throw err;
+  }
+  throw new Error('Expected a ProjectMigrationError');
+};
+
+describe('migrateProject', () => {
+  it('upgrades unversioned projects through every step', () => {
+    const legacy = project([
+      node('analyst', 'designAnalyst', {
+        selectedModel: 'gemini-3-pro',
+        layoutStrategy: { method: 'GEOMETRIC' },
+        analystInstances: { 1: { chatHistory: [], layoutStrategy: null, selectedModel: 'gemini-3-flash' } }
+      }),
+      node('remap', 'remapper', { transformedPayload: { status: 'success' } })
+    ]);
+
+    const result = migrateProject(legacy);
+
+    expect(result.fromVersion).toBe('1.0.0');
+    expect(result.toVersion).toBe(CURRENT_PROJECT_VERSION);
+    expect(result.project.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(result.project.nodes[0].data).toEqual({
+      analystInstances: {
+        0: { chatHistory: [], layoutStrategy: { method: 'GEOMETRIC' }, selectedModel: 'gemini-3-pro', isKnowledgeMuted: false },
+        1: { chatHistory: [], layoutStrategy: null, selectedModel: 'gemini-3-flash', isKnowledgeMuted: false }
+      }
+    });
+    expect(result.project.nodes[1].data).toEqual({});
+    expect(result.changes).toEqual([
+      { version: '1.1.0', nodeId: 'analyst', message: 'Moved legacy layoutStrategy/selectedModel/chatHistory into analystInstances[0].' },
+      { version: '1.1.0', nodeId: 'analyst', message: 'analystInstances[1]: defaulted isKnowledgeMuted.' },
+      { version: '1.2.0', nodeId: 'remap', message: 'Removed stale transformedPayload.' }
+    ]);
+  });
+
+  it('leaves current projects untouched', () => {
+    const current = project([node('load', 'loadPsd', { fileName: 'hero.psd' })], CURRENT_PROJECT_VERSION);
+
+    expect(migrateProject(current)).toEqual({ project: current, fromVersion: CURRENT_PROJECT_VERSION, toVersion: CURRENT_PROJECT_VERSION, changes: [] });
+  });
+
+  it('rejects files it cannot upgrade', () => {
+    expect(migrationError([]).message).toBe('Project file is not a JSON object.');
+    expect(migrationError(project([], '99.0.0')).message).toMatch(/is newer than this runtime/);
+    expect(migrationError(project([], '0.9.0')).message).toBe('No migration path from project version 0.9.0.');
+    expect(migrationError({ nodes: [null] }).message).toBe('Project file has no node list to migrate.');
+  });
+
+  it('names nodes by ID in schema issues', () => {
+    const invalid = project([node('remap', 'remapper', { instanceCount: 0, instanceSettings: { first: {} } })], CURRENT_PROJECT_VERSION);
+
+    expect(migrationError(invalid).issues).toEqual([
+      "node 'remap'.data.instanceCount: Too small: expected number to be >0",
+      "node 'remap'.data.instanceSettings.first: Invalid key in record"
+    ]);
+  });
+});
@@ -0,0 +1,290 @@
+import { z } from 'zod';
+import { ProjectExport } from '../types';
+import { DEFAULT_ANALYST_STATE } from './analystService';
+
+/**
+ * Project Schema Versioning.
+ * Every saved project carries `version`. Older files are upgraded one registered step at a time
+ * (1.0.0 -> 1.1.0 -> ...), then validated against the current schema before they reach React Flow.
+ *
+ * To change the persisted format: bump CURRENT_PROJECT_VERSION, append a migration from the previous
+ * version and update `projectSchema`.
+ */
+
+export const CURRENT_PROJECT_VERSION = '1.2.0';
+
+// Files written before versioning was enforced may lack the field entirely
+const UNVERSIONED_PROJECT_VERSION = '1.0.0';
+
+export interface MigrationChange {
+  version: string; // Version the change upgraded to
+  nodeId?: string;
+  message: string;
+}
+
+/**
+ * Project shape a migration step may rely on: only the node list is guaranteed, everything else is
+ * whatever the older version wrote.
+ */
+export type LooseProject = {
+  version?: unknown;
+  nodes: Array<{ id: string; type?: string; data?: Record<string, unknown> }>;
+} & Record<string, unknown>;
+
+export interface ProjectMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (project: LooseProject, note: (message: string, nodeId?: string) => void) => LooseProject;
+}
+
+export interface MigrationResult {
+  project: ProjectExport;
+  fromVersion: string;
+  toVersion: string;
+  changes: MigrationChange[];
+}
+
+/**
+ * Raised when a project cannot be upgraded (unknown or newer version) or does not satisfy the
+ * current schema after migration. `issues` lists one readable entry per schema violation.
+ */
+export class ProjectMigrationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'ProjectMigrationError';
+    this.issues = issues;
+  }
+}
+
+const LEGACY_ANALYST_FIELDS = ['layoutStrategy', 'selectedModel', 'chatHistory'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLooseProject = (project: Record<string, unknown>): project is LooseProject =>
+  Array.isArray(project.nodes) && project.nodes.every(isObject);
+
+// --- MIGRATION REGISTRY ---
+// Ordered chain; each step receives the output of the previous one.
+export const PROJECT_MIGRATIONS: ProjectMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.1.0',
+    description: 'Move legacy single-instance Design Analyst state into analystInstances[0]',
+    migrate: (project, note) => ({
+      ...project,
+      nodes: project.nodes.map(node => {
+        if (node.type !== 'designAnalyst' || !isObject(node.data)) return node;
+        const data = { ...node.data };
+        const hasLegacy = LEGACY_ANALYST_FIELDS.some(field => data[field] !== undefined && data[field] !== null);
+
+        const instances: Record<string, unknown> = { ...(isObject(data.analystInstances) ? data.analystInstances : {}) };
+        if (hasLegacy && !instances[0]) {
+          instances[0] = {
+            ...DEFAULT_ANALYST_STATE,
+            ...(data.chatHistory ? { chatHistory: data.chatHistory } : {}),
+            ...(data.layoutStrategy ? { layoutStrategy: data.layoutStrategy } : {}),
+            ...(data.selectedModel ? { selectedModel: data.selectedModel } : {})
+          };
+          note('Moved legacy layoutStrategy/selectedModel/chatHistory into analystInstances[0].', node.id);
+        } else if (hasLegacy) {
+          note('Dropped legacy analyst fields (analystInstances[0] already present).', node.id);
+        }
+        LEGACY_ANALYST_FIELDS.forEach(field => { delete data[field]; });
+
+        // Instances saved before isKnowledgeMuted/selectedModel existed
+        Object.keys(instances).forEach(key => {
+          const instance = instances[key];
+          if (!isObject(instance)) return; // Left for schema validation to report
+          const missing = Object.keys(DEFAULT_ANALYST_STATE).filter(field => instance[field] === undefined);
+          if (missing.length === 0) return;
+          instances[key] = { ...DEFAULT_ANALYST_STATE, ...instance };
+          note(`analystInstances[${key}]: defaulted ${missing.join(', ')}.`, node.id);
+        });
+
+        if (Object.keys(instances).length > 0) data.analystInstances = instances;
+        return { ...node, data };
+      })
+    })
+  },
+  {
+    from: '1.1.0',
+    to: '1.2.0',
+    description: 'Drop persisted Remapper transformedPayload mirrors (payloads are recomputed from the graph)',
+    migrate: (project, note) => ({
+      ...project,
+      nodes: project.nodes.map(node => {
+        if (!isObject(node.data) || node.data.transformedPayload === undefined) return node;
+        const { transformedPayload: _, ...data } = node.data;
+        note('Removed stale transformedPayload.', node.id);
+        return { ...node, data };
+      })
+    })
+  }
+];
+
+// --- CURRENT SCHEMA ---
+// Node data stays open (loose) so transient UI fields do not fail validation; persisted decision
+// state is checked strictly because downstream nodes replay it without further guards.
+const indexedRecord = <T extends z.ZodType>(schema: T) => z.record(z.string().regex(/^\d+$/, 'expected an instance index'), schema);
+
+const chatMessageSchema = z.looseObject({
+  id: z.string(),
+  role: z.enum(['user', 'model']),
+  parts: z.array(z.object({ text: z.string() })),
+  timestamp: z.number()
+});
+
+const nodeDataSchema = z.looseObject({
+  fileName: z.string().nullable().optional(),
+  template: z.looseObject({
+    canvas: z.object({ width: z.number(), height: z.number() }),
+    containers: z.array(z.looseObject({ name: z.string() }))
+  }).nullable().optional(),
+  templateSpec: z.object({
+    format: z.enum(['json', 'yaml']),
+    source: z.string(),
+    presetId: z.string().nullable().optional()
+  }).nullable().optional(),
+  templateEdited: z.boolean().optional(),
+  channelCount: z.number().int().positive().optional(),
+  matchRules: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(['alias', 'regex', 'glob']),
+    container: z.string(),
+    pattern: z.string(),
+    caseSensitive: z.boolean().optional(),
+    enabled: z.boolean().optional()
+  })).optional(),
+  instanceCount: z.number().int().positive().optional(),
+  analystInstances: indexedRecord(z.looseObject({
+    chatHistory: z.array(chatMessageSchema),
+    layoutStrategy: z.looseObject({}).nullable(),
+    selectedModel: z.enum(['gemini-3-flash', 'gemini-3-pro', 'gemini-3-pro-thinking']),
+    isKnowledgeMuted: z.boolean(),
+    mode: z.enum(['ai', 'solver']).optional(),
+    solverRules: z.array(z.discriminatedUnion('kind', [
+      z.object({ id: z.string(), kind: z.literal('corner'), target: z.string(), corner: z.enum(['top-left', 'top-right', 'bottom-left', 'bottom-right']), maxDistancePercent: z.number(), enabled: z.boolean().optional() }),
+      z.object({ id: z.string(), kind: z.literal('min-text-height'), target: z.string(), minPx: z.number(), enabled: z.boolean().optional() }),
+      z.object({ id: z.string(), kind: z.literal('distribute'), target: z.string(), axis: z.enum(['x', 'y']), enabled: z.boolean().optional() }),
+      z.object({ id: z.string(), kind: z.literal('avoid-overlap'), target: z.string(), gap: z.number(), enabled: z.boolean().optional() })
+    ])).optional()
+  })).optional(),
+  reviewerInstances: indexedRecord(z.looseObject({
+    chatHistory: z.array(chatMessageSchema),
+    reviewerStrategy: z.looseObject({}).nullable(),
+    collisionGate: z.enum(['off', 'warning', 'error']).optional()
+  })).optional(),
+  instanceSettings: indexedRecord(z.object({
+    generationAllowed: z.boolean().optional(),
+    strategy: z.string().optional(),
+    pins: z.record(z.string(), z.object({
+      x: z.enum(['left', 'right', 'center', 'stretch']).optional(),
+      y: z.enum(['top', 'bottom', 'center', 'stretch']).optional(),
+      fixedSize: z.boolean().optional()
+    })).optional(),
+    nineSlices: z.record(z.string(), z.object({
+      top: z.number().min(0),
+      right: z.number().min(0),
+      bottom: z.number().min(0),
+      left: z.number().min(0)
+    })).optional()
+  })).optional(),
+  confirmedGenerations: indexedRecord(z.object({ prompt: z.string(), imageUrl: z.string() })).optional(),
+  knowledgeContext: z.object({
+    sourceNodeId: z.string(),
+    rules: z.string(),
+    visualAnchors: z.array(z.object({ mimeType: z.string(), data: z.string() }))
+  }).nullable().optional(),
+  // Legacy single-instance fields must have been migrated away
+  layoutStrategy: z.never().optional(),
+  selectedModel: z.never().optional(),
+  chatHistory: z.never().optional(),
+  transformedPayload: z.never().optional()
+});
+
+export const projectSchema = z.looseObject({
+  version: z.literal(CURRENT_PROJECT_VERSION),
+  timestamp: z.number(),
+  nodes: z.array(z.looseObject({
+    id: z.string().min(1),
+    type: z.string().optional(),
+    position: z.object({ x: z.number(), y: z.number() }),
+    data: nodeDataSchema
+  })),
+  edges: z.array(z.looseObject({
+    id: z.string(),
+    source: z.string(),
+    target: z.string(),
+    sourceHandle: z.string().nullable().optional(),
+    targetHandle: z.string().nullable().optional()
+  })),
+  viewport: z.object({ x: z.number(), y: z.number(), zoom: z.number() })
+});
+
+// --- HELPER: Version Ordering ---
+const compareVersions = (a: string, b: string): number => {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const formatIssue = (issue: z.core.$ZodIssue, project: Record<string, unknown>): string => {
+  const path = issue.path.map(segment => String(segment));
+  // Name nodes by ID rather than array position
+  const node = path[0] === 'nodes' && Array.isArray(project.nodes) ? project.nodes[Number(path[1])] : undefined;
+  if (isObject(node) && typeof node.id === 'string' && node.id) {
+    path.splice(0, 2, `node '${node.id}'`);
+  }
+  return `${path.join('.') || 'project'}: ${issue.message}`;
+};
+
+/**
+ * Upgrades a parsed project file to CURRENT_PROJECT_VERSION and validates it against `projectSchema`.
+ *
+ * @param raw Parsed JSON of any supported version.
+ * @returns The upgraded project plus a per-node list of what each migration changed.
+ * @throws ProjectMigrationError for unsupported versions or schema violations.
+ */
+export const migrateProject = (raw: unknown): MigrationResult => {
+  if (!isObject(raw)) {
+    throw new ProjectMigrationError('Project file is not a JSON object.');
+  }
+
+  const fromVersion = typeof raw.version === 'string' ? raw.version : UNVERSIONED_PROJECT_VERSION;
+  if (compareVersions(fromVersion, CURRENT_PROJECT_VERSION) > 0) {
+    throw new ProjectMigrationError(`Project version ${fromVersion} is newer than this runtime (${CURRENT_PROJECT_VERSION}).`);
+  }
+
+  const changes: MigrationChange[] = [];
+  let project: Record<string, unknown> = { ...raw, version: fromVersion };
+
+  // 1. Walk the migration chain
+  while (project.version !== CURRENT_PROJECT_VERSION) {
+    const step = PROJECT_MIGRATIONS.find(m => m.from === project.version);
+    if (!step) {
+      throw new ProjectMigrationError(`No migration path from project version ${project.version}.`);
+    }
+    if (!isLooseProject(project)) {
+      throw new ProjectMigrationError('Project file has no node list to migrate.');
+    }
+    const note = (message: string, nodeId?: string) => changes.push({ version: step.to, nodeId, message });
+    project = { ...step.migrate(project, note), version: step.to };
+  }
+
+  // 2. Validate against the current schema
+  const parsed = projectSchema.safeParse(project);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => formatIssue(issue, project));
+    throw new ProjectMigrationError(`Project does not match schema ${CURRENT_PROJECT_VERSION} (${issues.length} issue${issues.length === 1 ? '' : 's'}).`, issues);
+  }
+
+  return { project: project as unknown as ProjectExport, fromVersion, toVersion: CURRENT_PROJECT_VERSION, changes };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Node } from 'reactflow';
+import { ProjectExport } from '../types';
+import { PACKAGE_VERSION, isProjectPackage, packProject, unpackProject } from './projectPackageService';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+const JPEG_BASE64 = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAP//////////////////////////////////////////////////////////////////////////////////////wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACf/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AKp//2Q==';
+const GENERATION_URL = `data:image/jpeg;base64,${JPEG_BASE64}`;
+
+// Every byte value, so encoding slips show up
+const PSD_BYTES = Uint8Array.from({ length: 512 }, (_, i) => i % 256);
+
+const node = (id: string, type: string, data: Record<string, unknown>): Node => ({ id, type, position: { x: 0, y: 0 }, data });
+
+const project = (): ProjectExport => ({
+  version: '1.0.0',
+  timestamp: 1,
+  nodes: [
+    node('load', 'loadPsd', { fileName: 'key art.psd', template: null, validation: null, designLayers: null }),
+    node('knowledge', 'knowledge', {
+      knowledgeContext: { sourceNodeId: 'knowledge', rules: 'Keep the logo top-left.', visualAnchors: [{ mimeType: 'image/png', data: PNG_BASE64 }] }
+    }),
+    node('remap', 'remapper', {
+      confirmedGenerations: { 1: { prompt: 'Extend the sky', imageUrl: GENERATION_URL } }
+    })
+  ],
+  edges: [],
+  viewport: { x: 0, y: 0, zoom: 1 }
+});
+
+describe('packProject / unpackProject', () => {
+  it('round-trips binaries, knowledge anchors and confirmed generations', async () => {
+    const bytes = await packProject(project(), {
+      load: { fileName: 'key art.psd', data: PSD_BYTES },
+      removed: { fileName: 'orphan.psd', data: PSD_BYTES }
+    });
+    expect(isProjectPackage(bytes)).toBe(true);
+
+    // Images live in files, not in project.json
+    const files = unzipSync(bytes);
+    const stored = JSON.parse(strFromU8(files['project.json'])) as ProjectExport;
+    expect(stored.nodes[1].data.knowledgeContext!.visualAnchors[0].data).toBe('');
+    expect(stored.nodes[2].data.confirmedGenerations![1].imageUrl).toBe('');
+
+    const { project: restored, binaries } = await unpackProject(bytes);
+
+    expect(restored).toEqual(project());
+    expect(restored.nodes[1].data.knowledgeContext!.visualAnchors[0].data).toBe(PNG_BASE64);
+    expect(restored.nodes[2].data.confirmedGenerations![1].imageUrl).toBe(GENERATION_URL);
+    expect(binaries).toHaveLength(1);
+    expect(binaries[0]).toMatchObject({ nodeId: 'load', fileName: 'key art.psd' });
+    expect(Array.from(binaries[0].data)).toEqual(Array.from(PSD_BYTES));
+  });
+
+  it('rejects packages written by a newer runtime', async () => {
+    const files = unzipSync(await packProject(project(), {}));
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+    files['manifest.json'] = strToU8(JSON.stringify({ ...manifest, version: PACKAGE_VERSION + 1 }));
+
+    await expect(unpackProject(zipSync(files))).rejects.toThrow(`Project package version ${PACKAGE_VERSION + 1} is newer than this runtime`);
+  });
+});
@@ -0,0 +1,235 @@
+import { zip, unzip, strToU8, strFromU8, Zippable, Unzipped } from 'fflate';
+import { ProjectExport, PSDNodeData, VisualAnchor, ConfirmedGeneration } from '../types';
+import type { Node } from 'reactflow';
+
+/**
+ * Project Packages.
+ * A zip container bundling the graph JSON with everything a plain JSON save leaves behind:
+ * source/target PSD binaries, Knowledge visual anchors and confirmed generative images.
+ *
+ * Layout:
+ *   manifest.json                       PackageManifest (format marker + file index)
+ *   project.json                        ProjectExport with binary payloads stripped
+ *   binaries/<nodeId>/<fileName>        Original PSD bytes per Load PSD / Target Template node
+ *   assets/knowledge/<nodeId>/<i>.<ext> Knowledge visual anchors
+ *   assets/generations/<nodeId>/<i>.<ext> Confirmed Remapper generations
+ */
+
+export const PACKAGE_FORMAT = 'psd-procedural-package';
+export const PACKAGE_VERSION = 1;
+
+export interface PackageBinaryEntry {
+  nodeId: string;
+  fileName: string;
+  path: string;
+}
+
+export interface PackageAssetEntry {
+  nodeId: string;
+  kind: 'knowledgeAnchor' | 'confirmedGeneration';
+  index: number; // Anchor position / Remapper instance index
+  mimeType: string;
+  path: string;
+}
+
+export interface PackageManifest {
+  format: typeof PACKAGE_FORMAT;
+  version: number;
+  createdAt: number;
+  binaries: PackageBinaryEntry[];
+  assets: PackageAssetEntry[];
+}
+
+export interface PackageSourceFile {
+  fileName: string;
+  data: Uint8Array;
+}
+
+export interface UnpackedProject {
+  project: ProjectExport;
+  binaries: (PackageSourceFile & { nodeId: string })[];
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+// Compression per entry: PSD channel data still deflates well, images are already compressed
+const BINARY_LEVEL = 1;
+const IMAGE_LEVEL = 0;
+const JSON_LEVEL = 6;
+
+// --- HELPER: Encoding ---
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000; // Avoids call-stack limits of String.fromCharCode(...largeArray)
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const parseDataUrl = (url: string): { mimeType: string; bytes: Uint8Array } | null => {
+  const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(url);
+  if (!match) return null;
+  const bytes = match[2] ? base64ToBytes(match[3]) : strToU8(decodeURIComponent(match[3]));
+  return { mimeType: match[1], bytes };
+};
+
+const toPathSegment = (value: string): string => encodeURIComponent(value).replace(/%20/g, '_');
+
+const extensionFor = (mimeType: string): string => MIME_EXTENSIONS[mimeType] || 'bin';
+
+const zipAsync = (files: Zippable): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => zip(files, (err, data) => err ? reject(err) : resolve(data)));
+
+const unzipAsync = (data: Uint8Array): Promise<Unzipped> =>
+  new Promise((resolve, reject) => unzip(data, (err, files) => err ? reject(err) : resolve(files)));
+
+/**
+ * Detects a project package by the zip local-file-header signature ("PK\x03\x04").
+ */
+export const isProjectPackage = (bytes: Uint8Array): boolean =>
+  bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+/**
+ * Bundles a project and its binaries into a zip package.
+ * Knowledge anchors and confirmed generations are moved out of node data into image files,
+ * so project.json inside the package stays as light as a plain JSON save.
+ *
+ * @param project The graph export (nodes still carrying anchors / confirmed generations).
+ * @param sourceFiles Original PSD bytes keyed by node ID. Nodes without an entry reopen dehydrated.
+ */
+export const packProject = async (project: ProjectExport, sourceFiles: Record<string, PackageSourceFile>): Promise<Uint8Array> => {
+  const files: Zippable = {};
+  const manifest: PackageManifest = {
+    format: PACKAGE_FORMAT,
+    version: PACKAGE_VERSION,
+    createdAt: Date.now(),
+    binaries: [],
+    assets: []
+  };
+
+  const addAsset = (entry: Omit<PackageAssetEntry, 'path'>, bytes: Uint8Array, folder: string): string => {
+    const path = `assets/${folder}/${toPathSegment(entry.nodeId)}/${entry.index}.${extensionFor(entry.mimeType)}`;
+    files[path] = [bytes, { level: IMAGE_LEVEL }];
+    manifest.assets.push({ ...entry, path });
+    return path;
+  };
+
+  // 1. Extract embedded images from node data
+  const nodes: Node<PSDNodeData>[] = project.nodes.map(node => {
+    let data = node.data;
+
+    const anchors = data.knowledgeContext?.visualAnchors;
+    if (anchors && anchors.length > 0) {
+      const strippedAnchors: VisualAnchor[] = anchors.map((anchor, index) => {
+        if (!anchor.data) return anchor;
+        addAsset({ nodeId: node.id, kind: 'knowledgeAnchor', index, mimeType: anchor.mimeType }, base64ToBytes(anchor.data), 'knowledge');
+        return { ...anchor, data: '' };
+      });
+      data = { ...data, knowledgeContext: { ...data.knowledgeContext!, visualAnchors: strippedAnchors } };
+    }
+
+    if (data.confirmedGenerations) {
+      const stripped: Record<number, ConfirmedGeneration> = {};
+      Object.entries(data.confirmedGenerations).forEach(([key, generation]) => {
+        const index = Number(key);
+        const parsed = parseDataUrl(generation.imageUrl);
+        if (parsed) {
+          addAsset({ nodeId: node.id, kind: 'confirmedGeneration', index, mimeType: parsed.mimeType }, parsed.bytes, 'generations');
+        }
+        stripped[index] = { ...generation, imageUrl: parsed ? '' : generation.imageUrl };
+      });
+      data = { ...data, confirmedGenerations: stripped };
+    }
+
+    return data === node.data ? node : { ...node, data };
+  });
+
+  // 2. Source binaries
+  Object.entries(sourceFiles).forEach(([nodeId, file]) => {
+    if (!project.nodes.some(n => n.id === nodeId)) return;
+    const path = `binaries/${toPathSegment(nodeId)}/${toPathSegment(file.fileName)}`;
+    files[path] = [file.data, { level: BINARY_LEVEL }];
+    manifest.binaries.push({ nodeId, fileName: file.fileName, path });
+  });
+
+  files['manifest.json'] = [strToU8(JSON.stringify(manifest, null, 2)), { level: JSON_LEVEL }];
+  files['project.json'] = [strToU8(JSON.stringify({ ...project, nodes }, null, 2)), { level: JSON_LEVEL }];
+
+  return zipAsync(files);
+};
+
+/**
+ * Reads a project package back into a ProjectExport (with anchors / confirmed generations
+ * re-embedded into node data) plus the PSD binaries to re-register per node.
+ *
+ * @throws Error when the zip is not a project package or references missing entries.
+ */
+export const unpackProject = async (bytes: Uint8Array): Promise<UnpackedProject> => {
+  const files = await unzipAsync(bytes);
+
+  const readJson = <T>(path: string): T => {
+    const entry = files[path];
+    if (!entry) throw new Error(`Invalid project package: missing ${path}.`);
+    return JSON.parse(strFromU8(entry)) as T;
+  };
+
+  const manifest = readJson<PackageManifest>('manifest.json');
+  if (manifest.format !== PACKAGE_FORMAT) {
+    throw new Error(`Invalid project package: unknown format '${manifest.format}'.`);
+  }
+  if (manifest.version > PACKAGE_VERSION) {
+    throw new Error(`Project package version ${manifest.version} is newer than this runtime (${PACKAGE_VERSION}).`);
+  }
+
+  const project = readJson<ProjectExport>('project.json');
+
+  const readEntry = (path: string): Uint8Array => {
+    const entry = files[path];
+    if (!entry) throw new Error(`Invalid project package: missing ${path}.`);
+    return entry;
+  };
+
+  // 1. Re-embed images into node data
+  const nodesById = new Map(project.nodes.map(node => [node.id, node]));
+  manifest.assets.forEach(asset => {
+    const node = nodesById.get(asset.nodeId);
+    if (!node) return;
+    const base64 = bytesToBase64(readEntry(asset.path));
+
+    if (asset.kind === 'knowledgeAnchor' && node.data.knowledgeContext) {
+      const anchors = [...node.data.knowledgeContext.visualAnchors];
+      if (anchors[asset.index]) anchors[asset.index] = { ...anchors[asset.index], data: base64 };
+      node.data = { ...node.data, knowledgeContext: { ...node.data.knowledgeContext, visualAnchors: anchors } };
+    }
+
+    if (asset.kind === 'confirmedGeneration' && node.data.confirmedGenerations?.[asset.index]) {
+      node.data = {
+        ...node.data,
+        confirmedGenerations: {
+          ...node.data.confirmedGenerations,
+          [asset.index]: { ...node.data.confirmedGenerations[asset.index], imageUrl: `data:${asset.mimeType};base64,${base64}` }
+        }
+      };
+    }
+  });
+
+  // 2. Binaries
+  const binaries = manifest.binaries
+    .filter(binary => nodesById.has(binary.nodeId))
+    .map(binary => ({ nodeId: binary.nodeId, fileName: binary.fileName, data: readEntry(binary.path) }));
+
+  return { project, binaries };
+};
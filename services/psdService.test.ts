@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { Layer, Psd } from 'ag-psd';
+import { LayerPin, NineSliceInsets } from '../types';
+import { extractTemplateMetadata, formatLayerNineSlice, formatLayerPin, parseContainerName, parseLayerNineSlice, parseLayerPin } from './psdService';
+
+const rect = (name: string, left: number, top: number, right: number, bottom: number): Layer => ({ name, left, top, right, bottom });
+
+describe('parseContainerName', () => {
+  it('returns the clean name of an untagged container', () => {
+    expect(parseContainerName('!!HERO')).toEqual({ name: 'HERO', warnings: [] });
+    expect(parseContainerName('!!')).toEqual({ name: 'Untitled', warnings: [] });
+  });
+
+  it('parses every constraint tag', () => {
+    expect(parseContainerName('!!LOGO [anchor=Top-Right, minScale=0.5, maxScale=1.25, lockAspect, padding=24]')).toEqual({
+      name: 'LOGO',
+      constraints: { anchor: 'top-right', minScale: 0.5, maxScale: 1.25, lockAspect: true, padding: 24 },
+      warnings: []
+    });
+    expect(parseContainerName('!!BG [lockAspect=false, padding=0]').constraints).toEqual({ lockAspect: false, padding: 0 });
+  });
+
+  it('skips unknown anchors, unknown keys and non-numeric values with warnings', () => {
+    expect(parseContainerName('!!LOGO [anchor=middle, size=2, padding=wide, minScale=-1, lockAspect=maybe]')).toEqual({
+      name: 'LOGO',
+      constraints: undefined,
+      warnings: [
+        "LOGO: unknown anchor 'middle' (expected top-left, top, top-right, left, center, right, bottom-left, bottom, bottom-right).",
+        "LOGO: unknown tag 'size'.",
+        "LOGO: 'padding' expects a number >= 0, got 'wide'.",
+        `LOGO: 'minScale' expects a number >= ${Number.MIN_VALUE}, got '-1'.`,
+        "LOGO: 'lockAspect' expects true or false, got 'maybe'."
+      ]
+    });
+    expect(parseContainerName('!!LOGO [maxScale]').warnings).toEqual([`LOGO: 'maxScale' expects a number >= ${Number.MIN_VALUE}, got ''.`]);
+  });
+
+  it('drops a minScale above maxScale but keeps the other tags', () => {
+    expect(parseContainerName('!!LOGO [minScale=2, maxScale=1, anchor=bottom]')).toEqual({
+      name: 'LOGO',
+      constraints: { anchor: 'bottom' },
+      warnings: ['LOGO: minScale 2 exceeds maxScale 1; both ignored.']
+    });
+  });
+});
+
+describe('parseContainerName zones', () => {
+  it('recognises zone layers on the whole name or a zone tag', () => {
+    expect(parseContainerName('SAFE').zone).toBe('safe');
+    expect(parseContainerName('Safe Area').zone).toBe('safe');
+    expect(parseContainerName('SAFE_ZONE').zone).toBe('safe');
+    expect(parseContainerName('KEEP-OUT 2').zone).toBe('keepout');
+    expect(parseContainerName('legal box [zone=keepout]').zone).toBe('keepout');
+  });
+
+  it('treats containers and look-alike frame art as non-zones', () => {
+    expect(parseContainerName('!!SAFE').zone).toBeUndefined();
+    expect(parseContainerName('Safe Button').zone).toBeUndefined();
+    expect(parseContainerName('keep-out legal').zone).toBeUndefined();
+  });
+
+  it('warns about unknown zone kinds', () => {
+    expect(parseContainerName('frame [zone=bleed]')).toEqual({
+      name: 'frame',
+      constraints: undefined,
+      zone: undefined,
+      warnings: ["frame: 'zone' expects safe or keepout, got 'bleed'."]
+    });
+  });
+});
+
+describe('extractTemplateMetadata', () => {
+  it('reads nested containers and passes zones down to them', () => {
+    const psd: Psd = {
+      width: 200,
+      height: 100,
+      children: [{
+        name: '!!TEMPLATE',
+        children: [{
+          name: '!!CARD',
+          children: [
+            rect('frame', 0, 0, 200, 100),
+            rect('SAFE', 10, 10, 190, 90),
+            { name: '!!SAFE', children: [rect('button', 20, 60, 80, 80)] }
+          ]
+        }]
+      }]
+    };
+
+    const { containers } = extractTemplateMetadata(psd);
+    const safeZone = { name: 'SAFE', kind: 'safe', container: 'CARD', bounds: { x: 10, y: 10, w: 180, h: 80 } };
+
+    expect(containers.map(c => [c.name, c.parentName])).toEqual([['CARD', undefined], ['SAFE', 'CARD']]);
+    expect(containers[0]).toMatchObject({ bounds: { x: 0, y: 0, w: 200, h: 100 }, zones: [safeZone] });
+    expect(containers[1]).toMatchObject({ bounds: { x: 20, y: 60, w: 60, h: 20 }, zones: [safeZone] });
+  });
+});
+
+describe('parseLayerPin / formatLayerPin', () => {
+  it('parses edge combinations and the fixed flag', () => {
+    expect(parseLayerPin('logo [pin=bottom-right, fixed]').pin).toEqual({ x: 'right', y: 'bottom', fixedSize: true });
+    expect(parseLayerPin('bar [pin=left-right]').pin).toEqual({ x: 'stretch' });
+    expect(parseLayerPin('rail [pin=top-bottom]').pin).toEqual({ y: 'stretch' });
+    expect(parseLayerPin('bg [pin=stretch]').pin).toEqual({ x: 'stretch', y: 'stretch' });
+    expect(parseLayerPin('title [pin=top-center]').pin).toEqual({ x: 'center', y: 'top' });
+    expect(parseLayerPin('cta [PIN=Hcenter]').pin).toEqual({ x: 'center' });
+    expect(parseLayerPin('icon [fixed]').pin).toEqual({ fixedSize: true });
+  });
+
+  it('ignores ordinary bracketed names', () => {
+    expect(parseLayerPin('Headline [v2]')).toEqual({ warnings: [] });
+    expect(parseLayerPin('Headline')).toEqual({ warnings: [] });
+  });
+
+  it('warns about malformed pin tags', () => {
+    const tokens = 'left, right, top, bottom, center, hcenter, vcenter, stretch';
+
+    expect(parseLayerPin('logo [pin=middle]')).toEqual({ warnings: [`logo [pin=middle]: unknown pin 'middle' (combine ${tokens} with hyphens).`] });
+    expect(parseLayerPin('logo [pin=]')).toEqual({ warnings: [`logo [pin=]: unknown pin '' (combine ${tokens} with hyphens).`] });
+    // The fixed flag survives a broken pin
+    expect(parseLayerPin('logo [pin=top-side, fixed]')).toMatchObject({ pin: { fixedSize: true }, warnings: [expect.stringContaining("unknown pin 'top-side'")] });
+  });
+
+  it('round-trips every pin through a name tag', () => {
+    const pins: LayerPin[] = [
+      { x: 'right', y: 'bottom', fixedSize: true },
+      { x: 'left' },
+      { y: 'top' },
+      { x: 'center', y: 'center' },
+      { x: 'center', y: 'bottom' },
+      { x: 'stretch', y: 'stretch' },
+      { x: 'stretch', y: 'center' },
+      { y: 'stretch', fixedSize: true },
+      { fixedSize: true }
+    ];
+
+    pins.forEach(pin => expect(parseLayerPin(`layer [${formatLayerPin(pin)}]`)).toEqual({ pin, warnings: [] }));
+    expect(formatLayerPin({ x: 'right', y: 'bottom', fixedSize: true })).toBe('pin=bottom-right, fixed');
+  });
+});
+
+describe('parseLayerNineSlice / formatLayerNineSlice', () => {
+  it('expands the CSS shorthand forms', () => {
+    expect(parseLayerNineSlice('panel [slice=12]').nineSlice).toEqual({ top: 12, right: 12, bottom: 12, left: 12 });
+    expect(parseLayerNineSlice('panel [slice=8 16]').nineSlice).toEqual({ top: 8, right: 16, bottom: 8, left: 16 });
+    expect(parseLayerNineSlice('panel [slice=8 16 12]').nineSlice).toEqual({ top: 8, right: 16, bottom: 12, left: 16 });
+    expect(parseLayerNineSlice('panel [pin=left-right, slice=8 16 12 4]').nineSlice).toEqual({ top: 8, right: 16, bottom: 12, left: 4 });
+  });
+
+  it('treats zero insets as no slicing', () => {
+    expect(parseLayerNineSlice('panel [slice=0]')).toEqual({ warnings: [] });
+    expect(parseLayerNineSlice('panel [pin=top]')).toEqual({ warnings: [] });
+  });
+
+  it('warns about malformed insets', () => {
+    const warning = (value: string) => `panel [slice=${value}]: invalid slice '${value}' (1-4 non-negative pixel insets: top right bottom left).`;
+
+    ['', 'wide', '8 -2', '1 2 3 4 5'].forEach(value => {
+      expect(parseLayerNineSlice(`panel [slice=${value}]`)).toEqual({ warnings: [warning(value)] });
+    });
+  });
+
+  it('round-trips insets through the shortest tag', () => {
+    const cases: [NineSliceInsets, string][] = [
+      [{ top: 12, right: 12, bottom: 12, left: 12 }, 'slice=12'],
+      [{ top: 8, right: 16, bottom: 8, left: 16 }, 'slice=8 16'],
+      [{ top: 8, right: 16, bottom: 12, left: 16 }, 'slice=8 16 12'],
+      [{ top: 8, right: 16, bottom: 12, left: 4 }, 'slice=8 16 12 4'],
+      [{ top: 0, right: 6, bottom: 0, left: 0 }, 'slice=0 6 0 0']
+    ];
+
+    cases.forEach(([insets, tag]) => {
+      expect(formatLayerNineSlice(insets)).toBe(tag);
+      expect(parseLayerNineSlice(`panel [${tag}]`).nineSlice).toEqual(insets);
+    });
+  });
+});
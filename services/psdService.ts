@@ -1,5 +1,5 @@
-import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer } from 'ag-psd';
-import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext } from '../types';
+import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer, LayerTextData } from 'ag-psd';
+import { TemplateMetadata, ContainerDefinition, ContainerConstraints, ContainerAnchor, ContainerZone, ContainerZoneKind, DesignValidationReport, ValidationIssue, SerializableLayer, LayerPin, NineSliceInsets, ContainerContext, TextLayerData, BACKDROP_COVERAGE_RATIO } from '../types';
 
 // --- Procedural Palette & Theme Logic ---
 
@@ -100,6 +100,49 @@ export interface PSDParseOptions {
   skipThumbnail?: boolean;
 }
 
+/**
+ * Parses PSD binary data using ag-psd with enhanced error handling and configuration.
+ * Environment-agnostic: used by `parsePsdFile` in the browser and by the CLI with file-system buffers.
+ * @param arrayBuffer The raw PSD bytes.
+ * @param options Configuration options for parsing.
+ * @returns The parsed Psd object.
+ */
+export const parsePsdBuffer = (arrayBuffer: ArrayBuffer, options: PSDParseOptions = {}): Psd => {
+  if (arrayBuffer.byteLength === 0) {
+    throw new Error('The provided file is empty.');
+  }
+
+  try {
+    // Configure parsing options
+    const readOptions: ReadOptions = {
+      skipLayerImageData: options.skipLayerImageData ?? false,
+      skipThumbnail: options.skipThumbnail ?? true,
+    };
+
+    // Attempt to parse the PSD
+    return readPsd(arrayBuffer, readOptions);
+
+  } catch (error: any) {
+    console.error("PSD Parsing Logic Error:", error);
+
+    // Distinguish between different types of errors
+    let errorMessage = 'Failed to parse PSD structure.';
+    
+    if (error instanceof Error) {
+      // Check for common ag-psd or format errors
+      if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
+        errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
+      } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
+         errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
+      } else {
+         errorMessage = `PSD Parsing Error: ${error.message}`;
+      }
+    }
+
+    throw new Error(errorMessage);
+  }
+};
+
 /**
  * Parses a PSD file using ag-psd with enhanced error handling and configuration.
  * @param file The File object to parse.
@@ -125,40 +168,10 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
         return;
       }
 
-      if (arrayBuffer.byteLength === 0) {
-        reject(new Error('The provided file is empty.'));
-        return;
-      }
-
       try {
-        // Configure parsing options
-        const readOptions: ReadOptions = {
-          skipLayerImageData: options.skipLayerImageData ?? false,
-          skipThumbnail: options.skipThumbnail ?? true,
-        };
-
-        // Attempt to parse the PSD
-        const psd = readPsd(arrayBuffer, readOptions);
-        resolve(psd);
-
-      } catch (error: any) {
-        console.error("PSD Parsing Logic Error:", error);
-
-        // Distinguish between different types of errors
-        let errorMessage = 'Failed to parse PSD structure.';
-        
-        if (error instanceof Error) {
-          // Check for common ag-psd or format errors
-          if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
-            errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
-          } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
-             errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
-          } else {
-             errorMessage = `PSD Parsing Error: ${error.message}`;
-          }
-        }
-
-        reject(new Error(errorMessage));
+        resolve(parsePsdBuffer(arrayBuffer, options));
+      } catch (error) {
+        reject(error);
       }
     };
 
@@ -173,9 +186,273 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
   });
 };
 
+export const CONTAINER_ANCHORS: ContainerAnchor[] = [
+  'top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'
+];
+
+// Zone layers inside container groups, matched on the whole name: SAFE, SAFE AREA, SAFE_ZONE, KEEPOUT,
+// KEEP-OUT 2, ... Anything else ("Safe Button", "keep-out legal") is frame art unless tagged `[zone=...]`
+const ZONE_NAME_PATTERN = /^(safe(?:[\s_-]?(?:area|zone))?|keep[\s_-]?out)(?:\s*\d+)?$/i;
+
+export interface ParsedContainerName {
+  name: string;
+  constraints?: ContainerConstraints;
+  zone?: ContainerZoneKind; // Set for zone layers (by name or `zone=` tag)
+  warnings: string[]; // Unknown or malformed tags (ignored)
+}
+
+/**
+ * Splits a template container layer name into its clean name and inline constraint tags.
+ * `!!LOGO [anchor=top-right, minScale=0.5, maxScale=1, lockAspect, padding=24]` -> name 'LOGO'.
+ * Flags without a value are true; unknown keys and invalid values are reported and skipped.
+ */
+export const parseContainerName = (rawName: string): ParsedContainerName => {
+  const warnings: string[] = [];
+  const match = rawName.match(/^(.*?)\s*\[([^\]]*)\]\s*$/);
+  const name = (match ? match[1] : rawName).replace(/^!!/, '').trim() || 'Untitled';
+  // `!!` layers are containers, so only plain names can be zones by name
+  const zoneMatch = rawName.startsWith('!!') ? null : name.match(ZONE_NAME_PATTERN);
+  let zone: ContainerZoneKind | undefined = zoneMatch ? (/^safe/i.test(zoneMatch[1]) ? 'safe' : 'keepout') : undefined;
+  if (!match) return { name, zone, warnings };
+
+  const constraints: ContainerConstraints = {};
+  const readNumber = (key: string, value: string | undefined, min: number): number | undefined => {
+    const num = value !== undefined ? Number(value) : NaN;
+    if (!Number.isFinite(num) || num < min) {
+      warnings.push(`${name}: '${key}' expects a number >= ${min}, got '${value ?? ''}'.`);
+      return undefined;
+    }
+    return num;
+  };
+
+  match[2].split(',').map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+    const [rawKey, ...rest] = tag.split('=');
+    const key = rawKey.trim();
+    const value = rest.length > 0 ? rest.join('=').trim() : undefined;
+
+    switch (key) {
+      case 'anchor': {
+        const anchor = value?.toLowerCase() as ContainerAnchor;
+        if (CONTAINER_ANCHORS.includes(anchor)) constraints.anchor = anchor;
+        else warnings.push(`${name}: unknown anchor '${value ?? ''}' (expected ${CONTAINER_ANCHORS.join(', ')}).`);
+        break;
+      }
+      case 'minScale':
+      case 'maxScale': {
+        const num = readNumber(key, value, Number.MIN_VALUE);
+        if (num !== undefined) constraints[key] = num;
+        break;
+      }
+      case 'padding': {
+        const num = readNumber(key, value, 0);
+        if (num !== undefined) constraints.padding = num;
+        break;
+      }
+      case 'zone':
+        if (value === 'safe' || value === 'keepout') zone = value;
+        else warnings.push(`${name}: 'zone' expects safe or keepout, got '${value ?? ''}'.`);
+        break;
+      case 'lockAspect':
+        if (value === undefined || value === 'true') constraints.lockAspect = true;
+        else if (value === 'false') constraints.lockAspect = false;
+        else warnings.push(`${name}: 'lockAspect' expects true or false, got '${value}'.`);
+        break;
+      default:
+        warnings.push(`${name}: unknown tag '${key}'.`);
+    }
+  });
+
+  if (constraints.minScale !== undefined && constraints.maxScale !== undefined && constraints.minScale > constraints.maxScale) {
+    warnings.push(`${name}: minScale ${constraints.minScale} exceeds maxScale ${constraints.maxScale}; both ignored.`);
+    delete constraints.minScale;
+    delete constraints.maxScale;
+  }
+
+  return { name, constraints: Object.keys(constraints).length > 0 ? constraints : undefined, zone, warnings };
+};
+
+/**
+ * Human-readable constraint list (UI badges and the Design Analyst prompt).
+ */
+export const describeContainerConstraints = (constraints?: ContainerConstraints): string[] => {
+  if (!constraints) return [];
+  const parts: string[] = [];
+  if (constraints.anchor) parts.push(`anchor=${constraints.anchor}`);
+  if (constraints.minScale !== undefined) parts.push(`minScale=${constraints.minScale}`);
+  if (constraints.maxScale !== undefined) parts.push(`maxScale=${constraints.maxScale}`);
+  if (constraints.lockAspect) parts.push('lockAspect');
+  if (constraints.padding !== undefined) parts.push(`padding=${constraints.padding}px`);
+  return parts;
+};
+
+/**
+ * Inverse of `parseContainerName`: `formatContainerName('LOGO', { anchor: 'top-right', lockAspect: true })`
+ * -> `!!LOGO [anchor=top-right, lockAspect]`. Used when writing template PSDs.
+ */
+export const formatContainerName = (name: string, constraints?: ContainerConstraints): string => {
+  const tags: string[] = [];
+  if (constraints?.anchor) tags.push(`anchor=${constraints.anchor}`);
+  if (constraints?.minScale !== undefined) tags.push(`minScale=${constraints.minScale}`);
+  if (constraints?.maxScale !== undefined) tags.push(`maxScale=${constraints.maxScale}`);
+  if (constraints?.lockAspect !== undefined) tags.push(constraints.lockAspect ? 'lockAspect' : 'lockAspect=false');
+  if (constraints?.padding !== undefined) tags.push(`padding=${constraints.padding}`);
+  return tags.length > 0 ? `!!${name} [${tags.join(', ')}]` : `!!${name}`;
+};
+
+/**
+ * Zone layer name that `parseContainerName` reads back as the same zone kind.
+ * Names that already say SAFE / KEEPOUT stay bare; anything else gets a `[zone=...]` tag.
+ */
+export const formatZoneName = (name: string, kind: ContainerZoneKind): string => {
+  const match = name.match(ZONE_NAME_PATTERN);
+  const impliedKind = match ? (/^safe/i.test(match[1]) ? 'safe' : 'keepout') : undefined;
+  return impliedKind === kind ? name : `${name} [zone=${kind}]`;
+};
+
+const PIN_TOKENS = ['left', 'right', 'top', 'bottom', 'center', 'hcenter', 'vcenter', 'stretch'];
+
+/**
+ * Reads the `[pin=..., fixed]` tag of a design layer name.
+ * `pin` joins edges with hyphens: `bottom-right`, `top`, `top-center`, `left-right` (stretch X),
+ * `top-bottom` (stretch Y), `stretch` (both axes), `center` (every axis not pinned otherwise) or
+ * `hcenter` / `vcenter` (one axis). `fixed` keeps the source pixel size.
+ * Brackets without pin tags are part of an ordinary name and yield no pin and no warnings.
+ */
+export const parseLayerPin = (rawName: string): { pin?: LayerPin; warnings: string[] } => {
+  const match = rawName.match(/\[([^\]]*)\]\s*$/);
+  if (!match) return { warnings: [] };
+
+  const warnings: string[] = [];
+  const pin: LayerPin = {};
+  let tagged = false;
+
+  match[1].split(',').map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+    const [rawKey, ...rest] = tag.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join('=').trim().toLowerCase();
+
+    if (key === 'fixed') {
+      tagged = true;
+      pin.fixedSize = true;
+    } else if (key === 'pin') {
+      tagged = true;
+      const tokens = value.split('-').filter(Boolean);
+      const unknown = tokens.filter(token => !PIN_TOKENS.includes(token));
+      if (tokens.length === 0 || unknown.length > 0) {
+        warnings.push(`${rawName}: unknown pin '${value}' (combine ${PIN_TOKENS.join(', ')} with hyphens).`);
+        return;
+      }
+      const has = (token: string) => tokens.includes(token);
+      if (has('hcenter')) pin.x = 'center';
+      if (has('vcenter')) pin.y = 'center';
+      if (has('left') || has('right')) pin.x = has('left') && has('right') ? 'stretch' : has('left') ? 'left' : 'right';
+      if (has('top') || has('bottom')) pin.y = has('top') && has('bottom') ? 'stretch' : has('top') ? 'top' : 'bottom';
+      if (has('stretch')) { pin.x = pin.x || 'stretch'; pin.y = pin.y || 'stretch'; }
+      if (has('center')) { pin.x = pin.x || 'center'; pin.y = pin.y || 'center'; }
+    }
+  });
+
+  return tagged && (pin.x || pin.y || pin.fixedSize) ? { pin, warnings } : { warnings };
+};
+
+/**
+ * Inverse of `parseLayerPin`: `{ x: 'right', y: 'bottom', fixedSize: true }` -> `pin=bottom-right, fixed`.
+ */
+export const formatLayerPin = (pin: LayerPin): string => {
+  const tags: string[] = [];
+  if (pin.x === 'stretch' && pin.y === 'stretch') {
+    tags.push('pin=stretch');
+  } else if (pin.x === 'center' && pin.y === 'center') {
+    tags.push('pin=center');
+  } else if (pin.x || pin.y) {
+    const y = pin.y === 'stretch' ? ['top', 'bottom'] : pin.y === 'center' ? ['vcenter'] : pin.y ? [pin.y] : [];
+    const x = pin.x === 'stretch' ? ['left', 'right'] : pin.x === 'center' ? ['hcenter'] : pin.x ? [pin.x] : [];
+    tags.push(`pin=${[...y, ...x].join('-')}`);
+  }
+  if (pin.fixedSize) tags.push('fixed');
+  return tags.join(', ');
+};
+
+/**
+ * Reads the `[slice=...]` tag of a design layer name: nine-slice insets in source pixels, written like
+ * CSS `border-image-slice` with spaces (`slice=12`, `slice=8 16`, `slice=8 16 12`, `slice=8 16 12 4`
+ * for top, right, bottom, left). Shares the bracket with pin tags: `[pin=left-right, slice=16]`.
+ */
+export const parseLayerNineSlice = (rawName: string): { nineSlice?: NineSliceInsets; warnings: string[] } => {
+  const match = rawName.match(/\[([^\]]*)\]\s*$/);
+  if (!match) return { warnings: [] };
+
+  const warnings: string[] = [];
+  let nineSlice: NineSliceInsets | undefined;
+
+  match[1].split(',').map(tag => tag.trim()).filter(Boolean).forEach(tag => {
+    const [rawKey, ...rest] = tag.split('=');
+    if (rawKey.trim().toLowerCase() !== 'slice') return;
+    const value = rest.join('=').trim();
+    const values = value.split(/\s+/).filter(Boolean).map(Number);
+    if (values.length === 0 || values.length > 4 || values.some(v => !Number.isFinite(v) || v < 0)) {
+      warnings.push(`${rawName}: invalid slice '${value}' (1-4 non-negative pixel insets: top right bottom left).`);
+      return;
+    }
+    const [top, right = top, bottom = top, left = right] = values;
+    nineSlice = { top, right, bottom, left };
+  });
+
+  return nineSlice && hasNineSlice(nineSlice) ? { nineSlice, warnings } : { warnings };
+};
+
+/**
+ * Whether insets slice anything at all (all-zero insets scale the layer as a whole).
+ */
+export const hasNineSlice = (insets?: NineSliceInsets): boolean =>
+  !!insets && (insets.top > 0 || insets.right > 0 || insets.bottom > 0 || insets.left > 0);
+
+/**
+ * Inverse of `parseLayerNineSlice`, using the shortest CSS form: `{ 8, 16, 8, 16 }` -> `slice=8 16`.
+ */
+export const formatLayerNineSlice = (insets: NineSliceInsets): string => {
+  const { top, right, bottom, left } = insets;
+  const values = left !== right ? [top, right, bottom, left]
+    : bottom !== top ? [top, right, bottom]
+    : right !== top ? [top, right]
+    : [top];
+  return `slice=${values.join(' ')}`;
+};
+
+// --- HELPER: Template Geometry ---
+type Rect = { x: number, y: number, w: number, h: number };
+
+const getLayerRect = (layer: Layer): Rect | null => {
+  const { top, left, bottom, right } = layer;
+  if (typeof top !== 'number' || typeof left !== 'number' || typeof bottom !== 'number' || typeof right !== 'number') return null;
+  if (right <= left || bottom <= top) return null;
+  return { x: left, y: top, w: right - left, h: bottom - top };
+};
+
+const unionRects = (rects: Rect[]): Rect | null => {
+  if (rects.length === 0) return null;
+  const x = Math.min(...rects.map(r => r.x));
+  const y = Math.min(...rects.map(r => r.y));
+  const right = Math.max(...rects.map(r => r.x + r.w));
+  const bottom = Math.max(...rects.map(r => r.y + r.h));
+  return { x, y, w: right - x, h: bottom - y };
+};
+
+// Groups report no reliable bounds of their own, so they span their drawn content
+const getDeepLayerRect = (layer: Layer): Rect | null => {
+  if (!layer.children) return getLayerRect(layer);
+  return unionRects(layer.children.map(getDeepLayerRect).filter((r): r is Rect => !!r)) || getLayerRect(layer);
+};
+
 /**
  * Extracts metadata for the procedural logic engine from the parsed PSD.
  * Looks for a top-level group named '!!TEMPLATE' and extracts its children as containers.
+ * Container names may carry a constraint tag block (see `parseContainerName`).
+ *
+ * Container groups may nest:
+ * - `!!`-prefixed children are sub-containers (parentName set, listed after their parent).
+ * - `SAFE` / `KEEPOUT` children (or `[zone=...]` tags) are placement zones, inherited by sub-containers.
+ * - Any other children form the container's own frame and define its bounds.
  */
 export const extractTemplateMetadata = (psd: Psd): TemplateMetadata => {
   // Default to 1 to avoid division by zero if undefined, though PSDs usually have dims.
@@ -183,44 +460,65 @@ export const extractTemplateMetadata = (psd: Psd): TemplateMetadata => {
   const canvasHeight = psd.height || 1;
 
   const containers: ContainerDefinition[] = [];
+  const warn = (warning: string) => console.warn(`Template container tag ignored: ${warning}`);
+
+  const readContainer = (layer: Layer, parentName: string | undefined, inheritedZones: ContainerZone[]) => {
+    const rawName = layer.name || 'Untitled';
+    const { name: cleanName, constraints, warnings } = parseContainerName(rawName);
+    warnings.forEach(warn);
+    if (containers.some(c => c.name === cleanName)) {
+      console.warn(`Template container '${cleanName}' is declared more than once; slots address the first one.`);
+    }
 
-  // Find the !!TEMPLATE group
-  const templateGroup = psd.children?.find(child => child.name === '!!TEMPLATE');
+    // 1. Classify children (zones, sub-containers, frame)
+    const zones: ContainerZone[] = [...inheritedZones];
+    const nested: Layer[] = [];
+    const frame: Layer[] = [];
+    layer.children?.forEach(child => {
+      // Nested containers first: a `!!SAFE` child is a container, exactly as at top level
+      if (child.name?.startsWith('!!')) {
+        nested.push(child);
+        return;
+      }
+      const parsed = parseContainerName(child.name || '');
+      const zoneRect = parsed.zone ? getDeepLayerRect(child) : null;
+      if (parsed.zone && zoneRect) {
+        parsed.warnings.forEach(warn);
+        zones.push({ name: parsed.name, kind: parsed.zone, container: cleanName, bounds: zoneRect });
+      } else {
+        frame.push(child);
+      }
+    });
 
-  if (templateGroup && templateGroup.children) {
-    templateGroup.children.forEach((child, index) => {
-      // Skip invisible layers if needed, but for now we include all structure
-      
-      const top = child.top ?? 0;
-      const left = child.left ?? 0;
-      const bottom = child.bottom ?? 0;
-      const right = child.right ?? 0;
-      
-      const width = right - left;
-      const height = bottom - top;
-      
-      const rawName = child.name || 'Untitled';
-      const cleanName = rawName.replace(/^!!/, '');
-
-      containers.push({
-        id: `container-${index}-${cleanName.replace(/\s+/g, '_')}`,
-        name: cleanName,
-        originalName: rawName,
-        bounds: {
-          x: left,
-          y: top,
-          w: width,
-          h: height
-        },
-        normalized: {
-          x: left / canvasWidth,
-          y: top / canvasHeight,
-          w: width / canvasWidth,
-          h: height / canvasHeight,
-        }
-      });
+    // 2. Bounds: own frame first, then whatever the group spans
+    const frameRects = frame.map(getDeepLayerRect).filter((r): r is Rect => !!r);
+    const bounds = layer.children
+      ? unionRects(frameRects) || getDeepLayerRect(layer) || { x: 0, y: 0, w: 0, h: 0 }
+      : { x: layer.left ?? 0, y: layer.top ?? 0, w: (layer.right ?? 0) - (layer.left ?? 0), h: (layer.bottom ?? 0) - (layer.top ?? 0) };
+
+    containers.push({
+      id: `container-${containers.length}-${cleanName.replace(/\s+/g, '_')}`,
+      name: cleanName,
+      originalName: rawName,
+      ...(constraints ? { constraints } : {}),
+      ...(parentName ? { parentName } : {}),
+      ...(zones.length > 0 ? { zones } : {}),
+      bounds,
+      normalized: {
+        x: bounds.x / canvasWidth,
+        y: bounds.y / canvasHeight,
+        w: bounds.w / canvasWidth,
+        h: bounds.h / canvasHeight,
+      }
     });
-  }
+
+    // 3. Sub-containers (pre-order: parents precede their children)
+    nested.forEach(child => readContainer(child, cleanName, zones));
+  };
+
+  // Find the !!TEMPLATE group
+  const templateGroup = psd.children?.find(child => child.name === '!!TEMPLATE');
+  templateGroup?.children?.forEach(child => readContainer(child, undefined, []));
 
   return {
     canvas: {
@@ -252,10 +550,23 @@ export const createContainerContext = (template: TemplateMetadata, containerName
   };
 };
 
+// --- HELPER: Zone Checks ---
+const rectsOverlap = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+const rectContains = (outer: Rect, inner: Rect): boolean =>
+  inner.x >= outer.x && inner.y >= outer.y && inner.x + inner.w <= outer.x + outer.w && inner.y + inner.h <= outer.y + outer.h;
+
 /**
  * Validates 'Design' layers against the 'Template' containers.
- * Design groups (e.g. SYMBOLS) are checked against containers of the same name (e.g. !!SYMBOLS).
- * Any layer within a design group must be fully contained within the container bounds.
+ * Design groups (e.g. SYMBOLS) are checked against containers of the same name (e.g. !!SYMBOLS),
+ * at any depth so nested containers (e.g. CTA inside BG) can be designed inside their parent group.
+ * Every drawn layer within a design group must:
+ * - be fully contained within the container bounds,
+ * - stay inside the container's safe zone (if any),
+ * - not overlap any keep-out zone.
+ * Backdrops covering (almost) the whole container are exempt from the zone checks.
+ * Layers inside a nested design group are validated against that nested container only.
  */
 export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): DesignValidationReport => {
   const issues: ValidationIssue[] = [];
@@ -263,46 +574,76 @@ export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): Des
   
   // Index containers by name (e.g. "SYMBOLS" derived from "!!SYMBOLS")
   template.containers.forEach(c => {
-    containerMap.set(c.name, c);
+    if (!containerMap.has(c.name)) containerMap.set(c.name, c);
   });
 
-  psd.children?.forEach(group => {
-    // Skip the template group itself
-    if (group.name === '!!TEMPLATE') return;
-    
-    // Check if this group name matches a known container
-    if (group.name && containerMap.has(group.name)) {
-        const container = containerMap.get(group.name)!;
-        
-        // Validate children of this design group
-        group.children?.forEach(layer => {
-            // Check if layer has valid coordinates
-            if (typeof layer.top === 'number' && typeof layer.left === 'number' && 
-                typeof layer.bottom === 'number' && typeof layer.right === 'number') {
-                
-                // Calculate container boundaries
-                const containerRight = container.bounds.x + container.bounds.w;
-                const containerBottom = container.bounds.y + container.bounds.h;
-                
-                // Check if layer exceeds container bounds
-                const isViolation = 
-                    layer.left < container.bounds.x ||
-                    layer.top < container.bounds.y ||
-                    layer.right > containerRight ||
-                    layer.bottom > containerBottom;
-                    
-                if (isViolation) {
-                    issues.push({
-                        layerName: layer.name || 'Untitled Layer',
-                        containerName: container.name,
-                        type: 'PROCEDURAL_VIOLATION',
-                        message: `Layer '${layer.name}' extends outside '${container.name}' container.`
-                    });
-                }
-            }
-        });
+  const validateLayer = (layer: Layer, container: ContainerDefinition) => {
+    const rect = getLayerRect(layer);
+    if (!rect) return;
+    const layerName = layer.name || 'Untitled Layer';
+    const bounds = container.bounds;
+
+    // Check if layer exceeds container bounds
+    if (!rectContains(bounds, rect)) {
+      issues.push({
+        layerName,
+        containerName: container.name,
+        type: 'PROCEDURAL_VIOLATION',
+        message: `Layer '${layer.name}' extends outside '${container.name}' container.`
+      });
     }
-  });
+
+    const isBackdrop = bounds.w > 0 && bounds.h > 0 && (rect.w * rect.h) >= bounds.w * bounds.h * BACKDROP_COVERAGE_RATIO;
+    if (isBackdrop) return;
+
+    container.zones?.forEach(zone => {
+      if (zone.kind === 'safe' && !rectContains(zone.bounds, rect)) {
+        issues.push({
+          layerName,
+          containerName: container.name,
+          type: 'SAFE_AREA_VIOLATION',
+          message: `Layer '${layer.name}' extends outside safe zone '${zone.name}' of '${zone.container}'.`
+        });
+      } else if (zone.kind === 'keepout' && rectsOverlap(zone.bounds, rect)) {
+        issues.push({
+          layerName,
+          containerName: container.name,
+          type: 'KEEPOUT_VIOLATION',
+          message: `Layer '${layer.name}' overlaps keep-out zone '${zone.name}' of '${zone.container}'.`
+        });
+      }
+    });
+  };
+
+  // Leaves of a design group; nested container groups are handed over to their own container
+  const validateGroup = (layers: Layer[], container: ContainerDefinition) => {
+    layers.forEach(layer => {
+      const nestedContainer = layer.name ? containerMap.get(layer.name) : undefined;
+      if (layer.children && nestedContainer && nestedContainer.parentName) {
+        validateGroup(layer.children, nestedContainer);
+      } else if (layer.children) {
+        validateGroup(layer.children, container);
+      } else {
+        validateLayer(layer, container);
+      }
+    });
+  };
+
+  const visit = (layers: Layer[]) => {
+    layers.forEach(group => {
+      // Skip the template group itself
+      if (group.name === '!!TEMPLATE') return;
+
+      // Check if this group name matches a known container
+      const container = group.name ? containerMap.get(group.name) : undefined;
+      if (container && group.children) {
+        validateGroup(group.children, container);
+      } else if (group.children) {
+        visit(group.children);
+      }
+    });
+  };
+  visit(psd.children || []);
 
   return {
     isValid: issues.length === 0,
@@ -341,9 +682,12 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
     const node: SerializableLayer = {
       id: currentPath,
       name: child.name || `Layer ${index}`,
-      type: child.children ? 'group' : 'layer',
+      type: child.children ? 'group' : child.text ? 'text' : 'layer',
+      text: child.text ? extractTextData(child.text) : undefined,
+      pin: child.name ? parseLayerPin(child.name).pin : undefined,
+      nineSlice: child.name ? parseLayerNineSlice(child.name).nineSlice : undefined,
       isVisible: !child.hidden,
-      opacity: (child.opacity ?? 255) / 255, // ag-psd 0-255 -> 0-1
+      opacity: child.opacity ?? 1, // ag-psd already normalizes to 0-1
       coords: {
         x: left,
         y: top,
@@ -360,6 +704,45 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
   return nodes;
 };
 
+/**
+ * Uniform scale baked into a text layer's transform matrix [xx, xy, yx, yy, tx, ty].
+ * Photoshop stores the declared font size separately, so the rendered size is size * scale.
+ */
+export const getTextTransformScale = (text: LayerTextData): number => {
+  const t = text.transform;
+  if (!t || t.length < 4) return 1;
+  return Math.hypot(t[2], t[3]) || 1;
+};
+
+/**
+ * Extracts editable type metadata from an `ag-psd` text layer.
+ * Only the base style is captured; per-run styling is preserved on export by scaling the original runs.
+ *
+ * @param text The raw `layer.text` block.
+ */
+export const extractTextData = (text: LayerTextData): TextLayerData => {
+  const scale = getTextTransformScale(text);
+  const style = text.style || {};
+  const justification = text.paragraphStyle?.justification || 'left';
+  const fill = style.fillColor as { r?: number, g?: number, b?: number } | undefined;
+  const isBox = text.shapeType === 'box' && !!text.boxBounds && text.boxBounds.length === 4;
+
+  return {
+    content: text.text,
+    fontName: style.font?.name || 'ArialMT',
+    fontSize: (style.fontSize ?? 12) * scale,
+    leading: !style.autoLeading && style.leading ? style.leading * scale : undefined,
+    color: fill && fill.r !== undefined && fill.g !== undefined && fill.b !== undefined
+      ? { r: fill.r, g: fill.g, b: fill.b }
+      : undefined,
+    alignment: justification.startsWith('justify') ? 'justify' : justification as TextLayerData['alignment'],
+    boxType: isBox ? 'box' : 'point',
+    box: isBox
+      ? { w: (text.boxBounds![2] - text.boxBounds![0]) * scale, h: (text.boxBounds![3] - text.boxBounds![1]) * scale }
+      : undefined
+  };
+};
+
 /**
  * Finds a heavy `ag-psd` Layer object in the raw PSD structure using a deterministic path ID.
  * The path ID (e.g., "0.3.1") corresponds to the indices in the `children` arrays.
@@ -387,28 +770,38 @@ export const findLayerByPath = (psd: Psd, pathId: string): Layer | null => {
 };
 
 /**
- * Writes a PSD object to a file and triggers a browser download.
- * 
+ * Serializes a PSD object to binary.
+ * Shared by the browser download (`writePsdFile`) and the CLI file-system writer.
+ *
  * @param psd The PSD object to write.
- * @param filename The name of the file to download.
  */
-export const writePsdFile = async (psd: Psd, filename: string) => {
+export const serializePsd = (psd: Psd): ArrayBuffer => {
   try {
-    // writePsd returns an ArrayBuffer or Buffer depending on environment. In browser, ArrayBuffer.
-    const buffer = writePsd(psd, { generateThumbnail: false });
-    
-    const blob = new Blob([buffer], { type: 'application/octet-stream' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    // Text layers are re-flowed on export, so Photoshop must rebuild their cached glyph rendering
+    return writePsd(psd, { generateThumbnail: false, invalidateTextLayers: true });
   } catch (err) {
     console.error("Error writing PSD file:", err);
     throw new Error("Failed to construct PSD binary.");
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Writes a PSD object to a file and triggers a browser download.
+ * 
+ * @param psd The PSD object to write.
+ * @param filename The name of the file to download.
+ */
+export const writePsdFile = async (psd: Psd, filename: string) => {
+  const buffer = serializePsd(psd);
+
+  const blob = new Blob([buffer], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest';
+import { ContainerZone, LayerPin, LayoutStrategy, MappingContext, SerializableLayer } from '../types';
+import {
+  buildRemapPayload,
+  clampScaleToConstraints,
+  computeLayerPlacements,
+  computeRemapGeometry,
+  resolveLayerPin,
+  resolvePlacementArea
+} from './remapService';
+
+const SOURCE = { x: 0, y: 0, w: 100, h: 50 };
+const TARGET = { x: 100, y: 0, w: 400, h: 100 };
+
+const zone = (kind: ContainerZone['kind'], bounds: ContainerZone['bounds']): ContainerZone =>
+  ({ name: kind, kind, container: 'HERO', bounds });
+
+const layer = (id: string, x: number, y: number, w: number, h: number, extra: Partial<SerializableLayer> = {}): SerializableLayer =>
+  ({ id, name: id, type: 'layer', isVisible: true, opacity: 1, coords: { x, y, w, h }, ...extra });
+
+const mappingContext = (layers: SerializableLayer[]): MappingContext => ({
+  container: { containerName: 'HERO', bounds: SOURCE, canvasDimensions: { w: 100, h: 50 } },
+  layers,
+  status: 'resolved',
+  sourceNodeId: 'load'
+});
+
+describe('computeRemapGeometry', () => {
+  it('fits uniformly and centres the block by default', () => {
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT')).toMatchObject({ scaleX: 2, scaleY: 2, anchorX: 200, anchorY: 0 });
+  });
+
+  it('applies each geometry mode', () => {
+    expect(computeRemapGeometry(SOURCE, TARGET, 'STRETCH')).toMatchObject({ scaleX: 4, scaleY: 2 });
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FILL')).toMatchObject({ scaleX: 4, scaleY: 4, anchorY: -50 });
+    expect(computeRemapGeometry(SOURCE, TARGET, 'NONE')).toMatchObject({ scaleX: 1, scaleY: 1, anchorX: 250, anchorY: 25 });
+  });
+
+  it('lets an AI strategy refine the fit scale and vertical anchor', () => {
+    const strategy = { suggestedScale: 1.5, anchor: 'BOTTOM' } as LayoutStrategy;
+
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', strategy)).toMatchObject({ scaleX: 1.5, anchorX: 225, anchorY: 25 });
+    // Explicit modes ignore the suggested scale
+    expect(computeRemapGeometry(SOURCE, TARGET, 'STRETCH', strategy)).toMatchObject({ scaleX: 4, scaleY: 2 });
+  });
+
+  it('applies container constraints last', () => {
+    expect(computeRemapGeometry(SOURCE, TARGET, 'STRETCH', undefined, { lockAspect: true })).toMatchObject({ scaleX: 2, scaleY: 2 });
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', undefined, { maxScale: 1, anchor: 'bottom-right' }))
+      .toMatchObject({ scaleX: 1, anchorX: 400, anchorY: 50 });
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', undefined, { padding: 10 }))
+      .toMatchObject({ scaleX: 1.6, contentRect: { x: 110, y: 10, w: 380, h: 80 } });
+  });
+
+  it('centres a padded, maxScale-clamped block inside the padded area', () => {
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', undefined, { padding: 10, maxScale: 1 })).toEqual({
+      scaleX: 1,
+      scaleY: 1,
+      anchorX: 250,
+      anchorY: 25,
+      contentRect: { x: 110, y: 10, w: 380, h: 80 }
+    });
+    // The clamp also overrides the AI suggested scale
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', { suggestedScale: 3, anchor: 'TOP' } as LayoutStrategy, { padding: 10, maxScale: 1 }))
+      .toMatchObject({ scaleX: 1, anchorX: 250, anchorY: 10 });
+  });
+
+  it('pins the block to the anchor tag over the AI anchor', () => {
+    const strategy = { suggestedScale: 0.5, anchor: 'BOTTOM' } as LayoutStrategy;
+
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', strategy, { anchor: 'top-left' })).toMatchObject({ anchorX: 100, anchorY: 0 });
+    expect(computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT', strategy, { anchor: 'right' })).toMatchObject({ anchorX: 450, anchorY: 37.5 });
+  });
+});
+
+describe('resolvePlacementArea', () => {
+  it('intersects the padded container with every safe zone', () => {
+    const zones = [zone('safe', { x: 150, y: 0, w: 300, h: 100 }), zone('safe', { x: 0, y: 20, w: 1000, h: 60 }), zone('keepout', { x: 100, y: 0, w: 50, h: 50 })];
+
+    expect(resolvePlacementArea(TARGET, { padding: 5 }, zones)).toEqual({ x: 150, y: 20, w: 300, h: 60 });
+  });
+
+  it('ignores safe zones outside the container', () => {
+    expect(resolvePlacementArea(TARGET, undefined, [zone('safe', { x: 0, y: 500, w: 10, h: 10 })])).toEqual(TARGET);
+  });
+});
+
+describe('clampScaleToConstraints', () => {
+  it('clamps to minScale and maxScale', () => {
+    expect(clampScaleToConstraints(3, { minScale: 0.5, maxScale: 2 })).toBe(2);
+    expect(clampScaleToConstraints(0.1, { minScale: 0.5 })).toBe(0.5);
+    expect(clampScaleToConstraints(0.1)).toBe(0.1);
+  });
+});
+
+describe('buildRemapPayload', () => {
+  it('reports the per-axis scale it applied', () => {
+    const { payload } = buildRemapPayload({
+      sourceNodeId: 'load',
+      source: mappingContext([layer('mark', 10, 10, 20, 10)]),
+      target: { name: 'HERO', bounds: TARGET },
+      mode: 'STRETCH',
+      generationAllowed: true
+    });
+
+    expect(payload.metrics.scale).toEqual({ x: 4, y: 2 });
+    expect(payload.scaleFactor).toBe(4);
+    expect(payload.layers[0].coords).toEqual({ x: 140, y: 20, w: 80, h: 20 });
+  });
+});
+
+describe('resolveLayerPin', () => {
+  const tagged = layer('badge', 0, 0, 10, 10, { pin: { x: 'left' } });
+
+  it('prefers UI pins over name tags', () => {
+    expect(resolveLayerPin(tagged)).toEqual({ x: 'left' });
+    expect(resolveLayerPin(tagged, { badge: { y: 'bottom', fixedSize: true } })).toEqual({ y: 'bottom', fixedSize: true });
+  });
+
+  it('treats an empty UI pin as unpinned', () => {
+    expect(resolveLayerPin(tagged, { badge: {} })).toBeUndefined();
+    expect(resolveLayerPin(layer('plain', 0, 0, 10, 10))).toBeUndefined();
+  });
+});
+
+describe('computeLayerPlacements pins', () => {
+  // 10x10 badge 80px from the left and 10px from the top of the 100x50 source (margins: 80/10 left-right, 10/30 top-bottom)
+  const WIDE = computeRemapGeometry(SOURCE, TARGET, 'UNIFORM_FIT'); // 2x, free horizontal space
+  const TALL = computeRemapGeometry(SOURCE, { x: 0, y: 0, w: 200, h: 400 }, 'UNIFORM_FIT'); // 2x, free vertical space
+
+  const place = (geometry: typeof WIDE, pin?: LayerPin) =>
+    computeLayerPlacements([layer('badge', 80, 10, 10, 10)], SOURCE, geometry, [], undefined, false, pin ? { badge: pin } : undefined).get('badge')!.rect;
+
+  it('keeps scaled edge distances on the pinned horizontal edge', () => {
+    expect(place(WIDE)).toEqual({ x: 360, y: 20, w: 20, h: 20 });
+    expect(place(WIDE, { x: 'left' })).toEqual({ x: 260, y: 20, w: 20, h: 20 });
+    expect(place(WIDE, { x: 'right' })).toEqual({ x: 460, y: 20, w: 20, h: 20 });
+    expect(place(WIDE, { x: 'center' })).toEqual({ x: 360, y: 20, w: 20, h: 20 });
+    expect(place(WIDE, { x: 'stretch' })).toEqual({ x: 260, y: 20, w: 220, h: 20 });
+  });
+
+  it('keeps scaled edge distances on the pinned vertical edge', () => {
+    expect(place(TALL)).toEqual({ x: 160, y: 170, w: 20, h: 20 });
+    expect(place(TALL, { y: 'top' })).toEqual({ x: 160, y: 20, w: 20, h: 20 });
+    expect(place(TALL, { y: 'bottom' })).toEqual({ x: 160, y: 320, w: 20, h: 20 });
+    expect(place(TALL, { y: 'center' })).toEqual({ x: 160, y: 170, w: 20, h: 20 });
+    expect(place(TALL, { y: 'stretch' })).toEqual({ x: 160, y: 20, w: 20, h: 320 });
+  });
+
+  it('keeps the source pixel size of fixed layers except on stretched axes', () => {
+    expect(place(WIDE, { x: 'right', fixedSize: true })).toEqual({ x: 470, y: 25, w: 10, h: 10 });
+    expect(place(WIDE, { fixedSize: true })).toEqual({ x: 365, y: 25, w: 10, h: 10 });
+    expect(place(WIDE, { x: 'stretch', fixedSize: true })).toEqual({ x: 260, y: 25, w: 220, h: 10 });
+  });
+
+  it('carries the children of a pinned group along', () => {
+    const group = layer('group', 80, 10, 10, 10, { type: 'group', children: [layer('dot', 82, 12, 4, 4)] });
+    const placements = computeLayerPlacements([group], SOURCE, WIDE, [], undefined, false, { group: { x: 'right' } });
+
+    expect(placements.get('dot')!.rect).toEqual({ x: 464, y: 24, w: 8, h: 8 });
+  });
+});
@@ -0,0 +1,587 @@
+import { LayoutStrategy, RemapStrategy, TemplateMetadata, ContainerDefinition, ContainerConstraints, ContainerZone, BACKDROP_COVERAGE_RATIO, MappingContext, SerializableLayer, TransformedLayer, TransformedPayload, LayerOverride, LayerPin, LayerPinX, LayerPinY, NineSliceInsets, ReviewerStrategy, TextLayerData, MAX_BOUNDARY_VIOLATION_PERCENT } from '../types';
+import { hasNineSlice } from './psdService';
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export const DEFAULT_REMAP_STRATEGY: RemapStrategy = 'UNIFORM_FIT';
+
+export interface RemapGeometry {
+  scaleX: number;
+  scaleY: number;
+  anchorX: number; // Top-left of the scaled source block in target canvas space
+  anchorY: number;
+  contentRect: Rect; // Target rect after padding and safe zones (placement area for the block and AI offsets)
+}
+
+/**
+ * Clamps a scale factor to a container's minScale/maxScale tags.
+ */
+export const clampScaleToConstraints = (scale: number, constraints?: ContainerConstraints): number => {
+  if (!constraints) return scale;
+  let clamped = scale;
+  if (constraints.maxScale !== undefined) clamped = Math.min(clamped, constraints.maxScale);
+  if (constraints.minScale !== undefined) clamped = Math.max(clamped, constraints.minScale);
+  return clamped;
+};
+
+// --- HELPER: Placement Area ---
+const insetRect = (rect: Rect, padding = 0): Rect => {
+  const insetX = Math.min(padding, rect.w / 2);
+  const insetY = Math.min(padding, rect.h / 2);
+  return { x: rect.x + insetX, y: rect.y + insetY, w: rect.w - insetX * 2, h: rect.h - insetY * 2 };
+};
+
+const intersectRects = (a: Rect, b: Rect): Rect | null => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.w, b.x + b.w);
+  const bottom = Math.min(a.y + a.h, b.y + b.h);
+  return right > x && bottom > y ? { x, y, w: right - x, h: bottom - y } : null;
+};
+
+const rectsOverlap = (a: Rect, b: Rect): boolean =>
+  a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+/**
+ * Area content may occupy inside a target container: padding tag first, then every safe zone
+ * (own and inherited). Zones that do not intersect the container are ignored.
+ */
+export const resolvePlacementArea = (targetRect: Rect, constraints?: ContainerConstraints, zones?: ContainerZone[]): Rect => {
+  let area = insetRect(targetRect, constraints?.padding);
+  zones?.filter(zone => zone.kind === 'safe').forEach(zone => {
+    area = intersectRects(area, zone.bounds) || area;
+  });
+  return area;
+};
+
+/**
+ * Resolves the base scale (per axis) and anchor of a remapped container for a given RemapStrategy.
+ * UNIFORM_FIT is the only mode refined by the AI 'suggestedScale'; the other modes are explicit user choices.
+ * Vertical placement honors the AI anchor (TOP/CENTER/BOTTOM) in every mode.
+ *
+ * Container constraints are hard limits applied last: padding and safe zones shrink the placement area, lockAspect
+ * collapses non-uniform scales to the smaller axis, min/maxScale clamp the result and an anchor tag
+ * overrides both the default centering and the AI anchor.
+ *
+ * @param sourceRect Bounds of the source container.
+ * @param targetRect Bounds of the target container.
+ * @param mode The geometry mode selected on the Remapper instance.
+ * @param strategy Optional AI LayoutStrategy travelling with the source context.
+ * @param constraints Optional tags of the target container.
+ * @param zones Optional safe/keep-out zones of the target container.
+ */
+export const computeRemapGeometry = (
+  sourceRect: Rect,
+  targetRect: Rect,
+  mode: RemapStrategy,
+  strategy?: LayoutStrategy,
+  constraints?: ContainerConstraints,
+  zones?: ContainerZone[]
+): RemapGeometry => {
+  const contentRect = resolvePlacementArea(targetRect, constraints, zones);
+  const ratioX = contentRect.w / sourceRect.w;
+  const ratioY = contentRect.h / sourceRect.h;
+  let scaleX: number;
+  let scaleY: number;
+
+  switch (mode) {
+    case 'STRETCH':
+      // Non-uniform: each axis fills the target exactly
+      scaleX = ratioX;
+      scaleY = ratioY;
+      break;
+    case 'UNIFORM_FILL':
+      // Cover: the larger ratio wins, overflow is cropped by the container
+      scaleX = scaleY = Math.max(ratioX, ratioY);
+      break;
+    case 'NONE':
+      // 1:1 placement: pixels keep their native size
+      scaleX = scaleY = 1;
+      break;
+    case 'UNIFORM_FIT':
+    default:
+      scaleX = scaleY = strategy ? strategy.suggestedScale : Math.min(ratioX, ratioY);
+      break;
+  }
+
+  if (constraints?.lockAspect && scaleX !== scaleY) {
+    scaleX = scaleY = Math.min(scaleX, scaleY);
+  }
+  scaleX = clampScaleToConstraints(scaleX, constraints);
+  scaleY = clampScaleToConstraints(scaleY, constraints);
+
+  const scaledW = sourceRect.w * scaleX;
+  const scaledH = sourceRect.h * scaleY;
+  let anchorX = contentRect.x + (contentRect.w - scaledW) / 2;
+  let anchorY = contentRect.y + (contentRect.h - scaledH) / 2;
+
+  if (constraints?.anchor) {
+    const anchor = constraints.anchor;
+    if (anchor.endsWith('left')) anchorX = contentRect.x;
+    else if (anchor.endsWith('right')) anchorX = contentRect.x + (contentRect.w - scaledW);
+    if (anchor.startsWith('top')) anchorY = contentRect.y;
+    else if (anchor.startsWith('bottom')) anchorY = contentRect.y + (contentRect.h - scaledH);
+  } else if (strategy?.anchor === 'TOP') {
+    anchorY = contentRect.y;
+  } else if (strategy?.anchor === 'BOTTOM') {
+    anchorY = contentRect.y + (contentRect.h - scaledH);
+  }
+
+  return { scaleX, scaleY, anchorX, anchorY, contentRect };
+};
+
+/**
+ * Modes where content may legitimately overflow the target container.
+ * Overflow is not clamped by the Remapper; Export and Reviewer crop it to the container bounds instead.
+ */
+export const isCroppingStrategy = (mode?: RemapStrategy): boolean => mode === 'UNIFORM_FILL' || mode === 'NONE';
+
+/**
+ * Resolves the target ContainerDefinition addressed by an upstream source handle.
+ * Supports direct container names (Target Splitter), 'slot-bounds-' prefixed handles
+ * and indexed 'target-out-N' proxies (Design Analyst relay).
+ */
+export const resolveTargetContainer = (template: TemplateMetadata, handle: string): ContainerDefinition | null => {
+  let containerDefinition = template.containers.find(c => c.name === handle);
+  if (!containerDefinition && handle.startsWith('slot-bounds-')) {
+    const clean = handle.replace('slot-bounds-', '');
+    containerDefinition = template.containers.find(c => c.name === clean);
+  }
+  if (!containerDefinition) {
+    const indexMatch = handle.match(/^target-out-(\d+)$/);
+    if (indexMatch && template.containers[parseInt(indexMatch[1], 10)]) {
+      containerDefinition = template.containers[parseInt(indexMatch[1], 10)];
+    }
+  }
+  if (!containerDefinition && template.containers.length === 1) {
+    containerDefinition = template.containers[0];
+  }
+  return containerDefinition || null;
+};
+
+/**
+ * Scales type metadata instead of pixels so text stays live and sharp on export.
+ * Glyphs only scale uniformly: non-uniform (STRETCH) transforms use the smaller axis so text never
+ * overflows its box, while a paragraph box takes both axes and re-flows its content.
+ */
+export const scaleTextData = (text: TextLayerData, scaleX: number, scaleY: number): TextLayerData => {
+  const fontScale = Math.min(scaleX, scaleY);
+  return {
+    ...text,
+    fontSize: text.fontSize * fontScale,
+    leading: text.leading !== undefined ? text.leading * fontScale : undefined,
+    box: text.box ? { w: text.box.w * scaleX, h: text.box.h * scaleY } : undefined
+  };
+};
+
+// --- HELPER: Keep-out Avoidance ---
+const shiftLayer = (layer: TransformedLayer, dx: number, dy: number): TransformedLayer => ({
+  ...layer,
+  coords: { ...layer.coords, x: layer.coords.x + dx, y: layer.coords.y + dy },
+  transform: { ...layer.transform, offsetX: layer.transform.offsetX + dx, offsetY: layer.transform.offsetY + dy },
+  children: layer.children?.map(child => shiftLayer(child, dx, dy))
+});
+
+/**
+ * Moves top-level layers out of keep-out zones along the shortest axis, provided the moved layer
+ * still fits the placement area and clears every other keep-out zone.
+ * Backdrops and layers that cannot be moved clear keep their position.
+ */
+export const avoidKeepoutZones = (layers: TransformedLayer[], zones: ContainerZone[] | undefined, area: Rect): TransformedLayer[] => {
+  const keepouts = (zones || []).filter(zone => zone.kind === 'keepout').map(zone => zone.bounds);
+  if (keepouts.length === 0) return layers;
+
+  return layers.map(layer => {
+    const rect = layer.coords;
+    if (rect.w * rect.h >= area.w * area.h * BACKDROP_COVERAGE_RATIO) return layer;
+
+    let dx = 0;
+    let dy = 0;
+    for (const zone of keepouts) {
+      const current = { ...rect, x: rect.x + dx, y: rect.y + dy };
+      if (!rectsOverlap(current, zone)) continue;
+
+      const candidates = [
+        { dx: zone.x - (current.x + current.w), dy: 0 }, // Left of the zone
+        { dx: zone.x + zone.w - current.x, dy: 0 },      // Right
+        { dx: 0, dy: zone.y - (current.y + current.h) }, // Above
+        { dx: 0, dy: zone.y + zone.h - current.y }       // Below
+      ].filter(move => {
+        const moved = { ...current, x: current.x + move.dx, y: current.y + move.dy };
+        const fits = moved.x >= area.x && moved.y >= area.y && moved.x + moved.w <= area.x + area.w && moved.y + moved.h <= area.y + area.h;
+        return fits && keepouts.every(other => !rectsOverlap(moved, other));
+      }).sort((a, b) => Math.abs(a.dx + a.dy) - Math.abs(b.dx + b.dy));
+
+      if (candidates.length === 0) continue;
+      dx += candidates[0].dx;
+      dy += candidates[0].dy;
+    }
+    return dx !== 0 || dy !== 0 ? shiftLayer(layer, dx, dy) : layer;
+  });
+};
+
+// --- HELPER: Hierarchical Placement ---
+// Maps source canvas points into the target: x' = tx + x * scaleX (likewise for y)
+interface WorldTransform {
+  scaleX: number;
+  scaleY: number;
+  tx: number;
+  ty: number;
+}
+
+export interface LayerDelta {
+  dx: number;
+  dy: number;
+  scale: number; // Multiplier relative to the reference placement
+}
+
+/**
+ * Where one source layer lands in the target container.
+ * `local` is the layer's own override relative to where its parent group puts it (null without an override);
+ * `world` is the total displacement from the plain geometric projection, ancestors' overrides included.
+ */
+export interface LayerPlacement {
+  layerId: string;
+  name: string;
+  base: { x: number, y: number }; // Geometric projection without any overrides
+  rect: Rect;
+  scaleX: number;
+  scaleY: number;
+  local: LayerDelta | null;
+  world: LayerDelta;
+  override?: LayerOverride;
+}
+
+// One axis of a pinned layer: distances to the source container's edges scale with the container
+const pinAxis = (
+  pin: LayerPinX | LayerPinY | undefined, start: number, size: number,
+  sourceStart: number, sourceSize: number, areaStart: number, areaSize: number,
+  scale: number, fixedSize: boolean, inheritedStart: number
+): { start: number, size: number } => {
+  const marginStart = (start - sourceStart) * scale;
+  const marginEnd = (sourceStart + sourceSize - (start + size)) * scale;
+  const scaled = fixedSize ? size : size * scale;
+  switch (pin) {
+    case 'left':
+    case 'top':
+      return { start: areaStart + marginStart, size: scaled };
+    case 'right':
+    case 'bottom':
+      return { start: areaStart + areaSize - marginEnd - scaled, size: scaled };
+    case 'center':
+      return { start: areaStart + areaSize / 2 + (start + size / 2 - (sourceStart + sourceSize / 2)) * scale - scaled / 2, size: scaled };
+    case 'stretch':
+      return { start: areaStart + marginStart, size: Math.max(1, areaSize - marginStart - marginEnd) };
+    default:
+      // Unpinned: keep the inherited position (a fixed-size layer keeps its inherited center)
+      return { start: fixedSize ? inheritedStart + (size * scale - scaled) / 2 : inheritedStart, size: scaled };
+  }
+};
+
+/**
+ * Resolves the effective pin of a layer: UI pins win over `[pin=...]` name tags; an empty UI pin unpins.
+ */
+export const resolveLayerPin = (layer: SerializableLayer, pins?: Record<string, LayerPin>): LayerPin | undefined => {
+  const pin = pins?.[layer.id] ?? layer.pin;
+  return pin && (pin.x || pin.y || pin.fixedSize) ? pin : undefined;
+};
+
+/**
+ * Resolves the effective nine-slice insets of a pixel layer: UI insets win over `[slice=...]` name tags;
+ * all-zero UI insets switch slicing off. Groups and text layers never slice.
+ */
+export const resolveNineSlice = (layer: SerializableLayer, nineSlices?: Record<string, NineSliceInsets>): NineSliceInsets | undefined => {
+  if (layer.type !== 'layer') return undefined;
+  const insets = nineSlices?.[layer.id] ?? layer.nineSlice;
+  return hasNineSlice(insets) ? insets : undefined;
+};
+
+/**
+ * Places a layer tree with hierarchical transforms. Each layer inherits its parent's world transform;
+ * an override moves the layer (and with it every descendant) and scales the subtree around the layer's
+ * own top-left pivot. Override offsets keep their container-space meaning: a top-level layer lands at
+ * `contentRect + offset`, a nested one is displaced by the same amount relative to its parent's placement.
+ *
+ * Pinned layers (see `resolveLayerPin`) are placed against the placement area instead of their parent,
+ * at the container scale: that pinned placement becomes their base, so overrides stay relative to it.
+ *
+ * @param allowOverflow Crop modes skip the vertical bleed clamp (which otherwise shifts whole subtrees).
+ * @param pins UI pins by layer ID (override name tags).
+ */
+export const computeLayerPlacements = (
+  layers: SerializableLayer[],
+  sourceRect: Rect,
+  geometry: RemapGeometry,
+  overrides: LayerOverride[] = [],
+  constraints?: ContainerConstraints,
+  allowOverflow = false,
+  pins?: Record<string, LayerPin>
+): Map<string, LayerPlacement> => {
+  const { scaleX, scaleY, anchorX, anchorY, contentRect } = geometry;
+  const root: WorldTransform = { scaleX, scaleY, tx: anchorX - sourceRect.x * scaleX, ty: anchorY - sourceRect.y * scaleY };
+  const placements = new Map<string, LayerPlacement>();
+
+  const place = (children: SerializableLayer[], parentTransform: WorldTransform) => {
+    children.forEach(layer => {
+      let parent = parentTransform;
+      let base = { x: root.tx + layer.coords.x * root.scaleX, y: root.ty + layer.coords.y * root.scaleY };
+      let inherited = { x: parent.tx + layer.coords.x * parent.scaleX, y: parent.ty + layer.coords.y * parent.scaleY };
+      const pin = resolveLayerPin(layer, pins);
+
+      if (pin) {
+        const { coords } = layer;
+        const fixedSize = !!pin.fixedSize;
+        const x = pinAxis(pin.x, coords.x, coords.w, sourceRect.x, sourceRect.w, contentRect.x, contentRect.w, root.scaleX, fixedSize, inherited.x);
+        const y = pinAxis(pin.y, coords.y, coords.h, sourceRect.y, sourceRect.h, contentRect.y, contentRect.h, root.scaleY, fixedSize, inherited.y);
+        const pinScaleX = coords.w > 0 ? x.size / coords.w : root.scaleX;
+        const pinScaleY = coords.h > 0 ? y.size / coords.h : root.scaleY;
+        parent = { scaleX: pinScaleX, scaleY: pinScaleY, tx: x.start - coords.x * pinScaleX, ty: y.start - coords.y * pinScaleY };
+        base = inherited = { x: x.start, y: y.start };
+      }
+
+      const override = overrides.find(o => o.layerId === layer.id);
+
+      let world: WorldTransform = parent;
+      let local: LayerDelta | null = null;
+      let x = inherited.x;
+      let y = inherited.y;
+
+      if (override) {
+        local = { dx: contentRect.x + override.xOffset - base.x, dy: contentRect.y + override.yOffset - base.y, scale: override.individualScale };
+        x = inherited.x + local.dx;
+        y = inherited.y + local.dy;
+        // AI per-layer scaling may not escape the container's scale limits
+        const layerScaleX = clampScaleToConstraints(parent.scaleX * override.individualScale, constraints);
+        const layerScaleY = clampScaleToConstraints(parent.scaleY * override.individualScale, constraints);
+        world = { scaleX: layerScaleX, scaleY: layerScaleY, tx: x - layer.coords.x * layerScaleX, ty: y - layer.coords.y * layerScaleY };
+      }
+
+      // Bleed clamp only applies to modes that promise containment (FILL/NONE crop instead)
+      if (!allowOverflow) {
+        const bleedY = contentRect.h * MAX_BOUNDARY_VIOLATION_PERCENT;
+        const clampedY = Math.max(contentRect.y - bleedY, Math.min(y, contentRect.y + contentRect.h + bleedY));
+        if (clampedY !== y) {
+          world = { ...world, ty: world.ty + clampedY - y };
+          y = clampedY;
+        }
+      }
+
+      placements.set(layer.id, {
+        layerId: layer.id,
+        name: layer.name,
+        base,
+        rect: { x, y, w: layer.coords.w * world.scaleX, h: layer.coords.h * world.scaleY },
+        scaleX: world.scaleX,
+        scaleY: world.scaleY,
+        local,
+        world: { dx: x - base.x, dy: y - base.y, scale: world.scaleX / root.scaleX },
+        override
+      });
+
+      if (layer.children) place(layer.children, world);
+    });
+  };
+
+  place(layers, root);
+  return placements;
+};
+
+export interface RemapInput {
+  sourceNodeId: string; // Node holding the binary PSD for this source
+  source: MappingContext;
+  target: { name: string; bounds: Rect; constraints?: ContainerConstraints; zones?: ContainerZone[] };
+  mode: RemapStrategy;
+  generationAllowed: boolean;
+  confirmedPrompt?: string; // Prompt the user confirmed for generative fill
+  pins?: Record<string, LayerPin>; // UI layer pins (name tags apply without them)
+  nineSlices?: Record<string, NineSliceInsets>; // UI nine-slice insets (name tags apply without them)
+  previous?: TransformedPayload; // Current registry payload (preview & generation metadata are preserved)
+}
+
+export interface RemapResult {
+  payload: TransformedPayload;
+  strategyUsed: boolean;
+}
+
+// Scale beyond which an unconfirmed generative prompt blocks on user confirmation
+const HIGH_STRETCH_THRESHOLD = 2.0;
+
+/**
+ * Projects a resolved source container onto a target container.
+ * Pure geometry + generative gating; shared by the Remapper node and the headless pipeline engine.
+ */
+export const buildRemapPayload = (input: RemapInput): RemapResult => {
+  const { source, target, mode, previous } = input;
+  const sourceRect = source.container.bounds;
+  const targetRect = target.bounds;
+  const strategy = source.aiStrategy;
+
+  const constraints = target.constraints;
+  const geometry = computeRemapGeometry(sourceRect, targetRect, mode, strategy, constraints, target.zones);
+  const { contentRect } = geometry;
+  // Dominant magnification (drives the high-stretch generation gate and the UI readout)
+  const scale = Math.max(geometry.scaleX, geometry.scaleY);
+
+  // Group overrides carry their subtree along (see computeLayerPlacements)
+  const placements = computeLayerPlacements(
+    source.layers as SerializableLayer[], sourceRect, geometry, strategy?.overrides, constraints, isCroppingStrategy(mode), input.pins
+  );
+
+  const transformLayers = (layers: SerializableLayer[]): TransformedLayer[] => {
+    return layers.map(layer => {
+      const { rect, scaleX: layerScaleX, scaleY: layerScaleY } = placements.get(layer.id)!;
+      return {
+        ...layer,
+        coords: rect,
+        transform: { scaleX: layerScaleX, scaleY: layerScaleY, offsetX: rect.x, offsetY: rect.y },
+        text: layer.text ? scaleTextData(layer.text, layerScaleX, layerScaleY) : undefined,
+        nineSlice: resolveNineSlice(layer, input.nineSlices),
+        children: layer.children ? transformLayers(layer.children) : undefined
+      };
+    });
+  };
+
+  // Keep-out zones are cleared after geometry (crop modes overflow the area, so nothing moves there)
+  const transformedLayers = avoidKeepoutZones(transformLayers(source.layers as SerializableLayer[]), target.zones, contentRect);
+
+  let requiresGeneration = false;
+  let status: TransformedPayload['status'] = 'success';
+  let generativePromptUsed: string | null = null;
+
+  const currentPrompt = strategy?.generativePrompt;
+  const isConfirmed = !!currentPrompt && currentPrompt === input.confirmedPrompt;
+
+  if (currentPrompt) {
+    const isExplicit = strategy!.isExplicitIntent;
+    const isHighStretch = scale > HIGH_STRETCH_THRESHOLD;
+
+    if (isConfirmed) {
+      requiresGeneration = true;
+      generativePromptUsed = currentPrompt;
+      status = 'success';
+    } else if (isExplicit || isHighStretch) {
+      status = 'awaiting_confirmation';
+    }
+  }
+
+  if (requiresGeneration && generativePromptUsed) {
+    const genLayer: TransformedLayer = {
+      id: `gen-layer-${source.container.containerName || 'unknown'}`,
+      name: `✨ AI Gen: ${generativePromptUsed.substring(0, 20)}...`,
+      type: 'generative',
+      isVisible: true,
+      opacity: 1,
+      coords: { x: targetRect.x, y: targetRect.y, w: targetRect.w, h: targetRect.h },
+      transform: { scaleX: 1, scaleY: 1, offsetX: targetRect.x, offsetY: targetRect.y },
+      generativePrompt: generativePromptUsed
+    };
+    transformedLayers.unshift(genLayer);
+  }
+
+  const payload: TransformedPayload = {
+    status,
+    sourceNodeId: input.sourceNodeId,
+    sourceContainer: source.container.containerName,
+    targetContainer: target.name,
+    layers: transformedLayers,
+    scaleFactor: scale,
+    metrics: {
+      source: { w: sourceRect.w, h: sourceRect.h },
+      target: { w: targetRect.w, h: targetRect.h },
+      scale: { x: geometry.scaleX, y: geometry.scaleY }
+    },
+    requiresGeneration,
+    // Use the existing registry preview if available, otherwise the upstream draft
+    previewUrl: previous?.previewUrl || source.previewUrl,
+    isConfirmed,
+    isTransient: !isConfirmed,
+    sourceReference: strategy?.sourceReference,
+    // METADATA PRESERVATION from Registry
+    generationId: previous?.generationId,
+    isSynthesizing: previous?.isSynthesizing,
+    // PROPAGATE GATE STATE (Crucial for Store logic to act on)
+    generationAllowed: input.generationAllowed,
+    strategy: mode,
+    targetBounds: targetRect
+  };
+
+  return { payload, strategyUsed: !!strategy };
+};
+
+/**
+ * Creates a new payload by applying CARO's (Design Reviewer) overrides to the geometry.
+ * Offsets are additive to the current state; scale is multiplicative around the layer's top-left.
+ * Like Remapper overrides, a polished group carries its descendants along (rotation stays per layer).
+ */
+export const applyOverridesToPayload = (payload: TransformedPayload, overrides: LayerOverride[]): TransformedPayload => {
+  // Maps a point of the unpolished payload into the polished one: p' = origin + (p - pivot) * scale
+  type PointMap = { pivotX: number, pivotY: number, originX: number, originY: number, scale: number };
+  const IDENTITY: PointMap = { pivotX: 0, pivotY: 0, originX: 0, originY: 0, scale: 1 };
+  const mapX = (m: PointMap, x: number) => m.originX + (x - m.pivotX) * m.scale;
+  const mapY = (m: PointMap, y: number) => m.originY + (y - m.pivotY) * m.scale;
+
+  const deepUpdate = (layers: TransformedLayer[], parent: PointMap): TransformedLayer[] => {
+    return layers.map(layer => {
+      const override = overrides.find(o => o.layerId === layer.id);
+      const scaleMult = override ? override.individualScale || 1 : 1;
+      const inheritedX = mapX(parent, layer.coords.x);
+      const inheritedY = mapY(parent, layer.coords.y);
+      const newX = inheritedX + (override?.xOffset || 0);
+      const newY = inheritedY + (override?.yOffset || 0);
+      const totalScale = parent.scale * scaleMult;
+
+      // Children follow: the parent's mapping, then this layer's move and scale around its new top-left
+      const childMap: PointMap = override
+        ? { pivotX: layer.coords.x, pivotY: layer.coords.y, originX: newX, originY: newY, scale: totalScale }
+        : parent;
+
+      if (!override && parent === IDENTITY) {
+        return layer.children ? { ...layer, children: deepUpdate(layer.children, childMap) } : { ...layer };
+      }
+
+      const newLayer: TransformedLayer = {
+        ...layer,
+        coords: {
+          ...layer.coords,
+          x: newX,
+          y: newY,
+          w: layer.coords.w * totalScale,
+          h: layer.coords.h * totalScale
+        },
+        transform: {
+          ...layer.transform,
+          scaleX: layer.transform.scaleX * totalScale,
+          scaleY: layer.transform.scaleY * totalScale,
+          offsetX: newX,
+          offsetY: newY,
+          rotation: (layer.transform.rotation || 0) + (override?.rotation || 0)
+        }
+      };
+
+      if (layer.text && totalScale !== 1) {
+        newLayer.text = scaleTextData(layer.text, totalScale, totalScale);
+      }
+
+      if (layer.children) {
+        newLayer.children = deepUpdate(layer.children, childMap);
+      }
+
+      return newLayer;
+    });
+  };
+
+  return {
+    ...payload,
+    layers: deepUpdate(payload.layers, IDENTITY),
+    isPolished: true
+  };
+};
+
+/**
+ * Resolves the payload a Reviewer instance broadcasts on its 'polished-out' handle.
+ * Passes through (unpolished) until an audit has produced a ReviewerStrategy.
+ */
+export const polishPayload = (payload: TransformedPayload, reviewerStrategy: ReviewerStrategy | null): TransformedPayload => {
+  if (!reviewerStrategy) return { ...payload, isPolished: false };
+  return applyOverridesToPayload(payload, reviewerStrategy.overrides);
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ResolverMatchRule, SerializableLayer } from '../types';
+import { compileMatchRule, resolveLayer, validateMatchRule } from './resolverService';
+
+const layer = (name: string, children?: SerializableLayer[]): SerializableLayer => ({
+  id: name,
+  name,
+  type: children ? 'group' : 'layer',
+  isVisible: true,
+  opacity: 1,
+  coords: { x: 0, y: 0, w: 10, h: 10 },
+  ...(children ? { children } : {})
+});
+
+const rule = (kind: ResolverMatchRule['kind'], pattern: string, container = '*'): ResolverMatchRule =>
+  ({ id: `${kind}-${pattern}`, kind, container, pattern });
+
+const DESIGN: SerializableLayer[] = [
+  layer('Background', [layer('fill')]),
+  layer('Content', [
+    layer('Symbols', [layer('star'), layer('moon', [layer('crescent')])]),
+    layer('SYMBOLS_v2', [layer('sun')]),
+    layer('Logo', [])
+  ])
+];
+
+describe('resolveLayer', () => {
+  it('finds nested groups by exact name and counts their leaves', () => {
+    const result = resolveLayer('!!Symbols', DESIGN);
+
+    expect(result).toMatchObject({ status: 'RESOLVED', totalCount: 2, match: { rule: 'exact', layerName: 'Symbols' } });
+  });
+
+  it('falls back to a case-insensitive match with a warning', () => {
+    expect(resolveLayer('SYMBOLS', DESIGN)).toMatchObject({ status: 'CASE_MISMATCH', layer: { name: 'Symbols' } });
+  });
+
+  it('flags groups without leaves', () => {
+    expect(resolveLayer('LOGO', DESIGN)).toMatchObject({ status: 'EMPTY_GROUP', totalCount: 0 });
+  });
+
+  it('tries configured rules in order when no group carries the container name', () => {
+    const rules = [rule('alias', 'Decor', 'OTHER'), rule('glob', '{name}S_v*'), rule('alias', 'Content')];
+
+    expect(resolveLayer('SYMBOL', DESIGN, rules)).toMatchObject({
+      status: 'PATTERN_MATCH',
+      match: { rule: 'glob', pattern: 'SYMBOLS_v*', layerName: 'SYMBOLS_v2' }
+    });
+    expect(resolveLayer('Text', DESIGN, rules)).toMatchObject({ status: 'ALIAS_MATCH', layer: { name: 'Content' } });
+  });
+
+  it('skips disabled rules and reports missing groups', () => {
+    const disabled = { ...rule('alias', 'Content'), enabled: false };
+
+    expect(resolveLayer('Text', DESIGN, [disabled])).toMatchObject({ status: 'MISSING_DESIGN_GROUP', layer: null });
+  });
+
+  it('waits for layer data and a connected container', () => {
+    expect(resolveLayer('Symbols', null).status).toBe('DATA_LOCKED');
+    expect(resolveLayer('!!', DESIGN).status).toBe('NO_NAME');
+  });
+});
+
+describe('compileMatchRule', () => {
+  it('anchors aliases and globs but not regex patterns', () => {
+    expect(compileMatchRule(rule('alias', 'Logo (old)'), 'LOGO').test('logo (old)')).toBe(true);
+    expect(compileMatchRule(rule('glob', '{name}?'), 'A.B').test('A.B1')).toBe(true);
+    expect(compileMatchRule(rule('glob', '{name}?'), 'A.B').test('AxB1')).toBe(false);
+    expect(compileMatchRule(rule('regex', 'final'), 'LOGO').test('logo_final_v3')).toBe(true);
+  });
+
+  it('honours case sensitivity', () => {
+    const strict = { ...rule('alias', 'Logo'), caseSensitive: true };
+
+    expect(compileMatchRule(strict, 'LOGO').test('logo')).toBe(false);
+  });
+});
+
+describe('validateMatchRule', () => {
+  it('explains unusable rules', () => {
+    expect(validateMatchRule(rule('alias', 'Logo'))).toBeNull();
+    expect(validateMatchRule(rule('alias', '  '))).toBe('Pattern is empty.');
+    expect(validateMatchRule(rule('alias', 'Logo', ''))).toMatch(/^Container is empty/);
+    expect(validateMatchRule(rule('regex', '(unclosed'))).toMatch(/^Invalid regex/);
+  });
+});
@@ -0,0 +1,316 @@
+import { SerializableLayer, ContainerContext, MappingContext, ResolverMatchRule, ResolverMatchRuleKind } from '../types';
+
+export type ResolverStatus = 
+  | 'RESOLVED' 
+  | 'CASE_MISMATCH' 
+  | 'ALIAS_MATCH'
+  | 'PATTERN_MATCH'
+  | 'MISSING_DESIGN_GROUP' 
+  | 'EMPTY_GROUP' 
+  | 'DATA_LOCKED' 
+  | 'NO_NAME'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * Which step of the matching chain found the layer.
+ */
+export interface ResolverMatch {
+  rule: 'exact' | 'case-insensitive' | ResolverMatchRuleKind;
+  ruleId?: string; // Set for configured rules
+  pattern?: string; // Rule pattern with `{name}` expanded
+  layerName: string;
+}
+
+export interface ResolverResult {
+  layer: SerializableLayer | null;
+  status: ResolverStatus;
+  message: string;
+  totalCount?: number; // Recursive count of visible/leaf layers
+  match?: ResolverMatch;
+}
+
+// Helper: Deep recursive search for a layer by name predicate
+// Returns the first match found in the tree (pre-order traversal)
+const findLayerDeep = (tree: SerializableLayer[], isMatch: (layerName: string) => boolean): SerializableLayer | null => {
+  for (const layer of tree) {
+    if (isMatch(layer.name || '')) {
+      return layer;
+    }
+
+    // Recursive Step
+    if (layer.children && layer.children.length > 0) {
+      const foundInChildren = findLayerDeep(layer.children, isMatch);
+      if (foundInChildren) {
+        return foundInChildren;
+      }
+    }
+  }
+  return null;
+};
+
+// Helper: Recursively count leaf layers (pixels/generative)
+// Groups sum their children; Layers return 1.
+const getRecursiveLeafCount = (layer: SerializableLayer): number => {
+  // Base case: If it's not a group, it's a content layer (1)
+  if (layer.type !== 'group') {
+    return 1;
+  }
+  
+  // If it is a group but has no children, it's empty (0)
+  if (!layer.children || layer.children.length === 0) {
+    return 0;
+  }
+
+  // Recursive case: Sum of children's leaf counts
+  return layer.children.reduce((sum, child) => sum + getRecursiveLeafCount(child), 0);
+};
+
+// --- HELPER: Matching Rules ---
+const NAME_TOKEN = '{name}';
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const globToRegex = (glob: string): string =>
+  glob.split('').map(char => char === '*' ? '.*' : char === '?' ? '.' : escapeRegex(char)).join('');
+
+/**
+ * Compiles a rule into a layer-name matcher for one container.
+ * Aliases and globs match the whole layer name; regex patterns are unanchored (use ^ and $ as needed).
+ * `{name}` expands to the container name (escaped, so it always matches literally).
+ *
+ * @throws SyntaxError for an invalid regex pattern.
+ */
+export const compileMatchRule = (rule: ResolverMatchRule, containerName: string): RegExp => {
+  const flags = rule.caseSensitive ? '' : 'i';
+  const parts = rule.pattern.trim().split(NAME_TOKEN);
+  const name = escapeRegex(containerName);
+
+  switch (rule.kind) {
+    case 'alias':
+      return new RegExp(`^${parts.map(escapeRegex).join(name)}$`, flags);
+    case 'glob':
+      return new RegExp(`^${parts.map(globToRegex).join(name)}$`, flags);
+    case 'regex':
+      return new RegExp(parts.join(name), flags);
+  }
+};
+
+/**
+ * Returns why a rule cannot be used (null when it is valid). Invalid rules are skipped during resolution.
+ */
+export const validateMatchRule = (rule: ResolverMatchRule): string | null => {
+  if (!rule.pattern.trim()) return 'Pattern is empty.';
+  if (!rule.container.trim()) return "Container is empty (use '*' for every container).";
+  try {
+    compileMatchRule(rule, 'NAME');
+    return null;
+  } catch (err: any) {
+    return `Invalid regex: ${err?.message || 'syntax error'}`;
+  }
+};
+
+const ruleAppliesTo = (rule: ResolverMatchRule, containerName: string): boolean => {
+  if (rule.enabled === false) return false;
+  const container = rule.container.replace(/^!+/, '').trim();
+  return container === '*' || container.toLowerCase() === containerName.toLowerCase();
+};
+
+/**
+ * Short label for the channel UI, e.g. 'exact', 'alias "Symbole"', 'glob "SYMBOLS_v*"'.
+ */
+export const describeResolverMatch = (match: ResolverMatch): string =>
+  match.pattern !== undefined ? `${match.rule} "${match.pattern}"` : match.rule;
+
+/**
+ * Resolves a template container name to a matching group in the design layer tree with diagnostic feedback.
+ * 
+ * Encapsulates the logic for:
+ * 1. Stripping procedural prefixes (e.g., '!!SYMBOLS' -> 'SYMBOLS')
+ * 2. Strict & Case-insensitive matching using DEEP RECURSION
+ * 3. Configured matching rules (aliases, regex, globs) as ordered fallbacks
+ * 4. Hierarchy/Content validation using RECURSIVE LEAF COUNTING
+ * 
+ * @param templateName The name of the container/template (e.g. "!!SYMBOLS" or "SYMBOLS").
+ * @param designTree The array of SerializableLayers from the PSD.
+ * @param rules The Resolver node's matching rules, tried in order when no layer carries the container's name.
+ * @returns ResolverResult object containing the layer (if found), status code, message, deep count and the matching step.
+ */
+export const resolveLayer = (templateName: string, designTree: SerializableLayer[] | null, rules: ResolverMatchRule[] = []): ResolverResult => {
+  // Check if design data is available (Rule 2: Data Locked)
+  if (!designTree) {
+    return { 
+      status: 'DATA_LOCKED', 
+      layer: null, 
+      message: 'Waiting for layer data...',
+      totalCount: 0
+    };
+  }
+
+  if (!templateName) {
+    return { 
+      status: 'NO_NAME', 
+      layer: null, 
+      message: 'No container connected',
+      totalCount: 0
+    };
+  }
+
+  // 1. Strip procedural prefixes (Rule 1: Stripping)
+  const cleanTargetName = templateName.replace(/^!+/, '').trim();
+  
+  if (!cleanTargetName) {
+    return { 
+      status: 'NO_NAME', 
+      layer: null, 
+      message: 'Invalid name',
+      totalCount: 0
+    };
+  }
+
+  // 2. Strict Deep Search (Priority 1)
+  const strictMatch = findLayerDeep(designTree, layerName => layerName === cleanTargetName);
+  
+  if (strictMatch) {
+     const totalCount = getRecursiveLeafCount(strictMatch);
+     const match: ResolverMatch = { rule: 'exact', layerName: strictMatch.name };
+
+     // Content Validation (Rule: Recursive Empty Check)
+     if (totalCount === 0) {
+         return { 
+           status: 'EMPTY_GROUP', 
+           layer: strictMatch, 
+           message: 'Group is empty',
+           totalCount: 0,
+           match
+         };
+     }
+     return { 
+       status: 'RESOLVED', 
+       layer: strictMatch, 
+       message: `${totalCount} Layers Found`,
+       totalCount: totalCount,
+       match
+     };
+  }
+
+  // 3. Loose Deep Search (Priority 2 - Fallback)
+  const looseMatch = findLayerDeep(designTree, layerName => layerName.toLowerCase() === cleanTargetName.toLowerCase());
+  
+  if (looseMatch) {
+     const totalCount = getRecursiveLeafCount(looseMatch);
+     const match: ResolverMatch = { rule: 'case-insensitive', layerName: looseMatch.name };
+
+     if (totalCount === 0) {
+         return { 
+           status: 'EMPTY_GROUP', 
+           layer: looseMatch, 
+           message: 'Empty (Case Mismatch)',
+           totalCount: 0,
+           match
+         };
+     }
+     return { 
+       status: 'CASE_MISMATCH', 
+       layer: looseMatch, 
+       message: `Warning: Case Mismatch (${totalCount} Layers)`,
+       totalCount: totalCount,
+       match
+     };
+  }
+
+  // 4. Configured Rules (Priority 3 - ordered fallbacks, first match wins)
+  for (const rule of rules) {
+    if (!ruleAppliesTo(rule, cleanTargetName)) continue;
+
+    let matcher: RegExp;
+    try {
+      matcher = compileMatchRule(rule, cleanTargetName);
+    } catch {
+      continue; // Invalid regex: surfaced by validateMatchRule in the node UI
+    }
+
+    const ruleMatch = findLayerDeep(designTree, layerName => matcher.test(layerName));
+    if (!ruleMatch) continue;
+
+    const totalCount = getRecursiveLeafCount(ruleMatch);
+    const match: ResolverMatch = {
+      rule: rule.kind,
+      ruleId: rule.id,
+      pattern: rule.pattern.trim().split(NAME_TOKEN).join(cleanTargetName),
+      layerName: ruleMatch.name
+    };
+
+    if (totalCount === 0) {
+      return {
+        status: 'EMPTY_GROUP',
+        layer: ruleMatch,
+        message: `Empty ("${ruleMatch.name}" via ${rule.kind})`,
+        totalCount: 0,
+        match
+      };
+    }
+    return {
+      status: rule.kind === 'alias' ? 'ALIAS_MATCH' : 'PATTERN_MATCH',
+      layer: ruleMatch,
+      message: `"${ruleMatch.name}" (${totalCount} Layers)`,
+      totalCount: totalCount,
+      match
+    };
+  }
+
+  // 5. No match found
+  return { 
+    status: 'MISSING_DESIGN_GROUP', 
+    layer: null, 
+    message: `No group named "${cleanTargetName}"`,
+    totalCount: 0
+  };
+};
+
+/**
+ * Walks input edges upstream from a node until it reaches a Load PSD node.
+ * A Resolver channel is wired to a Template Splitter, which is in turn fed by a Load PSD node,
+ * so the first Load PSD found breadth-first is the binary that channel's layers belong to.
+ *
+ * @param startNodeId Node to start from (e.g. the source of a Resolver channel edge).
+ * @returns The Load PSD node ID, or null when the chain is not connected to one.
+ */
+export const findPsdSourceNodeId = (
+  startNodeId: string,
+  nodes: { id: string; type?: string }[],
+  edges: { source: string; target: string }[]
+): string | null => {
+  const visited = new Set<string>();
+  const queue = [startNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const node = nodes.find(n => n.id === nodeId);
+    if (node?.type === 'loadPsd') return nodeId;
+
+    edges.forEach(e => {
+      if (e.target === nodeId && !visited.has(e.source)) queue.push(e.source);
+    });
+  }
+  return null;
+};
+
+/**
+ * Builds the MappingContext broadcast on a resolver output handle.
+ * Returns null when no design group was found for the container.
+ *
+ * @param sourceNodeId Load PSD node holding the binary for the resolved layers.
+ */
+export const buildMappingContext = (container: ContainerContext, result: ResolverResult, sourceNodeId: string): MappingContext | null => {
+  if (!result.layer) return null;
+  return {
+    sourceNodeId,
+    container,
+    layers: result.layer.children || [],
+    status: 'resolved',
+    message: result.message
+  };
+};
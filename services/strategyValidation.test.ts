@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { SerializableLayer } from '../types';
+import {
+  STRATEGY_LIMITS,
+  StrategyValidationError,
+  collectLayerIds,
+  parseModelJson,
+  validateLayoutStrategy,
+  validateReviewerStrategy
+} from './strategyValidation';
+
+const layer = (id: string, children?: SerializableLayer[]): SerializableLayer =>
+  ({ id, name: id, type: children ? 'group' : 'layer', isVisible: true, opacity: 1, coords: { x: 0, y: 0, w: 10, h: 10 }, children });
+
+const LAYER_IDS = collectLayerIds([layer('0', [layer('0.0'), layer('0.1')]), layer('1')]);
+
+const layoutJson = {
+  reasoning: 'Fit the hero',
+  method: 'GEOMETRIC',
+  suggestedScale: 1.2,
+  anchor: 'CENTER',
+  generativePrompt: '',
+  clearance: false,
+  knowledgeApplied: false,
+  safetyReport: { allowedBleed: false, violationCount: 0 },
+  overrides: []
+};
+
+const catchError = (fn: () => unknown): StrategyValidationError => {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof StrategyValidationError) return e;
+    throw e;
+  }
+  throw new Error('Expected a StrategyValidationError');
+};
+
+describe('parseModelJson', () => {
+  it('accepts bare, fenced and prose-wrapped JSON', () => {
+    expect(parseModelJson('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseModelJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseModelJson('Here is the strategy:\n```json\n{"a": {"b": 2}}\n```\nLet me know.')).toEqual({ a: { b: 2 } });
+    expect(parseModelJson('')).toEqual({});
+  });
+
+  it('throws MALFORMED_JSON when no object can be recovered', () => {
+    expect(catchError(() => parseModelJson('I could not decide on a layout.')).code).toBe('MALFORMED_JSON');
+    expect(catchError(() => parseModelJson('{"a": 1,')).code).toBe('MALFORMED_JSON');
+  });
+});
+
+describe('collectLayerIds', () => {
+  it('walks nested groups', () => {
+    expect([...LAYER_IDS]).toEqual(['0', '0.0', '0.1', '1']);
+  });
+});
+
+describe('validateLayoutStrategy', () => {
+  it('passes a well-formed strategy through without diagnostics', () => {
+    const { strategy, diagnostics } = validateLayoutStrategy(layoutJson, LAYER_IDS, 1);
+
+    expect(diagnostics).toEqual([]);
+    expect(strategy).toMatchObject({ method: 'GEOMETRIC', suggestedScale: 1.2, anchor: 'CENTER', diagnostics: [] });
+  });
+
+  it('clamps out-of-range scales to STRATEGY_LIMITS', () => {
+    const { strategy, diagnostics } = validateLayoutStrategy({
+      ...layoutJson,
+      suggestedScale: 50,
+      overrides: [
+        { layerId: '0.0', xOffset: 0, yOffset: 0, individualScale: 0.001, rotation: 720 },
+        { layerId: '0.1', xOffset: 0, yOffset: 0, individualScale: 99 }
+      ]
+    }, LAYER_IDS, 1);
+
+    expect(strategy.suggestedScale).toBe(STRATEGY_LIMITS.maxScale);
+    expect(strategy.overrides![0]).toMatchObject({ individualScale: STRATEGY_LIMITS.minLayerScale, rotation: STRATEGY_LIMITS.maxRotation });
+    expect(strategy.overrides![1].individualScale).toBe(STRATEGY_LIMITS.maxLayerScale);
+    expect(diagnostics.map(d => [d.field, d.code, d.action])).toEqual([
+      ['suggestedScale', 'OUT_OF_RANGE', 'clamped'],
+      ['overrides[0].individualScale', 'OUT_OF_RANGE', 'clamped'],
+      ['overrides[0].rotation', 'OUT_OF_RANGE', 'clamped'],
+      ['overrides[1].individualScale', 'OUT_OF_RANGE', 'clamped']
+    ]);
+  });
+
+  it('defaults unusable values and normalizes enums', () => {
+    const { strategy, diagnostics } = validateLayoutStrategy(
+      { ...layoutJson, suggestedScale: -2, anchor: 'bottom', method: 'MAGIC' },
+      LAYER_IDS,
+      0.75
+    );
+
+    expect(strategy).toMatchObject({ suggestedScale: 0.75, anchor: 'BOTTOM', method: 'GEOMETRIC' });
+    expect(diagnostics.map(d => [d.field, d.code, d.action])).toEqual([
+      ['method', 'INVALID_ENUM', 'defaulted'],
+      ['suggestedScale', 'OUT_OF_RANGE', 'defaulted']
+    ]);
+  });
+
+  it('drops overrides for unknown or duplicate layer IDs', () => {
+    const { strategy, diagnostics } = validateLayoutStrategy({
+      ...layoutJson,
+      overrides: [
+        { layerId: '0.1', xOffset: 5, yOffset: 0, individualScale: 1 },
+        { layerId: '7.3', xOffset: 0, yOffset: 0, individualScale: 1 },
+        { layerId: '0.1', xOffset: 9, yOffset: 9, individualScale: 1 },
+        { xOffset: 1 }
+      ]
+    }, LAYER_IDS, 1);
+
+    expect(strategy.overrides).toEqual([{ layerId: '0.1', xOffset: 5, yOffset: 0, individualScale: 1 }]);
+    expect(diagnostics.map(d => [d.field, d.code, d.action])).toEqual([
+      ['overrides[1].layerId', 'UNKNOWN_LAYER', 'dropped'],
+      ['overrides[2].layerId', 'DUPLICATE_LAYER', 'dropped'],
+      ['overrides[3]', 'INVALID_TYPE', 'dropped']
+    ]);
+  });
+
+  it('throws NOT_AN_OBJECT for non-object payloads', () => {
+    expect(catchError(() => validateLayoutStrategy([layoutJson], LAYER_IDS, 1)).code).toBe('NOT_AN_OBJECT');
+    expect(catchError(() => validateLayoutStrategy(null, LAYER_IDS, 1)).code).toBe('NOT_AN_OBJECT');
+  });
+});
+
+describe('validateReviewerStrategy', () => {
+  it('repairs the audit text and filters overrides against the payload', () => {
+    const { strategy, diagnostics } = validateReviewerStrategy({
+      overrides: [
+        { layerId: '1', xOffset: 'left', yOffset: 4, individualScale: 1 },
+        { layerId: 'ghost', xOffset: 0, yOffset: 0, individualScale: 1 }
+      ]
+    }, LAYER_IDS);
+
+    expect(strategy).toEqual({
+      CARO_Audit: '',
+      overrides: [{ layerId: '1', xOffset: 0, yOffset: 4, individualScale: 1 }],
+      diagnostics
+    });
+    expect(diagnostics.map(d => [d.field, d.code, d.action])).toEqual([
+      ['CARO_Audit', 'MISSING_FIELD', 'defaulted'],
+      ['overrides[0].xOffset', 'INVALID_TYPE', 'defaulted'],
+      ['overrides[1].layerId', 'UNKNOWN_LAYER', 'dropped']
+    ]);
+  });
+
+  it('throws NOT_AN_OBJECT for non-object payloads', () => {
+    expect(catchError(() => validateReviewerStrategy('looks fine', LAYER_IDS)).code).toBe('NOT_AN_OBJECT');
+  });
+});
@@ -0,0 +1,271 @@
+import { LayerOverride, LayoutStrategy, ReviewerStrategy, SerializableLayer, StrategyDiagnostic, StrategyIssueCode } from '../types';
+
+// Sanity bounds for model-supplied geometry. Values outside are clamped, not rejected.
+export const STRATEGY_LIMITS = {
+  minScale: 0.01,
+  maxScale: 10,
+  minLayerScale: 0.05,
+  maxLayerScale: 10,
+  maxRotation: 180,
+};
+
+const METHODS = ['GEOMETRIC', 'GENERATIVE', 'HYBRID'] as const;
+const ANCHORS = ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'] as const;
+
+/**
+ * Raised when model output cannot be repaired into a strategy at all
+ * (unparseable JSON or a non-object payload). Field-level problems never throw; they are repaired
+ * and reported as diagnostics instead.
+ */
+export class StrategyValidationError extends Error {
+  code: StrategyIssueCode;
+
+  constructor(code: StrategyIssueCode, message: string) {
+    super(message);
+    this.name = 'StrategyValidationError';
+    this.code = code;
+  }
+}
+
+export interface ValidationResult<T> {
+  strategy: T;
+  diagnostics: StrategyDiagnostic[];
+}
+
+type Record_ = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record_ =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// --- HELPER: Diagnostic Collector ---
+const createCollector = () => {
+  const diagnostics: StrategyDiagnostic[] = [];
+  const report = (field: string, code: StrategyIssueCode, action: StrategyDiagnostic['action'], message: string) => {
+    diagnostics.push({ field, code, action, message });
+  };
+  return { diagnostics, report };
+};
+
+type Report = ReturnType<typeof createCollector>['report'];
+
+const readString = (source: Record_, field: string, fallback: string, report: Report): string => {
+  const value = source[field];
+  if (typeof value === 'string') return value;
+  report(field, value === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'defaulted', `Expected text, using "${fallback}".`);
+  return fallback;
+};
+
+const readBoolean = (source: Record_, field: string, fallback: boolean, report: Report): boolean => {
+  const value = source[field];
+  if (typeof value === 'boolean') return value;
+  report(field, value === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'defaulted', `Expected true/false, using ${fallback}.`);
+  return fallback;
+};
+
+const readEnum = <E extends string>(source: Record_, field: string, allowed: readonly E[], fallback: E, report: Report): E => {
+  const value = source[field];
+  if (typeof value === 'string') {
+    const normalized = value.trim().toUpperCase() as E;
+    if (allowed.includes(normalized)) return normalized;
+  }
+  report(
+    field,
+    value === undefined ? 'MISSING_FIELD' : 'INVALID_ENUM',
+    'defaulted',
+    `${value === undefined ? 'Missing' : `"${String(value)}" is not one of ${allowed.join('/')}`}, using ${fallback}.`
+  );
+  return fallback;
+};
+
+/**
+ * Reads a positive scale factor, falling back when missing/non-finite/non-positive and clamping to [min, max].
+ */
+const readScale = (source: Record_, field: string, fallback: number, min: number, max: number, report: Report): number => {
+  const value = source[field];
+  if (!isFiniteNumber(value) || value <= 0) {
+    report(field, value === undefined ? 'MISSING_FIELD' : 'OUT_OF_RANGE', 'defaulted', `Scale must be a positive number, using ${fallback}.`);
+    return fallback;
+  }
+  if (value < min || value > max) {
+    const clamped = Math.min(max, Math.max(min, value));
+    report(field, 'OUT_OF_RANGE', 'clamped', `Scale ${value} outside ${min}–${max}, clamped to ${clamped}.`);
+    return clamped;
+  }
+  return value;
+};
+
+/**
+ * Collects every deterministic layer ID in a tree (Remapper override targets).
+ */
+export const collectLayerIds = (layers: SerializableLayer[], ids: Set<string> = new Set()): Set<string> => {
+  layers.forEach(layer => {
+    ids.add(layer.id);
+    if (layer.children) collectLayerIds(layer.children, ids);
+  });
+  return ids;
+};
+
+/**
+ * Validates the override list shared by both strategy kinds.
+ * Unknown or duplicate layer IDs are dropped; numeric fields are defaulted or clamped.
+ */
+const validateOverrides = (raw: unknown, layerIds: Set<string>, report: Report): LayerOverride[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    report('overrides', 'INVALID_TYPE', 'defaulted', 'Expected a list of overrides, ignoring.');
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const overrides: LayerOverride[] = [];
+
+  raw.forEach((item, index) => {
+    const path = `overrides[${index}]`;
+    if (!isObject(item) || typeof item.layerId !== 'string') {
+      report(path, 'INVALID_TYPE', 'dropped', 'Override without a layerId was dropped.');
+      return;
+    }
+    if (!layerIds.has(item.layerId)) {
+      report(`${path}.layerId`, 'UNKNOWN_LAYER', 'dropped', `Layer "${item.layerId}" does not exist in the layer tree.`);
+      return;
+    }
+    if (seen.has(item.layerId)) {
+      report(`${path}.layerId`, 'DUPLICATE_LAYER', 'dropped', `Layer "${item.layerId}" already has an override.`);
+      return;
+    }
+    seen.add(item.layerId);
+
+    const readOffset = (field: 'xOffset' | 'yOffset'): number => {
+      const value = item[field];
+      if (isFiniteNumber(value)) return value;
+      report(`${path}.${field}`, value === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'defaulted', 'Offset must be a number, using 0.');
+      return 0;
+    };
+
+    const override: LayerOverride = {
+      layerId: item.layerId,
+      xOffset: readOffset('xOffset'),
+      yOffset: readOffset('yOffset'),
+      individualScale: readScale(item, 'individualScale', 1, STRATEGY_LIMITS.minLayerScale, STRATEGY_LIMITS.maxLayerScale, (field, ...rest) => report(`${path}.${field}`, ...rest)),
+    };
+
+    if (item.rotation !== undefined) {
+      if (isFiniteNumber(item.rotation)) {
+        const limit = STRATEGY_LIMITS.maxRotation;
+        override.rotation = Math.min(limit, Math.max(-limit, item.rotation));
+        if (override.rotation !== item.rotation) {
+          report(`${path}.rotation`, 'OUT_OF_RANGE', 'clamped', `Rotation ${item.rotation}° clamped to ${override.rotation}°.`);
+        }
+      } else {
+        report(`${path}.rotation`, 'INVALID_TYPE', 'dropped', 'Rotation must be a number, ignoring.');
+      }
+    }
+    if (typeof item.citedRule === 'string') override.citedRule = item.citedRule;
+    if (item.anchorIndex !== undefined) {
+      if (Number.isInteger(item.anchorIndex) && (item.anchorIndex as number) >= 0) {
+        override.anchorIndex = item.anchorIndex as number;
+      } else {
+        report(`${path}.anchorIndex`, 'OUT_OF_RANGE', 'dropped', 'Anchor index must be a non-negative integer, ignoring.');
+      }
+    }
+
+    overrides.push(override);
+  });
+
+  return overrides;
+};
+
+const asObject = (raw: unknown): Record_ => {
+  if (!isObject(raw)) {
+    throw new StrategyValidationError('NOT_AN_OBJECT', 'Model response is not a JSON object.');
+  }
+  return raw;
+};
+
+/**
+ * Parses model text into JSON, tolerating markdown code fences or prose around the payload.
+ * @throws StrategyValidationError ('MALFORMED_JSON') when the text cannot be parsed.
+ */
+export const parseModelJson = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(trimmed || '{}');
+  } catch (e: any) {
+    // Fall back to the outermost object when the model wrapped it in commentary
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // Report the original error below
+      }
+    }
+    throw new StrategyValidationError('MALFORMED_JSON', `Model response is not valid JSON: ${e.message}`);
+  }
+};
+
+/**
+ * Validates and repairs a Design Analyst LayoutStrategy.
+ *
+ * @param raw Parsed model output.
+ * @param layerIds Layer IDs of the source container (override targets).
+ * @param fallbackScale Scale used when 'suggestedScale' is unusable (typically the geometric fit).
+ * @throws StrategyValidationError if the payload is not an object.
+ */
+export const validateLayoutStrategy = (raw: unknown, layerIds: Set<string>, fallbackScale: number): ValidationResult<LayoutStrategy> => {
+  const source = asObject(raw);
+  const { diagnostics, report } = createCollector();
+
+  const method = readEnum(source, 'method', METHODS, 'GEOMETRIC', report);
+  let generativePrompt = readString(source, 'generativePrompt', '', report);
+  if (method === 'GEOMETRIC' && generativePrompt) {
+    report('generativePrompt', 'OUT_OF_RANGE', 'dropped', "GEOMETRIC strategies cannot carry a generative prompt, cleared.");
+    generativePrompt = '';
+  }
+
+  const strategy: LayoutStrategy = {
+    reasoning: readString(source, 'reasoning', '', report),
+    method,
+    suggestedScale: readScale(source, 'suggestedScale', fallbackScale, STRATEGY_LIMITS.minScale, STRATEGY_LIMITS.maxScale, report),
+    anchor: readEnum(source, 'anchor', ANCHORS, 'CENTER', report),
+    generativePrompt,
+    clearance: readBoolean(source, 'clearance', false, report),
+    knowledgeApplied: readBoolean(source, 'knowledgeApplied', false, report),
+    overrides: validateOverrides(source.overrides, layerIds, report),
+  };
+
+  const safety = source.safetyReport;
+  if (isObject(safety) && typeof safety.allowedBleed === 'boolean' && Number.isInteger(safety.violationCount) && (safety.violationCount as number) >= 0) {
+    strategy.safetyReport = { allowedBleed: safety.allowedBleed, violationCount: safety.violationCount as number };
+  } else {
+    report('safetyReport', safety === undefined ? 'MISSING_FIELD' : 'INVALID_TYPE', 'defaulted', 'Safety report unreadable, assuming no violations.');
+    strategy.safetyReport = { allowedBleed: false, violationCount: 0 };
+  }
+
+  strategy.diagnostics = diagnostics;
+  return { strategy, diagnostics };
+};
+
+/**
+ * Validates and repairs a Design Reviewer (CARO) ReviewerStrategy.
+ *
+ * @param raw Parsed model output.
+ * @param layerIds Layer IDs of the payload under review.
+ * @throws StrategyValidationError if the payload is not an object.
+ */
+export const validateReviewerStrategy = (raw: unknown, layerIds: Set<string>): ValidationResult<ReviewerStrategy> => {
+  const source = asObject(raw);
+  const { diagnostics, report } = createCollector();
+
+  const strategy: ReviewerStrategy = {
+    CARO_Audit: readString(source, 'CARO_Audit', '', report),
+    overrides: validateOverrides(source.overrides, layerIds, report),
+  };
+
+  strategy.diagnostics = diagnostics;
+  return { strategy, diagnostics };
+};
@@ -0,0 +1,158 @@
+import { Layer, Psd } from 'ag-psd';
+import { ContainerDefinition, TemplateMetadata } from '../types';
+import { formatContainerName, formatZoneName } from './psdService';
+import { CanvasAdapter, browserCanvasAdapter } from './exportService';
+
+/**
+ * Template Editor.
+ * Pure edit operations behind the in-app template editor. Every operation returns a new
+ * TemplateMetadata with whole-pixel bounds clamped to the canvas, recomputed normalized
+ * coordinates and re-indexed container ids, so the result can be registered as-is.
+ */
+
+type Rect = { x: number, y: number, w: number, h: number };
+
+export const MIN_CONTAINER_SIZE = 4;
+
+// --- HELPER: Geometry ---
+const clampRect = (rect: Rect, canvas: TemplateMetadata['canvas']): Rect => {
+  const x = Math.min(Math.max(0, Math.round(rect.x)), canvas.width - MIN_CONTAINER_SIZE);
+  const y = Math.min(Math.max(0, Math.round(rect.y)), canvas.height - MIN_CONTAINER_SIZE);
+  return {
+    x,
+    y,
+    w: Math.min(Math.max(MIN_CONTAINER_SIZE, Math.round(rect.w)), canvas.width - x),
+    h: Math.min(Math.max(MIN_CONTAINER_SIZE, Math.round(rect.h)), canvas.height - y)
+  };
+};
+
+// Ids follow extractTemplateMetadata's `container-<index>-<name>` scheme
+const finalize = (template: TemplateMetadata, containers: ContainerDefinition[]): TemplateMetadata => ({
+  canvas: template.canvas,
+  containers: containers.map((container, index) => ({
+    ...container,
+    id: `container-${index}-${container.name.replace(/\s+/g, '_')}`,
+    normalized: {
+      x: container.bounds.x / template.canvas.width,
+      y: container.bounds.y / template.canvas.height,
+      w: container.bounds.w / template.canvas.width,
+      h: container.bounds.h / template.canvas.height
+    }
+  }))
+});
+
+/**
+ * Returns why `name` cannot be used for a container (null when it can).
+ * Slots are addressed by name, so names must be unique and free of the tag syntax.
+ */
+export const validateContainerName = (template: TemplateMetadata, name: string, currentName?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Name cannot be empty.';
+  if (/[\[\]]/.test(trimmed)) return 'Name cannot contain brackets (reserved for constraint tags).';
+  if (trimmed.startsWith('!!')) return "Leave out the '!!' prefix; it is added on export.";
+  if (trimmed !== currentName && template.containers.some(c => c.name === trimmed)) return `A container named '${trimmed}' already exists.`;
+  return null;
+};
+
+/**
+ * First free name of the form `BASE`, `BASE_2`, `BASE_3`...
+ */
+export const nextContainerName = (template: TemplateMetadata, base = 'CONTAINER'): string => {
+  const taken = new Set(template.containers.map(c => c.name));
+  if (!taken.has(base)) return base;
+  let suffix = 2;
+  while (taken.has(`${base}_${suffix}`)) suffix++;
+  return `${base}_${suffix}`;
+};
+
+/**
+ * Appends a new top-level container.
+ */
+export const addContainer = (template: TemplateMetadata, rect: Rect, name = nextContainerName(template)): TemplateMetadata =>
+  finalize(template, [
+    ...template.containers,
+    { id: '', name, originalName: `!!${name}`, bounds: clampRect(rect, template.canvas), normalized: { x: 0, y: 0, w: 0, h: 0 } }
+  ]);
+
+/**
+ * Moves or resizes a container. Zones keep their canvas position.
+ */
+export const updateContainerBounds = (template: TemplateMetadata, name: string, rect: Rect): TemplateMetadata =>
+  finalize(template, template.containers.map(c => c.name === name ? { ...c, bounds: clampRect(rect, template.canvas) } : c));
+
+/**
+ * Renames a container and every reference to it (sub-container parents, zone owners).
+ * Callers validate the new name with `validateContainerName` first.
+ */
+export const renameContainer = (template: TemplateMetadata, name: string, nextName: string): TemplateMetadata => {
+  const trimmed = nextName.trim();
+  return finalize(template, template.containers.map(c => ({
+    ...c,
+    ...(c.name === name ? { name: trimmed, originalName: formatContainerName(trimmed, c.constraints) } : {}),
+    ...(c.parentName === name ? { parentName: trimmed } : {}),
+    ...(c.zones ? { zones: c.zones.map(zone => zone.container === name ? { ...zone, container: trimmed } : zone) } : {})
+  })));
+};
+
+/**
+ * Deletes a container. Its sub-containers move up to its parent; the zones it declared are
+ * removed from every container that inherited them.
+ */
+export const deleteContainer = (template: TemplateMetadata, name: string): TemplateMetadata => {
+  const removed = template.containers.find(c => c.name === name);
+  if (!removed) return template;
+
+  return finalize(template, template.containers.filter(c => c.name !== name).map(c => {
+    const { parentName, zones, ...rest } = c;
+    const nextParent = parentName === name ? removed.parentName : parentName;
+    const nextZones = zones?.filter(zone => zone.container !== name);
+    return {
+      ...rest,
+      ...(nextParent ? { parentName: nextParent } : {}),
+      ...(nextZones && nextZones.length > 0 ? { zones: nextZones } : {})
+    };
+  }));
+};
+
+// --- HELPER: PSD Layers ---
+const FRAME_COLOR = 'rgba(16, 185, 129, 0.25)';
+const ZONE_COLORS = { safe: 'rgba(56, 189, 248, 0.2)', keepout: 'rgba(239, 68, 68, 0.25)' };
+
+const createFilledLayer = (name: string, rect: Rect, color: string, adapter: CanvasAdapter): Layer => {
+  const canvas = adapter.createCanvas(Math.max(1, rect.w), Math.max(1, rect.h));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return { name, top: rect.y, left: rect.x, bottom: rect.y + rect.h, right: rect.x + rect.w, canvas };
+};
+
+/**
+ * Builds a PSD holding the template as a `!!TEMPLATE` group that `extractTemplateMetadata` reads back
+ * to the same containers: one `!!NAME [tags]` group per container with a filled frame layer, its own
+ * zone layers and its sub-container groups.
+ */
+export const buildTemplatePsd = (template: TemplateMetadata, adapter: CanvasAdapter = browserCanvasAdapter): Psd => {
+  const buildGroup = (container: ContainerDefinition): Layer => ({
+    name: formatContainerName(container.name, container.constraints),
+    opened: true,
+    children: [
+      createFilledLayer('Frame', container.bounds, FRAME_COLOR, adapter),
+      ...(container.zones || [])
+        .filter(zone => zone.container === container.name)
+        .map(zone => createFilledLayer(formatZoneName(zone.name, zone.kind), zone.bounds, ZONE_COLORS[zone.kind], adapter)),
+      ...template.containers.filter(c => c.parentName === container.name).map(buildGroup)
+    ]
+  });
+
+  return {
+    width: template.canvas.width,
+    height: template.canvas.height,
+    children: [{
+      name: '!!TEMPLATE',
+      opened: true,
+      children: template.containers.filter(c => !c.parentName).map(buildGroup)
+    }]
+  };
+};
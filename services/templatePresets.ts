@@ -0,0 +1,121 @@
+import { ContainerSpec, TemplateSpec } from './templateSpecService';
+
+/**
+ * Template Spec Presets.
+ * Common delivery sizes with a starter layout (BG with safe zone, LOGO, HEADLINE, CTA) chosen by
+ * aspect ratio. Container names are a starting point: rename them to match the source design groups.
+ *
+ * To add a size: append an entry to the relevant PRESET_SIZES category.
+ */
+
+export interface TemplatePreset {
+  id: string;
+  category: string;
+  label: string;
+  spec: TemplateSpec;
+}
+
+interface PresetSize {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+  layout?: 'default' | 'story' | 'screenshot';
+}
+
+const PRESET_SIZES: Record<string, PresetSize[]> = {
+  'IAB Ad Sizes': [
+    { id: 'iab-medium-rectangle', label: 'Medium Rectangle', width: 300, height: 250 },
+    { id: 'iab-leaderboard', label: 'Leaderboard', width: 728, height: 90 },
+    { id: 'iab-mobile-leaderboard', label: 'Mobile Leaderboard', width: 320, height: 50 },
+    { id: 'iab-billboard', label: 'Billboard', width: 970, height: 250 },
+    { id: 'iab-half-page', label: 'Half Page', width: 300, height: 600 },
+    { id: 'iab-wide-skyscraper', label: 'Wide Skyscraper', width: 160, height: 600 },
+    { id: 'iab-large-rectangle', label: 'Large Rectangle', width: 336, height: 280 }
+  ],
+  'Social': [
+    { id: 'social-square-post', label: 'Square Post', width: 1080, height: 1080 },
+    { id: 'social-portrait-post', label: 'Portrait Post (4:5)', width: 1080, height: 1350 },
+    { id: 'social-story', label: 'Story / Reel', width: 1080, height: 1920, layout: 'story' },
+    { id: 'social-link-post', label: 'Link Post', width: 1200, height: 628 },
+    { id: 'social-landscape-video', label: 'Landscape Video / Thumbnail', width: 1280, height: 720 }
+  ],
+  'App Store Screenshots': [
+    { id: 'appstore-iphone-69', label: 'iPhone 6.9"', width: 1320, height: 2868, layout: 'screenshot' },
+    { id: 'appstore-iphone-65', label: 'iPhone 6.5"', width: 1284, height: 2778, layout: 'screenshot' },
+    { id: 'appstore-ipad-13', label: 'iPad 13"', width: 2064, height: 2752, layout: 'screenshot' },
+    { id: 'googleplay-phone', label: 'Google Play Phone', width: 1080, height: 1920, layout: 'screenshot' }
+  ]
+};
+
+// --- HELPER: Starter Layouts (percentages of the canvas) ---
+const rect = (x: number, y: number, w: number, h: number) => ({ x: `${x}%`, y: `${y}%`, w: `${w}%`, h: `${h}%` });
+
+const background = (children: ContainerSpec[], safe = rect(5, 5, 90, 90)): ContainerSpec => ({
+  name: 'BG',
+  bounds: rect(0, 0, 100, 100),
+  zones: [{ name: 'SAFE', kind: 'safe', bounds: safe }],
+  children
+});
+
+const buildLayout = (size: PresetSize): ContainerSpec[] => {
+  const ratio = size.width / size.height;
+
+  if (size.layout === 'screenshot') {
+    return [background([
+      { name: 'HEADLINE', bounds: rect(8, 4, 84, 14), constraints: { anchor: 'center' } },
+      { name: 'SCREEN', bounds: rect(10, 22, 80, 74), constraints: { lockAspect: true, anchor: 'bottom' } }
+    ], rect(4, 2, 92, 96))];
+  }
+  if (size.layout === 'story') {
+    // Top and bottom bands are covered by the platform UI
+    return [background([
+      { name: 'LOGO', bounds: rect(30, 16, 40, 8), constraints: { lockAspect: true, maxScale: 1 } },
+      { name: 'HEADLINE', bounds: rect(8, 28, 84, 30) },
+      { name: 'CTA', bounds: rect(15, 66, 70, 9), constraints: { lockAspect: true } }
+    ], rect(6, 14, 88, 66))];
+  }
+  if (ratio >= 2.5) {
+    // Banners: logo, message and CTA side by side
+    return [background([
+      { name: 'LOGO', bounds: rect(2, 15, 18, 70), constraints: { lockAspect: true, maxScale: 1, anchor: 'left' } },
+      { name: 'HEADLINE', bounds: rect(22, 10, 52, 80) },
+      { name: 'CTA', bounds: rect(76, 22, 22, 56), constraints: { lockAspect: true, anchor: 'right' } }
+    ], rect(1, 6, 98, 88))];
+  }
+  if (ratio >= 1.2) {
+    return [background([
+      { name: 'LOGO', bounds: rect(5, 6, 25, 15), constraints: { lockAspect: true, maxScale: 1, anchor: 'top-left' } },
+      { name: 'HEADLINE', bounds: rect(5, 26, 60, 40) },
+      { name: 'CTA', bounds: rect(5, 72, 35, 18), constraints: { lockAspect: true, anchor: 'bottom-left' } }
+    ])];
+  }
+  if (ratio >= 0.8) {
+    return [background([
+      { name: 'LOGO', bounds: rect(5, 5, 30, 12), constraints: { lockAspect: true, maxScale: 1, anchor: 'top-left' } },
+      { name: 'HEADLINE', bounds: rect(5, 22, 90, 38) },
+      { name: 'CTA', bounds: rect(25, 75, 50, 15), constraints: { lockAspect: true, anchor: 'bottom' } }
+    ])];
+  }
+  return [background([
+    { name: 'LOGO', bounds: rect(20, 4, 60, 10), constraints: { lockAspect: true, maxScale: 1, anchor: 'top' } },
+    { name: 'HEADLINE', bounds: rect(8, 18, 84, 40) },
+    { name: 'CTA', bounds: rect(12, 80, 76, 10), constraints: { lockAspect: true, anchor: 'bottom' } }
+  ], rect(4, 3, 92, 94))];
+};
+
+export const TEMPLATE_PRESETS: TemplatePreset[] = Object.entries(PRESET_SIZES).flatMap(([category, sizes]) =>
+  sizes.map(size => ({
+    id: size.id,
+    category,
+    label: `${size.label} (${size.width}x${size.height})`,
+    spec: {
+      name: size.label,
+      canvas: { width: size.width, height: size.height },
+      containers: buildLayout(size)
+    }
+  }))
+);
+
+export const findTemplatePreset = (presetId: string | null | undefined): TemplatePreset | null =>
+  TEMPLATE_PRESETS.find(preset => preset.id === presetId) || null;
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { compileTemplateSpec, parseTemplateSpec, serializeTemplateSpec, templateToSpec, TemplateSpecError } from './templateSpecService';
+
+const BANNER_YAML = `
+name: Banner
+canvas: { width: 728, height: 90 }
+containers:
+  - name: HERO
+    bounds: { x: 0, y: 0, w: "50%", h: "100%" }
+    constraints: { anchor: top-left, padding: 4 }
+    zones:
+      - { name: SAFE, kind: safe, bounds: { x: 10, y: 10, w: 300, h: 70 } }
+    children:
+      - name: BADGE
+        bounds: { x: 20, y: 20, w: 40, h: 40 }
+  - name: CTA
+    bounds: { x: 600, y: 20, w: 100, h: 50 }
+`;
+
+describe('compileTemplateSpec', () => {
+  it('resolves percentages and lists nested containers after their parent', () => {
+    const template = compileTemplateSpec(BANNER_YAML, 'yaml');
+
+    expect(template.canvas).toEqual({ width: 728, height: 90 });
+    expect(template.containers.map(c => [c.name, c.parentName, c.bounds])).toEqual([
+      ['HERO', undefined, { x: 0, y: 0, w: 364, h: 90 }],
+      ['BADGE', 'HERO', { x: 20, y: 20, w: 40, h: 40 }],
+      ['CTA', undefined, { x: 600, y: 20, w: 100, h: 50 }]
+    ]);
+    expect(template.containers[0].constraints).toEqual({ anchor: 'top-left', padding: 4 });
+    // Zones are inherited by sub-containers
+    expect(template.containers[1].zones).toEqual([{ name: 'SAFE', kind: 'safe', container: 'HERO', bounds: { x: 10, y: 10, w: 300, h: 70 } }]);
+  });
+
+  it('reports one issue per schema violation', () => {
+    const spec = JSON.stringify({ canvas: { width: 0, height: 90 }, containers: [{ name: 'A[x]', bounds: { x: 0, y: 0, w: '10px', h: 1 } }] });
+
+    try {
+      compileTemplateSpec(spec, 'json');
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(TemplateSpecError);
+      expect((err as TemplateSpecError).issues.map(issue => issue.split(':')[0])).toEqual([
+        'canvas.width',
+        'containers.0.name',
+        'containers.0.bounds.w'
+      ]);
+    }
+  });
+
+  it('rejects syntax errors before validating', () => {
+    expect(() => parseTemplateSpec('{ "canvas": ', 'json')).toThrow(/^Invalid JSON/);
+  });
+});
+
+describe('serializeTemplateSpec', () => {
+  it('round-trips a spec through both formats', () => {
+    const spec = parseTemplateSpec(BANNER_YAML, 'yaml');
+
+    (['json', 'yaml'] as const).forEach(format => {
+      expect(parseTemplateSpec(serializeTemplateSpec(spec, format), format)).toEqual(spec);
+    });
+  });
+});
+
+describe('templateToSpec', () => {
+  it('round-trips a compiled template through both formats', () => {
+    const template = compileTemplateSpec(BANNER_YAML, 'yaml');
+    const spec = templateToSpec(template, 'Banner');
+
+    (['json', 'yaml'] as const).forEach(format => {
+      expect(compileTemplateSpec(serializeTemplateSpec(spec, format), format)).toEqual(template);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { ContainerAnchor, ContainerDefinition, ContainerZone, TemplateMetadata, TemplateSpecSource } from '../types';
+import { CONTAINER_ANCHORS, formatContainerName } from './psdService';
+
+/**
+ * Template Specs.
+ * A JSON or YAML description of a target layout that yields the same TemplateMetadata as a
+ * `!!TEMPLATE` PSD, so new sizes can be added without Photoshop:
+ *
+ *   name: Medium Rectangle
+ *   canvas: { width: 300, height: 250 }
+ *   containers:
+ *     - name: BG
+ *       bounds: { x: 0, y: 0, w: 100%, h: 100% }
+ *       zones:
+ *         - { name: SAFE, kind: safe, bounds: { x: 5%, y: 5%, w: 90%, h: 90% } }
+ *       children:
+ *         - name: CTA
+ *           bounds: { x: 60%, y: 70%, w: 35%, h: 20% }
+ *           constraints: { anchor: bottom-right, lockAspect: true }
+ *
+ * Lengths are pixels or percentages of the canvas axis ("50%"). Children are nested containers
+ * and inherit their ancestors' zones, exactly like nested container groups in a PSD template.
+ */
+
+export type TemplateSpecFormat = TemplateSpecSource['format'];
+
+/**
+ * Raised when a spec cannot be parsed or does not match the schema.
+ * `issues` lists one readable entry per violation.
+ */
+export class TemplateSpecError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = 'TemplateSpecError';
+    this.issues = issues;
+  }
+}
+
+// --- SCHEMA ---
+const lengthSchema = z.union([
+  z.number(),
+  z.string().regex(/^-?\d+(\.\d+)?%$/, 'expected pixels or a percentage like "50%"')
+]);
+
+const rectSchema = z.strictObject({ x: lengthSchema, y: lengthSchema, w: lengthSchema, h: lengthSchema });
+
+const constraintsSchema = z.strictObject({
+  anchor: z.enum(CONTAINER_ANCHORS as [ContainerAnchor, ...ContainerAnchor[]]).optional(),
+  minScale: z.number().positive().optional(),
+  maxScale: z.number().positive().optional(),
+  lockAspect: z.boolean().optional(),
+  padding: z.number().nonnegative().optional()
+}).refine(
+  c => c.minScale === undefined || c.maxScale === undefined || c.minScale <= c.maxScale,
+  { message: 'minScale exceeds maxScale' }
+);
+
+const zoneSchema = z.strictObject({
+  name: z.string().min(1),
+  kind: z.enum(['safe', 'keepout']),
+  bounds: rectSchema
+});
+
+export interface ContainerSpec {
+  name: string;
+  bounds: z.infer<typeof rectSchema>;
+  constraints?: z.infer<typeof constraintsSchema>;
+  zones?: z.infer<typeof zoneSchema>[];
+  children?: ContainerSpec[];
+}
+
+const containerSchema: z.ZodType<ContainerSpec> = z.lazy(() => z.strictObject({
+  name: z.string().min(1).regex(/^[^\[\]]+$/, 'container names cannot contain brackets'),
+  bounds: rectSchema,
+  constraints: constraintsSchema.optional(),
+  zones: z.array(zoneSchema).optional(),
+  children: z.array(containerSchema).optional()
+}));
+
+export const templateSpecSchema = z.strictObject({
+  name: z.string().optional(),
+  canvas: z.strictObject({ width: z.number().int().positive(), height: z.number().int().positive() }),
+  containers: z.array(containerSchema).min(1, 'at least one container is required')
+});
+
+export type TemplateSpec = z.infer<typeof templateSpecSchema>;
+
+// --- HELPER: Lengths ---
+// Rounded to whole pixels: bounds become layer coordinates on export
+const resolveLength = (value: number | string, axis: number): number =>
+  Math.round(typeof value === 'number' ? value : (parseFloat(value) / 100) * axis);
+
+const resolveRect = (rect: ContainerSpec['bounds'], canvas: TemplateSpec['canvas']) => ({
+  x: resolveLength(rect.x, canvas.width),
+  y: resolveLength(rect.y, canvas.height),
+  w: resolveLength(rect.w, canvas.width),
+  h: resolveLength(rect.h, canvas.height)
+});
+
+/**
+ * Parses spec text and validates it against `templateSpecSchema`.
+ * @throws TemplateSpecError for syntax errors or schema violations.
+ */
+export const parseTemplateSpec = (text: string, format: TemplateSpecFormat): TemplateSpec => {
+  let raw: unknown;
+  try {
+    raw = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err: any) {
+    throw new TemplateSpecError(`Invalid ${format.toUpperCase()}: ${err?.message || 'syntax error'}`);
+  }
+
+  const parsed = templateSpecSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.map(String).join('.') || 'spec'}: ${issue.message}`);
+    throw new TemplateSpecError(`Template spec does not match the schema (${issues.length} issue${issues.length === 1 ? '' : 's'}).`, issues);
+  }
+  return parsed.data;
+};
+
+/**
+ * Builds TemplateMetadata from a validated spec.
+ * Containers are listed pre-order (parents before children), mirroring `extractTemplateMetadata`.
+ * @throws TemplateSpecError when two containers share a name (slots are addressed by name).
+ */
+export const buildTemplateFromSpec = (spec: TemplateSpec): TemplateMetadata => {
+  const { canvas } = spec;
+  const containers: ContainerDefinition[] = [];
+
+  const readContainer = (container: ContainerSpec, parentName: string | undefined, inheritedZones: ContainerZone[]) => {
+    const name = container.name.trim();
+    if (containers.some(c => c.name === name)) {
+      throw new TemplateSpecError(`Container '${name}' is declared more than once.`);
+    }
+
+    const bounds = resolveRect(container.bounds, canvas);
+    const zones: ContainerZone[] = [
+      ...inheritedZones,
+      ...(container.zones || []).map(zone => ({ name: zone.name, kind: zone.kind, container: name, bounds: resolveRect(zone.bounds, canvas) }))
+    ];
+
+    containers.push({
+      id: `container-${containers.length}-${name.replace(/\s+/g, '_')}`,
+      name,
+      originalName: formatContainerName(name, container.constraints),
+      ...(container.constraints && Object.keys(container.constraints).length > 0 ? { constraints: container.constraints } : {}),
+      ...(parentName ? { parentName } : {}),
+      ...(zones.length > 0 ? { zones } : {}),
+      bounds,
+      normalized: {
+        x: bounds.x / canvas.width,
+        y: bounds.y / canvas.height,
+        w: bounds.w / canvas.width,
+        h: bounds.h / canvas.height
+      }
+    });
+
+    container.children?.forEach(child => readContainer(child, name, zones));
+  };
+
+  spec.containers.forEach(container => readContainer(container, undefined, []));
+
+  return { canvas: { width: canvas.width, height: canvas.height }, containers };
+};
+
+/**
+ * Parses and builds in one step (Template Spec node and the headless pipeline).
+ */
+export const compileTemplateSpec = (text: string, format: TemplateSpecFormat): TemplateMetadata =>
+  buildTemplateFromSpec(parseTemplateSpec(text, format));
+
+/**
+ * Inverse of `buildTemplateFromSpec` in pixels: nests containers by parentName and declares each
+ * zone on the container that owns it (template editor -> Template Spec node).
+ */
+export const templateToSpec = (template: TemplateMetadata, name?: string): TemplateSpec => {
+  const toSpec = (container: ContainerDefinition): ContainerSpec => {
+    const zones = (container.zones || []).filter(zone => zone.container === container.name);
+    const children = template.containers.filter(c => c.parentName === container.name);
+    return {
+      name: container.name,
+      bounds: { ...container.bounds },
+      ...(container.constraints ? { constraints: container.constraints } : {}),
+      ...(zones.length > 0 ? { zones: zones.map(zone => ({ name: zone.name, kind: zone.kind, bounds: { ...zone.bounds } })) } : {}),
+      ...(children.length > 0 ? { children: children.map(toSpec) } : {})
+    };
+  };
+
+  return {
+    ...(name ? { name } : {}),
+    canvas: { width: template.canvas.width, height: template.canvas.height },
+    containers: template.containers.filter(c => !c.parentName).map(toSpec)
+  };
+};
+
+export const serializeTemplateSpec = (spec: TemplateSpec, format: TemplateSpecFormat): string =>
+  format === 'json' ? JSON.stringify(spec, null, 2) : stringifyYaml(spec, { flowCollectionPadding: true });
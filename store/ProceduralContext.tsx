@@ -8,6 +8,9 @@ interface ProceduralState {
   
   // Maps NodeID -> Lightweight Template Metadata
   templateRegistry: Record<string, TemplateMetadata>;
+
+  // Maps NodeID -> Original PSD file bytes (packaged into project bundles on save)
+  sourceFileRegistry: Record<string, Blob>;
   
   // Maps NodeID -> HandleID -> Resolved Context (Layers + Bounds)
   resolvedRegistry: Record<string, Record<string, MappingContext>>;
@@ -32,6 +35,7 @@ interface ProceduralState {
 interface ProceduralContextType extends ProceduralState {
   registerPsd: (nodeId: string, psd: Psd) => void;
   registerTemplate: (nodeId: string, template: TemplateMetadata) => void;
+  registerSourceFile: (nodeId: string, file: Blob) => void;
   registerResolved: (nodeId: string, handleId: string, context: MappingContext) => void;
   registerPayload: (nodeId: string, handleId: string, payload: TransformedPayload, masterOverride?: boolean) => void;
   registerReviewerPayload: (nodeId: string, handleId: string, payload: TransformedPayload) => void;
@@ -141,6 +145,7 @@ const reconcileTerminalState = (
 export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [psdRegistry, setPsdRegistry] = useState<Record<string, Psd>>({});
   const [templateRegistry, setTemplateRegistry] = useState<Record<string, TemplateMetadata>>({});
+  const [sourceFileRegistry, setSourceFileRegistry] = useState<Record<string, Blob>>({});
   const [resolvedRegistry, setResolvedRegistry] = useState<Record<string, Record<string, MappingContext>>>({});
   const [payloadRegistry, setPayloadRegistry] = useState<Record<string, Record<string, TransformedPayload>>>({});
   const [reviewerRegistry, setReviewerRegistry] = useState<Record<string, Record<string, TransformedPayload>>>({});
@@ -160,6 +165,10 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     });
   }, []);
 
+  const registerSourceFile = useCallback((nodeId: string, file: Blob) => {
+    setSourceFileRegistry(prev => prev[nodeId] === file ? prev : { ...prev, [nodeId]: file });
+  }, []);
+
   const registerResolved = useCallback((nodeId: string, handleId: string, context: MappingContext) => {
     // SANITATION LOGIC (Ghost Flushing)
     let sanitizedContext = context;
@@ -351,6 +360,7 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
   const unregisterNode = useCallback((nodeId: string) => {
     setPsdRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setTemplateRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
+    setSourceFileRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setResolvedRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setPayloadRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
     setReviewerRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
@@ -376,6 +386,7 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
   const value = useMemo(() => ({
     psdRegistry,
     templateRegistry,
+    sourceFileRegistry,
     resolvedRegistry,
     payloadRegistry,
     reviewerRegistry,
@@ -384,6 +395,7 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     globalVersion,
     registerPsd,
     registerTemplate,
+    registerSourceFile,
     registerResolved,
     registerPayload,
     registerReviewerPayload,
@@ -394,8 +406,8 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     unregisterNode,
     triggerGlobalRefresh
   }), [
-    psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, analysisRegistry, knowledgeRegistry, globalVersion,
-    registerPsd, registerTemplate, registerResolved, registerPayload, registerReviewerPayload, updatePayload, registerAnalysis, registerKnowledge, updatePreview,
+    psdRegistry, templateRegistry, sourceFileRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, analysisRegistry, knowledgeRegistry, globalVersion,
+    registerPsd, registerTemplate, registerSourceFile, registerResolved, registerPayload, registerReviewerPayload, updatePayload, registerAnalysis, registerKnowledge, updatePreview,
     unregisterNode, triggerGlobalRefresh
   ]);
 
@@ -2,11 +2,51 @@ import { Psd } from 'ag-psd';
 import { Node, Edge } from 'reactflow';
 
 export const MAX_BOUNDARY_VIOLATION_PERCENT = 0.03;
+// Layers covering this share of a container count as backdrops (exempt from safe/keep-out zones)
+export const BACKDROP_COVERAGE_RATIO = 0.95;
+
+export type ContainerAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/**
+ * Hard layout limits declared inline on a template container layer,
+ * e.g. `!!LOGO [anchor=top-right, minScale=0.5, maxScale=1, lockAspect, padding=24]`.
+ */
+export interface ContainerConstraints {
+  anchor?: ContainerAnchor; // Where the scaled content block sits inside the container
+  minScale?: number;
+  maxScale?: number;
+  lockAspect?: boolean; // Forbids non-uniform scaling (STRETCH collapses to uniform fit)
+  padding?: number; // Inset in px applied to every side of the container
+}
+
+export type ContainerZoneKind = 'safe' | 'keepout';
+
+/**
+ * Placement zone declared inside a container group (`SAFE`, `KEEPOUT`, or `[zone=safe|keepout]`).
+ * Safe zones bound where content may be placed; keep-out zones must stay clear of content.
+ */
+export interface ContainerZone {
+  name: string;
+  kind: ContainerZoneKind;
+  container: string; // Container that declared the zone (nested containers inherit ancestor zones)
+  bounds: {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+  };
+}
 
 export interface ContainerDefinition {
   id: string;
   name: string;
-  originalName: string;
+  originalName: string; // Raw layer name including '!!' prefix and tag block
+  constraints?: ContainerConstraints;
+  parentName?: string; // Enclosing container when nested inside another container group
+  zones?: ContainerZone[]; // Own and inherited safe/keep-out zones
   bounds: {
     x: number;
     y: number;
@@ -58,10 +98,49 @@ export interface ContainerContext {
   };
 }
 
+/**
+ * Editable type metadata extracted from a PSD text layer.
+ * Sizes are effective document pixels (the layer's text transform is already applied).
+ */
+export interface TextLayerData {
+  content: string;
+  fontName: string; // PostScript name (e.g. 'ArialMT')
+  fontSize: number;
+  leading?: number; // Absent when auto-leading is on
+  color?: { r: number; g: number; b: number };
+  alignment: 'left' | 'center' | 'right' | 'justify';
+  boxType: 'point' | 'box'; // Point text grows with content; box (paragraph) text re-flows inside 'box'
+  box?: { w: number; h: number };
+}
+
+// Per-layer pinning inside a remapped container (CSS-like, relative to the placement area).
+// Each axis pins to one edge, the center or both edges (stretch); unpinned axes follow the
+// container's scale and anchor. Margins to the pinned edges scale with the container.
+export type LayerPinX = 'left' | 'right' | 'center' | 'stretch';
+export type LayerPinY = 'top' | 'bottom' | 'center' | 'stretch';
+
+export interface LayerPin {
+  x?: LayerPinX;
+  y?: LayerPinY;
+  fixedSize?: boolean; // Keep the source pixel size instead of scaling with the container (stretched axes excepted)
+}
+
+// Nine-slice insets in source pixels. When a pixel layer is scaled, the corners keep the uniform part of
+// the scale, the edges stretch along one axis and the center absorbs the rest (buttons, frames, panels).
+export interface NineSliceInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
 export interface SerializableLayer {
   id: string;
   name: string;
-  type: 'layer' | 'group' | 'generative';
+  type: 'layer' | 'group' | 'generative' | 'text';
+  text?: TextLayerData; // Present when type === 'text'
+  pin?: LayerPin; // From a `[pin=bottom-right, fixed]` name tag
+  nineSlice?: NineSliceInsets; // From a `[slice=12]` name tag (remapped layers carry the effective insets)
   children?: SerializableLayer[];
   isVisible: boolean;
   opacity: number;
@@ -85,6 +164,23 @@ export interface LayerOverride {
   anchorIndex?: number; // Phase 4: Visual anchor reference index
 }
 
+export type StrategyIssueCode =
+  | 'MALFORMED_JSON'
+  | 'NOT_AN_OBJECT'
+  | 'MISSING_FIELD'
+  | 'INVALID_TYPE'
+  | 'INVALID_ENUM'
+  | 'OUT_OF_RANGE'
+  | 'UNKNOWN_LAYER'
+  | 'DUPLICATE_LAYER';
+
+export interface StrategyDiagnostic {
+  field: string; // Path of the offending field (e.g. 'overrides[2].individualScale')
+  code: StrategyIssueCode;
+  action: 'defaulted' | 'clamped' | 'dropped';
+  message: string;
+}
+
 export interface LayoutStrategy {
   method?: 'GEOMETRIC' | 'GENERATIVE' | 'HYBRID';
   suggestedScale: number;
@@ -104,11 +200,14 @@ export interface LayoutStrategy {
   sourceReference?: string; // Base64 pixel data of the source container
   knowledgeApplied?: boolean; // Flag indicating if Knowledge/Rules influenced the decision
   knowledgeMuted?: boolean; // Audit flag: Was knowledge explicitly ignored during this generation?
+  diagnostics?: StrategyDiagnostic[]; // Repairs applied while validating the model output
+  solved?: boolean; // Computed by the local layout solver (no model call)
 }
 
 export interface ReviewerStrategy {
     CARO_Audit: string; // Technical log for the Reviewer Node
     overrides: LayerOverride[]; // Restricted geometric overrides
+    diagnostics?: StrategyDiagnostic[]; // Repairs applied while validating the model output
 }
 
 export interface TransformedLayer extends SerializableLayer {
@@ -123,7 +222,21 @@ export interface TransformedLayer extends SerializableLayer {
   generativePrompt?: string;
 }
 
+// Container Resolver matching rules, evaluated in order after exact and case-insensitive name matching.
+// Patterns may use `{name}` for the container name (e.g. glob `{name}_v*`, `{name} copy*`).
+export type ResolverMatchRuleKind = 'alias' | 'regex' | 'glob';
+
+export interface ResolverMatchRule {
+  id: string;
+  kind: ResolverMatchRuleKind;
+  container: string; // Container name the rule applies to, or '*' for every container
+  pattern: string;
+  caseSensitive?: boolean; // Default false
+  enabled?: boolean; // Default true
+}
+
 export interface MappingContext {
+  sourceNodeId: string; // Load PSD node holding the binary these layers were resolved from
   container: ContainerContext;
   layers: SerializableLayer[] | TransformedLayer[];
   status: 'resolved' | 'empty' | 'transformed';
@@ -140,7 +253,7 @@ export interface MappingContext {
 export interface ValidationIssue {
   layerName: string;
   containerName: string;
-  type: 'PROCEDURAL_VIOLATION';
+  type: 'PROCEDURAL_VIOLATION' | 'SAFE_AREA_VIOLATION' | 'KEEPOUT_VIOLATION';
   message: string;
 }
 
@@ -171,6 +284,7 @@ export interface TransformedPayload {
   metrics: {
     source: { w: number, h: number };
     target: { w: number, h: number };
+    scale?: { x: number, y: number }; // Base geometry scale actually applied per axis (differs under STRETCH)
   };
   requiresGeneration?: boolean;
   previewUrl?: string;
@@ -181,6 +295,40 @@ export interface TransformedPayload {
   generationId?: number; // Timestamp of the specific generation to force React updates
   generationAllowed?: boolean; // New Flag: Per-instance enforcement state
   isPolished?: boolean; // Flag indicating if this payload has been refined by CARO
+  strategy?: RemapStrategy; // Geometry mode used to build the layers (crop/stretch semantics for Export & Reviewer)
+  targetBounds?: { x: number, y: number, w: number, h: number }; // Target container rect in canvas space
+  collisionReport?: CollisionReport; // Deterministic geometry audit attached by the Design Reviewer
+}
+
+// Deterministic collision audit of a remapped payload (see collisionService).
+// 'bbox-overlap' = boxes cross but pixels were not checked or don't touch; 'pixel-overlap' = alpha masks intersect.
+export type CollisionSeverity = 'info' | 'warning' | 'error';
+export type CollisionIssueKind = 'bbox-overlap' | 'pixel-overlap' | 'tangent' | 'bleed' | 'tiny';
+export type CollisionGate = 'off' | 'warning' | 'error'; // Lowest severity that blocks export
+
+export const COLLISION_SEVERITY_RANK: Record<CollisionSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+/**
+ * Whether an issue of `severity` blocks export under `gate`.
+ */
+export const isBlockingSeverity = (severity: CollisionSeverity, gate: CollisionGate): boolean =>
+  gate !== 'off' && COLLISION_SEVERITY_RANK[severity] >= COLLISION_SEVERITY_RANK[gate];
+
+export interface CollisionIssue {
+  kind: CollisionIssueKind;
+  severity: CollisionSeverity;
+  layerIds: string[];
+  layerNames: string[];
+  message: string;
+  rect?: { x: number, y: number, w: number, h: number }; // Offending area in canvas space
+}
+
+export interface CollisionReport {
+  issues: CollisionIssue[];
+  counts: Record<CollisionSeverity, number>;
+  gate: CollisionGate;
+  blocking: boolean; // At least one issue at or above the gate severity
+  pixelChecked: boolean; // Alpha masks were available (otherwise overlaps are box-only)
 }
 
 export interface RemapperConfig {
@@ -191,6 +339,9 @@ export interface RemapperConfig {
 
 export interface InstanceSettings {
   generationAllowed?: boolean;
+  strategy?: RemapStrategy; // Per-Instance geometry mode (falls back to RemapperConfig.strategy)
+  pins?: Record<string, LayerPin>; // Layer ID -> pin set in the UI (wins over name tags; {} unpins)
+  nineSlices?: Record<string, NineSliceInsets>; // Layer ID -> nine-slice insets set in the UI (wins over name tags; all zero disables)
 }
 
 export interface ChatMessage {
@@ -201,16 +352,31 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+// Layout solver rules: a deterministic, offline alternative to AI overrides (Design Analyst 'solver' mode).
+// `target` selects layers by name: case-insensitive, `*` and `?` wildcards ('logo*', '*headline*').
+export type SolverCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type LayoutSolverRule =
+  | { id: string; kind: 'corner'; target: string; corner: SolverCorner; maxDistancePercent: number; enabled?: boolean }
+  | { id: string; kind: 'min-text-height'; target: string; minPx: number; enabled?: boolean }
+  | { id: string; kind: 'distribute'; target: string; axis: 'x' | 'y'; enabled?: boolean }
+  | { id: string; kind: 'avoid-overlap'; target: string; gap: number; enabled?: boolean };
+
+export type LayoutSolverRuleKind = LayoutSolverRule['kind'];
+
 export interface AnalystInstanceState {
   chatHistory: ChatMessage[];
   layoutStrategy: LayoutStrategy | null;
   selectedModel: 'gemini-3-flash' | 'gemini-3-pro' | 'gemini-3-pro-thinking';
   isKnowledgeMuted: boolean; // REQUIRED: Per-instance toggle to ignore global knowledge
+  mode?: 'ai' | 'solver'; // Default 'ai'. Solver instances compute their strategy from solverRules
+  solverRules?: LayoutSolverRule[];
 }
 
 export interface ReviewerInstanceState {
   chatHistory: ChatMessage[];
   reviewerStrategy: ReviewerStrategy | null;
+  collisionGate?: CollisionGate; // Default 'off': the collision report is advisory
 }
 
 export interface PSDNodeData {
@@ -224,11 +390,15 @@ export interface PSDNodeData {
   remapperConfig?: RemapperConfig | null; // For RemapperNode state
   transformedPayload?: TransformedPayload | null; // For RemapperNode output
   knowledgeContext?: KnowledgeContext | null; // For KnowledgeNode state
+  templateSpec?: TemplateSpecSource | null; // For TemplateSpecNode state (template is compiled from it)
+  templateEdited?: boolean; // Template edited in the Template Editor: prefer it over the binary's !!TEMPLATE group
   
   // Dynamic State Persistence
   channelCount?: number;
+  matchRules?: ResolverMatchRule[]; // ContainerResolverNode: ordered layer-matching fallbacks
   instanceCount?: number;
   instanceSettings?: Record<number, InstanceSettings>; // Per-Instance Persistence
+  confirmedGenerations?: Record<number, ConfirmedGeneration>; // Remapper: user-confirmed generative fills
   
   // Multi-Instance Analysis State
   analystInstances?: Record<number, AnalystInstanceState>;
@@ -242,6 +412,24 @@ export interface PSDNodeData {
   error?: string | null;
 }
 
+/**
+ * Text a Template Spec node compiles into its TemplateMetadata.
+ */
+export interface TemplateSpecSource {
+  format: 'json' | 'yaml';
+  source: string;
+  presetId?: string | null; // Preset the text was started from (informational)
+}
+
+/**
+ * A generative fill the user confirmed on a Remapper instance.
+ * Persisted so reopening a packaged project restores the image instead of paying for a new synthesis.
+ */
+export interface ConfirmedGeneration {
+  prompt: string;
+  imageUrl: string; // Data URL (stripped from plain JSON saves, bundled as a file in project packages)
+}
+
 export interface TargetTemplateData {
   fileName: string | null;
   template: TemplateMetadata | null;